@@ -30,6 +30,37 @@ export async function buildCommand(
       validate: true,
     });
 
+    spinner.text = 'Compiling expressions...';
+
+    // Parse every expression now, so syntax errors fail the build and the
+    // runtime never parses them
+    const { createEvaluator, evaluatorOptionsFromLimits, compileSpecExpressions } =
+      await import('@furlow/core/expression');
+    const evaluator = createEvaluator(evaluatorOptionsFromLimits(spec.limits));
+    const { compiled, errors } = compileSpecExpressions(spec, { evaluator });
+
+    if (errors.length > 0) {
+      spinner.fail('Build failed');
+
+      const { indexSourceStrings, findSourceLocation } = await import('@furlow/core/parser');
+      const sources = await indexSourceStrings(files);
+
+      console.log('\n' + chalk.red.bold('  ✗ Expression Errors\n'));
+      errors.forEach((issue, i) => {
+        const location = findSourceLocation(sources, issue.source, issue.path);
+        const where = location
+          ? `${relative(process.cwd(), location.file)}:${location.line}:${location.column}`
+          : issue.path;
+        console.log(chalk.red(`  ${i + 1}. ${where}`));
+        console.log(chalk.dim(`     ${issue.expression}`));
+        console.log(chalk.white(`     ${issue.message}`));
+        console.log('');
+      });
+
+      console.log(chalk.red(`  Found ${errors.length} error(s)\n`));
+      process.exit(1);
+    }
+
     spinner.text = 'Creating output directory...';
 
     // Create output directory
@@ -46,6 +77,8 @@ export async function buildCommand(
       await copyFile(file, destPath);
     }
 
+    await writeFile(join(outputDir, 'expressions.json'), JSON.stringify(compiled));
+
     spinner.text = 'Generating metadata...';
 
     // Generate build info
@@ -56,6 +89,7 @@ export async function buildCommand(
       commands: spec.commands?.length ?? 0,
       events: spec.events?.length ?? 0,
       flows: spec.flows?.length ?? 0,
+      expressions: Object.keys(compiled.expressions).length,
     };
 
     await writeFile(
@@ -142,6 +176,7 @@ CMD ["npm", "start"]
     console.log(chalk.dim(`    Files: ${files.length} YAML files`));
     console.log(chalk.dim(`    Commands: ${buildInfo.commands}`));
     console.log(chalk.dim(`    Events: ${buildInfo.events}`));
+    console.log(chalk.dim(`    Expressions: ${buildInfo.expressions} compiled`));
 
     console.log('\n  To deploy:');
     console.log(chalk.dim(`    cd ${options.output}`));
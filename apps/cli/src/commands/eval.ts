@@ -0,0 +1,286 @@
+/**
+ * Eval and REPL commands - evaluate expressions and templates against a
+ * sample context, with the same evaluator setup the bot uses
+ */
+
+import { existsSync } from 'node:fs';
+import { dirname, resolve, relative } from 'node:path';
+import { createInterface } from 'node:readline';
+import { inspect } from 'node:util';
+import chalk from 'chalk';
+
+interface EvalOptions {
+  fixture?: string;
+  data?: string;
+  json?: boolean;
+}
+
+type Evaluator = Awaited<ReturnType<typeof createPlayground>>['evaluator'];
+
+/** Identifier path at the end of the input, e.g. `member.disp` or `guild.` */
+const TRAILING_PATH = /[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*\.?$|[A-Za-z_$]?$/;
+
+/**
+ * Build an evaluator configured from the spec, and a sample context from
+ * the testing fixtures. Without a spec the built-in functions are still
+ * available.
+ */
+async function createPlayground(path: string | undefined, options: EvalOptions) {
+  const { createEvaluator, evaluatorOptionsFromLimits, registerUserFunctions, registerLookupFunctions } =
+    await import('@furlow/core/expression');
+  const { createContextFixture, contextFixtureNames } = await import('@furlow/testing/fixtures');
+
+  const fixture = options.fixture ?? 'message';
+  if (!contextFixtureNames.includes(fixture as never)) {
+    throw new Error(`Unknown fixture "${fixture}" (expected one of: ${contextFixtureNames.join(', ')})`);
+  }
+
+  const specPath = resolve(path ?? 'furlow.yaml');
+  const hasSpec = path !== undefined || existsSync(specPath);
+  if (!hasSpec) {
+    return {
+      evaluator: createEvaluator(),
+      specPath: undefined,
+      fixtureNames: contextFixtureNames,
+      createContext: (name: string) => createContextFixture(name as never, parseData(options.data)),
+      fixture,
+    };
+  }
+
+  const { loadSpec } = await import('@furlow/core/parser');
+  const { createActionRegistry } = await import('@furlow/core/actions');
+  const { createStateManager } = await import('@furlow/core/state');
+  const { createLocaleManager } = await import('@furlow/core/locale');
+  const { createMemoryAdapter } = await import('@furlow/storage');
+  const { loadPlugins, installPlugins } = await import('@furlow/core/plugins');
+
+  const { spec } = await loadSpec(specPath, { validate: false });
+
+  // State lives in memory so expressions never touch real data
+  const evaluator = createEvaluator(evaluatorOptionsFromLimits(spec.limits));
+  const stateManager = createStateManager(createMemoryAdapter());
+  if (spec.state?.variables) {
+    stateManager.registerVariables(spec.state.variables);
+  }
+  if (spec.state?.tables) {
+    await stateManager.registerTables(spec.state.tables);
+  }
+  // Pipes are left out so pipe() never reaches a real service
+  registerLookupFunctions(evaluator, {
+    stateManager,
+    timezone: spec.state?.timezone,
+  });
+
+  // Formatting functions follow the interaction or guild locale
+  const localeManager = createLocaleManager();
+  if (spec.locale) {
+    localeManager.configure(spec.locale);
+  }
+  evaluator.setLocaleResolver((context) => localeManager.resolve(context));
+
+  if (spec.plugins?.length) {
+    const plugins = await loadPlugins(spec.plugins, { baseDir: dirname(specPath) });
+    installPlugins(plugins, { registry: createActionRegistry(), evaluator, spec });
+  }
+  if (spec.functions) {
+    registerUserFunctions(evaluator, spec.functions, { maxDepth: spec.limits?.function_depth });
+  }
+
+  return {
+    evaluator,
+    specPath,
+    fixtureNames: contextFixtureNames,
+    createContext: (name: string) => createContextFixture(name as never, parseData(options.data)),
+    fixture,
+  };
+}
+
+/**
+ * Parse --data as a JSON object of extra context values
+ */
+function parseData(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  const data = JSON.parse(raw);
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('--data must be a JSON object');
+  }
+  return data;
+}
+
+/**
+ * Evaluate input as a template when it contains `${...}`, otherwise as an
+ * expression
+ */
+async function evaluateInput(
+  evaluator: Evaluator,
+  input: string,
+  context: Record<string, unknown>
+): Promise<unknown> {
+  return input.includes('${')
+    ? evaluator.evaluateTemplate(input, context)
+    : evaluator.evaluate(input, context);
+}
+
+/**
+ * Complete the context path, function or transform name at the end of a
+ * line. Paths are completed by walking the context object.
+ */
+export function completeInput(
+  line: string,
+  context: Record<string, unknown>,
+  functions: string[],
+  transforms: string[]
+): [string[], string] {
+  const token = TRAILING_PATH.exec(line)?.[0] ?? '';
+  const before = line.slice(0, line.length - token.length).trimEnd();
+  const segments = token.split('.');
+  const partial = segments.pop()!;
+
+  let candidates: string[];
+  if (before.endsWith('|') && segments.length === 0) {
+    candidates = transforms;
+  } else {
+    let value: unknown = context;
+    for (const segment of segments) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined;
+    }
+    candidates = value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+      ? Object.keys(value)
+      : [];
+    if (segments.length === 0) {
+      candidates = [...candidates, ...functions];
+    }
+  }
+
+  const prefix = segments.length > 0 ? segments.join('.') + '.' : '';
+  const hits = [...new Set(candidates)]
+    .filter((name) => name.startsWith(partial))
+    .sort()
+    .map((name) => prefix + name);
+  return [hits, token];
+}
+
+/**
+ * Read a dotted path from the context
+ */
+function readPath(context: Record<string, unknown>, path: string): unknown {
+  let value: unknown = context;
+  for (const segment of path.split('.').filter(Boolean)) {
+    value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined;
+  }
+  return value;
+}
+
+function formatValue(value: unknown): string {
+  return inspect(value, { colors: true, depth: 4 });
+}
+
+function formatError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = (error as { code?: unknown })?.code;
+  return chalk.red(typeof code === 'string' ? `${code}: ${message}` : message);
+}
+
+export async function evalCommand(
+  expression: string,
+  path: string | undefined,
+  options: EvalOptions
+): Promise<void> {
+  try {
+    const playground = await createPlayground(path, options);
+    const context = playground.createContext(playground.fixture);
+    const result = await evaluateInput(playground.evaluator, expression, context);
+
+    console.log(options.json ? JSON.stringify(result ?? null, null, 2) : formatValue(result));
+  } catch (error) {
+    console.error(formatError(error));
+    process.exit(1);
+  }
+}
+
+const REPL_HELP = `
+  Enter an expression (e.g. ${chalk.cyan('member.display_name|upper')}) or a template
+  (e.g. ${chalk.cyan('Hi ${user.username}!')}). Tab completes context paths,
+  functions and transforms.
+
+  ${chalk.bold('.context [path]')}         Show the context, or the value at a path
+  ${chalk.bold('.fixture <name>')}         Switch to another sample context
+  ${chalk.bold('.set <name> <expression>')}  Store a result in the context
+  ${chalk.bold('.help')}                   Show this help
+  ${chalk.bold('.exit')}                   Leave the REPL
+`;
+
+export async function replCommand(path: string | undefined, options: EvalOptions): Promise<void> {
+  let playground: Awaited<ReturnType<typeof createPlayground>>;
+  try {
+    playground = await createPlayground(path, options);
+  } catch (error) {
+    console.error(formatError(error));
+    process.exit(1);
+  }
+
+  const { evaluator, fixtureNames } = playground;
+  let fixture = playground.fixture;
+  let context = playground.createContext(fixture);
+
+  console.log(chalk.bold.cyan('\n  FURLOW Expression REPL\n'));
+  console.log(
+    chalk.dim(`  Spec: ${playground.specPath ? relative(process.cwd(), playground.specPath) : 'none (built-ins only)'}`)
+  );
+  console.log(chalk.dim(`  Fixture: ${fixture} (${fixtureNames.join(', ')})`));
+  console.log(chalk.dim('  Type .help for commands\n'));
+
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: chalk.cyan('furlow> '),
+    completer: (line: string) =>
+      completeInput(line, context, evaluator.getFunctionNames(), evaluator.getTransformNames()),
+  });
+
+  rl.prompt();
+  for await (const raw of rl) {
+    const line = raw.trim();
+
+    if (line === '.exit') {
+      break;
+    } else if (line === '.help') {
+      console.log(REPL_HELP);
+    } else if (line === '.context' || line.startsWith('.context ')) {
+      console.log(formatValue(readPath(context, line.slice('.context'.length).trim())));
+    } else if (line.startsWith('.fixture')) {
+      const name = line.slice('.fixture'.length).trim();
+      if (fixtureNames.includes(name as never)) {
+        fixture = name;
+        context = playground.createContext(fixture);
+        console.log(chalk.dim(`  Using the ${fixture} fixture`));
+      } else {
+        console.log(chalk.red(`  Unknown fixture "${name}" (expected one of: ${fixtureNames.join(', ')})`));
+      }
+    } else if (line.startsWith('.set ')) {
+      const [, name, expression] = /^\.set\s+([A-Za-z_$][\w$]*)\s+(.+)$/.exec(line) ?? [];
+      if (!name || !expression) {
+        console.log(chalk.red('  Usage: .set <name> <expression>'));
+      } else {
+        try {
+          context[name] = await evaluateInput(evaluator, expression, context);
+          console.log(formatValue(context[name]));
+        } catch (error) {
+          console.log(formatError(error));
+        }
+      }
+    } else if (line.startsWith('.')) {
+      console.log(chalk.red(`  Unknown command "${line.split(/\s/)[0]}", type .help for commands`));
+    } else if (line) {
+      try {
+        console.log(formatValue(await evaluateInput(evaluator, line, context)));
+      } catch (error) {
+        console.log(formatError(error));
+      }
+    }
+
+    rl.prompt();
+  }
+
+  rl.close();
+}
@@ -0,0 +1,111 @@
+/**
+ * Migrate command - bring the tables in the database in line with the
+ * tables the spec declares
+ */
+
+import { relative, resolve } from 'node:path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { config as loadEnv } from 'dotenv';
+import type { MigrationStep, StorageAdapter } from '@furlow/storage';
+
+interface MigrateOptions {
+  env: string;
+  apply?: boolean;
+  allowDrop?: boolean;
+}
+
+const STEP_MARKERS: Record<MigrationStep['type'], string> = {
+  create_table: chalk.green('+'),
+  add_column: chalk.green('+'),
+  create_index: chalk.green('+'),
+  rename_column: chalk.yellow('~'),
+  drop_index: chalk.red('-'),
+  drop_column: chalk.red('-'),
+};
+
+export async function migrateCommand(
+  path: string | undefined,
+  options: MigrateOptions
+): Promise<void> {
+  const specPath = resolve(path ?? 'furlow.yaml');
+
+  console.log(chalk.bold.cyan('\n  FURLOW Migrate\n'));
+  console.log(chalk.dim(`  File: ${relative(process.cwd(), specPath)}\n`));
+
+  // Connection settings such as DATABASE_URL may come from the .env file
+  loadEnv({ path: resolve(options.env) });
+
+  const spinner = ora('Reading database schema...').start();
+  let storage: StorageAdapter | undefined;
+
+  try {
+    const { loadSpec } = await import('@furlow/core/parser');
+    const { describeStep, isDestructiveStep } = await import('@furlow/storage');
+
+    const { spec } = await loadSpec(specPath, { validate: false });
+    const tables = spec.state?.tables ?? {};
+    const storageConfig = spec.state?.storage;
+
+    if (storageConfig?.type === 'sqlite') {
+      const { createSQLiteAdapter } = await import('@furlow/storage/sqlite');
+      storage = createSQLiteAdapter({ path: storageConfig.path || './furlow.db' });
+    } else if (storageConfig?.type === 'postgres') {
+      const { createPostgresAdapter } = await import('@furlow/storage/postgres');
+      storage = createPostgresAdapter({ url: storageConfig.url ?? process.env.DATABASE_URL });
+    }
+
+    if (storageConfig?.type === 'redis') {
+      spinner.info('Redis storage keeps rows without a fixed schema; nothing to migrate');
+      return;
+    }
+    if (!storage?.planMigration || !storage.applyMigration) {
+      spinner.info('Memory storage keeps no tables between runs; nothing to migrate');
+      return;
+    }
+
+    const plan = await storage.planMigration(tables);
+    spinner.stop();
+
+    for (const warning of plan.warnings) {
+      console.log(chalk.yellow(`  ! ${warning}`));
+    }
+    if (plan.warnings.length > 0) console.log();
+
+    if (plan.steps.length === 0) {
+      console.log(chalk.green(`  ✓ ${Object.keys(tables).length} table(s) match the spec\n`));
+      return;
+    }
+
+    for (const step of plan.steps) {
+      console.log(`  ${STEP_MARKERS[step.type]} ${describeStep(step)}`);
+    }
+    console.log();
+
+    if (!options.apply) {
+      console.log(chalk.dim(`  Run with --apply to apply ${plan.steps.length} step(s)\n`));
+      return;
+    }
+
+    const drops = plan.steps.filter(isDestructiveStep);
+    if (drops.length > 0 && !options.allowDrop) {
+      console.error(chalk.red(`  Error: the plan drops ${drops.length} column(s) and their data`));
+      console.log(chalk.dim('  Rerun with --allow-drop to apply it, or add renamed_from to keep renamed columns\n'));
+      process.exitCode = 1;
+      return;
+    }
+
+    spinner.start('Applying migration...');
+    const records = await storage.applyMigration(plan);
+    spinner.succeed(
+      `Migrated ${records.map((record) => `${record.table} to version ${record.version}`).join(', ')}`
+    );
+    console.log();
+  } catch (error) {
+    spinner.fail('Migration failed');
+    console.error(chalk.red(`\n  ${error instanceof Error ? error.message : String(error)}\n`));
+    process.exitCode = 1;
+  } finally {
+    await storage?.close();
+  }
+}
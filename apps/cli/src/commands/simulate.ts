@@ -0,0 +1,311 @@
+/**
+ * Simulate command - dry-run a command, event or scheduled job
+ */
+
+import { dirname, resolve, relative } from 'node:path';
+import chalk from 'chalk';
+import ora from 'ora';
+import type { Action, CommandDefinition } from '@furlow/schema';
+import type { ActionContext } from '@furlow/core/actions';
+import type { ChannelContext, GuildContext, MemberContext, UserContext } from '@furlow/core/expression';
+
+interface SimulateOptions {
+  command?: string;
+  event?: string;
+  job?: string;
+  option?: string[];
+  data?: string;
+  json?: boolean;
+}
+
+/** Fake IDs used for the simulated user, guild and channel */
+const FAKE_USER_ID = '100000000000000001';
+const FAKE_GUILD_ID = '100000000000000002';
+const FAKE_CHANNEL_ID = '100000000000000003';
+
+/**
+ * Parse a CLI value as JSON, falling back to the raw string
+ */
+function parseValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Parse repeated key=value pairs into an object
+ */
+function parsePairs(pairs: string[] = []): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const pair of pairs) {
+    const index = pair.indexOf('=');
+    if (index === -1) {
+      throw new Error(`Invalid option "${pair}", expected key=value`);
+    }
+    result[pair.slice(0, index)] = parseValue(pair.slice(index + 1));
+  }
+  return result;
+}
+
+/**
+ * Find the actions for a command, optionally addressed as "command subcommand"
+ * or "command group subcommand"
+ */
+function findCommandActions(commands: CommandDefinition[] | undefined, path: string): Action[] {
+  const [name, ...rest] = path.replace(/^\//, '').split(/\s+/);
+  const command = commands?.find((c) => c.name === name);
+  if (!command) {
+    throw new Error(`Command not found: ${name}`);
+  }
+
+  if (rest.length === 0) {
+    return command.actions ?? [];
+  }
+
+  if (rest.length === 1) {
+    const sub = command.subcommands?.find((s) => s.name === rest[0]);
+    if (!sub) {
+      throw new Error(`Subcommand not found: ${path}`);
+    }
+    return sub.actions;
+  }
+
+  const group = command.subcommand_groups?.find((g) => g.name === rest[0]);
+  const sub = group?.subcommands?.find((s) => s.name === rest[1]);
+  if (!sub) {
+    throw new Error(`Subcommand not found: ${path}`);
+  }
+  return sub.actions;
+}
+
+/**
+ * Format a resolved action config as indented key/value lines
+ */
+function formatConfig(config: Record<string, unknown>): string[] {
+  return Object.entries(config).map(([key, value]) => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `${chalk.dim(key + ':')} ${text}`;
+  });
+}
+
+export async function simulateCommand(
+  path: string | undefined,
+  options: SimulateOptions
+): Promise<void> {
+  const specPath = resolve(path ?? 'furlow.yaml');
+  const targets = [options.command, options.event, options.job].filter(Boolean);
+
+  if (targets.length !== 1) {
+    console.error(chalk.red('  Error: specify exactly one of --command, --event or --job'));
+    process.exit(1);
+  }
+
+  const log = options.json ? () => {} : (message: string) => console.log(message);
+
+  log(chalk.bold.cyan('\n  FURLOW Simulator\n'));
+  log(chalk.dim(`  File: ${relative(process.cwd(), specPath)}\n`));
+
+  const spinner = options.json ? null : ora('Loading specification...').start();
+
+  try {
+    const { loadSpec } = await import('@furlow/core/parser');
+    const { createEvaluator, evaluatorOptionsFromLimits, registerUserFunctions, registerLookupFunctions } =
+      await import('@furlow/core/expression');
+    const { createActionRegistry, createActionExecutor, createSimulator } = await import('@furlow/core/actions');
+    const { createEventRouter } = await import('@furlow/core/events');
+    const { createFlowEngine } = await import('@furlow/core/flows');
+    const { createStateManager } = await import('@furlow/core/state');
+    const { createLocaleManager } = await import('@furlow/core/locale');
+    const { registerCoreHandlers } = await import('@furlow/core/actions/handlers');
+    const { createMemoryAdapter } = await import('@furlow/storage');
+    const { loadPlugins, installPlugins } = await import('@furlow/core/plugins');
+
+    const { spec, files } = await loadSpec(specPath, { validate: false });
+    spinner?.succeed(`Loaded ${files.length} file(s)`);
+
+    // State always lives in memory so a dry run never touches real data
+    const evaluator = createEvaluator(evaluatorOptionsFromLimits(spec.limits));
+    const stateManager = createStateManager(createMemoryAdapter());
+    if (spec.state?.variables) {
+      stateManager.registerVariables(spec.state.variables);
+    }
+    if (spec.state?.tables) {
+      await stateManager.registerTables(spec.state.tables);
+    }
+    // Pipes are left out so pipe() never reaches a real service
+    registerLookupFunctions(evaluator, {
+      stateManager,
+      timezone: spec.state?.timezone,
+    });
+
+    // Formatting functions follow the interaction or guild locale
+    const localeManager = createLocaleManager();
+    if (spec.locale) {
+      localeManager.configure(spec.locale);
+    }
+    evaluator.setLocaleResolver((context) => localeManager.resolve(context));
+
+    const flowEngine = createFlowEngine();
+    if (spec.flows) {
+      flowEngine.registerAll(spec.flows);
+    }
+
+    const actionRegistry = createActionRegistry();
+    // No Discord client: Discord actions are recorded, never run
+    const deps = { evaluator, stateManager, flowEngine };
+    registerCoreHandlers(actionRegistry, deps);
+
+    // Plugin actions are recorded like any other; their functions and
+    // canvas generators are available to expressions
+    if (spec.plugins?.length) {
+      const plugins = await loadPlugins(spec.plugins, { baseDir: dirname(specPath) });
+      installPlugins(plugins, { registry: actionRegistry, evaluator, spec });
+    }
+    if (spec.functions) {
+      registerUserFunctions(evaluator, spec.functions, { maxDepth: spec.limits?.function_depth });
+    }
+
+    const simulator = createSimulator();
+    const actionExecutor = createActionExecutor(actionRegistry, evaluator, { simulator });
+
+    const eventRouter = createEventRouter();
+    if (spec.events) {
+      eventRouter.registerAll(spec.events);
+    }
+
+    const commandOptions = parsePairs(options.option);
+    const data = options.data ? (parseValue(options.data) as Record<string, unknown>) : {};
+    const now = new Date();
+    const user: UserContext = {
+      id: FAKE_USER_ID,
+      username: 'dry-run-user',
+      discriminator: '0',
+      tag: 'dry-run-user',
+      avatar: null,
+      bot: false,
+      created_at: now,
+      mention: `<@${FAKE_USER_ID}>`,
+    };
+    const member: MemberContext = {
+      ...user,
+      nickname: null,
+      display_name: 'Dry Run User',
+      joined_at: now,
+      boosting_since: null,
+      is_boosting: false,
+      roles: [],
+      role_ids: [],
+      highest_role: '@everyone',
+      permissions: [],
+      is_owner: false,
+    };
+    const guild: GuildContext = {
+      id: FAKE_GUILD_ID,
+      name: 'Dry Run Guild',
+      icon: null,
+      owner_id: FAKE_USER_ID,
+      member_count: 1,
+      created_at: now,
+      premium_tier: 0,
+      premium_subscription_count: 0,
+      boost_count: 0,
+    };
+    const channel: ChannelContext = {
+      id: FAKE_CHANNEL_ID,
+      name: 'general',
+      type: 'text',
+      mention: `<#${FAKE_CHANNEL_ID}>`,
+    };
+
+    const context: ActionContext = {
+      now,
+      random: Math.random(),
+      options: commandOptions,
+      args: commandOptions,
+      state: {},
+      user,
+      member,
+      guild,
+      channel,
+      guildId: FAKE_GUILD_ID,
+      channelId: FAKE_CHANNEL_ID,
+      userId: FAKE_USER_ID,
+      client: null,
+      stateManager,
+      evaluator,
+      flowExecutor: flowEngine,
+      _deps: deps,
+      _actionExecutor: actionExecutor,
+      _eventRouter: eventRouter,
+      _components: spec.components,
+      _pipes: spec.pipes,
+      _canvasGenerators: spec.canvas?.generators,
+      ...data,
+    };
+
+    let label: string;
+    if (options.command) {
+      label = `/${options.command.replace(/^\//, '')}`;
+      const actions = findCommandActions(spec.commands, options.command);
+      await actionExecutor.executeSequence(actions, context);
+    } else if (options.event) {
+      label = `event ${options.event}`;
+      await eventRouter.emit(options.event, context, actionExecutor, evaluator);
+    } else {
+      label = `job ${options.job}`;
+      const job = spec.scheduler?.jobs?.find((j) => j.name === options.job);
+      if (!job) {
+        throw new Error(`Scheduled job not found: ${options.job}`);
+      }
+      // Same condition handling as the cron scheduler
+      const condition = job.when
+        ? typeof job.when === 'string' ? job.when : (job.when.expr ?? 'true')
+        : 'true';
+      const shouldRun = await evaluator.evaluate<boolean>(condition, context);
+      if (shouldRun) {
+        await actionExecutor.executeSequence(job.actions, context);
+      }
+    }
+
+    const recorded = simulator.getActions();
+    const failures = simulator.getFailures();
+    if (failures.length > 0) {
+      process.exitCode = 1;
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(recorded, null, 2));
+      // Failures go to stderr so stdout stays the list of actions
+      if (failures.length > 0) {
+        console.error(JSON.stringify({ failures }, null, 2));
+      }
+      return;
+    }
+
+    log(chalk.bold(`\n  ${label} would run ${recorded.length} action(s)\n`));
+    recorded.forEach((entry, i) => {
+      log(`  ${chalk.cyan(`${i + 1}.`)} ${chalk.bold(entry.action)}`);
+      for (const line of formatConfig(entry.config)) {
+        log(`      ${line}`);
+      }
+    });
+
+    if (failures.length > 0) {
+      log(chalk.red.bold(`\n  ${failures.length} action(s) failed\n`));
+      failures.forEach((failure, i) => {
+        log(`  ${chalk.red(`${i + 1}.`)} ${chalk.bold(failure.action)}: ${failure.error}`);
+      });
+    }
+    log('');
+  } catch (error) {
+    spinner?.fail('Simulation failed');
+
+    if (error instanceof Error) {
+      console.error(chalk.red(`\n  ${error.message}`));
+    }
+
+    process.exit(1);
+  }
+}
@@ -2,16 +2,21 @@
  * Start command - run the FURLOW bot
  */
 
-import { resolve } from 'node:path';
+import { appendFile, readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
 import chalk from 'chalk';
 import ora from 'ora';
 import { config as loadEnv } from 'dotenv';
+import type { StorageAdapter } from '@furlow/storage';
 
 interface StartOptions {
   env: string;
   validate: boolean;
   guild?: string;
   verbose?: boolean;
+  trace?: string;
+  traceFormat?: 'json' | 'otlp';
 }
 
 // Global verbose flag for logging
@@ -82,13 +87,24 @@ export async function startCommand(
     // Dynamic import of core modules
     const { loadSpec } = await import('@furlow/core/parser');
     const { validateFurlowSpec } = await import('@furlow/schema');
-    const { createEvaluator } = await import('@furlow/core/expression');
+    const {
+      createEvaluator,
+      evaluatorOptionsFromLimits,
+      registerUserFunctions,
+      registerLookupFunctions,
+      isCompiledExpressions,
+    } = await import('@furlow/core/expression');
     const { createActionRegistry, createActionExecutor } = await import('@furlow/core/actions');
     const { createEventRouter } = await import('@furlow/core/events');
-    const { createFlowEngine } = await import('@furlow/core/flows');
-    const { createStateManager } = await import('@furlow/core/state');
+    const { createFlowEngine, createWorkflowStore } = await import('@furlow/core/flows');
+    const { parseDuration } = await import('@furlow/core/scheduler');
+    const { createStateManager, scheduleBackups } = await import('@furlow/core/state');
+    const { createLocaleManager } = await import('@furlow/core/locale');
     const { registerCoreHandlers } = await import('@furlow/core/actions/handlers');
     const { createMemoryAdapter } = await import('@furlow/storage');
+    const { createTracer, toOtlp } = await import('@furlow/core/tracing');
+    const { loadPlugins, installPlugins, validateActionConfigs, startEventSources } =
+      await import('@furlow/core/plugins');
 
     // Load the spec
     const { spec, files } = await loadSpec(specPath, {
@@ -126,11 +142,23 @@ export async function startCommand(
     // Initialize core systems
     const initSpinner = ora('Initializing systems...').start();
 
-    // Create expression evaluator
-    const evaluator = createEvaluator();
+    // Create expression evaluator with the spec's sandbox limits
+    const evaluator = createEvaluator(evaluatorOptionsFromLimits(spec.limits));
+
+    // Expressions compiled by `furlow build` are loaded instead of parsed
+    const compiledPath = join(dirname(specPath), 'expressions.json');
+    if (existsSync(compiledPath)) {
+      const compiled = JSON.parse(await readFile(compiledPath, 'utf-8'));
+      if (isCompiledExpressions(compiled)) {
+        const count = evaluator.loadCompiled(compiled);
+        console.log(chalk.dim(`  Loaded ${count} compiled expression(s)`));
+      } else {
+        console.log(chalk.yellow('  Warning: expressions.json is from another version, rebuild to use it'));
+      }
+    }
 
     // Create storage adapter based on spec configuration
-    let storage;
+    let storage: StorageAdapter;
     const storageConfig = spec.state?.storage;
 
     if (storageConfig?.type === 'sqlite') {
@@ -160,6 +188,21 @@ export async function startCommand(
         console.log(chalk.dim('  Falling back to memory storage'));
         storage = createMemoryAdapter();
       }
+    } else if (storageConfig?.type === 'redis') {
+      try {
+        const { createRedisAdapter } = await import('@furlow/storage/redis');
+        storage = createRedisAdapter({
+          url: storageConfig.url ?? process.env.REDIS_URL,
+          prefix: storageConfig.prefix,
+        });
+        console.log(chalk.dim('  Using Redis storage'));
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error(chalk.red(`  Failed to load Redis adapter: ${errorMsg}`));
+        console.log(chalk.yellow('  Install ioredis: npm install ioredis'));
+        console.log(chalk.dim('  Falling back to memory storage'));
+        storage = createMemoryAdapter();
+      }
     } else {
       storage = createMemoryAdapter();
     }
@@ -175,10 +218,69 @@ export async function startCommand(
     // Register tables if defined
     if (spec.state?.tables) {
       await stateManager.registerTables(spec.state.tables);
+
+      // Existing tables only get missing indexes; other changes go through furlow migrate
+      if (storage.planMigration) {
+        const plan = await storage.planMigration(spec.state.tables);
+        if (plan.steps.length > 0 || plan.warnings.length > 0) {
+          console.log(chalk.yellow('  Warning: database tables differ from the spec, run furlow migrate to review'));
+        }
+      }
+    }
+
+    // Scheduled backups to JSONL archives
+    let stopBackups: (() => void) | undefined;
+    const backupConfig = spec.state?.backup;
+    if (backupConfig) {
+      const backupDir = resolve(backupConfig.path ?? './backups');
+      stopBackups = scheduleBackups(stateManager, {
+        every: typeof backupConfig.every === 'number'
+          ? backupConfig.every
+          : parseDuration(backupConfig.every),
+        dir: backupDir,
+        keep: backupConfig.keep,
+        tables: spec.state?.tables,
+        onBackup: (file) => log('backup', `Backed up state to ${file}`),
+        onError: (err) => {
+          console.error(chalk.red(`  State backup failed: ${err.message}`));
+        },
+      });
+      console.log(chalk.dim(`  Backing up state every ${backupConfig.every} to ${backupDir}`));
+    }
+
+    // state(), db_query(), db_count() and pipe() in expressions
+    registerLookupFunctions(evaluator, {
+      stateManager,
+      pipes: spec.pipes,
+      timezone: spec.state?.timezone,
+    });
+
+    // Formatting functions follow the interaction or guild locale
+    const localeManager = createLocaleManager();
+    if (spec.locale) {
+      localeManager.configure(spec.locale);
+    }
+    evaluator.setLocaleResolver((context) => localeManager.resolve(context));
+
+    // Create tracer if tracing is enabled. Each completed trace is appended
+    // to the trace file as one JSON line.
+    let tracer: ReturnType<typeof createTracer> | undefined;
+    if (options.trace) {
+      const tracePath = resolve(options.trace);
+      const format = options.traceFormat ?? 'json';
+      tracer = createTracer({
+        onTrace: (trace) => {
+          const record = format === 'otlp' ? toOtlp([trace], spec.identity?.name) : trace;
+          appendFile(tracePath, JSON.stringify(record) + '\n').catch((err) => {
+            console.error(chalk.red('Failed to write trace:'), err);
+          });
+        },
+      });
+      console.log(chalk.dim(`  Writing ${format} traces to ${tracePath}`));
     }
 
-    // Create flow engine
-    const flowEngine = createFlowEngine();
+    // Create flow engine; durable flows are checkpointed to the state storage
+    const flowEngine = createFlowEngine({ tracer, workflows: createWorkflowStore(storage) });
 
     // Register flows if defined
     if (spec.flows) {
@@ -209,11 +311,37 @@ export async function startCommand(
       voiceManager,
     });
 
+    // Load plugins, then check spec actions against the plugin handler schemas
+    let eventSources: Awaited<ReturnType<typeof installPlugins>> = [];
+    if (spec.plugins?.length) {
+      const plugins = await loadPlugins(spec.plugins, { baseDir: dirname(specPath) });
+      eventSources = installPlugins(plugins, { registry: actionRegistry, evaluator, spec });
+
+      const issues = validateActionConfigs(spec, actionRegistry);
+      if (issues.length > 0) {
+        initSpinner.fail('Invalid action configuration');
+        for (const issue of issues) {
+          console.log(chalk.red(`    ${issue.path} (${issue.action}): ${issue.message}`));
+        }
+        process.exit(1);
+      }
+      console.log(chalk.dim(`  Loaded ${plugins.length} plugin(s)`));
+    }
+
+    // User-defined expression functions, after plugins so names cannot clash
+    if (spec.functions) {
+      registerUserFunctions(evaluator, spec.functions, { maxDepth: spec.limits?.function_depth });
+    }
+
     // Create action executor
-    const actionExecutor = createActionExecutor(actionRegistry, evaluator);
+    const actionExecutor = createActionExecutor(actionRegistry, evaluator, { tracer });
+
+    // Deadline for each command, event or component handler run
+    const limit = spec.limits?.handler_timeout;
+    const handlerTimeout = typeof limit === 'string' ? parseDuration(limit) : limit ?? 0;
 
     // Create event router
-    const eventRouter = createEventRouter();
+    const eventRouter = createEventRouter({ tracer, handlerTimeout });
 
     // Register event handlers from spec
     if (spec.events) {
@@ -222,6 +350,10 @@ export async function startCommand(
 
     initSpinner.succeed('Systems initialized');
 
+    // Run a command handler inside a command span when tracing is enabled
+    const traced = (name: string, fn: () => Promise<void>): Promise<void> =>
+      tracer ? tracer.span(name, 'command', fn) : fn();
+
     // Register commands
     if (spec.commands && spec.commands.length > 0) {
       const cmdSpinner = ora('Registering slash commands...').start();
@@ -265,7 +397,7 @@ export async function startCommand(
 
       // Set up command handlers
       for (const cmd of spec.commands) {
-        interactionHandler.onCommand(cmd.name, async (interaction) => {
+        interactionHandler.onCommand(cmd.name, (interaction) => traced(`/${cmd.name}`, async () => {
           log('command', `Executing command: /${cmd.name}`);
 
           try {
@@ -312,7 +444,19 @@ export async function startCommand(
               log('actions', `Executing ${actions.length} action(s):`);
               actions.forEach((a, i) => log('actions', `  ${i + 1}. ${a.action}`));
 
-              const results = await actionExecutor.executeSequence(actions, context);
+              const { results, timeout } = await eventRouter.runCommand(
+                cmd.name,
+                actions,
+                context,
+                actionExecutor,
+                evaluator
+              );
+
+              if (timeout) {
+                if (interaction.deferred && !interaction.replied) {
+                  await interaction.editReply({ content: `Error: ${timeout.message}` }).catch(() => {});
+                }
+              }
 
               // Log action results in verbose mode
               results.forEach((r, i) => {
@@ -355,7 +499,7 @@ export async function startCommand(
               }).catch(() => {});
             }
           }
-        });
+        }));
       }
 
       cmdSpinner.succeed(`Registered ${spec.commands.length} command(s) to ${guildIds.length} guild(s)`);
@@ -392,6 +536,26 @@ export async function startCommand(
     }
     discordClient.on('ready', handleReadyEvent);
 
+    // Start plugin event sources; their events go through the event router
+    const stopEventSources = await startEventSources(eventSources, async (event, data = {}) => {
+      try {
+        const context = buildActionContext({
+          client: discordClient,
+          evaluator,
+          stateManager,
+          flowEngine,
+          voiceManager,
+          actionExecutor,
+          eventRouter,
+          spec,
+        });
+
+        await eventRouter.emit(event, { ...context, ...data }, actionExecutor, evaluator);
+      } catch (err) {
+        console.error(chalk.red(`Error in ${event} event:`), err);
+      }
+    });
+
     // Message events
     discordClient.on('messageCreate', async (message) => {
       if (message.author.bot) return;
@@ -842,6 +1006,45 @@ export async function startCommand(
       }
     });
 
+    // Resume durable flows saved before the last shutdown
+    const resumedWorkflows = await flowEngine.resumeWorkflows(
+      async (scope) => {
+        const guild = scope.guildId
+          ? await discordClient.guilds.fetch(scope.guildId).catch(() => null)
+          : null;
+        const member = guild && scope.userId
+          ? await guild.members.fetch(scope.userId).catch(() => null)
+          : null;
+        const user = !member && scope.userId
+          ? await discordClient.users.fetch(scope.userId).catch(() => null)
+          : null;
+        const channel = scope.channelId
+          ? await discordClient.channels.fetch(scope.channelId).catch(() => null)
+          : null;
+
+        const context = buildActionContext({
+          member: member ?? undefined,
+          user: user ?? undefined,
+          channel: channel ?? undefined,
+          client: discordClient,
+          evaluator,
+          stateManager,
+          flowEngine,
+          voiceManager,
+          actionExecutor,
+          eventRouter,
+          spec,
+        });
+        context.guild ??= wrapDiscordObject(guild);
+        return Object.assign(context, scope);
+      },
+      actionExecutor,
+      evaluator
+    );
+    if (resumedWorkflows > 0) {
+      console.log(chalk.dim(`  Resumed ${resumedWorkflows} durable workflow(s)`));
+    }
+
     console.log('\n' + chalk.green('  Bot is running!'));
     console.log(chalk.dim(`    Guilds: ${client.guildCount}`));
     console.log(chalk.dim(`    Commands: ${spec.commands?.length ?? 0}`));
@@ -858,7 +1061,14 @@ export async function startCommand(
         voiceManager.disconnectAll();
       }
 
-      // Close state manager
+      // Stop plugin event sources
+      await stopEventSources();
+
+      // Stop waiting workflows; they resume from storage on the next start
+      await flowEngine.stopWorkflows();
+
+      // Stop scheduled backups and close state manager
+      stopBackups?.();
       await stateManager.close();
 
       // Stop client
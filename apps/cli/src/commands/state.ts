@@ -0,0 +1,170 @@
+/**
+ * State commands - export state to a portable archive and import it into
+ * any kind of storage
+ */
+
+import { relative, resolve } from 'node:path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { config as loadEnv } from 'dotenv';
+import type { StateConfig, StateScope, StorageConfig } from '@furlow/schema';
+import type { StorageAdapter } from '@furlow/storage';
+
+interface StateOptions {
+  env: string;
+  guild?: string;
+  scope?: string[];
+  /** Storage to use instead of the spec's, e.g. sqlite:./old.db */
+  storage?: string;
+}
+
+interface StateExportOptions extends StateOptions {
+  output: string;
+  tables: boolean;
+}
+
+const SCOPES: StateScope[] = ['global', 'guild', 'channel', 'user', 'member'];
+
+/**
+ * Check the --scope values
+ */
+function parseScopes(scopes: string[] | undefined): StateScope[] | undefined {
+  if (!scopes) return undefined;
+  for (const scope of scopes) {
+    if (!SCOPES.includes(scope as StateScope)) {
+      throw new Error(`Unknown scope "${scope}" (expected one of: ${SCOPES.join(', ')})`);
+    }
+  }
+  return scopes as StateScope[];
+}
+
+/**
+ * Open the storage named by --storage, or else the storage the spec configures
+ */
+async function openStorage(
+  override: string | undefined,
+  config: StorageConfig | undefined
+): Promise<StorageAdapter> {
+  if (override !== undefined) {
+    if (override.startsWith('sqlite:')) {
+      const { createSQLiteAdapter } = await import('@furlow/storage/sqlite');
+      return createSQLiteAdapter({ path: override.slice('sqlite:'.length) });
+    }
+    if (/^postgres(ql)?:\/\//.test(override)) {
+      const { createPostgresAdapter } = await import('@furlow/storage/postgres');
+      return createPostgresAdapter({ url: override });
+    }
+    if (/^rediss?:\/\//.test(override)) {
+      const { createRedisAdapter } = await import('@furlow/storage/redis');
+      return createRedisAdapter({ url: override });
+    }
+    throw new Error(
+      `Unsupported storage "${override}" (use sqlite:<path>, postgres://... or redis://...)`
+    );
+  }
+
+  if (config?.type === 'sqlite') {
+    const { createSQLiteAdapter } = await import('@furlow/storage/sqlite');
+    return createSQLiteAdapter({ path: config.path || './furlow.db' });
+  }
+  if (config?.type === 'postgres') {
+    const { createPostgresAdapter } = await import('@furlow/storage/postgres');
+    return createPostgresAdapter({ url: config.url ?? process.env.DATABASE_URL });
+  }
+  if (config?.type === 'redis') {
+    const { createRedisAdapter } = await import('@furlow/storage/redis');
+    return createRedisAdapter({ url: config.url ?? process.env.REDIS_URL, prefix: config.prefix });
+  }
+  throw new Error('Memory storage keeps no state between runs; configure state.storage or pass --storage');
+}
+
+/**
+ * Load the spec's state settings, with connection settings from the .env file
+ */
+async function loadStateConfig(
+  path: string | undefined,
+  options: StateOptions
+): Promise<StateConfig | undefined> {
+  loadEnv({ path: resolve(options.env) });
+  const { loadSpec } = await import('@furlow/core/parser');
+  const { spec } = await loadSpec(resolve(path ?? 'furlow.yaml'), { validate: false });
+  return spec.state;
+}
+
+export async function stateExportCommand(
+  path: string | undefined,
+  options: StateExportOptions
+): Promise<void> {
+  const output = resolve(options.output);
+
+  console.log(chalk.bold.cyan('\n  FURLOW State Export\n'));
+
+  const spinner = ora('Exporting state...').start();
+  let storage: StorageAdapter | undefined;
+
+  try {
+    const { exportState, writeArchive } = await import('@furlow/core/state');
+
+    const state = await loadStateConfig(path, options);
+    storage = await openStorage(options.storage, state?.storage);
+
+    const records = await writeArchive(
+      exportState(storage, {
+        tables: options.tables ? state?.tables : undefined,
+        guildId: options.guild,
+        scopes: parseScopes(options.scope),
+      }),
+      output
+    );
+
+    // The header is not state
+    spinner.succeed(`Exported ${records - 1} record(s) to ${relative(process.cwd(), output)}`);
+    console.log();
+  } catch (error) {
+    spinner.fail('Export failed');
+    console.error(chalk.red(`\n  ${error instanceof Error ? error.message : String(error)}\n`));
+    process.exitCode = 1;
+  } finally {
+    await storage?.close();
+  }
+}
+
+export async function stateImportCommand(
+  file: string,
+  path: string | undefined,
+  options: StateOptions
+): Promise<void> {
+  const input = resolve(file);
+
+  console.log(chalk.bold.cyan('\n  FURLOW State Import\n'));
+  console.log(chalk.dim(`  Archive: ${relative(process.cwd(), input)}\n`));
+
+  const spinner = ora('Importing state...').start();
+  let storage: StorageAdapter | undefined;
+
+  try {
+    const { importState, readArchive } = await import('@furlow/core/state');
+
+    const state = await loadStateConfig(path, options);
+    storage = await openStorage(options.storage, state?.storage);
+
+    const summary = await importState(storage, readArchive(input), {
+      guildId: options.guild,
+      scopes: parseScopes(options.scope),
+    });
+
+    spinner.succeed(
+      `Imported ${summary.variables} variable(s) and ${summary.rows} row(s) in ${summary.tables} table(s)`
+    );
+    if (summary.skipped > 0) {
+      console.log(chalk.dim(`  Skipped ${summary.skipped} record(s) outside the filter or already expired`));
+    }
+    console.log();
+  } catch (error) {
+    spinner.fail('Import failed');
+    console.error(chalk.red(`\n  ${error instanceof Error ? error.message : String(error)}\n`));
+    process.exitCode = 1;
+  } finally {
+    await storage?.close();
+  }
+}
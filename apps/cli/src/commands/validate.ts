@@ -1,8 +1,8 @@
 /**
- * Validate command - check YAML syntax and schema
+ * Validate command - check YAML syntax, schema and expressions
  */
 
-import { resolve, relative } from 'node:path';
+import { dirname, resolve, relative } from 'node:path';
 import chalk from 'chalk';
 import ora from 'ora';
 
@@ -92,10 +92,78 @@ export async function validateCommand(
       process.exit(1);
     }
 
+    const { createEvaluator, createExpressionChecker, evaluatorOptionsFromLimits, registerLookupFunctions } =
+      await import('@furlow/core/expression');
+    const evaluator = createEvaluator(evaluatorOptionsFromLimits(spec.limits));
+    registerLookupFunctions(evaluator, {});
+
+    // Load plugins and check spec actions against their handler schemas
+    if (spec.plugins?.length) {
+      const { loadPlugins, installPlugins, validateActionConfigs } = await import('@furlow/core/plugins');
+      const { createActionRegistry } = await import('@furlow/core/actions');
+      const { registerCoreHandlers } = await import('@furlow/core/actions/handlers');
+
+      const registry = createActionRegistry();
+      registerCoreHandlers(registry, { evaluator });
+
+      const plugins = await loadPlugins(spec.plugins, { baseDir: dirname(specPath) });
+      installPlugins(plugins, { registry, evaluator, spec });
+
+      const issues = validateActionConfigs(spec, registry);
+      if (issues.length > 0) {
+        console.log('\n' + chalk.red.bold('  ✗ Action Configuration Errors\n'));
+
+        issues.forEach((issue, i) => {
+          console.log(chalk.red(`  ${i + 1}. ${formatPath(issue.path)}`));
+          console.log(chalk.white(`     ${issue.action}: ${issue.message}`));
+
+          const hint = getHint(issue.message);
+          if (hint) {
+            console.log(chalk.cyan(`     💡 ${hint}`));
+          }
+          console.log('');
+        });
+
+        console.log(chalk.red(`  Found ${issues.length} error(s)\n`));
+        process.exit(1);
+      }
+    }
+
+    // Check expressions against the context each handler runs in
+    const { indexSourceStrings, findSourceLocation } = await import('@furlow/core/parser');
+
+    const expressionIssues = createExpressionChecker({ evaluator }).check(spec);
+    const sources = expressionIssues.length > 0 ? await indexSourceStrings(files) : new Map();
+    const describeLocation = (issue: (typeof expressionIssues)[number]): string => {
+      const location = findSourceLocation(sources, issue.source, issue.path);
+      return location
+        ? `${relative(process.cwd(), location.file)}:${location.line}:${location.column}`
+        : issue.path;
+    };
+
+    const expressionErrors = expressionIssues.filter((issue) => issue.severity === 'error');
+    if (expressionErrors.length > 0) {
+      console.log('\n' + chalk.red.bold('  ✗ Expression Errors\n'));
+
+      expressionErrors.forEach((issue, i) => {
+        console.log(chalk.red(`  ${i + 1}. ${describeLocation(issue)}`));
+        console.log(chalk.dim(`     ${issue.expression}`));
+        console.log(chalk.white(`     ${issue.message}`));
+        console.log('');
+      });
+
+      console.log(chalk.red(`  Found ${expressionErrors.length} error(s)\n`));
+      process.exit(1);
+    }
+
     // Collect warnings
     const warnings: string[] = [];
     const suggestions: string[] = [];
 
+    for (const issue of expressionIssues) {
+      warnings.push(`${describeLocation(issue)}: ${issue.message}`);
+    }
+
     // Check for missing descriptions
     if (spec.commands) {
       for (const cmd of spec.commands) {
@@ -174,6 +242,7 @@ export async function validateCommand(
       { label: 'Events', value: spec.events?.length ?? 0 },
       { label: 'Flows', value: spec.flows?.length ?? 0 },
       { label: 'Builtins', value: spec.builtins?.length ?? 0 },
+      { label: 'Plugins', value: spec.plugins?.length ?? 0 },
       { label: 'Pipes', value: Object.keys(spec.pipes ?? {}).length },
     ];
 
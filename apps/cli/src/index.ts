@@ -12,6 +12,10 @@ import { validateCommand } from './commands/validate.js';
 import { addCommand } from './commands/add.js';
 import { buildCommand } from './commands/build.js';
 import { exportCommand } from './commands/export.js';
+import { simulateCommand } from './commands/simulate.js';
+import { evalCommand, replCommand } from './commands/eval.js';
+import { migrateCommand } from './commands/migrate.js';
+import { stateExportCommand, stateImportCommand } from './commands/state.js';
 
 const program = new Command();
 
@@ -36,6 +40,8 @@ program
   .option('-e, --env <file>', 'Path to .env file', '.env')
   .option('-g, --guild <id>', 'Register commands to specific guild (instant)')
   .option('-v, --verbose', 'Enable verbose logging (shows context, actions, results)')
+  .option('--trace <file>', 'Append execution traces to a file (one JSON trace per line)')
+  .option('--trace-format <format>', 'Trace format: json or otlp', 'json')
   .option('--no-validate', 'Skip schema validation')
   .action(startCommand);
 
@@ -54,6 +60,70 @@ program
   .option('--strict', 'Enable strict validation')
   .action(validateCommand);
 
+// Simulate command - dry-run a command, event or job
+program
+  .command('simulate [path]')
+  .alias('dry-run')
+  .description('Show the actions a command, event or job would run, without running them')
+  .option('-c, --command <name>', 'Command to simulate (e.g. "ticket open" for subcommands)')
+  .option('-e, --event <name>', 'Event to simulate')
+  .option('-j, --job <name>', 'Scheduled job to simulate')
+  .option('-o, --option <key=value...>', 'Command option values')
+  .option('-d, --data <json>', 'Extra context values as JSON')
+  .option('--json', 'Output the recorded actions as JSON')
+  .action(simulateCommand);
+
+// Eval command - evaluate one expression or template
+program
+  .command('eval <expression> [path]')
+  .description('Evaluate an expression or template against a sample context')
+  .option('-f, --fixture <name>', 'Sample context: message, member or interaction', 'message')
+  .option('-d, --data <json>', 'Extra context values as JSON')
+  .option('--json', 'Output the result as JSON')
+  .action(evalCommand);
+
+// REPL command - evaluate expressions interactively
+program
+  .command('repl [path]')
+  .description('Evaluate expressions and templates interactively against a sample context')
+  .option('-f, --fixture <name>', 'Sample context: message, member or interaction', 'message')
+  .option('-d, --data <json>', 'Extra context values as JSON')
+  .action(replCommand);
+
+// Migrate command - update database tables to match the spec
+program
+  .command('migrate [path]')
+  .description('Show or apply the changes that bring database tables in line with the spec')
+  .option('-e, --env <file>', 'Path to .env file', '.env')
+  .option('--apply', 'Apply the planned changes')
+  .option('--allow-drop', 'Allow dropping columns that are no longer declared')
+  .action(migrateCommand);
+
+// State commands - move state between storage through a portable archive
+const state = program
+  .command('state')
+  .description('Export and import state variables and table rows');
+
+state
+  .command('export [path]')
+  .description('Write state variables and table rows to a JSONL archive')
+  .option('-e, --env <file>', 'Path to .env file', '.env')
+  .option('-o, --output <file>', 'Archive file', 'furlow-state.jsonl')
+  .option('-g, --guild <id>', 'Only export state belonging to one guild')
+  .option('-s, --scope <scopes...>', 'Only export variables of these scopes')
+  .option('--storage <url>', 'Export from this storage instead of the spec\'s (sqlite:<path>, postgres://..., redis://...)')
+  .option('--no-tables', 'Skip table rows')
+  .action(stateExportCommand);
+
+state
+  .command('import <file> [path]')
+  .description('Write the contents of a JSONL archive into storage')
+  .option('-e, --env <file>', 'Path to .env file', '.env')
+  .option('-g, --guild <id>', 'Only import state belonging to one guild')
+  .option('-s, --scope <scopes...>', 'Only import variables of these scopes')
+  .option('--storage <url>', 'Import into this storage instead of the spec\'s (sqlite:<path>, postgres://..., redis://...)')
+  .action(stateImportCommand);
+
 // Add command - add builtins to a project
 program
   .command('add <builtin>')
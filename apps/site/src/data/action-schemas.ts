@@ -612,6 +612,9 @@ export const actionCategories: ActionCategory[] = [
           { name: 'items', type: 'expression', label: 'Items', required: true },
           { name: 'as', type: 'string', label: 'Item Variable' },
           { name: 'concurrency', type: 'number', label: 'Concurrency' },
+          { name: 'pace', type: 'string', label: 'Pace', description: 'Items per interval, e.g. 20/10s' },
+          { name: 'cursor', type: 'string', label: 'Cursor Variable' },
+          { name: 'id', type: 'string', label: 'Batch ID' },
         ],
       },
       {
@@ -627,6 +630,11 @@ export const actionCategories: ActionCategory[] = [
         description: 'Try-catch block',
         fields: [],
       },
+      {
+        name: 'transaction',
+        description: 'Undo completed steps if one fails',
+        fields: [],
+      },
     ],
   },
   {
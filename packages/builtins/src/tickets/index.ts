@@ -263,7 +263,7 @@ export const ticketsEventHandlers: EventHandler[] = [
       // Reply to original interaction
       {
         action: 'update_message',
-        content: 'Your ticket has been created: ${ticketChannel}',
+        content: 'Your ticket has been created: ${ticketChannel.mention}',
         components: [],
       },
     ],
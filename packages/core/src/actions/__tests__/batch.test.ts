@@ -0,0 +1,333 @@
+/**
+ * Batch Tests
+ *
+ * Covers:
+ * - Pace parsing and the sliding-window pacer
+ * - The worker pool (no lockstep chunks, cursor and failure counts)
+ * - `batch` through the executor and the FlowEngine
+ * - batch_progress events and resuming from a persisted cursor
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { parsePace, Pacer, runBatch, MAX_BATCH_CONCURRENCY, type BatchProgress } from '../batch.js';
+import { createActionExecutor, type ActionExecutor } from '../executor.js';
+import { createActionRegistry, type ActionRegistry } from '../registry.js';
+import { registerFlowHandlers } from '../handlers/flow.js';
+import { createEvaluator } from '../../expression/evaluator.js';
+import { createEventRouter } from '../../events/router.js';
+import { createFlowEngine } from '../../flows/engine.js';
+import { createStateManager, type StateManager } from '../../state/manager.js';
+import { MemoryAdapter } from '@furlow/storage';
+import type { Action } from '@furlow/schema';
+import type { ActionContext, ActionResult } from '../types.js';
+
+describe('Batch', () => {
+  describe('parsePace', () => {
+    it('should parse limits per interval', () => {
+      expect(parsePace('20/10s')).toEqual({ limit: 20, interval: 10000 });
+      expect(parsePace('5/s')).toEqual({ limit: 5, interval: 1000 });
+      expect(parsePace('100 / 1m')).toEqual({ limit: 100, interval: 60000 });
+      expect(parsePace('3/250ms')).toEqual({ limit: 3, interval: 250 });
+    });
+
+    it('should reject invalid paces', () => {
+      expect(parsePace('fast')).toBeNull();
+      expect(parsePace('0/10s')).toBeNull();
+      expect(parsePace('20/10')).toBeNull();
+    });
+  });
+
+  describe('Pacer', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should hold starts beyond the limit until the window slides', async () => {
+      const pacer = new Pacer({ limit: 2, interval: 1000 });
+      const started: number[] = [];
+
+      for (let i = 0; i < 3; i++) {
+        void pacer.acquire().then(() => started.push(i));
+      }
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(started).toEqual([0, 1]);
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(started).toEqual([0, 1]);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(started).toEqual([0, 1, 2]);
+    });
+
+    it('should stop waiting when the signal aborts', async () => {
+      const pacer = new Pacer({ limit: 1, interval: 60000 });
+      const controller = new AbortController();
+      await pacer.acquire();
+
+      let woke = false;
+      void pacer.acquire(controller.signal).then(() => {
+        woke = true;
+      });
+      await vi.advanceTimersByTimeAsync(10);
+      expect(woke).toBe(false);
+
+      controller.abort();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(woke).toBe(true);
+    });
+  });
+
+  describe('runBatch', () => {
+    it('should start the next item as soon as a worker is free', async () => {
+      const events: string[] = [];
+      const durations = [30, 5, 5, 5];
+
+      await runBatch(
+        durations,
+        async (ms, index) => {
+          events.push(`start:${index}`);
+          await new Promise((r) => setTimeout(r, ms));
+          events.push(`end:${index}`);
+          return [{ success: true }];
+        },
+        { concurrency: 2 }
+      );
+
+      // Item 2 must not wait for the slow item 0 to finish its chunk
+      expect(events.indexOf('start:2')).toBeLessThan(events.indexOf('end:0'));
+      expect(events.indexOf('start:3')).toBeLessThan(events.indexOf('end:0'));
+    });
+
+    it('should report progress with a contiguous cursor and failures', async () => {
+      const updates: BatchProgress[] = [];
+
+      const results = await runBatch(
+        ['ok', 'fail', 'throw', 'ok'],
+        async (item): Promise<ActionResult[]> => {
+          if (item === 'throw') throw new Error('boom');
+          return [{ success: item === 'ok' }];
+        },
+        { start: 0, onProgress: (p) => void updates.push(p) }
+      );
+
+      expect(results).toHaveLength(4);
+      expect(results[2]![0]!.error?.message).toBe('boom');
+      expect(updates.at(-1)).toEqual({ total: 4, completed: 4, failed: 2, cursor: 4 });
+    });
+
+    it('should not run past the last item when paced workers wake together', async () => {
+      const seen: (number | undefined)[] = [];
+      const updates: BatchProgress[] = [];
+
+      const results = await runBatch(
+        [1, 2, 3],
+        async (item) => {
+          seen.push(item);
+          return [{ success: true }];
+        },
+        { concurrency: 3, pace: { limit: 1, interval: 5 }, onProgress: (p) => void updates.push(p) }
+      );
+
+      expect(seen.sort()).toEqual([1, 2, 3]);
+      expect(results).toHaveLength(3);
+      expect(updates.at(-1)).toMatchObject({ total: 3, completed: 3 });
+    });
+
+    it('should skip items before the start index', async () => {
+      const seen: number[] = [];
+
+      const results = await runBatch(
+        [10, 20, 30],
+        async (item) => {
+          seen.push(item);
+          return [{ success: true }];
+        },
+        { start: 2 }
+      );
+
+      expect(seen).toEqual([30]);
+      expect(results).toHaveLength(1);
+    });
+  });
+
+  describe('batch action', () => {
+    let registry: ActionRegistry;
+    let executor: ActionExecutor;
+    let stateManager: StateManager;
+    let context: ActionContext;
+    let sent: string[];
+
+    beforeEach(() => {
+      sent = [];
+      registry = createActionRegistry();
+      const evaluator = createEvaluator();
+      stateManager = createStateManager(new MemoryAdapter());
+
+      registry.register({
+        name: 'send',
+        execute: async (config, ctx) => {
+          const to = await evaluator.interpolate(String((config as any).to), ctx);
+          if (to === 'crash') {
+            throw new Error('crashed');
+          }
+          sent.push(to);
+          return { success: true };
+        },
+      });
+      registerFlowHandlers(registry, { evaluator, stateManager } as any);
+      executor = createActionExecutor(registry, evaluator);
+
+      context = {
+        guildId: 'guild-1',
+        users: ['a', 'b', 'c', 'd'],
+        _deps: { evaluator, stateManager },
+        _actionExecutor: executor,
+      } as unknown as ActionContext;
+    });
+
+    afterEach(async () => {
+      await stateManager.close();
+    });
+
+    it('should iterate items through the executor and return progress', async () => {
+      const result = await executor.executeOne(
+        {
+          action: 'batch',
+          items: 'users',
+          as: 'u',
+          concurrency: 2,
+          each: [{ action: 'send', to: '${u}' }],
+        } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ total: 4, completed: 4, failed: 0, cursor: 4 });
+      expect([...sent].sort()).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should fail on an invalid pace', async () => {
+      const result = await executor.executeOne(
+        {
+          action: 'batch',
+          items: 'users',
+          pace: 'quickly',
+          each: [{ action: 'send', to: '${item}' }],
+        } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('Invalid batch pace');
+    });
+
+    it('should emit batch_progress events', async () => {
+      const router = createEventRouter();
+      const seen: unknown[] = [];
+      registry.register({
+        name: 'record',
+        execute: async (config, ctx) => {
+          seen.push({ ...(ctx as any).batch });
+          return { success: true };
+        },
+      });
+      router.register({ event: 'batch_progress', actions: [{ action: 'record' } as unknown as Action] });
+
+      await executor.executeOne(
+        {
+          action: 'batch',
+          id: 'welcome',
+          items: 'users',
+          progress_every: 2,
+          each: [{ action: 'send', to: '${item}' }],
+        } as unknown as Action,
+        { ...context, _eventRouter: router } as ActionContext
+      );
+
+      expect(seen).toEqual([
+        { id: 'welcome', total: 4, completed: 2, failed: 0, cursor: 2 },
+        { id: 'welcome', total: 4, completed: 4, failed: 0, cursor: 4 },
+      ]);
+    });
+
+    it('should resume from a persisted cursor after an interruption', async () => {
+      const action = {
+        action: 'batch',
+        items: 'users',
+        cursor: 'welcome_cursor',
+        each: [
+          { action: 'send', to: '${item}' },
+          { action: 'flow_if', if: "item == 'b'", then: [{ action: 'abort' }] },
+        ],
+      } as unknown as Action;
+
+      // The first run stops inside the flow after "b"
+      const engine = createFlowEngine();
+      engine.register({ name: 'welcome_all', actions: [action] });
+      const evaluator = createEvaluator();
+      await engine.execute('welcome_all', {}, context, executor, evaluator);
+
+      expect(sent).toEqual(['a', 'b']);
+      expect(await stateManager.get('welcome_cursor', context)).toBe(2);
+
+      // The second run picks up where the first left off
+      sent = [];
+      const result = await executor.executeOne(
+        { ...action, each: [{ action: 'send', to: '${item}' }] } as unknown as Action,
+        context
+      );
+
+      expect(sent).toEqual(['c', 'd']);
+      expect(result.data).toEqual({ total: 4, completed: 4, failed: 0, cursor: 4 });
+      expect(await stateManager.get('welcome_cursor', context)).toBeUndefined();
+    });
+
+    it('should count items whose actions throw as failed', async () => {
+      const result = await executor.executeOne(
+        {
+          action: 'batch',
+          items: "['a', 'crash', 'b']",
+          each: [{ action: 'send', to: '${item}' }],
+        } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('1 of 3 batch items failed');
+      expect(result.data).toEqual({ total: 3, completed: 3, failed: 1, cursor: 3 });
+      expect(sent).toEqual(['a', 'b']);
+    });
+
+    it('should process at most MAX_BATCH_CONCURRENCY items at once', async () => {
+      let running = 0;
+      let most = 0;
+      registry.register({
+        name: 'slow',
+        execute: async () => {
+          most = Math.max(most, ++running);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          running--;
+          return { success: true };
+        },
+      });
+
+      const result = await executor.executeOne(
+        {
+          action: 'batch',
+          items: 'range',
+          concurrency: 1000,
+          each: [{ action: 'slow' }],
+        } as unknown as Action,
+        { ...context, range: Array.from({ length: MAX_BATCH_CONCURRENCY + 10 }, (_, i) => i) } as ActionContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(most).toBe(MAX_BATCH_CONCURRENCY);
+    });
+  });
+});
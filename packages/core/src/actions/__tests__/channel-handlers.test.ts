@@ -227,7 +227,7 @@ describe('Channel Handlers', () => {
       );
     });
 
-    it('should store result with as', async () => {
+    it('should return the created channel', async () => {
       const newChannel = createMockChannel({ id: 'created-channel' });
       mockGuild.channels.create = vi.fn().mockResolvedValue(newChannel);
       const context = createHandlerContext({
@@ -242,8 +242,19 @@ describe('Channel Handlers', () => {
         as: 'newChannel',
       };
 
-      await handler.execute(action, context);
-      expect((context as any).newChannel).toBe(newChannel);
+      const result = await handler.execute(action, context);
+      expect(result.data).toEqual({
+        id: 'created-channel',
+        name: 'general',
+        type: 'text',
+        guild_id: '987654321098765432',
+        parent_id: null,
+        mention: '<#created-channel>',
+        url: 'https://discord.com/channels/987654321098765432/created-channel',
+      });
+      // Interpolating the result gives the mention, like the discord.js channel did
+      expect(String(result.data)).toBe('<#created-channel>');
+      expect(JSON.stringify(result.data)).not.toContain('toString');
     });
 
     it('should fail if guild not found', async () => {
@@ -282,6 +293,28 @@ describe('Channel Handlers', () => {
       await handler.execute(action, context);
       expect(mockEvaluator.interpolate).toHaveBeenCalledWith('${userName}-channel', context);
     });
+
+    it('should delete the created channel when compensated', async () => {
+      const newChannel = createMockChannel({ id: 'new-channel-123' });
+      mockGuild.channels.create = vi.fn().mockResolvedValue(newChannel);
+      mockClient.channels.fetch = vi.fn().mockResolvedValue(newChannel);
+      const context = createHandlerContext({
+        _deps: { client: mockClient, evaluator: mockEvaluator } as any,
+      });
+
+      const handler = registry.get('create_channel');
+      const action: CreateChannelAction = {
+        action: 'create_channel',
+        name: 'ticket',
+        type: 'text',
+      };
+
+      const result = await handler.execute(action, context);
+      const undo = await handler.compensate!(action, result, context);
+      expectSuccess(undo);
+      expect(mockClient.channels.fetch).toHaveBeenCalledWith('new-channel-123');
+      expect(newChannel.delete).toHaveBeenCalledWith('Rolled back');
+    });
   });
 
   describe('edit_channel', () => {
@@ -768,6 +801,27 @@ describe('Channel Handlers', () => {
       const result = await handler.execute(action, context);
       expectFailure(result, 'Guild not found');
     });
+
+    it('should delete the created role when compensated', async () => {
+      const newRole = createMockRole({ id: 'new-role-123' });
+      mockGuild.roles.create = vi.fn().mockResolvedValue(newRole);
+      (mockGuild as any).roles.fetch = vi.fn().mockResolvedValue(newRole);
+      const context = createHandlerContext({
+        _deps: { client: mockClient, evaluator: mockEvaluator } as any,
+      });
+
+      const handler = registry.get('create_role');
+      const action: CreateRoleAction = {
+        action: 'create_role',
+        name: 'Temporary',
+      };
+
+      const result = await handler.execute(action, context);
+      const undo = await handler.compensate!(action, result, context);
+      expectSuccess(undo);
+      expect((mockGuild as any).roles.fetch).toHaveBeenCalledWith('new-role-123');
+      expect(newRole.delete).toHaveBeenCalledWith('Rolled back');
+    });
   });
 
   describe('edit_role', () => {
@@ -0,0 +1,392 @@
+/**
+ * Compensation Tests
+ *
+ * Covers:
+ * - CompensationStack ordering and failure reporting
+ * - `compensate` blocks in executeSequence
+ * - The `transaction` action through the executor and the FlowEngine
+ * - Built-in handler compensations and nested transactions
+ * - Rolling back state writes with the transaction
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CompensationStack } from '../compensation.js';
+import { createActionExecutor, type ActionExecutor } from '../executor.js';
+import { createActionRegistry, type ActionRegistry } from '../registry.js';
+import { registerFlowHandlers } from '../handlers/flow.js';
+import { createEvaluator } from '../../expression/evaluator.js';
+import { createFlowEngine } from '../../flows/engine.js';
+import { createStateManager } from '../../state/manager.js';
+import { TransactionRolledBackError } from '../../errors/index.js';
+import { MemoryAdapter } from '@furlow/storage';
+import type { Action } from '@furlow/schema';
+import type { ActionContext, ActionResult } from '../types.js';
+
+function createTestContext(overrides: Record<string, unknown> = {}): ActionContext {
+  return {
+    guildId: 'test-guild',
+    client: {},
+    stateManager: {},
+    evaluator: {},
+    flowExecutor: {},
+    user: { id: 'test-user' },
+    ...overrides,
+  } as unknown as ActionContext;
+}
+
+describe('Compensation', () => {
+  let registry: ActionRegistry;
+  let executor: ActionExecutor;
+  let log: string[];
+  let context: ActionContext;
+
+  beforeEach(() => {
+    log = [];
+    registry = createActionRegistry();
+    const evaluator = createEvaluator();
+
+    registry.register({
+      name: 'step',
+      execute: async (config) => {
+        const name = (config as any).name as string;
+        log.push(`run:${name}`);
+        return { success: true, data: { name } };
+      },
+    });
+    registry.register({
+      name: 'undo',
+      execute: async (config, ctx) => {
+        const target = await evaluator.interpolate(String((config as any).target), ctx);
+        log.push(`undo:${target}`);
+        return { success: true };
+      },
+    });
+    registry.register({
+      name: 'fail',
+      execute: async () => {
+        log.push('run:fail');
+        return { success: false, error: new Error('step failed') };
+      },
+    });
+    registry.register({
+      name: 'create_thing',
+      execute: async (config) => {
+        const name = (config as any).name as string;
+        log.push(`create:${name}`);
+        return { success: true, data: { name } };
+      },
+      compensate: async (config, result) => {
+        log.push(`destroy:${(result.data as { name: string }).name}`);
+        return { success: true };
+      },
+    });
+
+    registerFlowHandlers(registry, { evaluator } as any);
+    executor = createActionExecutor(registry, evaluator);
+    context = createTestContext({
+      _deps: { evaluator },
+      _actionExecutor: executor,
+    });
+  });
+
+  describe('CompensationStack', () => {
+    it('should unwind in reverse order and keep going after failures', async () => {
+      const stack = new CompensationStack();
+      const order: string[] = [];
+
+      stack.push({ action: 'a', run: async () => { order.push('a'); return [{ success: true }]; } });
+      stack.push({ action: 'b', run: async () => { throw new Error('b broke'); } });
+      stack.push({
+        action: 'c',
+        run: async () => {
+          order.push('c');
+          return [{ success: false, error: new Error('c failed') }];
+        },
+      });
+
+      const report = await stack.unwind();
+
+      expect(order).toEqual(['c', 'a']);
+      expect(report.compensated).toEqual(['a']);
+      expect(report.failed).toEqual([
+        { action: 'c', error: 'c failed' },
+        { action: 'b', error: 'b broke' },
+      ]);
+      expect(stack.size).toBe(0);
+    });
+  });
+
+  describe('compensate blocks', () => {
+    it('should run compensate blocks in reverse order when a sequence stops', async () => {
+      const actions = [
+        {
+          action: 'step',
+          name: 'first',
+          compensate: [{ action: 'undo', target: '${result.name}' }],
+        },
+        {
+          action: 'step',
+          name: 'second',
+          compensate: [{ action: 'undo', target: '${result.name}' }],
+        },
+        { action: 'fail' },
+        { action: 'step', name: 'never' },
+      ] as unknown as Action[];
+
+      await executor.executeSequence(actions, context);
+
+      expect(log).toEqual(['run:first', 'run:second', 'run:fail', 'undo:second', 'undo:first']);
+      expect(context._compensations).toBeUndefined();
+    });
+
+    it('should run compensate blocks when an action throws', async () => {
+      registry.register({
+        name: 'explode',
+        execute: async () => {
+          throw new Error('boom');
+        },
+      });
+      const actions = [
+        { action: 'step', name: 'first', compensate: [{ action: 'undo', target: 'first' }] },
+        { action: 'explode' },
+      ] as unknown as Action[];
+
+      const results = await executor.executeSequence(actions, context);
+
+      expect(results[1]!.success).toBe(false);
+      expect(log).toEqual(['run:first', 'undo:first']);
+    });
+
+    it('should run compensate blocks before rethrowing from the sequence', async () => {
+      registry.register({
+        name: 'misconfigured',
+        validate: () => {
+          throw new Error('bad config');
+        },
+        execute: async () => ({ success: true }),
+      });
+      const actions = [
+        { action: 'step', name: 'first', compensate: [{ action: 'undo', target: 'first' }] },
+        { action: 'misconfigured' },
+      ] as unknown as Action[];
+
+      await expect(executor.executeSequence(actions, context)).rejects.toThrow('bad config');
+
+      expect(log).toEqual(['run:first', 'undo:first']);
+      expect(context._compensations).toBeUndefined();
+    });
+
+    it('should not run compensations when the sequence succeeds', async () => {
+      const actions = [
+        { action: 'step', name: 'only', compensate: [{ action: 'undo', target: 'x' }] },
+      ] as unknown as Action[];
+
+      await executor.executeSequence(actions, context);
+
+      expect(log).toEqual(['run:only']);
+    });
+
+    it('should not use built-in compensations outside a transaction', async () => {
+      const actions = [
+        { action: 'create_thing', name: 'ticket' },
+        { action: 'fail' },
+      ] as unknown as Action[];
+
+      await executor.executeSequence(actions, context);
+
+      expect(log).toEqual(['create:ticket', 'run:fail']);
+    });
+
+    it('should not register compensations for skipped actions', async () => {
+      const actions = [
+        {
+          action: 'step',
+          name: 'skipped',
+          when: 'false',
+          compensate: [{ action: 'undo', target: 'skipped' }],
+        },
+        { action: 'fail' },
+      ] as unknown as Action[];
+
+      await executor.executeSequence(actions, context);
+
+      expect(log).toEqual(['run:fail']);
+    });
+  });
+
+  describe('transaction action', () => {
+    it('should commit when every step succeeds', async () => {
+      const result = await executor.executeOne(
+        {
+          action: 'transaction',
+          actions: [
+            { action: 'create_thing', name: 'a' },
+            { action: 'create_thing', name: 'b' },
+          ],
+        } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ committed: true, steps: 2 });
+      expect(log).toEqual(['create:a', 'create:b']);
+    });
+
+    it('should roll back built-in and explicit compensations on failure', async () => {
+      const result = await executor.executeOne(
+        {
+          action: 'transaction',
+          actions: [
+            { action: 'create_thing', name: 'channel' },
+            { action: 'step', name: 'role', compensate: [{ action: 'undo', target: 'role' }] },
+            { action: 'fail' },
+            { action: 'create_thing', name: 'never' },
+          ],
+        } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(TransactionRolledBackError);
+      expect((result.error as TransactionRolledBackError).code).toBe('E5005');
+      expect(result.error?.message).toContain('"fail" failed: step failed');
+      expect(result.data).toEqual({
+        committed: false,
+        steps: 3,
+        compensated: ['step', 'create_thing'],
+        failed: [],
+      });
+      expect(log).toEqual([
+        'create:channel',
+        'run:role',
+        'run:fail',
+        'undo:role',
+        'destroy:channel',
+      ]);
+    });
+
+    it('should prefer an explicit compensate block over the built-in one', async () => {
+      await executor.executeOne(
+        {
+          action: 'transaction',
+          actions: [
+            {
+              action: 'create_thing',
+              name: 'custom',
+              compensate: [{ action: 'undo', target: 'custom' }],
+            },
+            { action: 'fail' },
+          ],
+        } as unknown as Action,
+        context
+      );
+
+      expect(log).toEqual(['create:custom', 'run:fail', 'undo:custom']);
+    });
+
+    it('should report compensations that fail', async () => {
+      registry.register({
+        name: 'fragile',
+        execute: async () => ({ success: true }),
+        compensate: async () => ({ success: false, error: new Error('already gone') }),
+      });
+
+      const result = await executor.executeOne(
+        {
+          action: 'transaction',
+          actions: [{ action: 'fragile' }, { action: 'fail' }],
+        } as unknown as Action,
+        context
+      );
+
+      expect(result.data).toMatchObject({
+        failed: [{ action: 'fragile', error: 'already gone' }],
+      });
+      expect(result.error?.message).toContain('1 compensation(s) also failed');
+    });
+
+    it('should hand compensations of a committed inner transaction to the outer one', async () => {
+      await executor.executeOne(
+        {
+          action: 'transaction',
+          actions: [
+            { action: 'create_thing', name: 'outer' },
+            {
+              action: 'transaction',
+              actions: [{ action: 'create_thing', name: 'inner' }],
+            },
+            { action: 'fail' },
+          ],
+        } as unknown as Action,
+        context
+      );
+
+      expect(log).toEqual([
+        'create:outer',
+        'create:inner',
+        'run:fail',
+        'destroy:inner',
+        'destroy:outer',
+      ]);
+    });
+
+    it('should roll back state writes made by its steps', async () => {
+      const stateManager = createStateManager(new MemoryAdapter());
+      stateManager.registerVariables({ balance: { scope: 'user', default: 0 } });
+      registry.register({
+        name: 'credit',
+        execute: async (config) => {
+          const { user, by } = config as unknown as { user: string; by: number };
+          await stateManager.increment('balance', by, { userId: user });
+          return { success: true };
+        },
+      });
+      const transfer = (steps: Action[]) =>
+        executor.executeOne(
+          {
+            action: 'transaction',
+            actions: [{ action: 'credit', user: 'a', by: -10 }, { action: 'credit', user: 'b', by: 10 }, ...steps],
+          } as unknown as Action,
+          { ...context, stateManager }
+        );
+
+      expect((await transfer([{ action: 'fail' } as Action])).success).toBe(false);
+      expect(await stateManager.get('balance', { userId: 'a' })).toBe(0);
+      expect(await stateManager.get('balance', { userId: 'b' })).toBe(0);
+
+      expect((await transfer([])).success).toBe(true);
+      expect(await stateManager.get('balance', { userId: 'a' })).toBe(-10);
+      expect(await stateManager.get('balance', { userId: 'b' })).toBe(10);
+    });
+
+    it('should roll back inside a flow', async () => {
+      const evaluator = createEvaluator();
+      const engine = createFlowEngine();
+      const handler = vi.fn(async (): Promise<ActionResult> => ({ success: true }));
+      registry.register({ name: 'after', execute: handler });
+
+      engine.register({
+        name: 'open_ticket',
+        actions: [
+          {
+            action: 'transaction',
+            actions: [
+              { action: 'create_thing', name: 'channel' },
+              {
+                action: 'flow_if',
+                if: 'true',
+                then: [{ action: 'fail' }],
+              },
+            ],
+          },
+          { action: 'after' },
+        ] as unknown as Action[],
+      });
+
+      await engine.execute('open_ticket', {}, context, executor, evaluator);
+
+      expect(log).toEqual(['create:channel', 'run:fail', 'destroy:channel']);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
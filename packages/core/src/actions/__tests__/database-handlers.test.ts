@@ -92,7 +92,7 @@ describe('Database Handlers', () => {
       expect(mockEvaluator.evaluate).toHaveBeenCalledWith('now()', context);
     });
 
-    it('should store result with as', async () => {
+    it('should return the inserted row', async () => {
       const context = createHandlerContext({
         _deps: { evaluator: mockEvaluator, stateManager: mockStateManager } as any,
       });
@@ -105,8 +105,8 @@ describe('Database Handlers', () => {
         as: 'insertedData',
       };
 
-      await handler.execute(action, context);
-      expect((context as any).insertedData).toEqual({ name: 'Item 1' });
+      const result = await handler.execute(action, context);
+      expect(result.data).toEqual({ name: 'Item 1' });
     });
 
     it('should fail without state manager', async () => {
@@ -237,7 +237,7 @@ describe('Database Handlers', () => {
       );
     });
 
-    it('should store count with as', async () => {
+    it('should return the updated count', async () => {
       mockStateManager.update = vi.fn().mockResolvedValue(3);
       const context = createHandlerContext({
         _deps: { evaluator: mockEvaluator, stateManager: mockStateManager } as any,
@@ -252,8 +252,8 @@ describe('Database Handlers', () => {
         as: 'updatedCount',
       };
 
-      await handler.execute(action, context);
-      expect((context as any).updatedCount).toBe(3);
+      const result = await handler.execute(action, context);
+      expect(result.data).toBe(3);
     });
 
     it('should handle upsert mode', async () => {
@@ -416,7 +416,7 @@ describe('Database Handlers', () => {
         limit: undefined,
         offset: undefined,
       });
-      expect((context as any).users).toEqual(mockData);
+      expect(result.data).toEqual(mockData);
     });
 
     it('should query with where clause', async () => {
@@ -599,5 +599,37 @@ describe('Database Handlers', () => {
         where: { guild_id: 'guild-123' },
       }));
     });
+
+    it('should evaluate values inside operators and groups', async () => {
+      mockStateManager.query = vi.fn().mockResolvedValue([]);
+      const context = createHandlerContext({
+        _deps: { evaluator: mockEvaluator, stateManager: mockStateManager } as any,
+      });
+
+      const handler = registry.get('db_query');
+      const action: DbQueryAction = {
+        action: 'db_query',
+        table: 'levels',
+        where: {
+          level: { $gte: '5', $in: ['5', '6'] },
+          $or: [{ vip: 'true' }, { name: { $like: '$literal:A%' } }],
+        },
+        group_by: 'level',
+        aggregate: { members: 'count(*)' },
+        order_by: ['members DESC', 'level'],
+        as: 'levels',
+      };
+
+      await handler.execute(action, context);
+      expect(mockStateManager.query).toHaveBeenCalledWith('levels', expect.objectContaining({
+        where: {
+          level: { $gte: 5, $in: [5, 6] },
+          $or: [{ vip: true }, { name: { $like: 'A%' } }],
+        },
+        groupBy: 'level',
+        aggregate: { members: 'count(*)' },
+        orderBy: ['members DESC', 'level'],
+      }));
+    });
   });
 });
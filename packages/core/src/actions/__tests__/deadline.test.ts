@@ -0,0 +1,240 @@
+/**
+ * Deadline Tests
+ *
+ * Covers:
+ * - Abortable sleeps and promises
+ * - runWithDeadline cutting off handlers that ignore the signal
+ * - wait, flow_while and retry delays stopping at the deadline
+ * - execution_timeout events from the event router, for handlers and commands
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { abortable, runWithDeadline, sleep } from '../deadline.js';
+import { createActionExecutor, type ActionExecutor } from '../executor.js';
+import { createActionRegistry, type ActionRegistry } from '../registry.js';
+import { registerFlowHandlers } from '../handlers/flow.js';
+import { createEvaluator } from '../../expression/evaluator.js';
+import { createEventRouter } from '../../events/router.js';
+import { createFlowEngine } from '../../flows/engine.js';
+import { ExecutionTimeoutError } from '../../errors/index.js';
+import type { Action } from '@furlow/schema';
+import type { ActionContext } from '../types.js';
+
+describe('Deadlines', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('sleep and abortable', () => {
+    it('should end a sleep early when the signal aborts', async () => {
+      const controller = new AbortController();
+      let done = false;
+      void sleep(60000, controller.signal).then(() => (done = true));
+
+      controller.abort();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(done).toBe(true);
+    });
+
+    it('should reject with the abort reason', async () => {
+      const controller = new AbortController();
+      const pending = abortable(new Promise(() => {}), controller.signal);
+
+      controller.abort(new Error('cancelled'));
+
+      await expect(pending).rejects.toThrow('cancelled');
+    });
+  });
+
+  describe('runWithDeadline', () => {
+    it('should return the value when the run finishes in time', async () => {
+      const context = {} as ActionContext;
+
+      let signal: AbortSignal | undefined;
+
+      const result = await runWithDeadline(context, 1000, 'Test', async () => {
+        signal = context.signal;
+        return 42;
+      });
+
+      expect(result).toEqual({ value: 42 });
+      expect(signal?.aborted).toBe(false);
+      expect(context.signal).toBeUndefined();
+    });
+
+    it('should cut off a run that ignores the signal', async () => {
+      const context = {} as ActionContext;
+
+      let signal: AbortSignal | undefined;
+
+      const pending = runWithDeadline(context, 1000, 'Handler for "ready"', () => {
+        signal = context.signal;
+        return new Promise(() => {});
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+      const result = await pending;
+
+      expect(result.timeout).toBeInstanceOf(ExecutionTimeoutError);
+      expect(result.timeout!.code).toBe('E3007');
+      expect(result.timeout!.message).toBe('Handler for "ready" exceeded its deadline of 1000ms');
+      expect(signal?.aborted).toBe(true);
+      expect(context.signal).toBeUndefined();
+    });
+
+    it('should abort when the parent signal aborts', async () => {
+      const parent = new AbortController();
+      const context = { signal: parent.signal } as ActionContext;
+
+      const pending = runWithDeadline(context, 1000, 'Test', () => new Promise(() => {}));
+      parent.abort(new Error('shutting down'));
+
+      await expect(pending).rejects.toThrow('shutting down');
+    });
+  });
+
+  describe('handlers', () => {
+    let registry: ActionRegistry;
+    let executor: ActionExecutor;
+    let context: ActionContext;
+    let ticks: number;
+
+    beforeEach(() => {
+      ticks = 0;
+      registry = createActionRegistry();
+      const evaluator = createEvaluator();
+      registry.register({
+        name: 'tick',
+        execute: async () => {
+          ticks++;
+          return { success: true };
+        },
+      });
+      registerFlowHandlers(registry, { evaluator } as any);
+      executor = createActionExecutor(registry, evaluator);
+      context = { _deps: { evaluator } } as unknown as ActionContext;
+    });
+
+    it('should stop wait at the deadline', async () => {
+      const pending = runWithDeadline(context, 500, 'Test', () =>
+        executor.executeSequence(
+          [{ action: 'wait', duration: '1h' }, { action: 'tick' }] as unknown as Action[],
+          context
+        )
+      );
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect((await pending).timeout).toBeDefined();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(ticks).toBe(0);
+    });
+
+    it('should stop a flow_while loop at the deadline', async () => {
+      const engine = createFlowEngine({ maxIterations: 1_000_000 });
+      engine.register({
+        name: 'spin',
+        actions: [
+          {
+            action: 'flow_while',
+            while: 'true',
+            do: [{ action: 'tick' }, { action: 'wait', duration: '100ms' }],
+          } as unknown as Action,
+        ],
+      });
+      const evaluator = createEvaluator();
+
+      const pending = runWithDeadline(context, 1000, 'Test', () =>
+        engine.execute('spin', {}, context, executor, evaluator)
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+      await pending;
+      const ticksAtDeadline = ticks;
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(ticksAtDeadline).toBeGreaterThan(0);
+      expect(ticks).toBe(ticksAtDeadline);
+    });
+  });
+
+  describe('execution_timeout event', () => {
+    it('should fire when a handler is cut off', async () => {
+      const router = createEventRouter({ handlerTimeout: 1000 });
+      const seen: unknown[] = [];
+      const executor = {
+        executeSequence: vi.fn(async (actions: Action[], ctx: ActionContext) => {
+          if ((actions[0] as { action: string }).action === 'hang') {
+            return new Promise(() => {});
+          }
+          seen.push({ ...(ctx as any).timeout, aborted: ctx.signal?.aborted });
+          return [];
+        }),
+      } as unknown as ActionExecutor;
+
+      router.register({ event: 'member_join', actions: [{ action: 'hang' } as unknown as Action] });
+      router.register({
+        event: 'execution_timeout',
+        actions: [{ action: 'log', message: '${timeout.message}' } as unknown as Action],
+      });
+
+      const pending = router.emit('member_join', {} as ActionContext, executor, createEvaluator());
+      await vi.advanceTimersByTimeAsync(1000);
+      await pending;
+
+      expect(seen).toEqual([
+        {
+          event: 'member_join',
+          handler: 'handler_1',
+          duration: 1000,
+          message: 'Handler for "member_join" exceeded its deadline of 1000ms',
+          aborted: false,
+        },
+      ]);
+    });
+
+    it('should fire when a command is cut off', async () => {
+      const router = createEventRouter({ handlerTimeout: 1000 });
+      const seen: unknown[] = [];
+      const executor = {
+        executeSequence: vi.fn(async (actions: Action[], ctx: ActionContext) => {
+          if ((actions[0] as { action: string }).action === 'hang') {
+            return new Promise(() => {});
+          }
+          seen.push({ ...(ctx as any).timeout, aborted: ctx.signal?.aborted });
+          return [];
+        }),
+      } as unknown as ActionExecutor;
+
+      router.register({
+        event: 'execution_timeout',
+        actions: [{ action: 'log', message: '${timeout.message}' } as unknown as Action],
+      });
+
+      const context = {} as ActionContext;
+      const pending = router.runCommand(
+        'ping',
+        [{ action: 'hang' } as unknown as Action],
+        context,
+        executor,
+        createEvaluator()
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+      const { results, timeout } = await pending;
+
+      expect(results).toEqual([]);
+      expect(timeout!.message).toBe('Command "/ping" exceeded its deadline of 1000ms');
+      expect(context.signal).toBeUndefined();
+      expect(seen).toEqual([
+        {
+          command: 'ping',
+          duration: 1000,
+          message: 'Command "/ping" exceeded its deadline of 1000ms',
+          aborted: false,
+        },
+      ]);
+    });
+  });
+});
@@ -8,15 +8,25 @@
  * - Batch processing with concurrency
  * - Abort signal handling
  * - Error propagation
+ * - Retry policies and per-action timeouts
+ * - Idempotency keys
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ActionExecutor, createActionExecutor } from '../executor.js';
 import { ActionRegistry, createActionRegistry } from '../registry.js';
+import { withActionScope } from '../idempotency.js';
 import { createEvaluator } from '../../expression/evaluator.js';
+import { createStateManager } from '../../state/manager.js';
+import { MemoryAdapter } from '@furlow/storage';
 import type { Action, SimpleCondition } from '@furlow/schema';
 import type { ActionContext, ActionResult, ActionHandler } from '../types.js';
-import { ActionExecutionError, FlowAbortedError } from '../../errors/index.js';
+import {
+  ActionExecutionError,
+  ActionTimeoutError,
+  DiscordApiError,
+  FlowAbortedError,
+} from '../../errors/index.js';
 
 /**
  * Create a mock action context for testing
@@ -761,6 +771,499 @@ describe('ActionExecutor', () => {
     });
   });
 
+  describe('retry and timeout', () => {
+    function createFlakyHandler(name: string, failures: number, error = new Error('flaky')) {
+      let calls = 0;
+      const handler = createTestHandler(name, {
+        execute: async () => {
+          calls++;
+          if (calls <= failures) {
+            throw error;
+          }
+          return { success: true, data: { calls } };
+        },
+      });
+      return { handler, getCalls: () => calls };
+    }
+
+    it('should retry a failing action until it succeeds', async () => {
+      const { handler, getCalls } = createFlakyHandler('flaky', 2);
+      registry.register(handler);
+
+      const result = await executor.executeOne(
+        { action: 'flaky', retry: { attempts: 3, delay: 1 } } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toBe(3);
+      expect(getCalls()).toBe(3);
+    });
+
+    it('should return the last failure when attempts are exhausted', async () => {
+      const { handler, getCalls } = createFlakyHandler('always_fails', 10);
+      registry.register(handler);
+
+      const result = await executor.executeOne(
+        { action: 'always_fails', retry: { attempts: 2, delay: 1 } } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(ActionExecutionError);
+      expect(result.attempts).toBe(2);
+      expect(getCalls()).toBe(2);
+    });
+
+    it('should retry handlers that return an unsuccessful result', async () => {
+      let calls = 0;
+      registry.register(
+        createTestHandler('soft_fail', {
+          execute: async () => {
+            calls++;
+            return calls < 2 ? { success: false } : { success: true };
+          },
+        })
+      );
+
+      const result = await executor.executeOne(
+        { action: 'soft_fail', retry: { attempts: 3, delay: 1 } } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toBe(2);
+    });
+
+    it('should only retry errors matching the on filter', async () => {
+      const { handler, getCalls } = createFlakyHandler('not_matching', 5);
+      registry.register(handler);
+
+      const result = await executor.executeOne(
+        { action: 'not_matching', retry: { attempts: 3, delay: 1, on: ['E6001'] } } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.attempts).toBe(1);
+      expect(getCalls()).toBe(1);
+    });
+
+    it('should match error codes and HTTP status classes through the cause chain', async () => {
+      const { handler, getCalls } = createFlakyHandler(
+        'discord_5xx',
+        1,
+        new DiscordApiError('Service Unavailable', 503)
+      );
+      registry.register(handler);
+
+      const result = await executor.executeOne(
+        { action: 'discord_5xx', retry: { attempts: 3, delay: 1, on: ['5xx'] } } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(getCalls()).toBe(2);
+    });
+
+    it('should cap attempts at maxRetryAttempts', async () => {
+      const exec = createActionExecutor(registry, evaluator, { maxRetryAttempts: 2 });
+      const { handler, getCalls } = createFlakyHandler('capped', 10);
+      registry.register(handler);
+
+      const result = await exec.executeOne(
+        { action: 'capped', retry: { attempts: 50, delay: 1 } } as unknown as Action,
+        context
+      );
+
+      expect(result.attempts).toBe(2);
+      expect(getCalls()).toBe(2);
+    });
+
+    it('should not retry validation failures', async () => {
+      const execute = vi.fn(async () => ({ success: true }));
+      registry.register({ name: 'invalid', validate: () => 'bad config', execute });
+
+      const result = await executor.executeOne(
+        { action: 'invalid', retry: { attempts: 3, delay: 1 } } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('should fail an attempt that exceeds the timeout', async () => {
+      registry.register(createTestHandler('slow', { delay: 200 }));
+
+      const result = await executor.executeOne(
+        { action: 'slow', timeout: 20 } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.timedOut).toBe(true);
+      expect(result.error).toBeInstanceOf(ActionTimeoutError);
+      expect((result.error as ActionTimeoutError).code).toBe('E3006');
+    });
+
+    it('should accept duration strings for timeout', async () => {
+      registry.register(createTestHandler('fast', { delay: 5 }));
+
+      const result = await executor.executeOne(
+        { action: 'fast', timeout: '1s' } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.timedOut).toBeUndefined();
+    });
+
+    it('should abort the signal of a timed out attempt', async () => {
+      let signal: AbortSignal | undefined;
+      registry.register(
+        createTestHandler('hangs', {
+          execute: async (_action, ctx) => {
+            signal = ctx.signal;
+            await new Promise((r) => setTimeout(r, 200));
+            return { success: true };
+          },
+        })
+      );
+
+      const result = await executor.executeOne(
+        { action: 'hangs', timeout: 20 } as unknown as Action,
+        context
+      );
+
+      expect(result.timedOut).toBe(true);
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBe(result.error);
+      expect(context.signal).toBeUndefined();
+    });
+
+    it('should not retry timed out attempts unless the policy lists timeouts', async () => {
+      let calls = 0;
+      registry.register(
+        createTestHandler('slow_charge', {
+          execute: async () => {
+            calls++;
+            await new Promise((r) => setTimeout(r, 200));
+            return { success: true };
+          },
+        })
+      );
+
+      const result = await executor.executeOne(
+        {
+          action: 'slow_charge',
+          timeout: 20,
+          retry: { attempts: 3, delay: 1 },
+        } as unknown as Action,
+        context
+      );
+
+      expect(result.timedOut).toBe(true);
+      expect(result.attempts).toBe(1);
+      expect(calls).toBe(1);
+    });
+
+    it('should keep variables stored by a handler with a timeout', async () => {
+      registry.register(
+        createTestHandler('stores', {
+          execute: async (_action, ctx) => {
+            (ctx as Record<string, unknown>).stored = 'yes';
+            return { success: true };
+          },
+        })
+      );
+
+      await executor.executeOne({ action: 'stores', timeout: '1s' } as unknown as Action, context);
+
+      expect((context as Record<string, unknown>).stored).toBe('yes');
+    });
+
+    it('should keep deletes and late writes made by a handler with a timeout', async () => {
+      let finished!: () => void;
+      const done = new Promise<void>((resolve) => (finished = resolve));
+      registry.register(
+        createTestHandler('late_writer', {
+          execute: async (_action, ctx) => {
+            delete (ctx as Record<string, unknown>).stale;
+            await new Promise((r) => setTimeout(r, 50));
+            (ctx as Record<string, unknown>).late = ctx.signal?.aborted;
+            finished();
+            return { success: true };
+          },
+        })
+      );
+      (context as Record<string, unknown>).stale = 'old';
+
+      const result = await executor.executeOne(
+        { action: 'late_writer', timeout: 20 } as unknown as Action,
+        context
+      );
+      await done;
+
+      expect(result.timedOut).toBe(true);
+      expect(context).not.toHaveProperty('stale');
+      expect((context as Record<string, unknown>).late).toBe(true);
+      expect(context.signal).toBeUndefined();
+    });
+
+    it('should retry timed out attempts', async () => {
+      let calls = 0;
+      registry.register(
+        createTestHandler('slow_then_fast', {
+          execute: async () => {
+            calls++;
+            if (calls === 1) {
+              await new Promise((r) => setTimeout(r, 200));
+            }
+            return { success: true };
+          },
+        })
+      );
+
+      const result = await executor.executeOne(
+        {
+          action: 'slow_then_fast',
+          timeout: 20,
+          retry: { attempts: 2, delay: 1, on: ['E3006'] },
+        } as unknown as Action,
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toBe(2);
+    });
+
+    it('should stop retrying once the signal is aborted', async () => {
+      const controller = new AbortController();
+      let calls = 0;
+      registry.register(
+        createTestHandler('abort_mid_retry', {
+          execute: async () => {
+            calls++;
+            controller.abort();
+            return { success: false, error: new Error('fail') };
+          },
+        })
+      );
+
+      const result = await executor.executeOne(
+        { action: 'abort_mid_retry', retry: { attempts: 5, delay: 1 } } as unknown as Action,
+        createTestContext({ signal: controller.signal })
+      );
+
+      expect(result.success).toBe(false);
+      expect(calls).toBe(1);
+    });
+
+    it('should grow delays according to the backoff strategy', async () => {
+      vi.useFakeTimers();
+      try {
+        const { handler, getCalls } = createFlakyHandler('backoff', 3);
+        registry.register(handler);
+
+        const promise = executor.executeOne(
+          {
+            action: 'backoff',
+            retry: { attempts: 4, delay: 100, backoff: 'exponential' },
+          } as unknown as Action,
+          context
+        );
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(getCalls()).toBe(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(getCalls()).toBe(2);
+        await vi.advanceTimersByTimeAsync(200);
+        expect(getCalls()).toBe(3);
+        await vi.advanceTimersByTimeAsync(400);
+        expect(getCalls()).toBe(4);
+
+        const result = await promise;
+        expect(result.success).toBe(true);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('as binding', () => {
+    it('should store result data under as for any action', async () => {
+      await executor.executeOne({ action: 'test_action', as: 'out' } as unknown as Action, context);
+
+      expect((context as any).out).toEqual({ action: 'test_action' });
+    });
+
+    it('should make the bound result available to later actions', async () => {
+      const seen: unknown[] = [];
+      registry.register(
+        createTestHandler('read_out', {
+          execute: async (_action, ctx) => {
+            seen.push(await evaluator.evaluate('out.action', ctx));
+            return { success: true };
+          },
+        })
+      );
+
+      await executor.executeSequence(
+        [{ action: 'action_a', as: 'out' } as unknown as Action, { action: 'read_out' } as unknown as Action],
+        context
+      );
+
+      expect(seen).toEqual(['action_a']);
+    });
+
+    it('should bind failed results that carry data', async () => {
+      registry.register(
+        createTestHandler('http_call', {
+          execute: async () => ({ success: false, data: { status: 404, ok: false } }),
+        })
+      );
+
+      await executor.executeOne({ action: 'http_call', as: 'response' } as unknown as Action, context);
+
+      expect((context as any).response).toEqual({ status: 404, ok: false });
+    });
+
+    it('should not bind skipped actions or results without data', async () => {
+      registry.register(
+        createTestHandler('no_data', { execute: async () => ({ success: true }) })
+      );
+
+      await executor.executeOne({ action: 'test_action', when: 'false', as: 'skipped' } as unknown as Action, context);
+      await executor.executeOne({ action: 'no_data', as: 'empty' } as unknown as Action, context);
+
+      expect('skipped' in context).toBe(false);
+      expect('empty' in context).toBe(false);
+    });
+
+    it('should leave as alone for actions that use it as a loop variable', async () => {
+      registry.register(createTestHandler('repeat'));
+
+      await executor.executeOne({ action: 'repeat', as: 'i' } as unknown as Action, context);
+
+      expect('i' in context).toBe(false);
+    });
+  });
+
+  describe('idempotency_key', () => {
+    let runs: number;
+
+    beforeEach(() => {
+      runs = 0;
+      registry.register(
+        createTestHandler('award_xp', {
+          execute: async () => {
+            runs++;
+            return { success: runs > 1 || !(context as any).failFirst };
+          },
+        })
+      );
+      context = createTestContext({
+        stateManager: createStateManager(new MemoryAdapter()),
+        message: { id: 'm1' } as unknown as ActionContext['message'],
+      });
+    });
+
+    it('should skip an action that already ran for the same key', async () => {
+      const action = {
+        action: 'award_xp',
+        idempotency_key: '${message.id}:${user.id}',
+      } as unknown as Action;
+
+      const first = await executor.executeOne(action, context);
+      const second = await executor.executeOne(action, context);
+
+      expect(first.skipped).toBeUndefined();
+      expect(second).toEqual({
+        success: true,
+        data: null,
+        skipped: 'Duplicate idempotency key "action:award_xp:m1:test-user"',
+      });
+      expect(runs).toBe(1);
+    });
+
+    it('should run again for a different key', async () => {
+      const action = { action: 'award_xp', idempotency_key: '${message.id}' } as unknown as Action;
+
+      await executor.executeOne(action, context);
+      (context as any).message = { id: 'm2' };
+      await executor.executeOne(action, context);
+
+      expect(runs).toBe(2);
+    });
+
+    it('should run again once the key expires', async () => {
+      vi.useFakeTimers();
+      try {
+        const action = {
+          action: 'award_xp',
+          idempotency_key: '${message.id}',
+          idempotency_ttl: '1m',
+        } as unknown as Action;
+
+        await executor.executeOne(action, context);
+        vi.advanceTimersByTime(60001);
+        await executor.executeOne(action, context);
+
+        expect(runs).toBe(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should release the key when the action fails', async () => {
+      (context as any).failFirst = true;
+      const action = { action: 'award_xp', idempotency_key: '${message.id}' } as unknown as Action;
+
+      const first = await executor.executeOne(action, context);
+      const second = await executor.executeOne(action, context);
+
+      expect(first.success).toBe(false);
+      expect(second).toMatchObject({ success: true });
+      expect(second.skipped).toBeUndefined();
+      expect(runs).toBe(2);
+    });
+
+    it('should keep keys apart for actions at different positions', async () => {
+      const action = { action: 'award_xp', idempotency_key: '${message.id}' } as unknown as Action;
+
+      const results = await executor.executeSequence([action, action], context);
+
+      expect(results.map((r) => r.skipped)).toEqual([undefined, undefined]);
+      expect(runs).toBe(2);
+    });
+
+    it('should fail the action when its key cannot be claimed', async () => {
+      const action = { action: 'award_xp', idempotency_key: '${message.id}' } as unknown as Action;
+      const bare = createTestContext({
+        stateManager: undefined,
+        message: { id: 'm1' } as unknown as ActionContext['message'],
+      });
+
+      const results = await executor.executeSequence([action], bare);
+
+      expect(results[0]!.success).toBe(false);
+      expect(results[0]!.error?.message).toContain('idempotency_key needs a state manager');
+      expect(runs).toBe(0);
+    });
+
+    it('should keep keys apart for the same action under different scopes', async () => {
+      const action = { action: 'award_xp', idempotency_key: '${message.id}' } as unknown as Action;
+
+      await withActionScope('job:a', () => executor.executeSequence([action], context));
+      await withActionScope('job:b', () => executor.executeSequence([action], context));
+      const replay = await withActionScope('job:a', () => executor.executeSequence([action], context));
+
+      expect(replay[0]!.skipped).toBe('Duplicate idempotency key "action:award_xp@job:a/0:m1"');
+      expect(runs).toBe(2);
+    });
+  });
+
   describe('factory function', () => {
     it('should create executor with default options', () => {
       const exec = createActionExecutor(registry, evaluator);
@@ -125,7 +125,7 @@ describe('Flow Handlers', () => {
       );
     });
 
-    it('should store result with as', async () => {
+    it('should return the flow value', async () => {
       const mockActionExecutor = { executeOne: vi.fn() };
       mockFlowEngine.execute = vi.fn().mockResolvedValue({ success: true, value: 'flow_result' });
       const context = createHandlerContext({
@@ -140,8 +140,8 @@ describe('Flow Handlers', () => {
         as: 'flowResult',
       };
 
-      await handler.execute(action, context);
-      expect((context as any).flowResult).toBe('flow_result');
+      const result = await handler.execute(action, context);
+      expect(result.data).toBe('flow_result');
     });
 
     it('should fail without flow engine', async () => {
@@ -415,23 +415,31 @@ describe('Flow Handlers', () => {
   });
 
   describe('batch', () => {
-    it('should evaluate items array', async () => {
+    it('should evaluate items and run them through the executor', async () => {
       mockEvaluator.evaluate = vi.fn().mockResolvedValue([1, 2, 3]);
+      const mockActionExecutor = { executeSequence: vi.fn().mockResolvedValue([{ success: true }]) };
       const context = createHandlerContext({
         _deps: { evaluator: mockEvaluator } as any,
+        _actionExecutor: mockActionExecutor,
       });
 
       const handler = registry.get('batch');
       const action: BatchAction = {
         action: 'batch',
         items: 'myArray',
-        do: [],
+        each: [{ action: 'log', message: 'hi' }],
+        concurrency: 2,
       };
 
       const result = await handler.execute(action, context);
       expectSuccess(result);
       expect(mockEvaluator.evaluate).toHaveBeenCalledWith('myArray', context);
-      expect(result.data).toEqual({ items: [1, 2, 3], count: 3 });
+      expect(mockActionExecutor.executeSequence).toHaveBeenCalledTimes(3);
+      expect(mockActionExecutor.executeSequence).toHaveBeenCalledWith(
+        [{ action: 'log', message: 'hi' }],
+        expect.objectContaining({ item: 3, item_index: 2 })
+      );
+      expect(result.data).toEqual({ total: 3, completed: 3, failed: 0, cursor: 3 });
     });
 
     it('should fail if items is not array', async () => {
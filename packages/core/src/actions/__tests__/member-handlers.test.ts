@@ -196,6 +196,47 @@ describe('Member Handlers', () => {
       const result = await handler.execute(action, context);
       expectFailure(result, 'Role not found');
     });
+
+    it('should remove the role again when compensated', async () => {
+      const context = createHandlerContext({
+        _deps: { client: mockClient, evaluator: mockEvaluator } as any,
+      });
+
+      const handler = registry.get('assign_role');
+      const action: AssignRoleAction = {
+        action: 'assign_role',
+        role: '444555666777888999',
+      };
+
+      const result = await handler.execute(action, context);
+      expect(result.data).toEqual({
+        user_id: mockMember.id,
+        role_id: mockRole.id,
+        added: true,
+      });
+
+      const undo = await handler.compensate!(action, result, context);
+      expectSuccess(undo);
+      expect(mockMember.roles.remove).toHaveBeenCalledWith(mockRole.id, 'Rolled back');
+    });
+
+    it('should keep a role the member already had when compensated', async () => {
+      mockMember.roles.cache.set(mockRole.id, mockRole);
+      const context = createHandlerContext({
+        _deps: { client: mockClient, evaluator: mockEvaluator } as any,
+      });
+
+      const handler = registry.get('assign_role');
+      const action: AssignRoleAction = {
+        action: 'assign_role',
+        role: '444555666777888999',
+      };
+
+      const result = await handler.execute(action, context);
+      const undo = await handler.compensate!(action, result, context);
+      expectSuccess(undo);
+      expect(mockMember.roles.remove).not.toHaveBeenCalled();
+    });
   });
 
   describe('remove_role', () => {
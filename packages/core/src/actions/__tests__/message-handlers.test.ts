@@ -211,6 +211,54 @@ describe('Message Handlers', () => {
         expect.objectContaining({ components: expect.any(Array) })
       );
     });
+
+    it('should keep embed and component fields as strings', async () => {
+      const context = createInteractionContext({ count: 42, open: null } as any);
+      const handler = registry.get('reply');
+      const action: ReplyAction = {
+        action: 'reply',
+        embed: { fields: [{ name: 'Count', value: '${count}' }, { name: 'Open', value: '${open}' }] },
+        components: [{ type: 1, components: [{ type: 2, style: 1, label: 'Go', custom_id: '${count}' }] }],
+      };
+
+      await handler.execute(action, context);
+      expect((context.interaction as any).reply).toHaveBeenCalledWith(
+        expect.objectContaining({
+          embeds: [{ fields: [{ name: 'Count', value: '42' }, { name: 'Open', value: '' }] }],
+          components: [{ type: 1, components: [{ type: 2, style: 1, label: 'Go', custom_id: '42' }] }],
+        })
+      );
+    });
+
+    it('should keep the type of embed fields that are one expression', async () => {
+      const leaderboard = [{ name: 'alice', value: 10 }];
+      const context = createInteractionContext({ leaderboard, size: 1, color: 16766720 } as any);
+      const handler = registry.get('reply');
+      const action: ReplyAction = {
+        action: 'reply',
+        embed: { title: 'Top ${size}', fields: '${leaderboard}', color: '${color}' },
+      };
+
+      await handler.execute(action, context);
+      expect((context.interaction as any).reply).toHaveBeenCalledWith(
+        expect.objectContaining({
+          embeds: [{ title: 'Top 1', fields: [{ name: 'alice', value: '10' }], color: 16766720 }],
+        })
+      );
+    });
+
+    it('should send embeds given as one expression', async () => {
+      const list = [{ title: 'One' }, { title: 'Two' }];
+      const context = createInteractionContext({ list } as any);
+      const handler = registry.get('reply');
+      const action = { action: 'reply', embeds: '${list}' } as unknown as ReplyAction;
+
+      const result = await handler.execute(action, context);
+      expect(result.success).toBe(true);
+      expect((context.interaction as any).reply).toHaveBeenCalledWith(
+        expect.objectContaining({ embeds: [{ title: 'One' }, { title: 'Two' }] })
+      );
+    });
   });
 
   describe('send_message', () => {
@@ -277,7 +325,7 @@ describe('Message Handlers', () => {
       expectFailure(result, 'Channel not found');
     });
 
-    it('should store result in variable with as', async () => {
+    it('should return the sent message', async () => {
       const mockChannel = createMockChannel();
       const mockMessage = createMockMessage({ id: 'sent-message-123' });
       mockChannel.send = vi.fn().mockResolvedValue(mockMessage);
@@ -291,8 +339,14 @@ describe('Message Handlers', () => {
         as: 'sentMessage',
       };
 
-      await handler.execute(action, context);
-      expect((context as any).sentMessage).toBe(mockMessage);
+      const result = await handler.execute(action, context);
+      expect(result.data).toEqual({
+        id: 'sent-message-123',
+        channel_id: '111222333444555666',
+        guild_id: '987654321098765432',
+        content: 'Hello, world!',
+        url: 'https://discord.com/channels/987654321098765432/111222333444555666/sent-message-123',
+      });
     });
 
     it('should handle files', async () => {
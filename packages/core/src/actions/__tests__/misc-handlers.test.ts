@@ -191,7 +191,7 @@ describe('Misc Handlers', () => {
       );
     });
 
-    it('should store response with as', async () => {
+    it('should return the status and body', async () => {
       const context = createHandlerContext({
         _deps: { evaluator: mockEvaluator } as any,
         _pipes: {
@@ -208,8 +208,8 @@ describe('Misc Handlers', () => {
         as: 'response',
       };
 
-      await handler.execute(action, context);
-      expect((context as any).response).toEqual({
+      const result = await handler.execute(action, context);
+      expect(result.data).toEqual({
         status: 200,
         ok: true,
         data: { data: 'response' },
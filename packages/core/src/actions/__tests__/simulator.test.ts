@@ -0,0 +1,186 @@
+/**
+ * Simulator Tests
+ *
+ * Covers:
+ * - Recording side-effecting actions with interpolated config
+ * - Fake results and `as` bindings
+ * - Passthrough of flow control and state actions
+ * - Custom fake results
+ * - Failure reporting
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Simulator, createSimulator } from '../simulator.js';
+import { createActionExecutor, type ActionExecutor } from '../executor.js';
+import { createActionRegistry, type ActionRegistry } from '../registry.js';
+import { createEvaluator } from '../../expression/evaluator.js';
+import { createFlowEngine } from '../../flows/engine.js';
+import type { Action } from '@furlow/schema';
+import type { ActionContext } from '../types.js';
+
+function createTestContext(overrides: Record<string, unknown> = {}): ActionContext {
+  return {
+    guildId: '111',
+    channelId: '222',
+    userId: '333',
+    client: {},
+    stateManager: {},
+    evaluator: {},
+    flowExecutor: {},
+    user: { id: '333', username: 'tester' },
+    ...overrides,
+  } as unknown as ActionContext;
+}
+
+describe('Simulator', () => {
+  let registry: ActionRegistry;
+  let simulator: Simulator;
+  let executor: ActionExecutor;
+  let sendMessage: ReturnType<typeof vi.fn>;
+  let setVar: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    registry = createActionRegistry();
+    sendMessage = vi.fn(async () => ({ success: true }));
+    setVar = vi.fn(async () => ({ success: true }));
+    registry.register({ name: 'send_message', execute: sendMessage });
+    registry.register({ name: 'create_channel', execute: vi.fn() });
+    registry.register({ name: 'set', execute: setVar });
+    registry.register({ name: 'custom_plugin_action', execute: vi.fn() });
+
+    simulator = createSimulator();
+    executor = createActionExecutor(registry, createEvaluator(), { simulator });
+  });
+
+  it('should record side-effecting actions with interpolated config', async () => {
+    await executor.executeSequence(
+      [
+        { action: 'send_message', channel: '${channelId}', content: 'Hi ${user.username}' },
+        { action: 'custom_plugin_action', value: 42 },
+      ] as unknown as Action[],
+      createTestContext()
+    );
+
+    expect(sendMessage).not.toHaveBeenCalled();
+    expect(simulator.getActions()).toEqual([
+      {
+        action: 'send_message',
+        config: { channel: '222', content: 'Hi tester' },
+        data: expect.objectContaining({ channel_id: '222', content: 'Hi tester' }),
+      },
+      { action: 'custom_plugin_action', config: { value: 42 }, data: undefined },
+    ]);
+  });
+
+  it('should return plausible fake results and bind them with as', async () => {
+    const context = createTestContext();
+
+    await executor.executeSequence(
+      [
+        { action: 'create_channel', name: 'ticket-${user.username}', as: 'ticket' },
+        { action: 'send_message', channel: '${ticket.id}', content: 'Welcome' },
+      ] as unknown as Action[],
+      context
+    );
+
+    const ticket = (context as Record<string, any>).ticket;
+    expect(ticket.id).toMatch(/^\d{17,20}$/);
+    expect(ticket.name).toBe('ticket-tester');
+    expect(ticket.mention).toBe(`<#${ticket.id}>`);
+    expect(String(ticket)).toBe(ticket.mention);
+
+    const [, message] = simulator.getActions();
+    expect(message!.config.channel).toBe(ticket.id);
+    expect((message!.data as any).url).toBe(
+      `https://discord.com/channels/111/${ticket.id}/${(message!.data as any).id}`
+    );
+  });
+
+  it('should run state and flow control actions for real', async () => {
+    await executor.executeOne(
+      { action: 'set', var: 'count', value: 1 } as unknown as Action,
+      createTestContext()
+    );
+
+    expect(setVar).toHaveBeenCalledTimes(1);
+    expect(simulator.getActions()).toEqual([]);
+  });
+
+  it('should not record actions whose condition is false', async () => {
+    await executor.executeOne(
+      { action: 'send_message', content: 'x', when: 'false' } as unknown as Action,
+      createTestContext()
+    );
+
+    expect(simulator.getActions()).toEqual([]);
+  });
+
+  it('should record actions inside flows in order', async () => {
+    const evaluator = createEvaluator();
+    const engine = createFlowEngine();
+    engine.register({
+      name: 'notify',
+      parameters: [{ name: 'urgent', type: 'boolean' }],
+      actions: [
+        {
+          action: 'flow_if',
+          if: 'args.urgent',
+          then: [{ action: 'send_message', content: 'urgent' }],
+          else: [{ action: 'send_message', content: 'normal' }],
+        },
+        { action: 'send_message', content: 'done' },
+      ] as unknown as Action[],
+    });
+
+    await engine.execute('notify', { urgent: true }, createTestContext(), executor, evaluator);
+
+    expect(simulator.getActions().map((a) => a.config.content)).toEqual(['urgent', 'done']);
+  });
+
+  it('should support passthrough and custom results', async () => {
+    const custom = createSimulator({
+      passthrough: ['send_message'],
+      results: { custom_plugin_action: (config) => ({ data: { echoed: config.value } }) },
+    });
+    const customExecutor = createActionExecutor(registry, createEvaluator(), { simulator: custom });
+
+    const results = await customExecutor.executeSequence(
+      [
+        { action: 'send_message', content: 'real' },
+        { action: 'custom_plugin_action', value: 'x' },
+      ] as unknown as Action[],
+      createTestContext()
+    );
+
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(results[1]!.data).toEqual({ echoed: 'x' });
+    expect(custom.getActions().map((a) => a.action)).toEqual(['custom_plugin_action']);
+
+    custom.clear();
+    expect(custom.getActions()).toEqual([]);
+  });
+
+  it('should report failed actions once, including nested ones', async () => {
+    registry.register({
+      name: 'fail',
+      execute: vi.fn(async () => ({ success: false, error: new Error('boom') })),
+    });
+    const failing = createSimulator({ passthrough: ['fail'] });
+    const failingExecutor = createActionExecutor(registry, createEvaluator(), { simulator: failing });
+
+    const engine = createFlowEngine();
+    engine.register({
+      name: 'broken',
+      actions: [
+        { action: 'flow_if', if: 'true', then: [{ action: 'fail' }] },
+      ] as unknown as Action[],
+    });
+
+    await engine.execute('broken', {}, createTestContext(), failingExecutor, createEvaluator());
+
+    expect(failing.getFailures()).toEqual([{ action: 'fail', error: 'boom' }]);
+
+    failing.clear();
+    expect(failing.getFailures()).toEqual([]);
+  });
+});
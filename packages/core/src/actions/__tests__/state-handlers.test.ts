@@ -154,7 +154,7 @@ describe('State Handlers', () => {
       expect((context as any).state.guild.counter).toBe(10);
     });
 
-    it('should store result in variable with as', async () => {
+    it('should return the value', async () => {
       const context = createHandlerContext({
         _deps: { evaluator: mockEvaluator, stateManager: mockStateManager } as any,
       });
@@ -167,8 +167,8 @@ describe('State Handlers', () => {
         as: 'result',
       };
 
-      await handler.execute(action, context);
-      expect((context as any).result).toBe('test');
+      const result = await handler.execute(action, context);
+      expect(result.data).toBe('test');
     });
 
     it('should handle different scopes', async () => {
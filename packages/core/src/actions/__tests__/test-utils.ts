@@ -31,9 +31,50 @@ export function createMockEvaluator() {
     return expr as T;
   });
 
-  return {
+  // evaluateTemplate: Returns raw value for exact ${expr} match, otherwise interpolates as string
+  // Pass through non-strings directly. Calls go through `mock` so tests can replace evaluate.
+  const evaluateTemplate = vi.fn(async (template: unknown, ctx: Record<string, unknown>): Promise<unknown> => {
+    if (typeof template !== 'string') {
+      return template;
+    }
+    if (template.startsWith('$literal:')) return template.slice('$literal:'.length);
+    if (template.startsWith('$expr:')) return mock.evaluate(template.slice('$expr:'.length).trim(), ctx);
+    const exactMatch = template.match(/^\$\{([^}]+)\}$/);
+    if (exactMatch) {
+      const expr = exactMatch[1]!.trim();
+      return mock.evaluate(expr, ctx);
+    }
+    return mock.interpolate(template, ctx);
+  });
+
+  // resolveValue: evaluateTemplate applied through arrays and objects
+  const resolveValue = vi.fn(async (value: unknown, ctx: Record<string, unknown>): Promise<unknown> => {
+    if (Array.isArray(value)) {
+      return Promise.all(value.map((item) => resolveValue(item, ctx)));
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = await resolveValue(item, ctx);
+      }
+      return result;
+    }
+    return evaluateTemplate(value, ctx);
+  });
+
+  const mock = {
     interpolate,
     evaluate,
+    evaluateTemplate,
+    resolveValue,
+    // resolveExpression: bare expressions unless written as a template or with a marker
+    resolveExpression: vi.fn(async (value: unknown, ctx: Record<string, unknown>): Promise<unknown> => {
+      if (typeof value !== 'string') return resolveValue(value, ctx);
+      if (value.includes('${') || value.startsWith('$expr:') || value.startsWith('$literal:')) {
+        return evaluateTemplate(value, ctx);
+      }
+      return mock.evaluate(value, ctx);
+    }),
     evaluateSync: vi.fn((expr: string, ctx: Record<string, unknown>) => {
       if (expr === 'true') return true;
       if (expr === 'false') return false;
@@ -43,24 +84,12 @@ export function createMockEvaluator() {
     interpolateSync: vi.fn((str: string, ctx: Record<string, unknown>) => {
       return str.replace(/\$\{(\w+)\}/g, (_, key) => ctx[key] ? String(ctx[key]) : '');
     }),
-    // evaluateTemplate: Returns raw value for exact ${expr} match, otherwise interpolates as string
-    // Pass through non-strings directly
-    evaluateTemplate: vi.fn(async (template: unknown, ctx: Record<string, unknown>) => {
-      if (typeof template !== 'string') {
-        return template;
-      }
-      const exactMatch = template.match(/^\$\{([^}]+)\}$/);
-      if (exactMatch) {
-        const expr = exactMatch[1]!.trim();
-        return evaluate(expr, ctx);
-      }
-      return interpolate(template, ctx);
-    }),
     hasExpressions: vi.fn().mockReturnValue(false),
     addFunction: vi.fn(),
     addTransform: vi.fn(),
     compile: vi.fn(),
   };
+  return mock;
 }
 
 /**
@@ -292,7 +321,7 @@ export function createMockChannel(overrides: Partial<{
 }> = {}) {
   const mockMessage = createMockMessage();
 
-  return {
+  const channel = {
     id: '111222333444555666',
     name: 'general',
     type: ChannelType.GuildText,
@@ -303,7 +332,8 @@ export function createMockChannel(overrides: Partial<{
       cache: new Map([[mockMessage.id, mockMessage]]),
     },
     delete: vi.fn().mockResolvedValue(undefined),
-    edit: vi.fn().mockResolvedValue(undefined),
+    // Like discord.js, edit resolves to the edited channel
+    edit: vi.fn(async (): Promise<unknown> => channel),
     bulkDelete: vi.fn().mockResolvedValue(new Map([[mockMessage.id, mockMessage]])),
     threads: {
       create: vi.fn().mockResolvedValue({ id: 'thread-123', name: 'Test Thread' }),
@@ -316,6 +346,7 @@ export function createMockChannel(overrides: Partial<{
     setLocked: vi.fn().mockResolvedValue(undefined),
     ...overrides,
   };
+  return channel;
 }
 
 /**
@@ -474,7 +505,7 @@ export function createMockRole(overrides: Partial<{
   edit: ReturnType<typeof vi.fn>;
   delete: ReturnType<typeof vi.fn>;
 }> = {}) {
-  return {
+  const role = {
     id: '444555666777888999',
     name: 'Test Role',
     color: 0x5865F2,
@@ -482,10 +513,11 @@ export function createMockRole(overrides: Partial<{
     mentionable: false,
     position: 1,
     permissions: { bitfield: 0n },
-    edit: vi.fn().mockResolvedValue(undefined),
+    edit: vi.fn(async (): Promise<unknown> => role),
     delete: vi.fn().mockResolvedValue(undefined),
     ...overrides,
   };
+  return role;
 }
 
 /**
@@ -598,7 +598,7 @@ describe('Voice Handlers', () => {
       expect(mockVoiceManager.search).toHaveBeenCalledWith(expect.any(String), { limit: 10, source: undefined });
     });
 
-    it('should store results with as', async () => {
+    it('should return the search results', async () => {
       const mockResults = [{ url: 'https://example.com', title: 'Test', duration: 100 }];
       mockVoiceManager.search = vi.fn().mockResolvedValue(mockResults);
       const context = createHandlerContext({
@@ -612,8 +612,8 @@ describe('Voice Handlers', () => {
         as: 'searchResults',
       };
 
-      await handler.execute(action, context);
-      expect((context as any).searchResults).toBe(mockResults);
+      const result = await handler.execute(action, context);
+      expect(result.data).toBe(mockResults);
     });
 
     it('should handle URL directly', async () => {
@@ -654,7 +654,6 @@ describe('Voice Handlers', () => {
         currentTrack: { title: 'Current Track' },
         length: 2,
       });
-      expect((context as any).queueInfo).toEqual(result.data);
     });
   });
 
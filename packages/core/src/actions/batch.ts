@@ -0,0 +1,265 @@
+/**
+ * Batch processing - worker pools with rate-aware pacing, progress events
+ * and resumable cursors
+ */
+
+import type { Action, BatchAction } from '@furlow/schema';
+import type { ActionContext, ActionResult } from './types.js';
+import type { ActionExecutor } from './executor.js';
+import type { StateManager } from '../state/manager.js';
+import { sleep } from './deadline.js';
+
+/** A rate limit of `limit` item starts per `interval` milliseconds */
+export interface Pace {
+  limit: number;
+  interval: number;
+}
+
+/** Progress of a batch, reported after every item */
+export interface BatchProgress {
+  /** Number of items in the batch */
+  total: number;
+  /** Items finished, including those skipped by a resumed cursor */
+  completed: number;
+  /** Items where at least one action failed */
+  failed: number;
+  /** Index of the first item that has not finished */
+  cursor: number;
+}
+
+export interface BatchRunOptions {
+  /** Number of items processed at once */
+  concurrency?: number;
+  /** Rate limit applied to item starts */
+  pace?: Pace;
+  /** Index to start from; earlier items count as completed */
+  start?: number;
+  /** Stop picking up new items once this returns true */
+  shouldStop?: () => boolean;
+  /** Stops waiting for the pace once it aborts */
+  signal?: AbortSignal;
+  /** Called after each item finishes */
+  onProgress?: (progress: BatchProgress) => void | Promise<void>;
+}
+
+/** Most items a `batch` action processes at once, as for `parallel` */
+export const MAX_BATCH_CONCURRENCY = 50;
+
+const PACE_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+/**
+ * Parse a pace such as "20/10s", "5/s" or "100/1m"
+ */
+export function parsePace(pace: string): Pace | null {
+  const match = pace.trim().match(/^(\d+)\s*\/\s*(\d*)\s*(ms|s|m|h)$/);
+  if (!match) return null;
+
+  const limit = parseInt(match[1]!, 10);
+  const count = match[2] ? parseInt(match[2], 10) : 1;
+  const interval = count * PACE_UNITS[match[3]!]!;
+
+  if (limit < 1 || interval < 1) return null;
+  return { limit, interval };
+}
+
+/**
+ * Sliding-window rate limiter shared by the workers of a batch
+ */
+export class Pacer {
+  private starts: number[] = [];
+
+  constructor(private pace: Pace) {}
+
+  /**
+   * Wait until another item may start. Returns early without taking a
+   * start when the signal aborts.
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      if (signal?.aborted) return;
+
+      const now = Date.now();
+      while (this.starts.length > 0 && now - this.starts[0]! >= this.pace.interval) {
+        this.starts.shift();
+      }
+
+      if (this.starts.length < this.pace.limit) {
+        this.starts.push(now);
+        return;
+      }
+
+      const wait = this.starts[0]! + this.pace.interval - now;
+      await sleep(wait, signal);
+    }
+  }
+}
+
+/**
+ * Run items through a fixed-size worker pool. Results are returned in item
+ * order; items before `start` and items never picked up are left out.
+ */
+export async function runBatch<T>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<ActionResult[]>,
+  options: BatchRunOptions = {}
+): Promise<ActionResult[][]> {
+  const total = items.length;
+  const start = Math.min(Math.max(options.start ?? 0, 0), total);
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+  const pacer = options.pace ? new Pacer(options.pace) : null;
+  const shouldStop = () => !!options.signal?.aborted || !!options.shouldStop?.();
+
+  const results: (ActionResult[] | undefined)[] = new Array(total);
+  const done: boolean[] = new Array(total).fill(false);
+  const progress: BatchProgress = { total, completed: start, failed: 0, cursor: start };
+  let next = start;
+
+  const work = async (): Promise<void> => {
+    while (next < total && !shouldStop()) {
+      if (pacer) {
+        await pacer.acquire(options.signal);
+        // Other workers may have taken the remaining items meanwhile
+        if (next >= total || shouldStop()) return;
+      }
+
+      const index = next++;
+      let itemResults: ActionResult[];
+      try {
+        itemResults = await worker(items[index]!, index);
+      } catch (err) {
+        itemResults = [
+          { success: false, error: err instanceof Error ? err : new Error(String(err)) },
+        ];
+      }
+
+      results[index] = itemResults;
+      done[index] = true;
+      progress.completed++;
+      if (itemResults.some((r) => !r.success)) {
+        progress.failed++;
+      }
+      while (progress.cursor < total && done[progress.cursor]) {
+        progress.cursor++;
+      }
+
+      await options.onProgress?.({ ...progress });
+    }
+  };
+
+  const workers = Math.min(concurrency, total - start);
+  await Promise.all(Array.from({ length: workers }, work));
+
+  return results.filter((r): r is ActionResult[] => r !== undefined);
+}
+
+/**
+ * Run a `batch` action: resume from its cursor, pace and pool the items,
+ * emit `batch_progress` events and persist the cursor as items finish.
+ * `runItem` runs the `each` actions for one item. The result fails when
+ * any item failed, so error handlers and compensations see it.
+ */
+export async function runBatchAction(
+  config: BatchAction,
+  items: unknown[],
+  context: ActionContext,
+  executor: ActionExecutor,
+  runItem: (actions: Action[], itemContext: ActionContext) => Promise<ActionResult[]>,
+  shouldStop: () => boolean = () => false
+): Promise<{ result: ActionResult; results: ActionResult[][] }> {
+  let pace: Pace | undefined;
+  if (config.pace) {
+    const parsed = parsePace(String(config.pace));
+    if (!parsed) {
+      return {
+        result: { success: false, error: new Error(`Invalid batch pace: "${config.pace}"`) },
+        results: [],
+      };
+    }
+    pace = parsed;
+  }
+
+  const deps = context._deps as { stateManager?: StateManager; evaluator?: unknown } | undefined;
+  const stateManager = config.cursor ? deps?.stateManager : undefined;
+  const total = items.length;
+
+  let start = 0;
+  if (stateManager) {
+    const saved = Number(await stateManager.get(config.cursor!, context));
+    if (Number.isInteger(saved) && saved > 0) {
+      start = Math.min(saved, total);
+    }
+  }
+
+  const every = config.progress_every ?? Math.max(1, Math.ceil(total / 10));
+  const eventRouter = context._eventRouter as
+    | { emit(event: string, context: ActionContext, executor: unknown, evaluator: unknown): Promise<unknown> }
+    | undefined;
+
+  let progress: BatchProgress = { total, completed: start, failed: 0, cursor: start };
+  let lastEmitted = start;
+  let lastSaved = start;
+
+  const onProgress = async (update: BatchProgress): Promise<void> => {
+    progress = update;
+
+    if (stateManager && update.cursor !== lastSaved) {
+      lastSaved = update.cursor;
+      await stateManager.set(config.cursor!, update.cursor, context);
+    }
+
+    if (
+      eventRouter &&
+      (update.completed - lastEmitted >= every || update.completed === total)
+    ) {
+      lastEmitted = update.completed;
+      await eventRouter.emit(
+        'batch_progress',
+        { ...context, batch: { id: config.id, ...update } } as ActionContext,
+        executor,
+        deps?.evaluator
+      );
+    }
+  };
+
+  const eachActions = (Array.isArray(config.each) ? config.each : [config.each]).filter(
+    Boolean
+  ) as Action[];
+
+  const as = config.as ?? 'item';
+
+  const results = await runBatch(
+    items,
+    (item, index) =>
+      runItem(eachActions, { ...context, [as]: item, [`${as}_index`]: index }),
+    {
+      concurrency: Math.min(config.concurrency ?? 1, MAX_BATCH_CONCURRENCY),
+      pace,
+      start,
+      shouldStop,
+      signal: context.signal,
+      onProgress,
+    }
+  );
+
+  // A finished batch starts over next time
+  if (stateManager && progress.cursor >= total) {
+    await stateManager.delete(config.cursor!, context);
+  }
+
+  if (progress.failed > 0) {
+    return {
+      result: {
+        success: false,
+        data: progress,
+        error: new Error(`${progress.failed} of ${total} batch items failed`),
+      },
+      results,
+    };
+  }
+  return { result: { success: true, data: progress }, results };
+}
@@ -0,0 +1,193 @@
+/**
+ * Compensation tracking for transactions and `compensate` blocks
+ */
+
+import type { Action } from '@furlow/schema';
+import type { ActionContext, ActionResult } from './types.js';
+import type { StateManager } from '../state/manager.js';
+import { TransactionRolledBackError } from '../errors/index.js';
+import { atActionPosition } from './idempotency.js';
+
+/** An undo step registered by a successful action */
+export interface Compensation {
+  /** Name of the action being undone */
+  action: string;
+  /** Run the undo step */
+  run(): Promise<ActionResult[]>;
+}
+
+/** Outcome of unwinding a compensation stack */
+export interface RollbackReport {
+  /** Actions that were undone, in the order their compensations ran */
+  compensated: string[];
+  /** Compensations that failed */
+  failed: { action: string; error: string }[];
+}
+
+/**
+ * Stack of undo steps for the actions completed so far
+ */
+export class CompensationStack {
+  private entries: Compensation[] = [];
+
+  /**
+   * @param builtins - Whether to record handlers' built-in compensations
+   * in addition to explicit `compensate` blocks
+   */
+  constructor(readonly builtins = false) {}
+
+  /**
+   * Number of registered compensations
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Register a compensation
+   */
+  push(entry: Compensation): void {
+    this.entries.push(entry);
+  }
+
+  /**
+   * Move another stack's compensations on top of this one
+   */
+  absorb(other: CompensationStack): void {
+    this.entries.push(...other.entries);
+    other.entries = [];
+  }
+
+  /**
+   * Run all compensations in reverse order. A failing compensation is
+   * reported and does not stop the remaining ones.
+   */
+  async unwind(): Promise<RollbackReport> {
+    const report: RollbackReport = { compensated: [], failed: [] };
+
+    while (this.entries.length > 0) {
+      const entry = this.entries.pop()!;
+      try {
+        const results = await entry.run();
+        const failed = results.find((r) => !r.success);
+        if (failed) {
+          report.failed.push({
+            action: entry.action,
+            error: failed.error?.message ?? 'Compensation failed',
+          });
+        } else {
+          report.compensated.push(entry.action);
+        }
+      } catch (err) {
+        report.failed.push({
+          action: entry.action,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    return report;
+  }
+}
+
+/**
+ * Get the compensation stack active for a context, if any
+ */
+export function getCompensationStack(context: ActionContext): CompensationStack | undefined {
+  return context._compensations as CompensationStack | undefined;
+}
+
+/** Thrown inside a state transaction to roll it back after a failed step */
+const STATE_ROLLBACK = Symbol('state rollback');
+
+/**
+ * Find the state manager in a context
+ */
+function getStateManager(context: ActionContext): StateManager | undefined {
+  const deps = context._deps as { stateManager?: StateManager } | undefined;
+  return deps?.stateManager ?? (context.stateManager as StateManager | undefined);
+}
+
+/**
+ * Run actions as a transaction. Steps run in order until one fails, then
+ * the compensations of every completed step run in reverse order. When the
+ * transaction succeeds inside another one, its compensations are handed to
+ * the outer transaction.
+ *
+ * When state storage supports transactions, the steps also run inside a
+ * state transaction, so their state and table writes commit only if every
+ * step succeeds.
+ */
+export async function runTransaction(
+  actions: Action[],
+  context: ActionContext,
+  runStep: (action: Action) => Promise<ActionResult[]>
+): Promise<ActionResult> {
+  const stateManager = getStateManager(context);
+  if (!stateManager?.supportsTransactions?.()) {
+    return runSteps(actions, context, runStep);
+  }
+
+  let result!: ActionResult;
+  try {
+    await stateManager.transaction(async () => {
+      result = await runSteps(actions, context, runStep);
+      if (!result.success) throw STATE_ROLLBACK;
+    });
+  } catch (err) {
+    if (err !== STATE_ROLLBACK) throw err;
+  }
+  return result;
+}
+
+/**
+ * Run the steps of a transaction, unwinding compensations on failure
+ */
+async function runSteps(
+  actions: Action[],
+  context: ActionContext,
+  runStep: (action: Action) => Promise<ActionResult[]>
+): Promise<ActionResult> {
+  const outer = getCompensationStack(context);
+  const stack = new CompensationStack(true);
+  context._compensations = stack;
+
+  let failure: { action: string; error: Error } | undefined;
+  let steps = 0;
+
+  try {
+    for (const [index, action] of actions.entries()) {
+      if (context.signal?.aborted) {
+        break;
+      }
+
+      let results: ActionResult[];
+      try {
+        results = await atActionPosition(index, () => runStep(action));
+      } catch (err) {
+        results = [{ success: false, error: err instanceof Error ? err : new Error(String(err)) }];
+      }
+      steps++;
+
+      const failed = results.find((r) => !r.success);
+      if (failed) {
+        failure = { action: action.action, error: failed.error ?? new Error('Action failed') };
+        break;
+      }
+    }
+  } finally {
+    context._compensations = outer;
+  }
+
+  if (!failure) {
+    outer?.absorb(stack);
+    return { success: true, data: { committed: true, steps } };
+  }
+
+  const report = await stack.unwind();
+  return {
+    success: false,
+    error: new TransactionRolledBackError(failure.action, failure.error, report.failed.length),
+    data: { committed: false, steps, ...report },
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Cancellation - per-invocation deadlines and waits that stop early when
+ * the invocation is cancelled
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ActionContext } from './types.js';
+import { ExecutionTimeoutError, FlowAbortedError } from '../errors/index.js';
+
+/** Outcome of a run with a deadline */
+export interface DeadlineResult<T> {
+  /** What the run returned, unless it was cut off */
+  value?: T;
+  /** Set when the deadline cut the run off */
+  timeout?: ExecutionTimeoutError;
+}
+
+/** A signal scoped to one context for the current async call chain */
+interface SignalScope {
+  context: ActionContext;
+  signal: AbortSignal;
+  outer?: SignalScope;
+}
+
+const signalScope = new AsyncLocalStorage<SignalScope>();
+
+/** Signals set directly on contexts whose signal is scoped */
+const assignedSignals = new WeakMap<ActionContext, AbortSignal | undefined>();
+
+/**
+ * `context.signal` on a scoped context: the innermost signal scoped to it
+ * in this call chain, otherwise the one assigned to it
+ */
+const scopedSignal: PropertyDescriptor = {
+  get(this: ActionContext): AbortSignal | undefined {
+    for (let scope = signalScope.getStore(); scope; scope = scope.outer) {
+      if (scope.context === this) return scope.signal;
+    }
+    return assignedSignals.get(this);
+  },
+  set(this: ActionContext, signal: AbortSignal | undefined) {
+    assignedSignals.set(this, signal);
+  },
+  enumerable: true,
+  configurable: true,
+};
+
+/**
+ * Run fn with `context.signal` returning signal for everything fn starts.
+ * The context itself is shared, so variables stored on it during fn are
+ * kept, while code running outside fn, such as a parallel branch, still
+ * sees its own signal.
+ */
+export function withSignal<T>(context: ActionContext, signal: AbortSignal, fn: () => T): T {
+  if (!assignedSignals.has(context)) {
+    assignedSignals.set(context, context.signal);
+    Object.defineProperty(context, 'signal', scopedSignal);
+  }
+  return signalScope.run({ context, signal, outer: signalScope.getStore() }, fn);
+}
+
+/**
+ * Get the error a signal was aborted with
+ */
+export function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new FlowAbortedError('Action', 'Aborted');
+}
+
+/**
+ * Wait for the given number of milliseconds. Resolves early if the signal
+ * aborts, so callers should check the signal afterwards.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with the promise, or reject with the signal's reason once it aborts
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Abort a controller when another signal aborts. Returns a function that
+ * removes the link.
+ */
+export function linkSignal(controller: AbortController, signal?: AbortSignal): () => void {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    controller.abort(signal.reason);
+    return () => {};
+  }
+
+  const onAbort = () => controller.abort(signal.reason);
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Run a handler invocation under a deadline. Within run, the context's
+ * signal is one of its own, which fires after timeoutMs or when the
+ * context's previous signal aborts; the caller keeps its signal. Handlers that ignore the signal are not waited for once the
+ * deadline passes. A timeoutMs of 0 disables the deadline.
+ */
+export async function runWithDeadline<T>(
+  context: ActionContext,
+  timeoutMs: number,
+  target: string,
+  run: () => Promise<T>
+): Promise<DeadlineResult<T>> {
+  if (!(timeoutMs > 0)) {
+    return { value: await run() };
+  }
+
+  const controller = new AbortController();
+  const unlink = linkSignal(controller, context.signal);
+  const timeout = new ExecutionTimeoutError(target, timeoutMs);
+  const timer = setTimeout(() => controller.abort(timeout), timeoutMs);
+
+  const execution = withSignal(context, controller.signal, run);
+  try {
+    return { value: await abortable(execution, controller.signal) };
+  } catch (err) {
+    if (controller.signal.reason === timeout) {
+      // The handler keeps running until its current step settles
+      execution.catch(() => {});
+      return { timeout };
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    unlink();
+  }
+}
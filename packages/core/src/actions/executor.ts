@@ -2,11 +2,29 @@
  * Action executor - executes actions with proper context and error handling
  */
 
-import type { Action, SimpleCondition } from '@furlow/schema';
-import type { ActionContext, ActionResult } from './types.js';
+import type { Action, Duration, RetryPolicy, SimpleCondition } from '@furlow/schema';
+import type { ActionContext, ActionHandler, ActionResult } from './types.js';
 import type { ActionRegistry } from './registry.js';
 import type { ExpressionEvaluator } from '../expression/evaluator.js';
-import { ActionExecutionError, FlowAbortedError } from '../errors/index.js';
+import { parseMarker } from '../expression/template.js';
+import { ActionExecutionError, ActionTimeoutError, FlowAbortedError } from '../errors/index.js';
+import { parseDuration } from '../scheduler/timer.js';
+import type { Tracer } from '../tracing/tracer.js';
+import type { TraceSpan } from '../tracing/types.js';
+import { CompensationStack, getCompensationStack } from './compensation.js';
+import type { Simulator } from './simulator.js';
+import { runBatch, type BatchProgress, type Pace } from './batch.js';
+import { abortable, linkSignal, sleep, withSignal } from './deadline.js';
+import {
+  actionNamespace,
+  atActionPosition,
+  claimIdempotencyKey,
+  currentActionPosition,
+  duplicateReason,
+  releaseIdempotencyKey,
+  withActionScope,
+  type IdempotencyClaim,
+} from './idempotency.js';
 
 export interface ExecutorOptions {
   /** Maximum actions to execute in sequence */
@@ -15,27 +33,64 @@ export interface ExecutorOptions {
   maxParallel?: number;
   /** Whether to stop on first error */
   stopOnError?: boolean;
+  /** Upper bound for retry.attempts on any single action */
+  maxRetryAttempts?: number;
+  /** Record a span for every executed action */
+  tracer?: Tracer;
+  /** Dry run: record side-effecting actions with fake results instead of running them */
+  simulator?: Simulator;
 }
 
-const DEFAULT_OPTIONS: Required<ExecutorOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<ExecutorOptions, 'tracer' | 'simulator'>> = {
   maxActions: 1000,
   maxParallel: 50,
   stopOnError: true,
+  maxRetryAttempts: 10,
 };
 
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_RETRY_MAX_DELAY = 30000;
+
+/** Keys holding nested actions, which are traced as their own spans */
+const NESTED_ACTION_KEYS = new Set([
+  'then', 'else', 'do', 'each', 'actions', 'cases', 'default', 'catch', 'finally', 'compensate',
+]);
+
+/** Actions whose `as` names a loop variable rather than the result */
+const LOOP_VARIABLE_ACTIONS = new Set(['batch', 'repeat']);
+
 export class ActionExecutor {
   private registry: ActionRegistry;
   private evaluator: ExpressionEvaluator;
-  private options: Required<ExecutorOptions>;
+  private options: Required<Omit<ExecutorOptions, 'tracer' | 'simulator'>>;
+  private tracer?: Tracer;
+  private simulator?: Simulator;
 
   constructor(
     registry: ActionRegistry,
     evaluator: ExpressionEvaluator,
     options: ExecutorOptions = {}
   ) {
+    const { tracer, simulator, ...rest } = options;
     this.registry = registry;
     this.evaluator = evaluator;
-    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.tracer = tracer;
+    this.simulator = simulator;
+  }
+
+  /**
+   * Get the tracer, if tracing is enabled
+   */
+  getTracer(): Tracer | undefined {
+    return this.tracer;
+  }
+
+  /**
+   * Get the simulator, if this executor is doing a dry run
+   */
+  getSimulator(): Simulator | undefined {
+    return this.simulator;
   }
 
   /**
@@ -44,6 +99,32 @@ export class ActionExecutor {
   async executeOne(
     action: Action,
     context: ActionContext
+  ): Promise<ActionResult> {
+    const tracer = this.tracer;
+    const result = tracer
+      ? await tracer.span(action.action, 'action', async (span) => {
+          const result = await this.run(action, context, span);
+          if (span.status !== 'skipped') {
+            tracer.recordResult(span, result);
+          }
+          return result;
+        })
+      : await this.run(action, context);
+
+    // Dry runs report failures instead of leaving them to the caller
+    if (this.simulator && !result.success && result.error) {
+      this.simulator.recordFailure(action, result.error);
+    }
+    return result;
+  }
+
+  /**
+   * Check the condition, then run the action with its retry policy
+   */
+  private async run(
+    action: Action,
+    context: ActionContext,
+    span?: TraceSpan
   ): Promise<ActionResult> {
     // Check abort signal
     if (context.signal?.aborted) {
@@ -53,11 +134,22 @@ export class ActionExecutor {
     // Evaluate condition if present
     if (action.when) {
       const shouldRun = await this.evaluateCondition(action.when, context);
+      if (span) {
+        span.when = shouldRun;
+      }
       if (!shouldRun) {
+        if (span) {
+          span.status = 'skipped';
+        }
         return { success: true, data: null };
       }
     }
 
+    if (span && this.tracer) {
+      const config = await this.resolveConfig(action, context, this.tracer.resolveConfig);
+      span.config = this.tracer.serialize(config) as Record<string, unknown>;
+    }
+
     // Get handler
     const handler = this.registry.get(action.action);
 
@@ -70,9 +162,138 @@ export class ActionExecutor {
       }
     }
 
+    if (this.simulator?.shouldSimulate(action.action)) {
+      const config = await this.resolveConfig(action, context, true);
+      return bindResult(action, this.simulator.simulate(action, config, context), context);
+    }
+
+    // Skip actions that already ran for this key. A key that cannot be
+    // claimed fails the action like an error in its handler.
+    let claim: IdempotencyClaim | undefined;
+    if (action.idempotency_key) {
+      const key = action.idempotency_key;
+      const claimed = await this.settle(action, async () => ({
+        success: true,
+        data: await claimIdempotencyKey(
+          actionNamespace(action),
+          key,
+          action.idempotency_ttl,
+          context,
+          this.evaluator
+        ),
+      }));
+      if (!claimed.success) {
+        return claimed;
+      }
+      claim = claimed.data as IdempotencyClaim;
+    }
+    if (claim && !claim.claimed) {
+      if (span) {
+        span.status = 'skipped';
+      }
+      return { success: true, data: null, skipped: duplicateReason(claim) };
+    }
+
+    const timeoutMs = action.timeout !== undefined ? toMilliseconds(action.timeout) : 0;
+    const result = action.retry
+      ? await this.attemptWithRetry(handler, action, context, timeoutMs, action.retry)
+      : await this.attempt(handler, action, context, timeoutMs);
+
+    if (result.success) {
+      this.recordCompensation(handler, action, result, context);
+    } else if (claim) {
+      // Let a later delivery try again
+      await releaseIdempotencyKey(claim, context);
+    }
+
+    return bindResult(action, result, context);
+  }
+
+  /**
+   * Run a handler until it succeeds or the retry policy gives up
+   */
+  private async attemptWithRetry(
+    handler: ActionHandler,
+    action: Action,
+    context: ActionContext,
+    timeoutMs: number,
+    policy: RetryPolicy
+  ): Promise<ActionResult> {
+    const maxAttempts = Math.max(
+      1,
+      Math.min(Math.floor(policy.attempts), this.options.maxRetryAttempts)
+    );
+
+    let attempts = 0;
+    let result: ActionResult;
+
+    for (;;) {
+      attempts++;
+      result = await this.attempt(handler, action, context, timeoutMs);
+
+      if (
+        result.success ||
+        attempts >= maxAttempts ||
+        context.signal?.aborted ||
+        !isRetryable(result.error, policy)
+      ) {
+        break;
+      }
+
+      await sleep(getRetryDelay(policy, attempts), context.signal);
+
+      if (context.signal?.aborted) {
+        break;
+      }
+    }
+
+    return { ...result, attempts };
+  }
+
+  /**
+   * Run a handler once, enforcing the action timeout if one is set. A timed
+   * out handler has its signal aborted so it stops before a retry starts.
+   */
+  private async attempt(
+    handler: ActionHandler,
+    action: Action,
+    context: ActionContext,
+    timeoutMs: number
+  ): Promise<ActionResult> {
+    if (timeoutMs <= 0) {
+      return this.settle(action, () => handler.execute(action, context));
+    }
+
+    const controller = new AbortController();
+    const unlink = linkSignal(controller, context.signal);
+    const timeout = new ActionTimeoutError(action.action, timeoutMs);
+    const timer = setTimeout(() => controller.abort(timeout), timeoutMs);
+
     try {
-      const result = await handler.execute(action, context);
+      const result = await this.settle(action, () =>
+        withSignal(context, controller.signal, () =>
+          abortable(handler.execute(action, context), controller.signal)
+        )
+      );
+      if (controller.signal.reason === timeout) {
+        return { success: false, error: timeout, timedOut: true };
+      }
       return result;
+    } finally {
+      clearTimeout(timer);
+      unlink();
+    }
+  }
+
+  /**
+   * Run a handler call, turning thrown errors into a failed result
+   */
+  private async settle(
+    action: Action,
+    execute: () => Promise<ActionResult>
+  ): Promise<ActionResult> {
+    try {
+      return await execute();
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
       return {
@@ -83,7 +304,56 @@ export class ActionExecutor {
   }
 
   /**
-   * Execute multiple actions in sequence
+   * Register the undo step for a successful action with the active
+   * compensation stack. Explicit `compensate` blocks run against the
+   * context as it was when the action finished, with `result` bound to
+   * the action's result data.
+   */
+  private recordCompensation(
+    handler: ActionHandler,
+    action: Action,
+    result: ActionResult,
+    context: ActionContext
+  ): void {
+    const stack = getCompensationStack(context);
+    if (!stack) {
+      return;
+    }
+
+    if (action.compensate && action.compensate.length > 0) {
+      const compensate = action.compensate;
+      const compensateContext = {
+        ...context,
+        result: result.data,
+        _compensations: undefined,
+      } as ActionContext;
+      // Compensations unwind after the action's own frame has ended
+      const position = currentActionPosition();
+      const runCompensate = () => this.executeSequence(compensate, compensateContext);
+      stack.push({
+        action: action.action,
+        run: () =>
+          position === undefined
+            ? runCompensate()
+            : withActionScope(`${position}/compensate`, runCompensate),
+      });
+      return;
+    }
+
+    if (stack.builtins && handler.compensate) {
+      const compensate = handler.compensate.bind(handler);
+      stack.push({
+        action: action.action,
+        run: async () => [await compensate(action, result, context)],
+      });
+    }
+  }
+
+  /**
+   * Execute multiple actions in sequence. If the sequence stops on an
+   * error or an action throws, the `compensate` blocks of the actions that
+   * completed run in reverse order (unless an enclosing transaction owns
+   * them).
    */
   async executeSequence(
     actions: Action[],
@@ -97,17 +367,35 @@ export class ActionExecutor {
     }
 
     const results: ActionResult[] = [];
+    const stack = getCompensationStack(context) ? undefined : new CompensationStack();
+    if (stack) {
+      context._compensations = stack;
+    }
 
-    for (const action of actions) {
-      if (context.signal?.aborted) {
-        break;
-      }
+    let stopped = false;
+    try {
+      for (const [index, action] of actions.entries()) {
+        if (context.signal?.aborted) {
+          break;
+        }
 
-      const result = await this.executeOne(action, context);
-      results.push(result);
+        const result = await atActionPosition(index, () => this.executeOne(action, context));
+        results.push(result);
 
-      if (!result.success && this.options.stopOnError) {
-        break;
+        if (!result.success && this.options.stopOnError) {
+          stopped = true;
+          break;
+        }
+      }
+    } catch (err) {
+      stopped = true;
+      throw err;
+    } finally {
+      if (stack) {
+        delete context._compensations;
+        if (stopped) {
+          await stack.unwind();
+        }
       }
     }
 
@@ -128,12 +416,15 @@ export class ActionExecutor {
       );
     }
 
-    const promises = actions.map((action) => this.executeOne(action, context));
+    const promises = actions.map((action, index) =>
+      atActionPosition(index, () => this.executeOne(action, context))
+    );
     return Promise.all(promises);
   }
 
   /**
-   * Execute actions with batch processing
+   * Execute actions with batch processing. Items run through a pool of
+   * `concurrency` workers (capped at maxParallel), optionally paced.
    */
   async executeBatch<T>(
     items: T[],
@@ -142,38 +433,85 @@ export class ActionExecutor {
     options: {
       as?: string;
       concurrency?: number;
+      pace?: Pace;
+      start?: number;
+      shouldStop?: () => boolean;
+      onProgress?: (progress: BatchProgress) => void | Promise<void>;
     } = {}
   ): Promise<ActionResult[][]> {
-    const { as = 'item', concurrency = 1 } = options;
-    const results: ActionResult[][] = [];
-
-    // Process in batches based on concurrency
-    for (let i = 0; i < items.length; i += concurrency) {
-      if (context.signal?.aborted) {
-        break;
-      }
+    const { as = 'item', concurrency = 1, shouldStop } = options;
 
-      const batch = items.slice(i, i + concurrency);
-      const batchPromises = batch.map((item, index) => {
-        const itemContext = {
+    return runBatch(
+      items,
+      (item, index) =>
+        this.executeSequence(actionTemplate, {
           ...context,
           [as]: item,
-          [`${as}_index`]: i + index,
-        };
-        return this.executeSequence(actionTemplate, itemContext);
-      });
+          [`${as}_index`]: index,
+        }),
+      {
+        concurrency: Math.min(concurrency, this.options.maxParallel),
+        pace: options.pace,
+        start: options.start,
+        shouldStop,
+        signal: context.signal,
+        onProgress: options.onProgress,
+      }
+    );
+  }
+
+  /**
+   * Copy an action's configuration for tracing and dry runs, resolving
+   * ${} expressions against the context as it was when the action started
+   */
+  private async resolveConfig(
+    action: Action,
+    context: ActionContext,
+    resolve: boolean
+  ): Promise<Record<string, unknown>> {
+
+    const walk = async (value: unknown): Promise<unknown> => {
+      if (typeof value === 'string') {
+        if (!resolve) {
+          return value;
+        }
+        // Plain strings skip the evaluator; `$literal:` text is shown without its marker
+        if (!this.evaluator.hasExpressions(value)) {
+          const marker = parseMarker(value);
+          return marker?.kind === 'literal' ? marker.text : value;
+        }
+        try {
+          return await this.evaluator.evaluateTemplate(value, context);
+        } catch (err) {
+          return `<unresolved: ${err instanceof Error ? err.message : String(err)}>`;
+        }
+      }
+      if (Array.isArray(value)) {
+        return Promise.all(value.map(walk));
+      }
+      if (value && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [key, val] of Object.entries(value)) {
+          result[key] = await walk(val);
+        }
+        return result;
+      }
+      return value;
+    };
 
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
+    const config: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(action)) {
+      if (key === 'action' || key === 'when' || NESTED_ACTION_KEYS.has(key)) continue;
+      config[key] = await walk(value);
     }
 
-    return results;
+    return config;
   }
 
   /**
    * Evaluate a condition
    */
-  private async evaluateCondition(
+  async evaluateCondition(
     condition: SimpleCondition,
     context: ActionContext
   ): Promise<boolean> {
@@ -211,6 +549,105 @@ export class ActionExecutor {
   }
 }
 
+/**
+ * Store an action's result data under its `as` variable. Failed actions
+ * that still return data, such as a pipe_request with a 4xx status, are bound too.
+ */
+export function bindResult(action: Action, result: ActionResult, context: ActionContext): ActionResult {
+  if (
+    typeof action.as === 'string' &&
+    result.data !== undefined &&
+    !LOOP_VARIABLE_ACTIONS.has(action.action)
+  ) {
+    (context as Record<string, unknown>)[action.as] = result.data;
+  }
+  return result;
+}
+
+/**
+ * Convert a duration (string or milliseconds) to milliseconds
+ */
+function toMilliseconds(duration: Duration): number {
+  return typeof duration === 'number' ? duration : parseDuration(duration);
+}
+
+/**
+ * Compute the delay before the next attempt
+ */
+function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const base = policy.delay !== undefined ? toMilliseconds(policy.delay) : DEFAULT_RETRY_DELAY;
+  const max =
+    policy.max_delay !== undefined ? toMilliseconds(policy.max_delay) : DEFAULT_RETRY_MAX_DELAY;
+
+  let delay: number;
+  switch (policy.backoff ?? 'exponential') {
+    case 'fixed':
+      delay = base;
+      break;
+    case 'linear':
+      delay = base * attempt;
+      break;
+    case 'exponential':
+    default:
+      delay = base * 2 ** (attempt - 1);
+      break;
+  }
+
+  return Math.min(delay, max);
+}
+
+/**
+ * Check whether a failure matches the policy's `on` filter.
+ * Codes are compared against the error and its causes; HTTP statuses
+ * can be given exactly (503) or as a class ("5xx").
+ */
+function isRetryable(error: Error | undefined, policy: RetryPolicy): boolean {
+  if (!policy.on || policy.on.length === 0) {
+    // A timed out attempt may still have had its effect, so only retry it when asked to
+    return !(error instanceof ActionTimeoutError);
+  }
+  if (!error) {
+    return false;
+  }
+
+  const codes = new Set<string>();
+  const statuses: number[] = [];
+
+  let current: unknown = error;
+  const seen = new Set<unknown>();
+  while (current && typeof current === 'object' && !seen.has(current)) {
+    seen.add(current);
+    const err = current as Record<string, unknown>;
+
+    if (typeof err.code === 'string' || typeof err.code === 'number') {
+      codes.add(String(err.code));
+    }
+    for (const status of [
+      err.status,
+      err.statusCode,
+      (err.context as Record<string, unknown> | undefined)?.statusCode,
+    ]) {
+      if (typeof status === 'number') {
+        statuses.push(status);
+      }
+    }
+
+    current = err.cause;
+  }
+
+  return policy.on.some((matcher) => {
+    if (typeof matcher === 'number') {
+      return statuses.includes(matcher);
+    }
+    const statusClass = matcher.match(/^([1-5])xx$/i);
+    if (statusClass) {
+      const prefix = Number(statusClass[1]);
+      return statuses.some((status) => Math.floor(status / 100) === prefix);
+    }
+    return codes.has(matcher);
+  });
+}
+
 /**
  * Create an action executor
  */
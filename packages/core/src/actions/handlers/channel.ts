@@ -4,7 +4,8 @@
 
 import type { ActionRegistry } from '../registry.js';
 import type { ActionHandler, ActionContext, ActionResult } from '../types.js';
-import type { HandlerDependencies } from './index.js';
+import { requireClient, type HandlerDependencies } from './index.js';
+import { toChannelResult, toRoleResult } from './results.js';
 import type {
   CreateChannelAction,
   EditChannelAction,
@@ -20,7 +21,6 @@ import {
   type Guild,
   type TextChannel,
   type ThreadChannel,
-  type Role,
   ChannelType,
   OverwriteType,
   PermissionFlagsBits,
@@ -33,7 +33,7 @@ async function resolveGuild(
   context: ActionContext,
   deps: HandlerDependencies
 ): Promise<Guild | null> {
-  const { client } = deps;
+  const client = requireClient(deps);
   const guildId = context.guildId || (context.guild as any)?.id;
   if (!guildId) return null;
   return client.guilds.fetch(guildId);
@@ -200,13 +200,25 @@ const createChannelHandler: ActionHandler<CreateChannelAction> = {
 
     try {
       const channel = await guild.channels.create(options as unknown as Parameters<typeof guild.channels.create>[0]);
+      return { success: true, data: toChannelResult(channel) };
+    } catch (err) {
+      return { success: false, error: err as Error };
+    }
+  },
+  async compensate(config, result, context): Promise<ActionResult> {
+    const id = (result.data as { id?: string } | undefined)?.id;
+    if (!id) {
+      return { success: false, error: new Error('Created channel is not available') };
+    }
 
-      // Store in variable if requested
-      if (config.as) {
-        (context as Record<string, unknown>)[config.as] = channel;
+    try {
+      const client = requireClient(context._deps as HandlerDependencies);
+      const channel = await client.channels.fetch(id);
+      if (!channel || !('delete' in channel)) {
+        return { success: false, error: new Error('Created channel is not available') };
       }
-
-      return { success: true, data: channel };
+      await channel.delete('Rolled back');
+      return { success: true };
     } catch (err) {
       return { success: false, error: err as Error };
     }
@@ -220,7 +232,8 @@ const editChannelHandler: ActionHandler<EditChannelAction> = {
   name: 'edit_channel',
   async execute(config, context): Promise<ActionResult> {
     const deps = context._deps as HandlerDependencies;
-    const { evaluator, client } = deps;
+    const { evaluator } = deps;
+    const client = requireClient(deps);
 
     const channelId = await evaluator.interpolate(String(config.channel), context);
     const channel = await client.channels.fetch(channelId.replace(/[<#>]/g, ''));
@@ -266,7 +279,7 @@ const editChannelHandler: ActionHandler<EditChannelAction> = {
 
     try {
       const edited = await (channel as any).edit(options);
-      return { success: true, data: edited };
+      return { success: true, data: toChannelResult(edited) };
     } catch (err) {
       return { success: false, error: err as Error };
     }
@@ -280,7 +293,8 @@ const deleteChannelHandler: ActionHandler<DeleteChannelAction> = {
   name: 'delete_channel',
   async execute(config, context): Promise<ActionResult> {
     const deps = context._deps as HandlerDependencies;
-    const { evaluator, client } = deps;
+    const { evaluator } = deps;
+    const client = requireClient(deps);
 
     const channelId = await evaluator.interpolate(String(config.channel), context);
     const channel = await client.channels.fetch(channelId.replace(/[<#>]/g, ''));
@@ -309,7 +323,8 @@ const createThreadHandler: ActionHandler<CreateThreadAction> = {
   name: 'create_thread',
   async execute(config, context): Promise<ActionResult> {
     const deps = context._deps as HandlerDependencies;
-    const { evaluator, client } = deps;
+    const { evaluator } = deps;
+    const client = requireClient(deps);
 
     const channelId = context.channelId || (context.channel as any)?.id;
     if (!channelId) {
@@ -348,7 +363,7 @@ const createThreadHandler: ActionHandler<CreateThreadAction> = {
         thread = await (channel as TextChannel).threads.create(options as unknown as Parameters<(typeof channel)['threads']['create']>[0]);
       }
 
-      return { success: true, data: thread };
+      return { success: true, data: toChannelResult(thread) };
     } catch (err) {
       return { success: false, error: err as Error };
     }
@@ -362,7 +377,8 @@ const archiveThreadHandler: ActionHandler<ArchiveThreadAction> = {
   name: 'archive_thread',
   async execute(config, context): Promise<ActionResult> {
     const deps = context._deps as HandlerDependencies;
-    const { evaluator, client } = deps;
+    const { evaluator } = deps;
+    const client = requireClient(deps);
 
     const threadId = await evaluator.interpolate(String(config.thread), context);
     const thread = await client.channels.fetch(threadId.replace(/[<#>]/g, ''));
@@ -390,7 +406,8 @@ const setChannelPermissionsHandler: ActionHandler<SetChannelPermissionsAction> =
   name: 'set_channel_permissions',
   async execute(config, context): Promise<ActionResult> {
     const deps = context._deps as HandlerDependencies;
-    const { evaluator, client } = deps;
+    const { evaluator } = deps;
+    const client = requireClient(deps);
 
     const channelId = await evaluator.interpolate(String(config.channel), context);
     const channel = await client.channels.fetch(channelId.replace(/[<#>]/g, ''));
@@ -496,7 +513,25 @@ const createRoleHandler: ActionHandler<CreateRoleAction> = {
 
     try {
       const role = await guild.roles.create(options);
-      return { success: true, data: role };
+      return { success: true, data: toRoleResult(role) };
+    } catch (err) {
+      return { success: false, error: err as Error };
+    }
+  },
+  async compensate(config, result, context): Promise<ActionResult> {
+    const id = (result.data as { id?: string } | undefined)?.id;
+    if (!id) {
+      return { success: false, error: new Error('Created role is not available') };
+    }
+
+    try {
+      const guild = await resolveGuild(context, context._deps as HandlerDependencies);
+      const role = await guild?.roles.fetch(id);
+      if (!role) {
+        return { success: false, error: new Error('Created role is not available') };
+      }
+      await role.delete('Rolled back');
+      return { success: true };
     } catch (err) {
       return { success: false, error: err as Error };
     }
@@ -557,7 +592,7 @@ const editRoleHandler: ActionHandler<EditRoleAction> = {
 
     try {
       const edited = await role.edit(options);
-      return { success: true, data: edited };
+      return { success: true, data: toRoleResult(edited) };
     } catch (err) {
       return { success: false, error: err as Error };
     }
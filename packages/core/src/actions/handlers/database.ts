@@ -12,6 +12,7 @@ import type {
   DbQueryAction,
 } from '@furlow/schema';
 import type { StateManager } from '../../state/manager.js';
+import type { ExpressionEvaluator } from '../../expression/evaluator.js';
 
 /**
  * Helper to evaluate data object values
@@ -19,14 +20,14 @@ import type { StateManager } from '../../state/manager.js';
 async function evaluateData(
   data: Record<string, unknown>,
   context: ActionContext,
-  evaluator: { evaluate: <T>(expr: string, ctx: Record<string, unknown>) => Promise<T> }
+  evaluator: ExpressionEvaluator
 ): Promise<Record<string, unknown>> {
   const result: Record<string, unknown> = {};
 
   for (const [key, value] of Object.entries(data)) {
     if (typeof value === 'string') {
       try {
-        result[key] = await evaluator.evaluate(value, context);
+        result[key] = await evaluator.resolveExpression(value, context);
       } catch {
         result[key] = value;
       }
@@ -38,6 +39,57 @@ async function evaluateData(
   return result;
 }
 
+/**
+ * Helper to evaluate a where clause. Values inside operators such as
+ * `{ $gt: "now() - 86400000" }` and `$and`/`$or` lists are evaluated the
+ * same way as plain column values.
+ */
+async function evaluateWhere(
+  where: Record<string, unknown>,
+  context: ActionContext,
+  evaluator: ExpressionEvaluator
+): Promise<Record<string, unknown>> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(where)) {
+    if ((key === '$and' || key === '$or') && Array.isArray(value)) {
+      result[key] = await Promise.all(
+        value.map((item) => evaluateWhere(item as Record<string, unknown>, context, evaluator))
+      );
+    } else if (isOperators(value)) {
+      const operators: Record<string, unknown> = {};
+      for (const [operator, operand] of Object.entries(value)) {
+        operators[operator] = Array.isArray(operand)
+          ? await Promise.all(operand.map((item) => evaluateItem(item, context, evaluator)))
+          : await evaluateItem(operand, context, evaluator);
+      }
+      result[key] = operators;
+    } else {
+      result[key] = await evaluateItem(value, context, evaluator);
+    }
+  }
+
+  return result;
+}
+
+async function evaluateItem(
+  value: unknown,
+  context: ActionContext,
+  evaluator: ExpressionEvaluator
+): Promise<unknown> {
+  return (await evaluateData({ value }, context, evaluator)).value;
+}
+
+function isOperators(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith('$'))
+  );
+}
+
 /**
  * DB insert action handler
  */
@@ -56,10 +108,6 @@ const dbInsertHandler: ActionHandler<DbInsertAction> = {
     try {
       await stateManager.insert(config.table, data);
 
-      if (config.as) {
-        (context as Record<string, unknown>)[config.as] = data;
-      }
-
       return { success: true, data };
     } catch (err) {
       return { success: false, error: err as Error };
@@ -80,12 +128,12 @@ const dbUpdateHandler: ActionHandler<DbUpdateAction> = {
       return { success: false, error: new Error('State manager not available') };
     }
 
-    const where = await evaluateData(config.where, context, evaluator);
+    const where = await evaluateWhere(config.where, context, evaluator);
 
     let data: Record<string, unknown>;
     if (typeof config.data === 'string') {
       // It's an expression
-      data = await evaluator.evaluate<Record<string, unknown>>(config.data, context);
+      data = (await evaluator.resolveExpression(config.data, context)) as Record<string, unknown>;
     } else {
       data = await evaluateData(config.data as Record<string, unknown>, context, evaluator);
     }
@@ -102,19 +150,12 @@ const dbUpdateHandler: ActionHandler<DbUpdateAction> = {
         if (existing.length === 0) {
           // Insert new record
           await stateManager.insert(config.table, { ...where, ...data });
-          if (config.as) {
-            (context as Record<string, unknown>)[config.as] = 1;
-          }
           return { success: true, data: 1 };
         }
       }
 
       const count = await stateManager.update(config.table, where, data);
 
-      if (config.as) {
-        (context as Record<string, unknown>)[config.as] = count;
-      }
-
       return { success: true, data: count };
     } catch (err) {
       return { success: false, error: err as Error };
@@ -135,7 +176,7 @@ const dbDeleteHandler: ActionHandler<DbDeleteAction> = {
       return { success: false, error: new Error('State manager not available') };
     }
 
-    const where = await evaluateData(config.where, context, evaluator);
+    const where = await evaluateWhere(config.where, context, evaluator);
 
     try {
       const count = await stateManager.deleteRows(config.table, where);
@@ -160,13 +201,13 @@ const dbQueryHandler: ActionHandler<DbQueryAction> = {
     }
 
     const where = config.where
-      ? await evaluateData(config.where, context, evaluator)
+      ? await evaluateWhere(config.where, context, evaluator)
       : undefined;
 
     let limit: number | undefined;
     if (config.limit !== undefined) {
       if (typeof config.limit === 'string') {
-        limit = await evaluator.evaluate<number>(config.limit, context);
+        limit = (await evaluator.resolveExpression(config.limit, context)) as number;
       } else {
         limit = config.limit;
       }
@@ -175,7 +216,7 @@ const dbQueryHandler: ActionHandler<DbQueryAction> = {
     let offset: number | undefined;
     if (config.offset !== undefined) {
       if (typeof config.offset === 'string') {
-        offset = await evaluator.evaluate<number>(config.offset, context);
+        offset = (await evaluator.resolveExpression(config.offset, context)) as number;
       } else {
         offset = config.offset;
       }
@@ -186,13 +227,12 @@ const dbQueryHandler: ActionHandler<DbQueryAction> = {
         where,
         select: config.select,
         orderBy: config.order_by,
+        groupBy: config.group_by,
+        aggregate: config.aggregate,
         limit,
         offset,
       });
 
-      // Store in variable (required for db_query)
-      (context as Record<string, unknown>)[config.as] = results;
-
       return { success: true, data: results };
     } catch (err) {
       return { success: false, error: err as Error };
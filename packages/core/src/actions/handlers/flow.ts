@@ -5,6 +5,10 @@
 import type { ActionRegistry } from '../registry.js';
 import type { ActionHandler, ActionContext, ActionResult } from '../types.js';
 import type { HandlerDependencies } from './index.js';
+import type { ActionExecutor } from '../executor.js';
+import { runTransaction } from '../compensation.js';
+import { runBatchAction } from '../batch.js';
+import { abortReason, sleep } from '../deadline.js';
 import type {
   CallFlowAction,
   AbortAction,
@@ -16,6 +20,7 @@ import type {
   ParallelAction,
   BatchAction,
   TryAction,
+  TransactionAction,
   WaitAction,
   LogAction,
   EmitAction,
@@ -63,7 +68,7 @@ const callFlowHandler: ActionHandler<CallFlowAction> = {
     const args: Record<string, unknown> = {};
     if (config.args) {
       for (const [key, expr] of Object.entries(config.args)) {
-        args[key] = await evaluator.evaluate(String(expr), context);
+        args[key] = await evaluator.resolveExpression(expr, context);
       }
     }
 
@@ -83,11 +88,6 @@ const callFlowHandler: ActionHandler<CallFlowAction> = {
         context.flowContext as any
       );
 
-      // Store result if requested
-      if (config.as && result.value !== undefined) {
-        (context as Record<string, unknown>)[config.as] = result.value;
-      }
-
       return {
         success: result.success,
         data: result.value,
@@ -135,7 +135,7 @@ const returnHandler: ActionHandler<ReturnAction> = {
 
     let value: unknown;
     if (config.value) {
-      value = await evaluator.evaluate(String(config.value), context);
+      value = await evaluator.resolveExpression(config.value, context);
     }
 
     // Set return value in flow context
@@ -191,7 +191,7 @@ const flowSwitchHandler: ActionHandler<FlowSwitchAction> = {
     const deps = context._deps as HandlerDependencies;
     const { evaluator } = deps;
 
-    const value = await evaluator.evaluate<string>(String(config.value), context);
+    const value = (await evaluator.resolveExpression(config.value, context)) as string;
 
     // The FlowEngine will handle executing the branches
     return { success: true, data: { value } };
@@ -236,7 +236,7 @@ const parallelHandler: ActionHandler<ParallelAction> = {
 
 /**
  * Batch action handler
- * Note: Actual batch execution is handled by ActionExecutor
+ * Runs `each` for every item through a worker pool, see runBatchAction
  */
 const batchHandler: ActionHandler<BatchAction> = {
   name: 'batch',
@@ -245,14 +245,25 @@ const batchHandler: ActionHandler<BatchAction> = {
     const { evaluator } = deps;
 
     // Get the items to iterate over
-    const items = await evaluator.evaluate<unknown[]>(String(config.items), context);
+    const items = (await evaluator.resolveExpression(config.items, context)) as unknown[];
 
     if (!Array.isArray(items)) {
       return { success: false, error: new Error('Items must be an array') };
     }
 
-    // The FlowEngine/ActionExecutor will handle the actual iteration
-    return { success: true, data: { items, count: items.length } };
+    const actionExecutor = context._actionExecutor as ActionExecutor | undefined;
+    if (!actionExecutor) {
+      return { success: false, error: new Error('ActionExecutor not available') };
+    }
+
+    const { result } = await runBatchAction(
+      config,
+      items,
+      context,
+      actionExecutor,
+      (actions, itemContext) => actionExecutor.executeSequence(actions, itemContext)
+    );
+    return result;
   },
 };
 
@@ -268,6 +279,25 @@ const tryHandler: ActionHandler<TryAction> = {
   },
 };
 
+/**
+ * Transaction action handler
+ * Runs steps in order; when one fails, the completed steps are undone in
+ * reverse order using their `compensate` blocks or built-in compensations.
+ */
+const transactionHandler: ActionHandler<TransactionAction> = {
+  name: 'transaction',
+  async execute(config, context): Promise<ActionResult> {
+    const actionExecutor = context._actionExecutor as ActionExecutor | undefined;
+    if (!actionExecutor) {
+      return { success: false, error: new Error('ActionExecutor not available') };
+    }
+
+    return runTransaction(config.actions ?? [], context, async (step) => [
+      await actionExecutor.executeOne(step, context),
+    ]);
+  },
+};
+
 /**
  * Wait action handler
  */
@@ -275,7 +305,10 @@ const waitHandler: ActionHandler<WaitAction> = {
   name: 'wait',
   async execute(config, context): Promise<ActionResult> {
     const durationMs = parseDuration(String(config.duration));
-    await new Promise((resolve) => setTimeout(resolve, durationMs));
+    await sleep(durationMs, context.signal);
+    if (context.signal?.aborted) {
+      return { success: false, error: abortReason(context.signal) };
+    }
     return { success: true };
   },
 };
@@ -326,7 +359,7 @@ const emitHandler: ActionHandler<EmitAction> = {
     const data: Record<string, unknown> = {};
     if (config.data) {
       for (const [key, expr] of Object.entries(config.data)) {
-        data[key] = await evaluator.evaluate(String(expr), context);
+        data[key] = await evaluator.resolveExpression(expr, context);
       }
     }
 
@@ -358,6 +391,7 @@ export function registerFlowHandlers(
   registry.register(parallelHandler);
   registry.register(batchHandler);
   registry.register(tryHandler);
+  registry.register(transactionHandler);
   registry.register(waitHandler);
   registry.register(logHandler);
   registry.register(emitHandler);
@@ -22,13 +22,24 @@ import { registerMiscHandlers } from './misc.js';
 
 /** Dependencies for action handlers */
 export interface HandlerDependencies {
-  client: Client;
+  /** Discord client, absent when actions run offline such as in `furlow simulate` */
+  client?: Client;
   evaluator: ExpressionEvaluator;
   stateManager?: StateManager;
   flowEngine?: FlowEngine;
   voiceManager?: unknown;
 }
 
+/**
+ * Get the Discord client, failing the action when there is none
+ */
+export function requireClient(deps: HandlerDependencies): Client {
+  if (!deps.client) {
+    throw new Error('Discord client not available');
+  }
+  return deps.client;
+}
+
 /**
  * Register all core action handlers
  */
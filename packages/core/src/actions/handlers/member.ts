@@ -4,7 +4,9 @@
 
 import type { ActionRegistry } from '../registry.js';
 import type { ActionHandler, ActionContext, ActionResult } from '../types.js';
-import type { HandlerDependencies } from './index.js';
+import { requireClient, type HandlerDependencies } from './index.js';
+import { toMessageResult } from './results.js';
+import { resolvePayloadList } from './payload.js';
 import type {
   AssignRoleAction,
   RemoveRoleAction,
@@ -36,7 +38,7 @@ async function resolveGuild(
   context: ActionContext,
   deps: HandlerDependencies
 ): Promise<Guild | null> {
-  const { client } = deps;
+  const client = requireClient(deps);
   const guildId = context.guildId || (context.guild as any)?.id;
   if (!guildId) return null;
   return client.guilds.fetch(guildId);
@@ -94,7 +96,8 @@ async function resolveUser(
   context: ActionContext,
   deps: HandlerDependencies
 ): Promise<User | null> {
-  const { evaluator, client } = deps;
+  const { evaluator } = deps;
+  const client = requireClient(deps);
   const resolved = await evaluator.interpolate(userExpr, context);
   const userId = resolved.replace(/[<@!>]/g, '');
   return client.users.fetch(userId);
@@ -149,8 +152,35 @@ const assignRoleHandler: ActionHandler<AssignRoleAction> = {
       ? await evaluator.interpolate(String(config.reason), context)
       : undefined;
 
+    // Remember whether the member already had the role so a rollback
+    // does not take away a role they were given elsewhere
+    const added = !member.roles.cache.has(role.id);
+
     try {
       await member.roles.add(role, reason);
+      return { success: true, data: { user_id: member.id, role_id: role.id, added } };
+    } catch (err) {
+      return { success: false, error: err as Error };
+    }
+  },
+  async compensate(config, result, context): Promise<ActionResult> {
+    const data = result.data as { user_id: string; role_id: string; added: boolean } | undefined;
+    if (!data) {
+      return { success: false, error: new Error('Assigned role is not available') };
+    }
+    if (!data.added) {
+      return { success: true };
+    }
+
+    const deps = context._deps as HandlerDependencies;
+    const guild = await resolveGuild(context, deps);
+    if (!guild) {
+      return { success: false, error: new Error('Guild not found') };
+    }
+
+    try {
+      const member = await guild.members.fetch(data.user_id);
+      await member.roles.remove(data.role_id, 'Rolled back');
       return { success: true };
     } catch (err) {
       return { success: false, error: err as Error };
@@ -425,58 +455,21 @@ const sendDMHandler: ActionHandler<SendDMAction> = {
     }
 
     if (config.embed) {
-      options.embeds = [await evaluateEmbed(config.embed as Record<string, unknown>, context, evaluator)];
+      options.embeds = await resolvePayloadList(config.embed, context, evaluator);
     }
     if (config.embeds) {
-      options.embeds = await Promise.all(
-        config.embeds.map((e) => evaluateEmbed(e as Record<string, unknown>, context, evaluator))
-      );
+      options.embeds = await resolvePayloadList(config.embeds, context, evaluator);
     }
 
     try {
       const message = await user.send(options);
-      return { success: true, data: message };
+      return { success: true, data: toMessageResult(message) };
     } catch (err) {
       return { success: false, error: err as Error };
     }
   },
 };
 
-/**
- * Helper to evaluate embed objects
- */
-async function evaluateEmbed(
-  obj: Record<string, unknown>,
-  context: ActionContext,
-  evaluator: { interpolate: (s: string, ctx: Record<string, unknown>) => Promise<string> }
-): Promise<Record<string, unknown>> {
-  const result: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(obj)) {
-    if (typeof value === 'string') {
-      result[key] = await evaluator.interpolate(value, context);
-    } else if (Array.isArray(value)) {
-      result[key] = await Promise.all(
-        value.map(async (item) => {
-          if (typeof item === 'object' && item !== null) {
-            return evaluateEmbed(item as Record<string, unknown>, context, evaluator);
-          }
-          if (typeof item === 'string') {
-            return evaluator.interpolate(item, context);
-          }
-          return item;
-        })
-      );
-    } else if (typeof value === 'object' && value !== null) {
-      result[key] = await evaluateEmbed(value as Record<string, unknown>, context, evaluator);
-    } else {
-      result[key] = value;
-    }
-  }
-
-  return result;
-}
-
 /**
  * Set nickname action handler
  */
@@ -512,7 +505,8 @@ const moveMemberHandler: ActionHandler<MoveMemberAction> = {
   name: 'move_member',
   async execute(config, context): Promise<ActionResult> {
     const deps = context._deps as HandlerDependencies;
-    const { evaluator, client } = deps;
+    const { evaluator } = deps;
+    const client = requireClient(deps);
 
     const member = await resolveMember(String(config.user), context, deps);
     if (!member) {
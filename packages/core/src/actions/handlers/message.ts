@@ -4,7 +4,9 @@
 
 import type { ActionRegistry } from '../registry.js';
 import type { ActionHandler, ActionContext, ActionResult } from '../types.js';
-import type { HandlerDependencies } from './index.js';
+import { requireClient, type HandlerDependencies } from './index.js';
+import { toMessageResult } from './results.js';
+import { resolvePayload, resolvePayloadList } from './payload.js';
 import type {
   ReplyAction,
   SendMessageAction,
@@ -50,22 +52,15 @@ async function buildMessageOptions(
 
   // Embeds
   if (config.embed) {
-    const embed = await evaluateObject(config.embed as Record<string, unknown>, context, evaluator);
-    options.embeds = [embed as any];
+    options.embeds = (await resolvePayloadList(config.embed, context, evaluator)) as any[];
   }
   if (config.embeds) {
-    options.embeds = await Promise.all(
-      config.embeds.map((e) => evaluateObject(e as Record<string, unknown>, context, evaluator))
-    ) as any[];
+    options.embeds = (await resolvePayloadList(config.embeds, context, evaluator)) as any[];
   }
 
   // Components
   if (config.components) {
-    if (Array.isArray(config.components)) {
-      options.components = await Promise.all(
-        config.components.map((c) => evaluateObject(c as unknown as Record<string, unknown>, context, evaluator))
-      ) as any[];
-    }
+    options.components = (await resolvePayloadList(config.components, context, evaluator)) as any[];
   }
 
   // Ephemeral (for interactions)
@@ -113,7 +108,7 @@ async function buildMessageOptions(
           return new AttachmentBuilder(String(attachment), { name: fileObj.name });
         }
         // Fallback: evaluate as object
-        return await evaluateObject(f as unknown as Record<string, unknown>, context, evaluator);
+        return await resolvePayload(f, context, evaluator);
       })
     ) as any[];
   }
@@ -121,41 +116,6 @@ async function buildMessageOptions(
   return options;
 }
 
-/**
- * Helper to evaluate object properties recursively
- */
-async function evaluateObject(
-  obj: Record<string, unknown>,
-  context: ActionContext,
-  evaluator: { interpolate: (s: string, ctx: Record<string, unknown>) => Promise<string> }
-): Promise<Record<string, unknown>> {
-  const result: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(obj)) {
-    if (typeof value === 'string') {
-      result[key] = await evaluator.interpolate(value, context);
-    } else if (Array.isArray(value)) {
-      result[key] = await Promise.all(
-        value.map(async (item) => {
-          if (typeof item === 'object' && item !== null) {
-            return evaluateObject(item as Record<string, unknown>, context, evaluator);
-          }
-          if (typeof item === 'string') {
-            return evaluator.interpolate(item, context);
-          }
-          return item;
-        })
-      );
-    } else if (typeof value === 'object' && value !== null) {
-      result[key] = await evaluateObject(value as Record<string, unknown>, context, evaluator);
-    } else {
-      result[key] = value;
-    }
-  }
-
-  return result;
-}
-
 /**
  * Helper to resolve a channel from an expression or use context channel
  */
@@ -164,7 +124,8 @@ async function resolveChannel(
   context: ActionContext,
   deps: HandlerDependencies
 ): Promise<TextChannel | NewsChannel | null> {
-  const { client, evaluator } = deps;
+  const { evaluator } = deps;
+  const client = requireClient(deps);
 
   if (!channelExpr) {
     // Use current channel from context
@@ -232,10 +193,10 @@ const replyHandler: ActionHandler<ReplyAction> = {
     try {
       if (!interaction.replied && !interaction.deferred) {
         const reply = await interaction.reply({ ...options, fetchReply: true });
-        return { success: true, data: reply };
+        return { success: true, data: toMessageResult(reply) };
       } else {
         const followUp = await interaction.followUp({ ...options, fetchReply: true });
-        return { success: true, data: followUp };
+        return { success: true, data: toMessageResult(followUp) };
       }
     } catch (err) {
       return { success: false, error: err as Error };
@@ -260,13 +221,7 @@ const sendMessageHandler: ActionHandler<SendMessageAction> = {
 
     try {
       const message = await channel.send(options);
-
-      // Store in variable if requested
-      if (config.as) {
-        (context as Record<string, unknown>)[config.as] = message;
-      }
-
-      return { success: true, data: message };
+      return { success: true, data: toMessageResult(message) };
     } catch (err) {
       return { success: false, error: err as Error };
     }
@@ -300,26 +255,19 @@ const editMessageHandler: ActionHandler<EditMessageAction> = {
     }
 
     if (config.embed) {
-      const embed = await evaluateObject(config.embed as Record<string, unknown>, context, evaluator);
-      options.embeds = [embed as any];
+      options.embeds = (await resolvePayloadList(config.embed, context, evaluator)) as any[];
     }
     if (config.embeds) {
-      options.embeds = await Promise.all(
-        config.embeds.map((e) => evaluateObject(e as Record<string, unknown>, context, evaluator))
-      ) as any[];
+      options.embeds = (await resolvePayloadList(config.embeds, context, evaluator)) as any[];
     }
 
     if (config.components) {
-      if (Array.isArray(config.components)) {
-        options.components = await Promise.all(
-          config.components.map((c) => evaluateObject(c as unknown as Record<string, unknown>, context, evaluator))
-        ) as any[];
-      }
+      options.components = (await resolvePayloadList(config.components, context, evaluator)) as any[];
     }
 
     try {
       const edited = await message.edit(options);
-      return { success: true, data: edited };
+      return { success: true, data: toMessageResult(edited) };
     } catch (err) {
       return { success: false, error: err as Error };
     }
@@ -415,19 +363,14 @@ const updateMessageHandler: ActionHandler<UpdateMessageAction> = {
     }
 
     if (config.embed) {
-      const embed = await evaluateObject(config.embed as Record<string, unknown>, context, evaluator);
-      options.embeds = [embed];
+      options.embeds = await resolvePayloadList(config.embed, context, evaluator);
     }
     if (config.embeds) {
-      options.embeds = await Promise.all(
-        config.embeds.map((e) => evaluateObject(e as Record<string, unknown>, context, evaluator))
-      );
+      options.embeds = await resolvePayloadList(config.embeds, context, evaluator);
     }
 
     if (config.components) {
-      options.components = await Promise.all(
-        config.components.map((c) => evaluateObject(c as unknown as Record<string, unknown>, context, evaluator))
-      );
+      options.components = await resolvePayloadList(config.components, context, evaluator);
     }
 
     try {
@@ -514,7 +457,8 @@ const removeReactionHandler: ActionHandler<RemoveReactionAction> = {
   name: 'remove_reaction',
   async execute(config, context): Promise<ActionResult> {
     const deps = context._deps as HandlerDependencies;
-    const { evaluator, client } = deps;
+    const { evaluator } = deps;
+    const client = requireClient(deps);
 
     // Get channel from context
     const channelId = context.channelId || (context.channel as any)?.id;
@@ -560,7 +504,8 @@ const clearReactionsHandler: ActionHandler<ClearReactionsAction> = {
   name: 'clear_reactions',
   async execute(config, context): Promise<ActionResult> {
     const deps = context._deps as HandlerDependencies;
-    const { evaluator, client } = deps;
+    const { evaluator } = deps;
+    const client = requireClient(deps);
 
     const channelId = context.channelId || (context.channel as any)?.id;
     if (!channelId) {
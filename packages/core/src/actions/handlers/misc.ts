@@ -5,7 +5,9 @@
 import type { ActionRegistry } from '../registry.js';
 import type { ActionHandler, ActionContext, ActionResult } from '../types.js';
 import type { HandlerDependencies } from './index.js';
+import { resolvePayloadList } from './payload.js';
 import { handleError } from '../../errors/handler.js';
+import { linkSignal } from '../deadline.js';
 import type {
   PipeRequestAction,
   PipeSendAction,
@@ -58,6 +60,25 @@ function parseDuration(duration: string): number {
   }
 }
 
+/**
+ * Resolve a request body or message: a whole expression, or a map whose
+ * values are bare expressions (templates and markers included)
+ */
+async function resolveData(
+  data: Record<string, unknown> | string,
+  context: ActionContext,
+  evaluator: ExpressionEvaluator
+): Promise<unknown> {
+  if (typeof data === 'string') {
+    return evaluator.resolveExpression(data, context);
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    result[key] = await evaluator.resolveExpression(value, context);
+  }
+  return result;
+}
+
 /**
  * Pipe request action handler (HTTP requests)
  */
@@ -97,38 +118,31 @@ const pipeRequestHandler: ActionHandler<PipeRequestAction> = {
     // Build body
     let body: string | undefined;
     if (config.body) {
-      const bodyData: Record<string, unknown> = {};
-      for (const [key, value] of Object.entries(config.body)) {
-        bodyData[key] = await evaluator.evaluate(String(value), context);
-      }
-      body = JSON.stringify(bodyData);
+      body = JSON.stringify(await resolveData(config.body, context, evaluator));
     }
 
     try {
       // Create abort controller for timeout
       const controller = new AbortController();
       const timeout = setTimeout(() => controller.abort(), 30000); // 30s timeout
+      const unlink = linkSignal(controller, context.signal);
 
       const response = await fetch(url, {
         method: config.method || 'GET',
         headers,
         body: config.method !== 'GET' ? body : undefined,
         signal: controller.signal,
+      }).finally(() => {
+        clearTimeout(timeout);
+        unlink();
       });
 
-      clearTimeout(timeout);
-
       const data = await response.json().catch(() => response.text());
 
-      if (config.as) {
-        (context as Record<string, unknown>)[config.as] = {
-          status: response.status,
-          ok: response.ok,
-          data,
-        };
-      }
-
-      return { success: response.ok, data };
+      return {
+        success: response.ok,
+        data: { status: response.status, ok: response.ok, data },
+      };
     } catch (err) {
       return { success: false, error: err as Error };
     }
@@ -153,10 +167,7 @@ const pipeSendHandler: ActionHandler<PipeSendAction> = {
     }
 
     // Build data
-    const data: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(config.data)) {
-      data[key] = await evaluator.evaluate(String(value), context);
-    }
+    const data = await resolveData(config.data, context, evaluator);
 
     try {
       // Send based on connection type
@@ -200,62 +211,25 @@ const webhookSendHandler: ActionHandler<WebhookSendAction> = {
     }
 
     if (config.embeds) {
-      body.embeds = await Promise.all(
-        config.embeds.map(async (embed) => {
-          const result: Record<string, unknown> = {};
-          for (const [key, value] of Object.entries(embed)) {
-            if (typeof value === 'string') {
-              result[key] = await evaluator.interpolate(value, context);
-            } else if (Array.isArray(value)) {
-              result[key] = await Promise.all(
-                value.map(async (item) => {
-                  if (typeof item === 'object' && item !== null) {
-                    const itemResult: Record<string, unknown> = {};
-                    for (const [k, v] of Object.entries(item)) {
-                      if (typeof v === 'string') {
-                        itemResult[k] = await evaluator.interpolate(v, context);
-                      } else {
-                        itemResult[k] = v;
-                      }
-                    }
-                    return itemResult;
-                  }
-                  return item;
-                })
-              );
-            } else if (typeof value === 'object' && value !== null) {
-              const objResult: Record<string, unknown> = {};
-              for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
-                if (typeof v === 'string') {
-                  objResult[k] = await evaluator.interpolate(v, context);
-                } else {
-                  objResult[k] = v;
-                }
-              }
-              result[key] = objResult;
-            } else {
-              result[key] = value;
-            }
-          }
-          return result;
-        })
-      );
+      body.embeds = await resolvePayloadList(config.embeds, context, evaluator);
     }
 
     try {
       // Create abort controller for timeout
       const controller = new AbortController();
       const timeout = setTimeout(() => controller.abort(), 30000); // 30s timeout
+      const unlink = linkSignal(controller, context.signal);
 
       const response = await fetch(url, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
         signal: controller.signal,
+      }).finally(() => {
+        clearTimeout(timeout);
+        unlink();
       });
 
-      clearTimeout(timeout);
-
       return { success: response.ok };
     } catch (err) {
       return { success: false, error: err as Error };
@@ -278,7 +252,7 @@ const createTimerHandler: ActionHandler<CreateTimerAction> = {
     const data: Record<string, unknown> = {};
     if (config.data) {
       for (const [key, value] of Object.entries(config.data)) {
-        data[key] = await evaluator.evaluate(String(value), context);
+        data[key] = await evaluator.resolveExpression(value, context);
       }
     }
 
@@ -431,24 +405,11 @@ const canvasRenderHandler: ActionHandler<CanvasRenderAction> = {
     const contextDebug: Record<string, { input: string; output: unknown }> = {};
     if (config.context) {
       for (const [key, value] of Object.entries(config.context)) {
-        const strValue = String(value);
-        let result: unknown;
-
-        // Check if this is a pure expression: exactly "${expr}" with nothing else
-        // In this case, we want the raw value (object), not a stringified version
-        const pureExprMatch = strValue.match(/^\$\{(.+)\}$/);
-        if (pureExprMatch) {
-          // Pure expression - evaluate and return raw value (preserves objects)
-          result = await evaluator.evaluate(pureExprMatch[1]!, context);
-        } else if (strValue.includes('${')) {
-          // Mixed content like "Hello ${name}" - interpolate to string
-          result = await evaluator.interpolate(strValue, context);
-        } else {
-          // Raw expression without ${} wrapper
-          result = await evaluator.evaluate(strValue, context);
-        }
+        // Exact "${expr}" and bare expressions keep objects; mixed text
+        // is interpolated to a string
+        const result = await evaluator.resolveExpression(value, context);
         renderContext[key] = result;
-        contextDebug[key] = { input: strValue, output: result };
+        contextDebug[key] = { input: String(value), output: result };
       }
     }
 
@@ -462,10 +423,6 @@ const canvasRenderHandler: ActionHandler<CanvasRenderAction> = {
       // Render the generator
       const result = await renderer.renderGenerator(generator, renderContext);
 
-      if (config.as) {
-        (context as Record<string, unknown>)[config.as] = result;
-      }
-
       return { success: true, data: result };
     } catch (err) {
       return { success: false, error: err as Error };
@@ -506,10 +463,6 @@ const renderLayersHandler: ActionHandler<RenderLayersAction> = {
         }
       );
 
-      if (config.as) {
-        (context as Record<string, unknown>)[config.as] = result;
-      }
-
       return { success: true, data: result };
     } catch (err) {
       return { success: false, error: err as Error };
@@ -0,0 +1,77 @@
+/**
+ * Discord payload helpers - resolve embeds and components the same way in
+ * every handler that sends them
+ */
+
+import type { ActionContext } from '../types.js';
+import type { ExpressionEvaluator } from '../../expression/evaluator.js';
+
+/**
+ * Embed and component keys Discord only accepts as strings, such as
+ * custom_id and embed field names and values
+ */
+const STRING_KEYS = new Set([
+  'custom_id',
+  'name',
+  'value',
+  'label',
+  'placeholder',
+  'title',
+  'description',
+  'text',
+  'url',
+  'icon_url',
+]);
+
+/**
+ * Resolve an embed, component or list of them. Fields keep the type of
+ * their expressions, so `fields: "${leaderboard}"` becomes the array
+ * itself; scalars under the keys Discord requires as strings are then
+ * converted to strings.
+ */
+export async function resolvePayload(
+  value: unknown,
+  context: ActionContext,
+  evaluator: ExpressionEvaluator
+): Promise<unknown> {
+  return stringifyKeys(await evaluator.resolveValue(value, context));
+}
+
+/**
+ * Resolve a list of embeds or components. A field that resolves to one
+ * item, such as `embeds: "${embed}"`, is sent as a list of one.
+ */
+export async function resolvePayloadList(
+  value: unknown,
+  context: ActionContext,
+  evaluator: ExpressionEvaluator
+): Promise<unknown[]> {
+  const resolved = await resolvePayload(value, context, evaluator);
+  if (resolved === undefined || resolved === null) return [];
+  return Array.isArray(resolved) ? resolved : [resolved];
+}
+
+function stringifyKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stringifyKeys);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (STRING_KEYS.has(key) && (item === null || item === undefined || typeof item !== 'object')) {
+      result[key] = item === null || item === undefined ? '' : String(item);
+    } else {
+      result[key] = stringifyKeys(item);
+    }
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
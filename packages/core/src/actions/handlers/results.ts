@@ -0,0 +1,105 @@
+/**
+ * Plain result shapes for discord.js objects returned by action handlers
+ */
+
+import { ChannelType } from 'discord.js';
+import type { ChannelResult, MessageResult, RoleResult } from '@furlow/schema';
+
+const CHANNEL_TYPE_NAMES: Partial<Record<ChannelType, string>> = {
+  [ChannelType.GuildText]: 'text',
+  [ChannelType.GuildVoice]: 'voice',
+  [ChannelType.GuildCategory]: 'category',
+  [ChannelType.GuildAnnouncement]: 'announcement',
+  [ChannelType.GuildStageVoice]: 'stage',
+  [ChannelType.GuildForum]: 'forum',
+  [ChannelType.PublicThread]: 'thread',
+  [ChannelType.PrivateThread]: 'thread',
+  [ChannelType.AnnouncementThread]: 'thread',
+  [ChannelType.DM]: 'dm',
+};
+
+/**
+ * Give a result the string form of the discord.js object it replaces, so
+ * `${ticket}` still renders as a mention. The method is not enumerable, so
+ * it stays out of JSON, traces and saved workflow variables.
+ */
+export function withStringForm<T extends object>(result: T, text: string): T {
+  Object.defineProperty(result, 'toString', { value: () => text, enumerable: false });
+  return result;
+}
+
+function channelUrl(guildId: string | null | undefined, ...ids: string[]): string {
+  return `https://discord.com/channels/${[guildId ?? '@me', ...ids].join('/')}`;
+}
+
+/**
+ * Convert a sent or edited message to a MessageResult
+ */
+export function toMessageResult(message: {
+  id: string;
+  channelId?: string;
+  guildId?: string | null;
+  content?: string;
+}): MessageResult {
+  const channelId = message.channelId ?? '';
+  const guildId = message.guildId ?? null;
+  const content = message.content ?? '';
+  return withStringForm(
+    {
+      id: message.id,
+      channel_id: channelId,
+      guild_id: guildId,
+      content,
+      url: channelUrl(guildId, channelId, message.id),
+    },
+    content
+  );
+}
+
+/**
+ * Convert a created or edited channel to a ChannelResult
+ */
+export function toChannelResult(channel: {
+  id: string;
+  name?: string | null;
+  type?: ChannelType;
+  guildId?: string | null;
+  parentId?: string | null;
+}): ChannelResult {
+  const guildId = channel.guildId ?? null;
+  const mention = `<#${channel.id}>`;
+  return withStringForm(
+    {
+      id: channel.id,
+      name: channel.name ?? '',
+      type: (channel.type !== undefined && CHANNEL_TYPE_NAMES[channel.type]) || 'unknown',
+      guild_id: guildId,
+      parent_id: channel.parentId ?? null,
+      mention,
+      url: channelUrl(guildId, channel.id),
+    },
+    mention
+  );
+}
+
+/**
+ * Convert a created or edited role to a RoleResult
+ */
+export function toRoleResult(role: {
+  id: string;
+  name?: string;
+  color?: number;
+  position?: number;
+}): RoleResult {
+  const mention = `<@&${role.id}>`;
+  return withStringForm(
+    {
+      id: role.id,
+      name: role.name ?? '',
+      color: role.color ?? 0,
+      position: role.position ?? 0,
+      mention,
+    },
+    mention
+  );
+}
@@ -15,6 +15,7 @@ import type {
   DeleteMapAction,
 } from '@furlow/schema';
 import type { StateManager } from '../../state/manager.js';
+import { parseMarker } from '../../expression/template.js';
 
 /**
  * Get the state context for a given scope
@@ -98,9 +99,9 @@ const setHandler: ActionHandler<SetAction> = {
 
     // Evaluate the value
     let value: unknown;
-    if (typeof config.value === 'string' && config.value.includes('${')) {
-      // It's a template string
-      value = await evaluator.interpolate(config.value, context);
+    if (typeof config.value === 'string' && (config.value.includes('${') || parseMarker(config.value))) {
+      // A template; exact "${...}" and $expr: keep the result's type
+      value = await evaluator.evaluateTemplate(config.value, context);
     } else if (typeof config.value === 'string' && !config.value.startsWith('"')) {
       // It might be an expression
       try {
@@ -122,11 +123,6 @@ const setHandler: ActionHandler<SetAction> = {
     // Also set in context.state for immediate access (scoped structure)
     setContextState(context, config.scope, key, value);
 
-    // Store result in variable if requested
-    if (config.as) {
-      (context as Record<string, unknown>)[config.as] = value;
-    }
-
     return { success: true, data: value };
   },
 };
@@ -213,7 +209,7 @@ const listPushHandler: ActionHandler<ListPushAction> = {
     let value: unknown;
     if (typeof config.value === 'string') {
       try {
-        value = await evaluator.evaluate(String(config.value), context);
+        value = await evaluator.resolveExpression(config.value, context);
       } catch {
         value = config.value;
       }
@@ -276,7 +272,7 @@ const listRemoveHandler: ActionHandler<ListRemoveAction> = {
     if (config.index !== undefined) {
       let index: number;
       if (typeof config.index === 'string') {
-        index = await evaluator.evaluate<number>(config.index, context);
+        index = (await evaluator.resolveExpression(config.index, context)) as number;
       } else {
         index = config.index;
       }
@@ -292,7 +288,7 @@ const listRemoveHandler: ActionHandler<ListRemoveAction> = {
       let value: unknown;
       if (typeof config.value === 'string') {
         try {
-          value = await evaluator.evaluate(String(config.value), context);
+          value = await evaluator.resolveExpression(config.value, context);
         } catch {
           value = config.value;
         }
@@ -343,7 +339,7 @@ const setMapHandler: ActionHandler<SetMapAction> = {
     let value: unknown;
     if (typeof config.value === 'string') {
       try {
-        value = await evaluator.evaluate(String(config.value), context);
+        value = await evaluator.resolveExpression(config.value, context);
       } catch {
         value = config.value;
       }
@@ -4,7 +4,8 @@
 
 import type { ActionRegistry } from '../registry.js';
 import type { ActionHandler, ActionContext, ActionResult } from '../types.js';
-import type { HandlerDependencies } from './index.js';
+import { requireClient, type HandlerDependencies } from './index.js';
+import { abortable } from '../deadline.js';
 import type {
   VoiceJoinAction,
   VoiceLeaveAction,
@@ -100,7 +101,8 @@ const voiceJoinHandler: ActionHandler<VoiceJoinAction> = {
   name: 'voice_join',
   async execute(config, context): Promise<ActionResult> {
     const deps = context._deps as HandlerDependencies;
-    const { evaluator, client } = deps;
+    const { evaluator } = deps;
+    const client = requireClient(deps);
     const voiceManager = getVoiceManager(context);
 
     if (!voiceManager) {
@@ -436,7 +438,7 @@ const voiceSearchHandler: ActionHandler<VoiceSearchAction> = {
       if (typeof config.limit === 'number') {
         limit = config.limit;
       } else {
-        limit = await evaluator.evaluate<number>(String(config.limit), context);
+        limit = (await evaluator.resolveExpression(config.limit, context)) as number;
       }
     }
 
@@ -451,7 +453,7 @@ const voiceSearchHandler: ActionHandler<VoiceSearchAction> = {
 
       // Use voiceManager.search if available (full implementation)
       if (voiceManager && typeof voiceManager.search === 'function') {
-        results = await voiceManager.search(query, { limit, source });
+        results = await abortable(voiceManager.search(query, { limit, source }), context.signal);
       } else {
         // Fallback: Check if query is a URL
         const isUrl = /^https?:\/\//i.test(query);
@@ -473,10 +475,6 @@ const voiceSearchHandler: ActionHandler<VoiceSearchAction> = {
         }
       }
 
-      if (config.as) {
-        (context as Record<string, unknown>)[config.as] = results;
-      }
-
       return { success: true, data: results };
     } catch (err) {
       return { success: false, error: err as Error };
@@ -510,10 +508,6 @@ const queueGetHandler: ActionHandler<QueueGetAction> = {
       length: queue.length,
     };
 
-    if (config.as) {
-      (context as Record<string, unknown>)[config.as] = result;
-    }
-
     return { success: true, data: result };
   },
 };
@@ -541,7 +535,7 @@ const queueAddHandler: ActionHandler<QueueAddAction> = {
 
     if (config.track) {
       // Track object from voice_search
-      track = await evaluator.evaluate(String(config.track), context);
+      track = (await evaluator.resolveExpression(config.track, context)) as Record<string, unknown>;
     } else if (config.source) {
       // URL or search query
       const source = await evaluator.interpolate(String(config.source), context);
@@ -670,7 +664,7 @@ const queueLoopHandler: ActionHandler<QueueLoopAction> = {
     if (typeof config.mode === 'string' && ['off', 'track', 'queue'].includes(config.mode)) {
       mode = config.mode as 'off' | 'track' | 'queue';
     } else {
-      mode = await evaluator.evaluate<'off' | 'track' | 'queue'>(String(config.mode), context);
+      mode = (await evaluator.resolveExpression(config.mode, context)) as 'off' | 'track' | 'queue';
     }
 
     try {
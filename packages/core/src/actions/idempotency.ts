@@ -0,0 +1,110 @@
+/**
+ * Idempotency keys - skip actions and event handlers that already ran for
+ * the same key, so replayed events do not repeat side effects
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Action, Duration } from '@furlow/schema';
+import type { ActionContext } from './types.js';
+import type { ExpressionEvaluator } from '../expression/evaluator.js';
+import type { StateManager } from '../state/manager.js';
+import { parseDuration } from '../scheduler/timer.js';
+
+/** How long keys are remembered when no TTL is given */
+export const DEFAULT_IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000;
+
+/** A key claimed for one run */
+export interface IdempotencyClaim {
+  /** Full storage key, including the namespace */
+  key: string;
+  /** Whether this run claimed the key; false means it is a duplicate */
+  claimed: boolean;
+}
+
+/**
+ * Position of the running action: the handler, job or flow it belongs to,
+ * then its index in each enclosing list, e.g. "flow:welcome/2/0"
+ */
+const actionPosition = new AsyncLocalStorage<string>();
+
+/**
+ * Run fn with the actions it starts placed under scope, such as an event
+ * handler or flow
+ */
+export function withActionScope<T>(scope: string, fn: () => Promise<T>): Promise<T> {
+  return actionPosition.run(scope, fn);
+}
+
+/**
+ * Run fn as the action at index step of the current list, or as a step
+ * such as "flow:welcome" nested in the running action
+ */
+export function atActionPosition<T>(step: number | string, fn: () => Promise<T>): Promise<T> {
+  const outer = actionPosition.getStore();
+  return actionPosition.run(outer === undefined ? String(step) : `${outer}/${step}`, fn);
+}
+
+/**
+ * Position of the running action, if it was started under a scope
+ */
+export function currentActionPosition(): string | undefined {
+  return actionPosition.getStore();
+}
+
+/**
+ * Namespace for an action's idempotency keys. Actions are told apart by
+ * their position, so two actions of the same type using the same key
+ * template do not skip each other.
+ */
+export function actionNamespace(action: Action): string {
+  const position = actionPosition.getStore();
+  return position === undefined ? `action:${action.action}` : `action:${action.action}@${position}`;
+}
+
+/**
+ * Find the state manager in a context
+ */
+function getStateManager(context: ActionContext): StateManager | undefined {
+  const deps = context._deps as { stateManager?: StateManager } | undefined;
+  return deps?.stateManager ?? (context.stateManager as StateManager | undefined);
+}
+
+/**
+ * Interpolate an idempotency key and claim it in state storage. The
+ * namespace keeps the same key on different actions or events apart.
+ */
+export async function claimIdempotencyKey(
+  namespace: string,
+  template: string,
+  ttl: Duration | undefined,
+  context: ActionContext,
+  evaluator: ExpressionEvaluator
+): Promise<IdempotencyClaim> {
+  const stateManager = getStateManager(context);
+  if (!stateManager) {
+    throw new Error('idempotency_key needs a state manager');
+  }
+
+  const key = `${namespace}:${await evaluator.interpolate(template, context)}`;
+  const ttlMs =
+    ttl === undefined ? DEFAULT_IDEMPOTENCY_TTL : typeof ttl === 'number' ? ttl : parseDuration(ttl);
+
+  return { key, claimed: await stateManager.claimIdempotencyKey(key, ttlMs) };
+}
+
+/**
+ * Forget a claimed key so a later delivery can try again
+ */
+export async function releaseIdempotencyKey(
+  claim: IdempotencyClaim,
+  context: ActionContext
+): Promise<void> {
+  await getStateManager(context)?.releaseIdempotencyKey(claim.key);
+}
+
+/**
+ * Describe why a duplicate was skipped
+ */
+export function duplicateReason(claim: IdempotencyClaim): string {
+  return `Duplicate idempotency key "${claim.key}"`;
+}
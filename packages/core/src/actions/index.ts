@@ -4,6 +4,11 @@
 
 export * from './registry.js';
 export * from './executor.js';
+export * from './compensation.js';
+export * from './batch.js';
+export * from './deadline.js';
+export * from './idempotency.js';
+export * from './simulator.js';
 export * from './types.js';
 
 // Re-export handlers module
@@ -0,0 +1,245 @@
+/**
+ * Dry-run simulator - records side-effecting actions instead of running them
+ */
+
+import type { Action } from '@furlow/schema';
+import type { ActionContext, ActionResult } from './types.js';
+import { toPlainData } from '../tracing/tracer.js';
+import { withStringForm } from './handlers/results.js';
+
+/** An action recorded during a dry run */
+export interface SimulatedAction {
+  /** Action name */
+  action: string;
+  /** Configuration with ${} expressions resolved */
+  config: Record<string, unknown>;
+  /** Fake result data returned in place of the real result */
+  data: unknown;
+}
+
+/** An action that failed during a dry run */
+export interface SimulatedFailure {
+  /** Action name */
+  action: string;
+  /** Error message */
+  error: string;
+}
+
+/** Fake result for a simulated action */
+export interface FakeResult {
+  /** Result data, stored under the action's `as` variable */
+  data?: unknown;
+}
+
+/** Produces a fake result from an action's resolved configuration */
+export type FakeResultFactory = (
+  config: Record<string, unknown>,
+  context: ActionContext,
+  nextId: () => string
+) => FakeResult;
+
+export interface SimulatorOptions {
+  /** Additional actions to run for real instead of recording them */
+  passthrough?: string[];
+  /** Fake results by action name, overriding the built-in ones */
+  results?: Record<string, FakeResultFactory>;
+}
+
+/**
+ * Actions that run for real during a dry run: flow control and state.
+ * Everything else, including actions from plugins, is recorded.
+ */
+const PASSTHROUGH_ACTIONS = [
+  'call_flow', 'abort', 'return', 'flow_if', 'flow_switch', 'flow_while', 'repeat',
+  'parallel', 'batch', 'try', 'transaction', 'log', 'emit',
+  'set', 'increment', 'decrement', 'list_push', 'list_remove', 'set_map', 'delete_map',
+];
+
+/** Discord epoch, used to build plausible snowflake IDs */
+const DISCORD_EPOCH = 1420070400000n;
+
+/**
+ * Strip mention syntax from a resolved ID
+ */
+function toId(value: unknown): string | undefined {
+  return value === undefined || value === null ? undefined : String(value).replace(/[<@#&!>]/g, '');
+}
+
+const fakeMessage: FakeResultFactory = (config, context, nextId) => {
+  const id = nextId();
+  const channelId = toId(config.channel) ?? context.channelId;
+  const guildId = context.guildId ?? null;
+  const content = config.content ?? '';
+  return {
+    data: withStringForm(
+      {
+        id,
+        channel_id: channelId,
+        guild_id: guildId,
+        content,
+        url: `https://discord.com/channels/${guildId ?? '@me'}/${channelId}/${id}`,
+      },
+      String(content)
+    ),
+  };
+};
+
+const fakeChannel: FakeResultFactory = (config, context, nextId) => {
+  const id = toId(config.channel) ?? nextId();
+  const guildId = context.guildId ?? null;
+  return {
+    data: withStringForm(
+      {
+        id,
+        name: config.name,
+        type: config.type ?? 'text',
+        guild_id: guildId,
+        parent_id: toId(config.parent) ?? null,
+        mention: `<#${id}>`,
+        url: `https://discord.com/channels/${guildId ?? '@me'}/${id}`,
+      },
+      `<#${id}>`
+    ),
+  };
+};
+
+const fakeRole: FakeResultFactory = (config, context, nextId) => {
+  const id = toId(config.role) ?? nextId();
+  return {
+    data: withStringForm(
+      {
+        id,
+        name: config.name,
+        color: Number(config.color) || 0,
+        position: Number(config.position) || 0,
+        mention: `<@&${id}>`,
+      },
+      `<@&${id}>`
+    ),
+  };
+};
+
+const BUILTIN_RESULTS: Record<string, FakeResultFactory> = {
+  send_message: fakeMessage,
+  reply: fakeMessage,
+  edit_message: fakeMessage,
+  update_message: fakeMessage,
+  send_dm: fakeMessage,
+  webhook_send: fakeMessage,
+  create_channel: fakeChannel,
+  edit_channel: fakeChannel,
+  create_thread: fakeChannel,
+  create_role: fakeRole,
+  edit_role: fakeRole,
+  assign_role: (config, context) => ({
+    data: { user_id: toId(config.user) ?? context.userId, role_id: toId(config.role), added: true },
+  }),
+  add_reactions: (config) => ({
+    data: Array.isArray(config.emojis) ? config.emojis.length : 0,
+  }),
+  bulk_delete: (config) => ({ data: Number(config.count) || 0 }),
+  db_insert: (config) => ({ data: config.data }),
+  db_update: () => ({ data: 1 }),
+  db_delete: () => ({ data: 1 }),
+  db_query: () => ({ data: [] }),
+  pipe_request: () => ({ data: { status: 200, ok: true, data: {} } }),
+  create_timer: (config) => ({ data: { id: config.id, duration: config.duration } }),
+  counter_increment: () => ({ data: 1 }),
+  canvas_render: () => ({ data: Buffer.alloc(0) }),
+  render_layers: () => ({ data: Buffer.alloc(0) }),
+  voice_search: () => ({ data: [] }),
+  voice_seek: () => ({ data: { position: 0 } }),
+  queue_get: () => ({ data: { queue: [], currentTrack: null, length: 0 } }),
+  queue_add: () => ({ data: { position: 1 } }),
+  queue_clear: () => ({ data: { cleared: 0 } }),
+};
+
+export class Simulator {
+  private passthrough: Set<string>;
+  private results: Record<string, FakeResultFactory>;
+  private actions: SimulatedAction[] = [];
+  private failures: SimulatedFailure[] = [];
+  private reported = new WeakSet<Error>();
+  private sequence = 0n;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.passthrough = new Set([...PASSTHROUGH_ACTIONS, ...(options.passthrough ?? [])]);
+    this.results = { ...BUILTIN_RESULTS, ...options.results };
+  }
+
+  /**
+   * Check whether an action is recorded rather than run
+   */
+  shouldSimulate(actionName: string): boolean {
+    return !this.passthrough.has(actionName);
+  }
+
+  /**
+   * Record an action and return its fake result
+   */
+  simulate(
+    action: Action,
+    config: Record<string, unknown>,
+    context: ActionContext
+  ): ActionResult {
+    const factory = this.results[action.action];
+    const fake = factory ? factory(config, context, () => this.nextId()) : {};
+
+    this.actions.push({
+      action: action.action,
+      config: toPlainData(config) as Record<string, unknown>,
+      data: toPlainData(fake.data),
+    });
+
+    return { success: true, data: fake.data };
+  }
+
+  /**
+   * Record a failed action. A failure passed up through flow control
+   * actions is recorded once, for the action that caused it.
+   */
+  recordFailure(action: Action, error: Error): void {
+    if (this.reported.has(error)) return;
+    this.reported.add(error);
+    this.failures.push({ action: action.action, error: error.message });
+  }
+
+  /**
+   * Get the recorded actions, in the order they would have run
+   */
+  getActions(): SimulatedAction[] {
+    return [...this.actions];
+  }
+
+  /**
+   * Get the actions that failed, in the order they failed
+   */
+  getFailures(): SimulatedFailure[] {
+    return [...this.failures];
+  }
+
+  /**
+   * Clear recorded actions and failures
+   */
+  clear(): void {
+    this.actions = [];
+    this.failures = [];
+    this.reported = new WeakSet();
+  }
+
+  /**
+   * Generate a snowflake-like ID
+   */
+  private nextId(): string {
+    this.sequence++;
+    const timestamp = BigInt(Date.now()) - DISCORD_EPOCH;
+    return ((timestamp << 22n) | (this.sequence & 0xfffn)).toString();
+  }
+}
+
+/**
+ * Create a dry-run simulator
+ */
+export function createSimulator(options?: SimulatorOptions): Simulator {
+  return new Simulator(options);
+}
@@ -9,6 +9,12 @@ export interface ActionResult<T = unknown> {
   success: boolean;
   data?: T;
   error?: Error;
+  /** Number of attempts made (set when the action has a retry policy) */
+  attempts?: number;
+  /** Whether the last attempt was cut off by the action timeout */
+  timedOut?: boolean;
+  /** Why the action did not run, e.g. a duplicate idempotency key */
+  skipped?: string;
 }
 
 export interface ActionContext extends FullContext {
@@ -41,6 +47,15 @@ export interface ActionHandler<TConfig extends Action = Action, TResult = unknow
   execute(config: TConfig, context: ActionContext): Promise<ActionResult<TResult>>;
   /** Validate action configuration */
   validate?(config: TConfig): boolean | string;
+  /**
+   * Undo a successful execution. Used inside a `transaction` when a later
+   * step fails and the action has no explicit `compensate` block.
+   */
+  compensate?(
+    config: TConfig,
+    result: ActionResult<TResult>,
+    context: ActionContext
+  ): Promise<ActionResult>;
 }
 
 export type ActionHandlerMap = Map<string, ActionHandler>;
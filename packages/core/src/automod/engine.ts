@@ -7,6 +7,7 @@ import type { AutomodMatch, AutomodResult } from './types.js';
 import type { ActionContext } from '../actions/types.js';
 import type { ActionExecutor } from '../actions/executor.js';
 import type { ExpressionEvaluator } from '../expression/evaluator.js';
+import { withActionScope } from '../actions/idempotency.js';
 
 /**
  * Validate regex pattern for ReDoS vulnerabilities
@@ -121,7 +122,9 @@ export class AutomodEngine {
       };
 
       const normalizedActions = normalizeActions(match.rule.actions);
-      await executor.executeSequence(normalizedActions, matchContext as ActionContext);
+      await withActionScope(`automod:${match.rule.name}`, () =>
+        executor.executeSequence(normalizedActions, matchContext as ActionContext)
+      );
     }
   }
 
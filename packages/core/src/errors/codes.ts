@@ -10,6 +10,8 @@ export const ErrorCodes = {
   PARSE_SCHEMA_VALIDATION: 'E1004',
   PARSE_ENV_NOT_FOUND: 'E1005',
   PARSE_INVALID_PATH: 'E1006',
+  PARSE_PLUGIN_LOAD: 'E1007',
+  PARSE_PLUGIN_INVALID: 'E1008',
 
   // Expression errors (2xxx)
   EXPR_SYNTAX: 'E2001',
@@ -17,6 +19,10 @@ export const ErrorCodes = {
   EXPR_TYPE_ERROR: 'E2003',
   EXPR_FUNCTION_NOT_FOUND: 'E2004',
   EXPR_TIMEOUT: 'E2005',
+  EXPR_MAX_DEPTH: 'E2006',
+  EXPR_FUNCTION_INVALID: 'E2007',
+  EXPR_CALL_BUDGET: 'E2008',
+  EXPR_LIMIT_EXCEEDED: 'E2009',
 
   // Action errors (3xxx)
   ACTION_NOT_FOUND: 'E3001',
@@ -24,6 +30,8 @@ export const ErrorCodes = {
   ACTION_EXECUTION_FAILED: 'E3003',
   ACTION_PERMISSION_DENIED: 'E3004',
   ACTION_RATE_LIMITED: 'E3005',
+  ACTION_TIMEOUT: 'E3006',
+  ACTION_DEADLINE_EXCEEDED: 'E3007',
 
   // State errors (4xxx)
   STATE_VAR_NOT_FOUND: 'E4001',
@@ -36,6 +44,8 @@ export const ErrorCodes = {
   FLOW_INVALID_ARGS: 'E5002',
   FLOW_MAX_DEPTH: 'E5003',
   FLOW_ABORTED: 'E5004',
+  FLOW_ROLLED_BACK: 'E5005',
+  FLOW_INVALID_DURABLE: 'E5006',
 
   // Discord errors (6xxx)
   DISCORD_API_ERROR: 'E6001',
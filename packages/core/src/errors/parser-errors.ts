@@ -75,3 +75,26 @@ export class EnvNotFoundError extends FurlowError {
     this.name = 'EnvNotFoundError';
   }
 }
+
+export class PluginLoadError extends FurlowError {
+  constructor(module: string, cause?: Error) {
+    super({
+      code: ErrorCodes.PARSE_PLUGIN_LOAD,
+      message: `Could not load plugin "${module}"${cause ? `: ${cause.message}` : ''}`,
+      context: { module },
+      cause,
+    });
+    this.name = 'PluginLoadError';
+  }
+}
+
+export class InvalidPluginError extends FurlowError {
+  constructor(module: string, message: string) {
+    super({
+      code: ErrorCodes.PARSE_PLUGIN_INVALID,
+      message: `Invalid plugin "${module}": ${message}`,
+      context: { module },
+    });
+    this.name = 'InvalidPluginError';
+  }
+}
@@ -27,6 +27,61 @@ export class UndefinedVariableError extends FurlowError {
   }
 }
 
+export class ExpressionTimeoutError extends FurlowError {
+  constructor(timeoutMs: number, expression?: string) {
+    super({
+      code: ErrorCodes.EXPR_TIMEOUT,
+      message: `Expression evaluation exceeded ${timeoutMs}ms`,
+      context: { timeoutMs, expression },
+    });
+    this.name = 'ExpressionTimeoutError';
+  }
+}
+
+export class ExpressionLimitError extends FurlowError {
+  constructor(limit: string, max: number, where: string) {
+    super({
+      code: ErrorCodes.EXPR_LIMIT_EXCEEDED,
+      message: `Expression exceeded the ${limit} limit of ${max} in ${where}`,
+      context: { limit, max, where },
+    });
+    this.name = 'ExpressionLimitError';
+  }
+}
+
+export class MaxFunctionDepthError extends FurlowError {
+  constructor(functionName: string, maxDepth: number) {
+    super({
+      code: ErrorCodes.EXPR_MAX_DEPTH,
+      message: `Maximum function call depth (${maxDepth}) exceeded in ${functionName}()`,
+      context: { functionName, maxDepth },
+    });
+    this.name = 'MaxFunctionDepthError';
+  }
+}
+
+export class InvalidFunctionError extends FurlowError {
+  constructor(functionName: string, message: string) {
+    super({
+      code: ErrorCodes.EXPR_FUNCTION_INVALID,
+      message: `Invalid function "${functionName}": ${message}`,
+      context: { functionName },
+    });
+    this.name = 'InvalidFunctionError';
+  }
+}
+
+export class CallBudgetExceededError extends FurlowError {
+  constructor(functionName: string, budget: number) {
+    super({
+      code: ErrorCodes.EXPR_CALL_BUDGET,
+      message: `Expression made more than ${budget} lookup calls (at ${functionName}())`,
+      context: { functionName, budget },
+    });
+    this.name = 'CallBudgetExceededError';
+  }
+}
+
 export class ActionNotFoundError extends FurlowError {
   constructor(actionName: string) {
     super({
@@ -50,6 +105,28 @@ export class ActionExecutionError extends FurlowError {
   }
 }
 
+export class ActionTimeoutError extends FurlowError {
+  constructor(actionName: string, timeoutMs: number) {
+    super({
+      code: ErrorCodes.ACTION_TIMEOUT,
+      message: `Action "${actionName}" timed out after ${timeoutMs}ms`,
+      context: { actionName, timeoutMs },
+    });
+    this.name = 'ActionTimeoutError';
+  }
+}
+
+export class ExecutionTimeoutError extends FurlowError {
+  constructor(target: string, timeoutMs: number) {
+    super({
+      code: ErrorCodes.ACTION_DEADLINE_EXCEEDED,
+      message: `${target} exceeded its deadline of ${timeoutMs}ms`,
+      context: { target, timeoutMs },
+    });
+    this.name = 'ExecutionTimeoutError';
+  }
+}
+
 export class FlowNotFoundError extends FurlowError {
   constructor(flowName: string) {
     super({
@@ -72,6 +149,32 @@ export class FlowAbortedError extends FurlowError {
   }
 }
 
+export class TransactionRolledBackError extends FurlowError {
+  constructor(actionName: string, cause: Error, failedCompensations = 0) {
+    const suffix = failedCompensations > 0
+      ? ` (${failedCompensations} compensation(s) also failed)`
+      : '';
+    super({
+      code: ErrorCodes.FLOW_ROLLED_BACK,
+      message: `Transaction rolled back after "${actionName}" failed: ${cause.message}${suffix}`,
+      context: { actionName, failedCompensations },
+      cause,
+    });
+    this.name = 'TransactionRolledBackError';
+  }
+}
+
+export class InvalidDurableFlowError extends FurlowError {
+  constructor(flowName: string, actionName: string, reason: string) {
+    super({
+      code: ErrorCodes.FLOW_INVALID_DURABLE,
+      message: `Durable flow "${flowName}" cannot use ${actionName}: ${reason}`,
+      context: { flowName, actionName },
+    });
+    this.name = 'InvalidDurableFlowError';
+  }
+}
+
 export class MaxFlowDepthError extends FurlowError {
   constructor(maxDepth: number) {
     super({
@@ -105,6 +208,17 @@ export class PipeNotFoundError extends FurlowError {
   }
 }
 
+export class PipeRequestError extends FurlowError {
+  constructor(pipeName: string, status: number) {
+    super({
+      code: ErrorCodes.PIPE_REQUEST_FAILED,
+      message: `Pipe "${pipeName}" request failed with status ${status}`,
+      context: { pipeName, status },
+    });
+    this.name = 'PipeRequestError';
+  }
+}
+
 export class VoiceNotConnectedError extends FurlowError {
   constructor(guildId: string) {
     super({
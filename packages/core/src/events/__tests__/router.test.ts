@@ -8,6 +8,8 @@ import type { EventHandler } from '@furlow/schema';
 import type { ActionContext } from '../../actions/types.js';
 import type { ActionExecutor } from '../../actions/executor.js';
 import type { ExpressionEvaluator } from '../../expression/evaluator.js';
+import { createStateManager } from '../../state/manager.js';
+import { MemoryAdapter } from '@furlow/storage';
 
 describe('EventRouter', () => {
   let router: EventRouter;
@@ -326,6 +328,100 @@ describe('EventRouter', () => {
     });
   });
 
+  describe('idempotency_key', () => {
+    beforeEach(() => {
+      mockContext.stateManager = createStateManager(new MemoryAdapter());
+    });
+
+    it('should skip replayed deliveries with the same key', async () => {
+      router.register({
+        event: 'reaction_add',
+        idempotency_key: 'm1:u1',
+        actions: [{ action: 'log', message: 'xp' }],
+      });
+
+      await router.emit('reaction_add', mockContext, mockExecutor, mockEvaluator);
+      await router.emit('reaction_add', mockContext, mockExecutor, mockEvaluator);
+
+      expect(mockExecutor.executeSequence).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the key when the handler throws', async () => {
+      (mockExecutor.executeSequence as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+        new Error('gateway hiccup')
+      );
+      router.register({
+        event: 'reaction_add',
+        idempotency_key: 'm1:u1',
+        actions: [{ action: 'log', message: 'xp' }],
+      });
+
+      await router.emit('reaction_add', mockContext, mockExecutor, mockEvaluator).catch(() => {});
+      await router.emit('reaction_add', mockContext, mockExecutor, mockEvaluator);
+
+      expect(mockExecutor.executeSequence).toHaveBeenCalledTimes(2);
+    });
+
+    it('should release the key when an action fails', async () => {
+      (mockExecutor.executeSequence as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        { success: false, error: new Error('Missing Permissions') },
+      ]);
+      router.register({
+        event: 'reaction_add',
+        idempotency_key: 'm1:u1',
+        actions: [{ action: 'log', message: 'xp' }],
+      });
+
+      await router.emit('reaction_add', mockContext, mockExecutor, mockEvaluator);
+      await router.emit('reaction_add', mockContext, mockExecutor, mockEvaluator);
+
+      expect(mockExecutor.executeSequence).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep keys when handlers of other events are added', async () => {
+      const xp: EventHandler = { event: 'reaction_add', idempotency_key: 'm1:u1', actions: [{ action: 'log', message: 'xp' }] };
+      router.register(xp);
+      await router.emit('reaction_add', mockContext, mockExecutor, mockEvaluator);
+
+      // A redeploy registers a new handler ahead of it
+      const redeployed = createEventRouter();
+      redeployed.register({ event: 'member_join', actions: [] });
+      redeployed.register(xp);
+      await redeployed.emit('reaction_add', mockContext, mockExecutor, mockEvaluator);
+
+      expect(mockExecutor.executeSequence).toHaveBeenCalledTimes(1);
+    });
+
+    it('should key handlers by their id when they have one', async () => {
+      const xp: EventHandler = { event: 'reaction_add', id: 'xp', idempotency_key: 'm1:u1', actions: [{ action: 'log', message: 'xp' }] };
+      router.register(xp);
+      await router.emit('reaction_add', mockContext, mockExecutor, mockEvaluator);
+
+      const redeployed = createEventRouter();
+      redeployed.register({ event: 'reaction_add', actions: [] });
+      redeployed.register(xp);
+      await redeployed.emit('reaction_add', mockContext, mockExecutor, mockEvaluator);
+
+      // Only the new handler without a key ran
+      expect(mockExecutor.executeSequence).toHaveBeenCalledTimes(2);
+      expect(mockExecutor.executeSequence).toHaveBeenLastCalledWith([], expect.anything());
+    });
+
+    it('should keep keys apart for handlers on the same event', async () => {
+      for (const message of ['xp', 'log']) {
+        router.register({
+          event: 'reaction_add',
+          idempotency_key: 'm1:u1',
+          actions: [{ action: 'log', message }],
+        });
+      }
+
+      await router.emit('reaction_add', mockContext, mockExecutor, mockEvaluator);
+
+      expect(mockExecutor.executeSequence).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('debounce', () => {
     it('should delay execution by debounce time', async () => {
       router.register({
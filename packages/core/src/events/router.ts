@@ -2,12 +2,21 @@
  * Event router - routes events to handlers
  */
 
-import type { EventHandler as EventHandlerDef } from '@furlow/schema';
+import type { Action, EventHandler as EventHandlerDef } from '@furlow/schema';
 import type { EventName, RegisteredHandler } from './types.js';
 import type { ActionExecutor } from '../actions/executor.js';
-import type { ActionContext } from '../actions/types.js';
+import type { ActionContext, ActionResult } from '../actions/types.js';
 import type { ExpressionEvaluator } from '../expression/evaluator.js';
 import { handleError } from '../errors/handler.js';
+import type { ExecutionTimeoutError } from '../errors/index.js';
+import type { Tracer } from '../tracing/tracer.js';
+import { runWithDeadline } from '../actions/deadline.js';
+import {
+  claimIdempotencyKey,
+  duplicateReason,
+  releaseIdempotencyKey,
+  withActionScope,
+} from '../actions/idempotency.js';
 
 export interface RouterOptions {
   /** Maximum handlers per event */
@@ -16,23 +25,31 @@ export interface RouterOptions {
   defaultDebounce?: number;
   /** Default throttle time in ms */
   defaultThrottle?: number;
+  /** Record a trace for every handler run */
+  tracer?: Tracer;
+  /** Deadline in ms for each handler run, 0 for none */
+  handlerTimeout?: number;
 }
 
-const DEFAULT_OPTIONS: Required<RouterOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<RouterOptions, 'tracer'>> = {
   maxHandlersPerEvent: 100,
   defaultDebounce: 0,
   defaultThrottle: 0,
+  handlerTimeout: 0,
 };
 
 export class EventRouter {
   private handlers: Map<EventName, RegisteredHandler[]> = new Map();
   private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
   private throttleTimers: Map<string, number> = new Map();
-  private options: Required<RouterOptions>;
+  private options: Required<Omit<RouterOptions, 'tracer'>>;
+  private tracer?: Tracer;
   private idCounter = 0;
 
   constructor(options: RouterOptions = {}) {
-    this.options = { ...DEFAULT_OPTIONS, ...options };
+    const { tracer, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.tracer = tracer;
   }
 
   /**
@@ -40,15 +57,17 @@ export class EventRouter {
    */
   register(handler: EventHandlerDef): string {
     const id = `handler_${++this.idCounter}`;
+    const eventHandlers = this.handlers.get(handler.event) ?? [];
     const registered: RegisteredHandler = {
       id,
+      // The handler's own id, or its place among the event's handlers, so
+      // handlers of other events do not shift it
+      scope: `event:${handler.event}:${handler.id ?? `#${eventHandlers.length}`}`,
       handler,
       once: handler.once ?? false,
       active: true,
     };
 
-    const eventHandlers = this.handlers.get(handler.event) ?? [];
-
     if (eventHandlers.length >= this.options.maxHandlersPerEvent) {
       throw new Error(
         `Maximum handlers (${this.options.maxHandlersPerEvent}) reached for event "${handler.event}"`
@@ -158,7 +177,32 @@ export class EventRouter {
   }
 
   /**
-   * Execute a handler
+   * Run a command's actions under the handler deadline. A command that is
+   * cut off triggers an `execution_timeout` event, as handlers do.
+   */
+  async runCommand(
+    command: string,
+    actions: Action[],
+    context: ActionContext,
+    executor: ActionExecutor,
+    evaluator: ExpressionEvaluator
+  ): Promise<{ results: ActionResult[]; timeout?: ExecutionTimeoutError }> {
+    const { value: results = [], timeout } = await runWithDeadline(
+      context,
+      this.options.handlerTimeout,
+      `Command "/${command}"`,
+      () => withActionScope(`command:${command}`, () => executor.executeSequence(actions, context))
+    );
+    if (timeout) {
+      handleError(timeout, 'event', 'warn', { command });
+      await this.reportTimeout(timeout, { command }, context, executor, evaluator);
+    }
+    return { results, timeout };
+  }
+
+  /**
+   * Execute a handler under the handler deadline. A handler that is cut off
+   * triggers an `execution_timeout` event.
    */
   private async executeHandler(
     registered: RegisteredHandler,
@@ -166,21 +210,147 @@ export class EventRouter {
     executor: ActionExecutor,
     evaluator: ExpressionEvaluator
   ): Promise<void> {
-    const { handler } = registered;
+    const { event } = registered.handler;
+    const handlerContext = { ...context };
+
+    const { timeout } = await runWithDeadline(
+      handlerContext,
+      this.options.handlerTimeout,
+      `Handler for "${event}"`,
+      () => this.traceHandler(registered, handlerContext, executor, evaluator)
+    );
+    if (!timeout) {
+      return;
+    }
+
+    handleError(timeout, 'event', 'warn', { event, handlerId: registered.id });
+
+    // Handlers for the timeout event itself are not reported again
+    if (event !== 'execution_timeout') {
+      await this.reportTimeout(timeout, { event, handler: registered.id }, context, executor, evaluator);
+    }
+  }
+
+  /**
+   * Emit `execution_timeout` for a run that was cut off
+   */
+  private async reportTimeout(
+    timeout: ExecutionTimeoutError,
+    details: Record<string, string>,
+    context: ActionContext,
+    executor: ActionExecutor,
+    evaluator: ExpressionEvaluator
+  ): Promise<void> {
+    await this.emit(
+      'execution_timeout',
+      {
+        ...context,
+        timeout: {
+          ...details,
+          duration: this.options.handlerTimeout,
+          message: timeout.message,
+        },
+      } as ActionContext,
+      executor,
+      evaluator
+    );
+  }
+
+  /**
+   * Run a handler, recording a trace span when tracing is enabled
+   */
+  private async traceHandler(
+    registered: RegisteredHandler,
+    context: ActionContext,
+    executor: ActionExecutor,
+    evaluator: ExpressionEvaluator
+  ): Promise<void> {
+    const tracer = this.tracer;
+    if (!tracer) {
+      return this.runHandler(registered, context, executor, evaluator);
+    }
+
+    await tracer.span(
+      registered.handler.event,
+      'event',
+      async (span) => {
+        await this.runHandler(
+          registered,
+          context,
+          executor,
+          evaluator,
+          (shouldRun) => {
+            span.when = shouldRun;
+            if (!shouldRun) {
+              span.status = 'skipped';
+            }
+          },
+          (reason) => {
+            span.status = 'skipped';
+            span.attributes.skipped = reason;
+          }
+        );
+        if (span.children.some((child) => child.status === 'error')) {
+          span.status = 'error';
+        }
+      },
+      { handlerId: registered.id }
+    );
+  }
+
+  /**
+   * Check a handler's condition and run its actions
+   */
+  private async runHandler(
+    registered: RegisteredHandler,
+    context: ActionContext,
+    executor: ActionExecutor,
+    evaluator: ExpressionEvaluator,
+    onCondition?: (shouldRun: boolean) => void,
+    onSkip?: (reason: string) => void
+  ): Promise<void> {
+    const { handler, scope } = registered;
 
     // Check condition
     if (handler.when) {
       const shouldRun = await this.evaluateCondition(handler.when, context, evaluator);
+      onCondition?.(shouldRun);
       if (!shouldRun) {
         return;
       }
     }
 
+    // Skip deliveries that were already handled
+    const claim = handler.idempotency_key
+      ? await claimIdempotencyKey(
+          scope,
+          handler.idempotency_key,
+          handler.idempotency_ttl,
+          context,
+          evaluator
+        )
+      : undefined;
+    if (claim && !claim.claimed) {
+      onSkip?.(duplicateReason(claim));
+      return;
+    }
+
     // Normalize actions from YAML shorthand to schema format
     const normalizedActions = normalizeActions(handler.actions);
 
-    // Execute actions
-    await executor.executeSequence(normalizedActions, context);
+    // Execute actions, releasing the key when they fail so a redelivery can retry
+    let results: ActionResult[];
+    try {
+      results = await withActionScope(scope, () => executor.executeSequence(normalizedActions, context));
+    } catch (err) {
+      if (claim) {
+        await releaseIdempotencyKey(claim, context);
+      }
+      throw err;
+    }
+    if (claim && results.some((result) => !result.success)) {
+      await releaseIdempotencyKey(claim, context);
+    }
 
     // Handle once
     if (registered.once) {
@@ -15,6 +15,8 @@ export interface EventPayload {
 
 export interface RegisteredHandler {
   id: string;
+  /** Keeps the handler's idempotency keys apart from other handlers on the event */
+  scope: string;
   handler: EventHandlerDef;
   once: boolean;
   active: boolean;
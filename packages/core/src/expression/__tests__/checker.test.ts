@@ -0,0 +1,374 @@
+/**
+ * Expression Checker Tests
+ *
+ * Covers:
+ * - Unknown properties on context shapes, with suggestions
+ * - Variables missing from an event's context
+ * - Typed command options and flow parameters
+ * - Function and transform arity and argument types
+ * - User-defined functions from the spec and lookup functions
+ * - Variables bound by `as`, loops, catch and compensate blocks
+ * - Conditions written with ${} and syntax errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createExpressionChecker } from '../checker.js';
+import { createEvaluator } from '../evaluator.js';
+import { registerLookupFunctions } from '../lookups.js';
+import { ExprTypes } from '../shapes.js';
+import type { FurlowSpec } from '@furlow/schema';
+
+function check(spec: unknown) {
+  return createExpressionChecker().check(spec as FurlowSpec);
+}
+
+function messages(spec: unknown) {
+  return check(spec).map((issue) => `${issue.severity}: ${issue.message}`);
+}
+
+describe('ExpressionChecker', () => {
+  describe('context shapes', () => {
+    it('should report unknown properties with a suggestion', () => {
+      const issues = check({
+        events: [
+          {
+            event: 'member_join',
+            actions: [{ action: 'log', message: 'Welcome ${member.usre.id}' }],
+          },
+        ],
+      });
+
+      expect(issues).toEqual([
+        {
+          path: 'events[0].actions[0].message',
+          source: 'Welcome ${member.usre.id}',
+          expression: 'member.usre.id',
+          message: 'Unknown property "usre" on member (did you mean "user"?)',
+          severity: 'error',
+        },
+      ]);
+    });
+
+    it('should accept snake_case and discord.js properties', () => {
+      expect(
+        messages({
+          events: [
+            {
+              event: 'message_create',
+              when: '!message.author.bot && message.guildId',
+              actions: [
+                {
+                  action: 'reply',
+                  content: '${member.displayName} (${member.display_name}) in ${guild.memberCount}',
+                },
+              ],
+            },
+          ],
+        })
+      ).toEqual([]);
+    });
+
+    it('should report context variables an event does not have', () => {
+      expect(
+        messages({
+          events: [
+            { event: 'member_join', actions: [{ action: 'log', message: '${message.content}' }] },
+            { event: 'voice_state_update', actions: [{ action: 'log', message: '${interaction.id}' }] },
+          ],
+        })
+      ).toEqual([
+        'error: "message" is not available in member_join handlers',
+        'error: "interaction" is not available in voice_state_update handlers',
+      ]);
+    });
+
+    it('should allow every context variable in custom events and flows', () => {
+      expect(
+        messages({
+          events: [{ event: 'level_up', actions: [{ action: 'log', message: '${message.id}' }] }],
+          flows: [{ name: 'notify', actions: [{ action: 'log', message: '${interaction.id}' }] }],
+        })
+      ).toEqual([]);
+    });
+
+    it('should warn about unknown variables', () => {
+      expect(
+        messages({
+          events: [{ event: 'ready', actions: [{ action: 'log', message: '${membr}' }] }],
+          state: { variables: { xp: { scope: 'member' } } },
+        })
+      ).toEqual(['warning: Unknown variable "membr"']);
+
+      expect(
+        messages({
+          events: [{ event: 'ready', actions: [{ action: 'log', message: '${xp} ${guildid}' }] }],
+          state: { variables: { xp: { scope: 'member' } } },
+        })
+      ).toEqual(['warning: Unknown variable "guildid" (did you mean "guildId"?)']);
+    });
+  });
+
+  describe('commands and flows', () => {
+    it('should type command options from their declarations', () => {
+      expect(
+        messages({
+          commands: [
+            {
+              name: 'warn',
+              description: 'Warn a member',
+              options: [
+                { name: 'target', description: 'Member', type: 'user' },
+                { name: 'count', description: 'Count', type: 'integer' },
+              ],
+              actions: [
+                { action: 'reply', content: '${options.target.username} x${options.count * 2}' },
+                { action: 'reply', content: '${options.reason} ${upper(options.count)}' },
+              ],
+            },
+          ],
+        })
+      ).toEqual([
+        'error: Unknown property "reason" on options',
+        'error: upper() expects string for argument 1, got number',
+      ]);
+    });
+
+    it('should type flow arguments from their parameters', () => {
+      expect(
+        messages({
+          flows: [
+            {
+              name: 'mute',
+              parameters: [{ name: 'hours', type: 'number' }],
+              actions: [{ action: 'log', message: '${args.hours * 60} ${args.hour}' }],
+            },
+          ],
+        })
+      ).toEqual(['error: Unknown property "hour" on args (did you mean "hours"?)']);
+    });
+  });
+
+  describe('functions and transforms', () => {
+    it('should report unknown functions and transforms', () => {
+      expect(
+        messages({
+          events: [
+            { event: 'ready', actions: [{ action: 'log', message: '${uper("a")} ${"a"|lowr}' }] },
+          ],
+        })
+      ).toEqual([
+        'error: Unknown function "uper" (did you mean "upper"?)',
+        'error: Unknown transform "lowr" (did you mean "lower"?)',
+      ]);
+    });
+
+    it('should report wrong arity', () => {
+      expect(
+        messages({
+          events: [
+            {
+              event: 'ready',
+              actions: [{ action: 'log', message: '${clamp(1, 2)} ${"abc"|truncate} ${uuid(1)}' }],
+            },
+          ],
+        })
+      ).toEqual([
+        'error: clamp() takes 3 arguments, got 2',
+        'error: |truncate takes 1-2 arguments, got 0',
+        'error: uuid() takes 0 arguments, got 1',
+      ]);
+    });
+
+    it('should report argument and operand type mismatches', () => {
+      expect(
+        messages({
+          events: [
+            {
+              event: 'message_create',
+              actions: [
+                {
+                  action: 'log',
+                  message: '${message.content * 2} ${user.createdAt|lower} ${now() - member.joinedAt}',
+                },
+              ],
+            },
+          ],
+        })
+      ).toEqual([
+        'error: Operator "*" needs numbers, got string',
+        'error: |lower expects string for value, got date',
+      ]);
+    });
+
+    it('should use functions registered on the evaluator', () => {
+      const evaluator = createEvaluator();
+      evaluator.addFunction('xpFor', (level) => Number(level) * 100);
+      const spec = {
+        events: [{ event: 'ready', actions: [{ action: 'log', message: '${xpFor(2)}' }] }],
+      } as unknown as FurlowSpec;
+
+      expect(createExpressionChecker({ evaluator }).check(spec)).toEqual([]);
+    });
+
+    it('should check lookup function calls', () => {
+      const evaluator = createEvaluator();
+      registerLookupFunctions(evaluator, {});
+      const spec = {
+        events: [
+          {
+            event: 'member_join',
+            actions: [
+              {
+                action: 'log',
+                message: '${state("warnings", user.id) + db_count("tickets", {guild_id: guild.id})} ${db_count()}',
+              },
+            ],
+          },
+        ],
+      } as unknown as FurlowSpec;
+
+      expect(createExpressionChecker({ evaluator }).check(spec).map((issue) => issue.message)).toEqual([
+        'db_count() takes 1-2 arguments, got 0',
+      ]);
+    });
+
+    it('should check calls to and bodies of user-defined functions', () => {
+      expect(
+        messages({
+          functions: {
+            xp_for_level: { params: ['level'], body: '${5 * level ^ 2 + 50 * level + 100}' },
+            greet: { params: ['name'], body: 'Hello ${nmae} from ${guild.name}' },
+            upper: { params: ['s'], body: 's' },
+          },
+          events: [
+            {
+              event: 'ready',
+              actions: [{ action: 'log', message: '${xp_for_level(2)} ${xp_for_level()} ${xp_for_levl(1)}' }],
+            },
+          ],
+        })
+      ).toEqual([
+        'warning: Unknown variable "nmae" (did you mean "name"?)',
+        'error: "guild" is not available in function "greet"',
+        'error: Function "upper" already exists',
+        'error: xp_for_level() takes 1 argument, got 0',
+        'error: Unknown function "xp_for_levl" (did you mean "xp_for_level"?)',
+      ]);
+    });
+  });
+
+  describe('bound variables', () => {
+    it('should type results bound with as', () => {
+      expect(
+        messages({
+          events: [
+            {
+              event: 'message_create',
+              actions: [
+                { action: 'send_message', channel: '${channel.id}', content: 'hi', as: 'sent' },
+                { action: 'log', message: '${sent.url} ${sent.link}' },
+              ],
+            },
+          ],
+        })
+      ).toEqual(['error: Unknown property "link" on sent']);
+    });
+
+    it('should bind loop, catch and compensate variables in their blocks', () => {
+      expect(
+        messages({
+          events: [
+            {
+              event: 'ready',
+              actions: [
+                {
+                  action: 'batch',
+                  items: '[1, 2]',
+                  as: 'n',
+                  each: [{ action: 'log', message: '${n} ${n_index + 1}' }],
+                },
+                {
+                  action: 'repeat',
+                  times: 2,
+                  do: [{ action: 'log', message: '${i}' }],
+                },
+                {
+                  action: 'try',
+                  do: [{ action: 'log', message: 'ok' }],
+                  catch: [{ action: 'log', message: '${error.message} ${errorMessage}' }],
+                },
+                {
+                  action: 'create_role',
+                  name: 'temp',
+                  compensate: [{ action: 'log', message: '${result.id}' }],
+                },
+                { action: 'log', message: '${n} ${error}' },
+              ],
+            },
+          ],
+        })
+      ).toEqual(['warning: Unknown variable "n"', 'warning: Unknown variable "error"']);
+    });
+  });
+
+  describe('conditions', () => {
+    it('should report conditions written as templates', () => {
+      expect(
+        messages({
+          events: [{ event: 'message_create', when: '${!message.author.bot}', actions: [] }],
+        })
+      ).toEqual(['error: Conditions are bare expressions, without ${}. Use "!message.author.bot"']);
+    });
+
+    it('should check nested condition objects', () => {
+      expect(
+        messages({
+          events: [
+            {
+              event: 'member_join',
+              when: { all: [{ expr: 'member.user.bot' }, { not: 'member.nick' }] },
+              actions: [],
+            },
+          ],
+        })
+      ).toEqual(['error: Unknown property "nick" on member (did you mean "nickname"?)']);
+    });
+
+    it('should check $expr: fields and skip $literal: fields', () => {
+      expect(
+        messages({
+          events: [
+            {
+              event: 'member_join',
+              actions: [
+                { action: 'set', var: 'n', value: '$expr:member.nick' },
+                { action: 'log', message: '$literal:${member.nick}' },
+              ],
+            },
+          ],
+        })
+      ).toEqual(['error: Unknown property "nick" on member (did you mean "nickname"?)']);
+    });
+
+    it('should report syntax errors', () => {
+      const [issue] = check({
+        events: [{ event: 'ready', actions: [{ action: 'log', message: '${a ?? b}' }] }],
+      });
+
+      expect(issue).toMatchObject({ severity: 'error', expression: 'a ?? b' });
+      expect(issue!.message).toContain('Expression syntax error');
+    });
+  });
+
+  describe('checkExpression', () => {
+    it('should check one expression against given variables', () => {
+      const checker = createExpressionChecker();
+      const vars = { score: ExprTypes.number, name: ExprTypes.string };
+
+      expect(checker.checkExpression('score * 2 + length(name)', vars)).toEqual([]);
+      expect(checker.checkExpression('name / 2', vars).map((i) => i.message)).toEqual([
+        'Operator "/" needs numbers, got string',
+      ]);
+    });
+  });
+});
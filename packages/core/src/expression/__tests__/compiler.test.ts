@@ -0,0 +1,134 @@
+/**
+ * Ahead-of-time Compilation Tests
+ *
+ * Covers:
+ * - Collecting expressions and templates from a spec
+ * - Syntax and call depth errors reported at compile time
+ * - Loading compiled expressions into an evaluator
+ * - Compiled expressions surviving cache eviction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileSpecExpressions, isCompiledExpressions } from '../compiler.js';
+import { createEvaluator } from '../evaluator.js';
+import { ErrorCodes } from '../../errors/index.js';
+import type { FurlowSpec } from '@furlow/schema';
+
+const spec = {
+  commands: [
+    {
+      name: 'rank',
+      description: 'Show rank',
+      actions: [{ action: 'reply', content: 'Hi ${user.username|upper}, you are #${1 + 1}' }],
+    },
+  ],
+  events: [
+    {
+      event: 'message_create',
+      when: '!message.author.bot',
+      actions: [{ action: 'log', message: '${message.content}' }],
+    },
+  ],
+} as unknown as FurlowSpec;
+
+describe('compileSpecExpressions', () => {
+  it('should collect every expression and template', () => {
+    const { compiled, errors } = compileSpecExpressions(spec);
+
+    expect(errors).toEqual([]);
+    expect(compiled.version).toBe(1);
+    expect(Object.keys(compiled.expressions).sort()).toEqual([
+      '!message.author.bot',
+      '1 + 1',
+      'message.content',
+      'user.username|upper',
+    ]);
+    expect(compiled.templates['${message.content}']).toEqual([
+      { expression: 'message.content', start: 0, end: 18 },
+    ]);
+  });
+
+  it('should report expressions that cannot be compiled', () => {
+    const { compiled, errors } = compileSpecExpressions({
+      events: [
+        {
+          event: 'message_create',
+          actions: [
+            { action: 'log', message: '${message.content +}' },
+            { action: 'log', message: '${message.nope}' },
+          ],
+        },
+      ],
+    } as unknown as FurlowSpec);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      path: 'events[0].actions[0].message',
+      expression: 'message.content +',
+      code: ErrorCodes.EXPR_SYNTAX,
+    });
+    expect(compiled.expressions['message.content +']).toBeUndefined();
+  });
+
+  it('should check call depth against the evaluator limits', () => {
+    const { errors } = compileSpecExpressions(
+      {
+        events: [{ event: 'ready', actions: [{ action: 'log', message: '${"a"|upper|lower|upper}' }] }],
+      } as unknown as FurlowSpec,
+      { evaluator: createEvaluator({ maxCallDepth: 2 }) }
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.code).toBeDefined();
+  });
+
+  it('should produce JSON that loads back', () => {
+    const { compiled } = compileSpecExpressions(spec);
+    const artifact = JSON.parse(JSON.stringify(compiled));
+
+    expect(isCompiledExpressions(artifact)).toBe(true);
+    expect(isCompiledExpressions({ ...artifact, version: 0 })).toBe(false);
+    expect(isCompiledExpressions(null)).toBe(false);
+  });
+});
+
+describe('ExpressionEvaluator.loadCompiled', () => {
+  it('should evaluate loaded expressions without parsing', async () => {
+    const { compiled } = compileSpecExpressions(spec);
+    const evaluator = createEvaluator();
+
+    expect(evaluator.loadCompiled(JSON.parse(JSON.stringify(compiled)))).toBe(4);
+    expect(
+      await evaluator.evaluateTemplate('Hi ${user.username|upper}, you are #${1 + 1}', {
+        user: { username: 'ada' },
+      })
+    ).toBe('Hi ADA, you are #2');
+
+    const stats = evaluator.getStats();
+    expect(stats.cacheMisses).toBe(0);
+    expect(stats.cacheHits).toBe(2);
+    expect(stats.compiled).toBe(4);
+  });
+
+  it('should keep compiled expressions when the cache is full or cleared', async () => {
+    const { compiled } = compileSpecExpressions(spec);
+    const evaluator = createEvaluator({ cacheSize: 2 });
+    evaluator.loadCompiled(compiled);
+
+    for (let i = 0; i < 10; i++) {
+      await evaluator.evaluate(`${i} * 2`);
+    }
+    evaluator.clearCache();
+
+    expect(await evaluator.evaluate('message.content', { message: { content: 'hi' } })).toBe('hi');
+    expect(evaluator.getStats()).toMatchObject({ cacheHits: 1, cacheMisses: 0 });
+  });
+
+  it('should still compile expressions missing from the artifact', async () => {
+    const evaluator = createEvaluator();
+    evaluator.loadCompiled({ version: 1, expressions: {}, templates: {} });
+
+    expect(await evaluator.interpolate('${2 + 3}!')).toBe('5!');
+    expect(evaluator.getStats().cacheMisses).toBe(1);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Timezone-aware Date Function Tests
+ *
+ * Covers:
+ * - Seeing moments from a timezone with inZone()
+ * - Start and end of units, and adding units across DST changes
+ * - Differences, ranges, parsing and formatting
+ * - Business-day math with weekends and holidays
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createEvaluator, type ExpressionEvaluator } from '../evaluator.js';
+import { ZonedDate } from '../dates.js';
+
+describe('Date functions', () => {
+  let evaluator: ExpressionEvaluator;
+
+  const iso = async (expression: string): Promise<string> =>
+    ((await evaluator.evaluate(expression)) as Date).toISOString();
+
+  beforeEach(() => {
+    evaluator = createEvaluator();
+  });
+
+  describe('inZone()', () => {
+    it('should show the wall clock time in a timezone', async () => {
+      const berlin = await evaluator.evaluate<ZonedDate>('inZone(date("2024-03-10T15:00:00Z"), "Europe/Berlin")');
+
+      expect(berlin).toBeInstanceOf(ZonedDate);
+      expect(berlin).toMatchObject({ year: 2024, month: 3, day: 10, hour: 16, weekday: 0, offset: 60 });
+      expect(String(berlin)).toBe('2024-03-10T16:00:00.000+01:00');
+      expect(berlin.timestamp).toBe(1710082800);
+
+      expect(await evaluator.evaluate('inZone(date("2024-03-10T12:00:00Z"), "America/New_York").hour')).toBe(8);
+      expect(await evaluator.evaluate('inZone(date("2024-03-10T12:00:00Z")).hour')).toBe(12);
+    });
+
+    it('should compare like dates and reject unknown timezones', async () => {
+      expect(
+        await evaluator.evaluate('inZone(date("2024-01-01"), "Asia/Tokyo") < inZone(date("2024-01-02"), "UTC")')
+      ).toBe(true);
+      expect(await evaluator.evaluate('inZone(null, "UTC")')).toBeNull();
+      await expect(evaluator.evaluate('inZone(now(), "Mars/Base")')).rejects.toThrow('Unknown timezone "Mars/Base"');
+    });
+  });
+
+  describe('startOf(), endOf() and dateAdd()', () => {
+    it('should find the start and end of units in a timezone', async () => {
+      // Wednesday; the week starts on Monday at midnight in Berlin
+      expect(await iso('startOf(date("2024-03-13T10:30:00Z"), "week", "Europe/Berlin")')).toBe(
+        '2024-03-10T23:00:00.000Z'
+      );
+      expect(await iso('startOf(date("2024-03-10T12:00:00Z"), "day", "America/New_York")')).toBe(
+        '2024-03-10T05:00:00.000Z'
+      );
+      expect(await iso('startOf(date("2024-08-20T12:34:56Z"), "year")')).toBe('2024-01-01T00:00:00.000Z');
+      expect(await iso('endOf(date("2024-02-10T00:00:00Z"), "month")')).toBe('2024-02-29T23:59:59.999Z');
+    });
+
+    it('should keep the wall clock time when adding days across DST', async () => {
+      expect(await iso('dateAdd(date("2024-03-09T17:00:00Z"), 1, "day", "America/New_York")')).toBe(
+        '2024-03-10T16:00:00.000Z'
+      );
+      expect(await iso('dateAdd(date("2024-01-31T12:00:00Z"), 1, "month", "UTC")')).toBe(
+        '2024-02-29T12:00:00.000Z'
+      );
+      await expect(evaluator.evaluate('startOf(now(), "fortnight")')).rejects.toThrow(
+        'Unknown date unit "fortnight"'
+      );
+    });
+  });
+
+  describe('diff() and isBetween()', () => {
+    it('should count whole units between moments', async () => {
+      expect(await evaluator.evaluate('diff(date("2024-03-11T00:00:00Z"), date("2024-03-01T00:00:00Z"), "days")')).toBe(10);
+      expect(await evaluator.evaluate('diff(date("2024-03-01T00:00:00Z"), date("2024-03-11T00:00:00Z"), "d")')).toBe(-10);
+      expect(await evaluator.evaluate('diff(date("2024-03-30"), date("2024-01-31"), "months")')).toBe(1);
+      expect(await evaluator.evaluate('diff(date("2030-06-01"), date("2024-06-02"), "years")')).toBe(5);
+      expect(await evaluator.evaluate('diff(date("2024-01-01T00:01:00Z"), date("2024-01-01T00:00:00Z"))')).toBe(60000);
+    });
+
+    it('should check whether a moment is in a range', async () => {
+      expect(await evaluator.evaluate('isBetween(date("2024-05-01"), date("2024-01-01"), date("2024-12-31"))')).toBe(true);
+      expect(await evaluator.evaluate('isBetween(date("2024-01-01"), date("2024-01-01"), date("2024-12-31"))')).toBe(true);
+      expect(await evaluator.evaluate('isBetween(date("2025-01-01"), date("2024-01-01"), date("2024-12-31"))')).toBe(false);
+      expect(await evaluator.evaluate('isBetween(null, date("2024-01-01"), date("2024-12-31"))')).toBe(false);
+    });
+  });
+
+  describe('parseDate() and formatDate()', () => {
+    it('should parse ISO dates as wall clock time in a timezone', async () => {
+      expect(await iso('parseDate("2024-07-01 09:00", null, "Europe/Berlin")')).toBe('2024-07-01T07:00:00.000Z');
+      expect(await iso('parseDate("2024-07-01T09:00:00+02:00", "", "UTC")')).toBe('2024-07-01T07:00:00.000Z');
+      expect(await iso('parseDate("2024-07-01")')).toBe('2024-07-01T00:00:00.000Z');
+      expect(await evaluator.evaluate('parseDate("next tuesday")')).toBeNull();
+    });
+
+    it('should parse dates in a given format', async () => {
+      expect(await iso('parseDate("25/12/2024 9:30 PM", "DD/MM/YYYY h:mm A", "Europe/Berlin")')).toBe(
+        '2024-12-25T20:30:00.000Z'
+      );
+      expect(await evaluator.evaluate('parseDate("31/02/2024", "DD/MM/YYYY")')).toBeNull();
+      expect(await evaluator.evaluate('parseDate("2024-12-25", "DD/MM/YYYY")')).toBeNull();
+      await expect(evaluator.evaluate('parseDate("Monday", "dddd")')).rejects.toThrow(
+        'parseDate() does not support the "dddd" token'
+      );
+    });
+
+    it('should format dates in a timezone', async () => {
+      expect(
+        await evaluator.evaluate(
+          'formatDate(date("2024-12-25T20:30:00Z"), "dddd D MMMM YYYY [at] HH:mm Z", "Asia/Kolkata")'
+        )
+      ).toBe('Thursday 26 December 2024 at 02:00 +05:30');
+      expect(await evaluator.evaluate('formatDate(date("2024-12-25T20:30:00Z"), "ddd h:mm a", "America/Los_Angeles")')).toBe(
+        'Wed 12:30 pm'
+      );
+    });
+  });
+
+  describe('business days', () => {
+    it('should skip weekends and holidays', async () => {
+      // 2024-03-15 is a Friday
+      expect(await iso('addBusinessDays(date("2024-03-15T09:00:00Z"), 1)')).toBe('2024-03-18T09:00:00.000Z');
+      expect(await iso('addBusinessDays(date("2024-03-15T09:00:00Z"), 1, "UTC", ["2024-03-18"])')).toBe(
+        '2024-03-19T09:00:00.000Z'
+      );
+      expect(await iso('addBusinessDays(date("2024-03-18T09:00:00Z"), 0 - 1)')).toBe('2024-03-15T09:00:00.000Z');
+      expect(await iso('addBusinessDays(date("2024-03-15T09:00:00Z"), 10)')).toBe('2024-03-29T09:00:00.000Z');
+    });
+
+    it('should count business days between dates', async () => {
+      const friday = 'date("2024-03-15T09:00:00Z")';
+      const nextFriday = 'date("2024-03-22T09:00:00Z")';
+
+      expect(await evaluator.evaluate(`businessDaysBetween(${friday}, ${nextFriday})`)).toBe(5);
+      expect(await evaluator.evaluate(`businessDaysBetween(${friday}, ${nextFriday}, "UTC", ["2024-03-18"])`)).toBe(4);
+      expect(await evaluator.evaluate(`businessDaysBetween(${nextFriday}, ${friday})`)).toBe(-5);
+      expect(await evaluator.evaluate(`businessDaysBetween(${friday}, date("2024-05-15T09:00:00Z"))`)).toBe(43);
+    });
+
+    it('should decide the day in the given timezone', async () => {
+      // Friday 23:30 UTC is already Saturday in Berlin
+      expect(await evaluator.evaluate('isBusinessDay(date("2024-03-15T23:30:00Z"))')).toBe(true);
+      expect(await evaluator.evaluate('isBusinessDay(date("2024-03-15T23:30:00Z"), "Europe/Berlin")')).toBe(false);
+    });
+  });
+});
@@ -141,6 +141,65 @@ describe('ExpressionEvaluator', () => {
       const result = await evaluator.evaluateTemplate('Just a string', {});
       expect(result).toBe('Just a string');
     });
+
+    it('should evaluate $expr: fields and keep $literal: fields as written', async () => {
+      const context = { items: [1, 2, 3] };
+
+      expect(await evaluator.evaluateTemplate('$expr: items|length', context)).toBe(3);
+      expect(await evaluator.evaluateTemplate('$literal:${items}', context)).toBe('${items}');
+      expect(await evaluator.interpolate('$expr:items[0] + 1', context)).toBe('2');
+      expect(await evaluator.interpolate('$literal:Cost: ${price}', context)).toBe('Cost: ${price}');
+      expect(evaluator.interpolateSync('$literal:${x}')).toBe('${x}');
+      expect(evaluator.hasExpressions('$expr:items')).toBe(true);
+      expect(evaluator.hasExpressions('$literal:${items}')).toBe(false);
+    });
+  });
+
+  describe('resolveValue', () => {
+    it('should keep the type of whole-expression fields through arrays and objects', async () => {
+      const context = {
+        rows: [{ name: 'Ada', xp: 120 }, { name: 'Lin', xp: 80 }],
+        when: new Date(0),
+      };
+
+      const resolved = await evaluator.resolveValue(
+        {
+          title: 'Top ${rows|length}',
+          fields: '${rows}',
+          count: '$expr:rows|length',
+          note: '$literal:${not evaluated}',
+          nested: [{ value: '${rows[0].xp}' }, 7, null],
+          at: '${when}',
+        },
+        context
+      );
+
+      expect(resolved).toEqual({
+        title: 'Top 2',
+        fields: context.rows,
+        count: 2,
+        note: '${not evaluated}',
+        nested: [{ value: 120 }, 7, null],
+        at: context.when,
+      });
+    });
+
+    it('should pass through values that are not plain objects', async () => {
+      const buffer = Buffer.from('data');
+      expect(await evaluator.resolveValue(buffer)).toBe(buffer);
+    });
+  });
+
+  describe('resolveExpression', () => {
+    it('should evaluate bare expressions, templates and markers', async () => {
+      const context = { level: 4, name: 'Ada' };
+
+      expect(await evaluator.resolveExpression('level * 2', context)).toBe(8);
+      expect(await evaluator.resolveExpression('${level}', context)).toBe(4);
+      expect(await evaluator.resolveExpression('Hi ${name}', context)).toBe('Hi Ada');
+      expect(await evaluator.resolveExpression('$literal:name', context)).toBe('name');
+      expect(await evaluator.resolveExpression({ a: '${level}' }, context)).toEqual({ a: 4 });
+    });
   });
 
   describe('custom functions and transforms', () => {
@@ -153,6 +212,14 @@ describe('ExpressionEvaluator', () => {
       evaluator.addTransform('triple', (n: number) => n * 3);
       expect(await evaluator.evaluate('5|triple')).toBe(15);
     });
+
+    it('should list registered functions and transforms', () => {
+      evaluator.addFunction('double', (n: number) => n * 2);
+
+      expect(evaluator.getFunctionNames()).toEqual(expect.arrayContaining(['double', 'upper', 'now']));
+      expect(evaluator.getTransformNames()).toContain('upper');
+      expect(evaluator.getTransformNames()).not.toContain('double');
+    });
   });
 
   // =====================================
@@ -861,6 +928,19 @@ describe('ExpressionEvaluator', () => {
       const result = await evaluator.interpolate('${  x  }', { x: 42 });
       expect(result).toBe('42');
     });
+
+    it('should allow object literals and quoted braces inside expressions', async () => {
+      expect(await evaluator.interpolate('Keys: ${keys({a: 1, b: {c: 2}})|join(",")}!', {})).toBe(
+        'Keys: a,b!'
+      );
+      expect(await evaluator.interpolate('${"}" + x}', { x: '{' })).toBe('}{');
+      expect(await evaluator.evaluateTemplate('${{id: x}}', { x: 7 })).toEqual({ id: 7 });
+      expect(evaluator.interpolateSync('${get({n: x}, "n")} left', { x: 3 })).toBe('3 left');
+    });
+
+    it('should leave an unclosed expression as text', async () => {
+      expect(await evaluator.interpolate('${x} and ${y', { x: 1 })).toBe('1 and ${y');
+    });
   });
 
   describe('security considerations', () => {
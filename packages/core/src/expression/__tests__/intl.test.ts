@@ -0,0 +1,110 @@
+/**
+ * Localized Formatting Tests
+ *
+ * Covers:
+ * - Numbers, currencies, lists, plurals, ordinals and relative times
+ * - The evaluation's locale taken from the interaction or guild
+ * - Custom locale resolvers and explicit locale arguments
+ * - User function results cached per locale
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEvaluator } from '../evaluator.js';
+import { registerUserFunctions } from '../user-functions.js';
+import { contextLocale, formatList, ordinal, pluralize, relativeTime, toLocale } from '../intl.js';
+
+describe('intl helpers', () => {
+  it('should canonicalize and reject locale tags', () => {
+    expect(toLocale('pt-br')).toBe('pt-BR');
+    expect(() => toLocale('not a locale')).toThrow('Unknown locale "not a locale"');
+  });
+
+  it('should pick plural forms with CLDR rules', () => {
+    const forms = { one: '# point', few: '# punkty', many: '# punktów', other: '# punktu' };
+
+    expect(pluralize(1, forms, 'pl')).toBe('1 point');
+    expect(pluralize(3, forms, 'pl')).toBe('3 punkty');
+    expect(pluralize(5, forms, 'pl')).toBe('5 punktów');
+    expect(pluralize(1500, { one: '# point', other: '# points' }, 'de')).toBe('1.500 points');
+    // French uses the singular for zero
+    expect(pluralize(0, 'point', 'fr', 'points')).toBe('point');
+    expect(pluralize(0, 'point', 'en')).toBe('points');
+    expect(() => pluralize(1, {} as never, 'en')).toThrow('must include "other"');
+  });
+
+  it('should format lists and ordinals', () => {
+    expect(formatList(['a', 'b', 'c'], 'en')).toBe('a, b, and c');
+    expect(formatList(['a', 'b'], 'fr', 'disjunction')).toBe('a ou b');
+    expect(() => formatList([], 'en', 'both')).toThrow('Unknown list style "both"');
+    expect([1, 2, 3, 11, 22].map((n) => ordinal(n, 'en'))).toEqual(['1st', '2nd', '3rd', '11th', '22nd']);
+    expect(ordinal(1, 'fr')).toBe('1er');
+    expect(ordinal(3, 'de')).toBe('3.');
+    expect(ordinal(3, 'ja')).toBe('3');
+  });
+
+  it('should describe times relative to now', () => {
+    const now = Date.UTC(2024, 0, 10);
+    const day = 24 * 60 * 60 * 1000;
+
+    expect(relativeTime(now + 3 * day, 'en', undefined, now)).toBe('in 3 days');
+    expect(relativeTime(now - day, 'en', undefined, now)).toBe('yesterday');
+    expect(relativeTime(now - 2 * 60 * 60 * 1000, 'de', undefined, now)).toBe('vor 2 Stunden');
+    expect(relativeTime(now + 14 * day, 'en', 'days', now)).toBe('in 14 days');
+    expect(relativeTime(now, 'en', undefined, now)).toBe('now');
+    expect(() => relativeTime(now, 'en', 'fortnight', now)).toThrow('Unknown relative time unit');
+  });
+
+  it('should read the locale from the interaction, then the guild', () => {
+    expect(contextLocale({ interaction: { locale: 'de' }, guild: { preferredLocale: 'fr' } })).toBe('de');
+    expect(contextLocale({ guild: { preferredLocale: 'fr' } })).toBe('fr');
+    expect(contextLocale({ guild: { preferred_locale: 'es-ES' } })).toBe('es-ES');
+    expect(contextLocale({})).toBeUndefined();
+  });
+});
+
+describe('localized expression functions', () => {
+  it('should format for the locale of the evaluation', async () => {
+    const evaluator = createEvaluator();
+    const german = { interaction: { locale: 'de' }, n: 1234.5, items: ['Äpfel', 'Birnen'] };
+
+    expect(await evaluator.evaluate('locale()', german)).toBe('de');
+    expect(await evaluator.evaluate('formatNumber(n)', german)).toBe('1.234,5');
+    expect(await evaluator.evaluate('formatNumber(n, {style: "currency", currency: "EUR"})', german)).toBe(
+      '1.234,50\u00a0€'
+    );
+    expect(await evaluator.evaluate('formatList(items)', german)).toBe('Äpfel und Birnen');
+    expect(await evaluator.evaluate('items|formatList("disjunction")', german)).toBe('Äpfel oder Birnen');
+    expect(await evaluator.evaluate('n|format', german)).toBe('1.234,5');
+    expect(await evaluator.evaluate('formatNumber(n)', { n: 1234.5 })).toBe('1,234.5');
+  });
+
+  it('should accept an explicit locale', async () => {
+    const evaluator = createEvaluator();
+    const context = { interaction: { locale: 'de' } };
+
+    expect(await evaluator.evaluate('formatNumber(1234.5, "en-US")', context)).toBe('1,234.5');
+    expect(await evaluator.evaluate('formatNumber(0.25, {style: "percent"}, "fr")', context)).toBe('25\u00a0%');
+    expect(await evaluator.evaluate('ordinal(2, "en")', context)).toBe('2nd');
+    expect(await evaluator.evaluate('pluralize(1, "point", "points")', { interaction: { locale: 'en-US' } })).toBe(
+      'point'
+    );
+    expect(await evaluator.evaluate('pluralize(2, {one: "# Punkt", other: "# Punkte"})', context)).toBe('2 Punkte');
+  });
+
+  it('should use a custom locale resolver', async () => {
+    const evaluator = createEvaluator();
+    evaluator.setLocaleResolver((context) => (context.lang as string | undefined) ?? 'fr');
+
+    expect(await evaluator.evaluate('formatList(["a", "b"])', {})).toBe('a et b');
+    expect(await evaluator.evaluate('formatList(["a", "b"])', { lang: 'es' })).toBe('a y b');
+    expect(evaluator.getLocale()).toBe('en-US');
+  });
+
+  it('should cache user function results per locale', async () => {
+    const evaluator = createEvaluator();
+    registerUserFunctions(evaluator, { money: { params: ['n'], body: 'formatNumber(n)' } });
+
+    expect(await evaluator.evaluate('money(1000)', { interaction: { locale: 'de' } })).toBe('1.000');
+    expect(await evaluator.evaluate('money(1000)', { interaction: { locale: 'en-US' } })).toBe('1,000');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Lookup Function Tests
+ *
+ * Covers:
+ * - Reading state variables, table rows and HTTP pipes from expressions
+ * - Looking up user and guild timezones
+ * - Per-evaluation call budgets
+ * - Reusing results within and between evaluations
+ * - Refusing lookups outside async evaluation and in user functions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryAdapter } from '@furlow/storage';
+import type { PipeConfig } from '@furlow/schema';
+import { createEvaluator, type ExpressionEvaluator } from '../evaluator.js';
+import { registerLookupFunctions } from '../lookups.js';
+import { registerUserFunctions } from '../user-functions.js';
+import { createStateManager, type StateManager } from '../../state/manager.js';
+import { ErrorCodes } from '../../errors/index.js';
+
+const originalFetch = global.fetch;
+
+describe('Lookup functions', () => {
+  let evaluator: ExpressionEvaluator;
+  let stateManager: StateManager;
+  const context = { guildId: 'g1', channelId: 'c1', userId: 'u1' };
+  const pipes = {
+    weather: { type: 'http', base_url: 'https://weather.example/api/' },
+    socket: { type: 'websocket', url: 'wss://example' },
+  } as Record<string, PipeConfig>;
+
+  beforeEach(async () => {
+    evaluator = createEvaluator({ callBudget: 3 });
+    stateManager = createStateManager(new MemoryAdapter());
+    stateManager.registerVariables({
+      warnings: { scope: 'member', default: 0 },
+      motd: { scope: 'guild' },
+    });
+    await stateManager.registerTables({
+      tickets: { columns: { id: { type: 'string', primary: true }, guild_id: { type: 'string' } } },
+    });
+    registerLookupFunctions(evaluator, { stateManager, pipes });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should read state variables for the current or given id', async () => {
+    await stateManager.set('warnings', 2, { guildId: 'g1', userId: 'u1' });
+    await stateManager.set('warnings', 5, { guildId: 'g1', userId: 'u2' });
+    await stateManager.set('motd', 'hi', { guildId: 'g2' });
+
+    expect(await evaluator.evaluate('state("warnings")', context)).toBe(2);
+    expect(await evaluator.evaluate('state("warnings", "u2") + 1', context)).toBe(6);
+    expect(await evaluator.evaluate('state("warnings", "u3")', context)).toBe(0);
+    expect(await evaluator.evaluate('state("motd", "g2")', context)).toBe('hi');
+    await expect(evaluator.evaluate('state("secret")', context)).rejects.toThrow(
+      '"secret" is not a declared state variable'
+    );
+  });
+
+  it('should query and count table rows', async () => {
+    await stateManager.insert('tickets', { id: 't1', guild_id: 'g1' });
+    await stateManager.insert('tickets', { id: 't2', guild_id: 'g1' });
+    await stateManager.insert('tickets', { id: 't3', guild_id: 'g2' });
+
+    expect(await evaluator.evaluate('db_count("tickets", {guild_id: guildId})', context)).toBe(2);
+    expect(await evaluator.evaluate('db_count("tickets")', context)).toBe(3);
+    expect(await evaluator.evaluate('db_query("tickets", {guild_id: "g2"})[0].id', context)).toBe('t3');
+    await expect(evaluator.evaluate('db_count("users")', context)).rejects.toThrow('Table not found');
+  });
+
+  it('should pass operators and query options through', async () => {
+    await stateManager.insert('tickets', { id: 't1', guild_id: 'g1' });
+    await stateManager.insert('tickets', { id: 't2', guild_id: 'g1' });
+    await stateManager.insert('tickets', { id: 't3', guild_id: 'g2' });
+
+    expect(await evaluator.evaluate('db_count("tickets", {id: {$in: ["t1", "t3"]}})', context)).toBe(2);
+    expect(
+      await evaluator.evaluate('db_query("tickets", {}, {order_by: "id DESC", limit: 2})|map("id")', context)
+    ).toEqual(['t3', 't2']);
+    expect(
+      await evaluator.evaluate(
+        'db_query("tickets", {}, {group_by: "guild_id", aggregate: {n: "count(*)"}, order_by: "guild_id"})',
+        context
+      )
+    ).toEqual([
+      { guild_id: 'g1', n: 2 },
+      { guild_id: 'g2', n: 1 },
+    ]);
+    await expect(evaluator.evaluate('db_query("tickets", {}, "id")', context)).rejects.toThrow(
+      'db_query() takes a row limit or an options object'
+    );
+  });
+
+  it('should read HTTP pipes and cache responses between evaluations', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: () => Promise.resolve('{"temp": 21}'),
+    });
+    global.fetch = fetchMock;
+
+    expect(await evaluator.evaluate('pipe("weather", "/now").temp', context)).toBe(21);
+    expect(await evaluator.evaluate('pipe("weather", "now").temp + 1', context)).toBe(22);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0]![0]).toBe('https://weather.example/api/now');
+
+    await evaluator.evaluate('pipe("weather", "/now")', context);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await expect(evaluator.evaluate('pipe("socket")', context)).rejects.toMatchObject({
+      code: ErrorCodes.PIPE_NOT_FOUND,
+    });
+  });
+
+  it('should report failed pipe requests', async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503, text: () => Promise.resolve('') });
+
+    await expect(evaluator.evaluate('pipe("weather", "/now")', context)).rejects.toMatchObject({
+      code: ErrorCodes.PIPE_REQUEST_FAILED,
+    });
+  });
+
+  it('should look up user and guild timezones from state', async () => {
+    const zoned = createEvaluator();
+    const manager = createStateManager(new MemoryAdapter());
+    manager.registerVariables({ user_tz: { scope: 'user' }, guild_tz: { scope: 'guild' } });
+    registerLookupFunctions(zoned, {
+      stateManager: manager,
+      timezone: { variables: ['user_tz', 'guild_tz'], default: 'America/New_York' },
+    });
+
+    expect(await zoned.evaluate('timezone()', context)).toBe('America/New_York');
+
+    await manager.set('guild_tz', 'Europe/Berlin', { guildId: 'g1' });
+    await manager.set('user_tz', 'Asia/Tokyo', { userId: 'u1' });
+    await manager.set('user_tz', 'Not/AZone', { userId: 'u2' });
+
+    expect(await zoned.evaluate('timezone()', context)).toBe('Asia/Tokyo');
+    expect(await zoned.evaluate('timezone("u2")', context)).toBe('Europe/Berlin');
+    expect(await zoned.evaluate('inZone(date("2024-03-10T15:00:00Z"), timezone()).hour', context)).toBe(0);
+    expect(await evaluator.evaluate('timezone()', context)).toBe('UTC');
+  });
+
+  it('should limit lookup calls per evaluation', async () => {
+    const get = vi.spyOn(stateManager, 'get');
+
+    // Repeated calls in one evaluation are made once
+    expect(
+      await evaluator.evaluate('state("warnings") + state("warnings") + state("warnings", "u2")', context)
+    ).toBe(0);
+    expect(get).toHaveBeenCalledTimes(2);
+
+    // Results are not shared between evaluations
+    await evaluator.evaluate('state("warnings")', context);
+    expect(get).toHaveBeenCalledTimes(3);
+
+    await expect(
+      evaluator.evaluate(
+        'state("warnings", "a") + state("warnings", "b") + state("warnings", "c") + state("warnings", "d")',
+        context
+      )
+    ).rejects.toMatchObject({ code: ErrorCodes.EXPR_CALL_BUDGET });
+  });
+
+  it('should refuse lookups in synchronous evaluation and user functions', async () => {
+    registerUserFunctions(evaluator, { warnings_of: { params: ['id'], body: 'state("warnings", id)' } });
+
+    expect(() => evaluator.evaluateSync('state("warnings")', context)).toThrow(
+      'state() cannot be used in synchronous evaluation'
+    );
+    await expect(evaluator.evaluate('warnings_of("u1")', context)).rejects.toThrow(
+      'state() cannot be used in user-defined functions'
+    );
+  });
+
+  it('should fail clearly without state storage', async () => {
+    const bare = createEvaluator();
+    registerLookupFunctions(bare, {});
+
+    await expect(bare.evaluate('state("warnings")', context)).rejects.toThrow(
+      'state() is not available without state storage'
+    );
+  });
+});
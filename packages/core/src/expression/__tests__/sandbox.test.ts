@@ -0,0 +1,127 @@
+/**
+ * Expression Sandbox Tests
+ *
+ * Covers:
+ * - Array and string size limits in functions and transforms
+ * - Call depth of a single expression
+ * - Evaluation timeouts, including work that never yields
+ * - Limits on custom functions and the spec's limits section
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createEvaluator, evaluatorOptionsFromLimits } from '../evaluator.js';
+import { Sandbox, callDepth } from '../sandbox.js';
+import { ErrorCodes } from '../../errors/index.js';
+
+describe('Expression sandbox', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('size limits', () => {
+    it('should refuse to build oversized arrays', async () => {
+      const evaluator = createEvaluator({ maxArrayLength: 100 });
+
+      expect(await evaluator.evaluate('range(0, 100)|length')).toBe(100);
+      await expect(evaluator.evaluate('range(1, 1000000000)|map("id")')).rejects.toMatchObject({
+        code: ErrorCodes.EXPR_LIMIT_EXCEEDED,
+        message: 'Expression exceeded the array length limit of 100 in range()',
+      });
+      expect(() => evaluator.evaluateSync('range(0, 10, 0)')).toThrow('array length limit');
+      expect(() => evaluator.evaluateSync('"a,b,c,d,e,f,g,h,i,j"|split(",")|length')).not.toThrow();
+    });
+
+    it('should refuse to build oversized strings', async () => {
+      const evaluator = createEvaluator({ maxStringLength: 1000 });
+
+      await expect(evaluator.evaluate('padStart("x", 1000001)')).rejects.toMatchObject({
+        code: ErrorCodes.EXPR_LIMIT_EXCEEDED,
+      });
+      await expect(evaluator.evaluate('"x"|padEnd(5000)')).rejects.toThrow('in |padEnd');
+      await expect(evaluator.evaluate('join(range(0, 500), "--")')).rejects.toThrow('in join()');
+      await expect(evaluator.evaluate('"aaaa"|replace("a", padStart("", 400, "b"))')).rejects.toThrow(
+        'in |replace'
+      );
+      expect(await evaluator.evaluate('join(range(0, 3), "-")')).toBe('0-1-2');
+    });
+
+    it('should check values returned by custom functions and transforms', async () => {
+      const evaluator = createEvaluator({ maxStringLength: 100 });
+      evaluator.addFunction('double', (s) => String(s) + String(s));
+      evaluator.addTransform('twice', (s) => Promise.resolve(String(s) + String(s)));
+
+      expect(await evaluator.evaluate('double("ab")')).toBe('abab');
+      await expect(
+        evaluator.evaluate('double(double(double(double(double(double(double("ab")))))))')
+      ).rejects.toThrow('string length limit of 100 in double()');
+      await expect(evaluator.evaluate('padStart("", 60)|twice')).rejects.toThrow('in twice()');
+    });
+  });
+
+  describe('call depth', () => {
+    it('should measure nested calls and transforms', () => {
+      const evaluator = createEvaluator();
+
+      expect(callDepth(evaluator.parse('1 + 2'))).toBe(0);
+      expect(callDepth(evaluator.parse('upper(lower("A"))|trim'))).toBe(3);
+      expect(callDepth(evaluator.parse('[upper("a"), {b: lower(trim("c"))}]'))).toBe(2);
+    });
+
+    it('should refuse deeply nested expressions', async () => {
+      const evaluator = createEvaluator({ maxCallDepth: 5 });
+      const nested = `${'split(join('.repeat(3)}"a"${', ","), ",")'.repeat(3)}`;
+
+      await expect(evaluator.evaluate(nested)).rejects.toMatchObject({
+        code: ErrorCodes.EXPR_LIMIT_EXCEEDED,
+        message: 'Expression exceeded the call depth limit of 5 in expression',
+      });
+      expect(() => evaluator.parse(nested)).toThrow('call depth limit');
+      expect(await evaluator.evaluate('upper(lower(upper("a")))')).toBe('A');
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should stop evaluations that never yield', async () => {
+      const evaluator = createEvaluator({ timeout: 50 });
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const start = Date.now();
+      evaluator.addFunction('slow', () => {
+        vi.setSystemTime(start + 100);
+        return 1;
+      });
+
+      await expect(evaluator.evaluate('slow() + upper("a")')).rejects.toMatchObject({
+        code: ErrorCodes.EXPR_TIMEOUT,
+        message: 'Expression evaluation exceeded 50ms',
+      });
+      vi.setSystemTime(start);
+      expect(() => evaluator.evaluateSync('slow() + upper("a")')).toThrow('exceeded 50ms');
+    });
+
+    it('should time out waiting on async functions', async () => {
+      const evaluator = createEvaluator({ timeout: 20 });
+      evaluator.addFunction('hang', () => new Promise(() => {}));
+
+      await expect(evaluator.evaluate('hang()')).rejects.toMatchObject({ code: ErrorCodes.EXPR_TIMEOUT });
+    });
+  });
+
+  describe('configuration', () => {
+    it('should read limits from the spec', () => {
+      expect(evaluatorOptionsFromLimits(undefined)).toEqual({});
+      expect(
+        evaluatorOptionsFromLimits({
+          function_depth: 8,
+          expressions: { timeout: '2s', max_array_length: 500, max_call_depth: 10, max_lookups: 3 },
+        })
+      ).toEqual({ timeout: 2000, maxArrayLength: 500, maxCallDepth: 10, callBudget: 3 });
+    });
+
+    it('should use defaults for limits not given', () => {
+      const sandbox = new Sandbox({ maxCallDepth: 4 });
+
+      expect(sandbox.limits).toEqual({ maxArrayLength: 10000, maxStringLength: 100000, maxCallDepth: 4 });
+      expect(() => sandbox.checkTime()).not.toThrow();
+    });
+  });
+});
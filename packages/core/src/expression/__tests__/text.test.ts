@@ -0,0 +1,105 @@
+/**
+ * Text Function Tests
+ *
+ * Covers:
+ * - Regex matches with numbered and named capture groups
+ * - {0} templates and printf-style formatting
+ * - Escaping Discord markdown, mentions and HTML
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createEvaluator, type ExpressionEvaluator } from '../evaluator.js';
+import { ErrorCodes } from '../../errors/index.js';
+
+describe('Text functions', () => {
+  let evaluator: ExpressionEvaluator;
+  const context = { message: { content: 'Tickets ABC-12 and XYZ-7, not abc-1' } };
+
+  beforeEach(() => {
+    evaluator = createEvaluator();
+  });
+
+  describe('regex matches', () => {
+    it('should return every match with its capture groups', async () => {
+      const matches = await evaluator.evaluate(
+        'message.content|matchAll("(?<code>[A-Z]{3})-(\\\\d+)")',
+        context
+      );
+
+      expect(matches).toEqual([
+        { code: 'ABC', match: 'ABC-12', index: 8, captures: ['ABC', '12'], groups: { code: 'ABC' } },
+        { code: 'XYZ', match: 'XYZ-7', index: 19, captures: ['XYZ', '7'], groups: { code: 'XYZ' } },
+      ]);
+      expect(
+        await evaluator.evaluate('message.content|matchAll("(?<code>[A-Z]{3}-\\\\d+)")|pluck("code")', context)
+      ).toEqual(['ABC-12', 'XYZ-7']);
+      expect(
+        await evaluator.evaluate('matchAll(message.content, "[a-z]{3}-\\\\d", "i")|length', context)
+      ).toBe(3);
+    });
+
+    it('should return the first match or null', async () => {
+      expect(
+        await evaluator.evaluate('(message.content|match("(?<num>\\\\d+)")).num', context)
+      ).toBe('12');
+      expect(await evaluator.evaluate('"hello"|match("\\\\d")')).toBeNull();
+      expect(await evaluator.evaluate('match("hello", "l+")')).toBe(true);
+    });
+
+    it('should refuse unsafe patterns, bad flags and oversized results', async () => {
+      expect(await evaluator.evaluate('"aaaa"|matchAll("(a+)+")')).toEqual([]);
+      await expect(evaluator.evaluate('"a"|matchAll("a", "g")')).rejects.toThrow('Invalid regex flags "g"');
+
+      const limited = createEvaluator({ maxArrayLength: 3 });
+      await expect(limited.evaluate('"aaaa"|matchAll("a")')).rejects.toMatchObject({
+        code: ErrorCodes.EXPR_LIMIT_EXCEEDED,
+      });
+    });
+  });
+
+  describe('formatting', () => {
+    it('should fill {0} and {name} placeholders', async () => {
+      expect(await evaluator.evaluate('format("{0} has {1} points", "Ana", 12)')).toBe('Ana has 12 points');
+      expect(await evaluator.evaluate('format("{name} ({level})", {name: "Ana", level: 3})')).toBe('Ana (3)');
+      expect(await evaluator.evaluate('format("{{0}} {0} {5}", "x")')).toBe('{0} x {5}');
+      expect(await evaluator.evaluate('"{0}/{1}"|format(1, 2)')).toBe('1/2');
+      expect(await evaluator.evaluate('1234567|format')).toBe('1,234,567');
+      expect(await evaluator.evaluate('"1234"|format')).toBe('1,234');
+      expect(await evaluator.evaluate('"1234"|format("de")')).toBe('1.234');
+    });
+
+    it('should format numbers printf-style', async () => {
+      expect(await evaluator.evaluate('sprintf("%05.1f%%", 42.345)')).toBe('042.3%');
+      expect(await evaluator.evaluate('sprintf("%+d|%-4s|%4s|%x|%#X", 7, "ab", "cd", 255, 255)')).toBe(
+        '+7|ab  |  cd|ff|0XFF'
+      );
+      expect(await evaluator.evaluate('sprintf("%.3s %e", "abcdef", 1234.5)')).toBe('abc 1.234500e+3');
+      await expect(evaluator.evaluate('sprintf("%999999999d", 1)')).rejects.toMatchObject({
+        code: ErrorCodes.EXPR_LIMIT_EXCEEDED,
+      });
+    });
+  });
+
+  describe('escaping', () => {
+    it('should escape Discord markdown', async () => {
+      expect(await evaluator.evaluate('escapeMarkdown("**bold** _it_ `code` ||spoiler|| [link](url)")')).toBe(
+        '\\*\\*bold\\*\\* \\_it\\_ \\`code\\` \\|\\|spoiler\\|\\| \\[link\\]\\(url\\)'
+      );
+      expect(await evaluator.evaluate('"# Title\n> quote\n- item\n1. first"|escapeMarkdown')).toBe(
+        '\\# Title\n\\> quote\n\\- item\n1\\. first'
+      );
+    });
+
+    it('should stop mentions from pinging', async () => {
+      expect(
+        await evaluator.evaluate('"@everyone @here <@123> <@!456> <@&789> <#42>"|escapeMentions')
+      ).toBe('@\u200beveryone @\u200bhere <@\u200b123> <@\u200b!456> <@\u200b&789> <#42>');
+    });
+
+    it('should escape HTML', async () => {
+      expect(await evaluator.evaluate(`escapeHtml("<b>\\"Tom\\" & 'Jerry'</b>")`)).toBe(
+        '&lt;b&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/b&gt;'
+      );
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * User-Defined Function Tests
+ *
+ * Covers:
+ * - Calling functions declared in the spec from expressions
+ * - Recursion and the call depth limit
+ * - Caching results by argument
+ * - Rejecting invalid definitions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createEvaluator } from '../evaluator.js';
+import { registerUserFunctions } from '../user-functions.js';
+import { ErrorCodes } from '../../errors/index.js';
+
+describe('registerUserFunctions', () => {
+  it('should evaluate the body with the arguments bound to parameters', async () => {
+    const evaluator = createEvaluator();
+    registerUserFunctions(evaluator, {
+      xp_for_level: { params: ['level'], body: '${5 * level ^ 2 + 50 * level + 100}' },
+      rank: { params: ['name', 'level'], body: '${upper(name)} (level ${level})' },
+      next_level_xp: { params: ['level'], body: 'xp_for_level(level + 1)' },
+    });
+
+    expect(await evaluator.evaluate('xp_for_level(2)')).toBe(220);
+    expect(await evaluator.evaluate('next_level_xp(level)', { level: 1 })).toBe(220);
+    expect(await evaluator.interpolate('${rank("ada", 3)}')).toBe('ADA (level 3)');
+  });
+
+  it('should only see its parameters', async () => {
+    const evaluator = createEvaluator();
+    registerUserFunctions(evaluator, { leak: { params: [], body: 'secret' } });
+
+    expect(await evaluator.evaluate('leak()', { secret: 'value' })).toBeUndefined();
+  });
+
+  it('should support recursion up to the depth limit', async () => {
+    const evaluator = createEvaluator();
+    registerUserFunctions(
+      evaluator,
+      {
+        fact: { params: ['n'], body: 'n <= 1 ? 1 : n * fact(n - 1)', cache: false },
+        forever: { params: ['n'], body: 'forever(n + 1)' },
+        stuck: { params: ['n'], body: 'stuck(n)' },
+      },
+      { maxDepth: 10 }
+    );
+
+    expect(await evaluator.evaluate('fact(5)')).toBe(120);
+    await expect(evaluator.evaluate('fact(11)')).rejects.toMatchObject({
+      code: ErrorCodes.EXPR_MAX_DEPTH,
+    });
+    await expect(evaluator.evaluate('forever(0)')).rejects.toThrow(
+      'Maximum function call depth (10) exceeded in forever()'
+    );
+    await expect(evaluator.evaluate('stuck(1)')).rejects.toMatchObject({
+      code: ErrorCodes.EXPR_MAX_DEPTH,
+    });
+  });
+
+  it('should cache results for repeated arguments', async () => {
+    const evaluator = createEvaluator();
+    const counter = vi.fn((n: unknown) => n);
+    evaluator.addFunction('counter', counter);
+    registerUserFunctions(evaluator, {
+      cached: { params: ['n'], body: 'counter(n) * 2' },
+      uncached: { params: ['n'], body: 'counter(n) * 3', cache: false },
+    });
+
+    expect(await evaluator.evaluate('cached(2) + cached(2) + cached(3)')).toBe(14);
+    expect(counter).toHaveBeenCalledTimes(2);
+
+    counter.mockClear();
+    await evaluator.evaluate('uncached(2) + uncached(2)');
+    expect(counter).toHaveBeenCalledTimes(2);
+
+    counter.mockClear();
+    await evaluator.evaluate('cached(list) + cached(list)', { list: [1] });
+    expect(counter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject invalid definitions', () => {
+    const evaluator = createEvaluator();
+
+    expect(() =>
+      registerUserFunctions(evaluator, { upper: { params: ['s'], body: 's' } })
+    ).toThrow('Invalid function "upper": a function with this name already exists');
+    expect(() =>
+      registerUserFunctions(evaluator, { twice: { params: ['n', 'n'], body: 'n' } })
+    ).toThrow('parameter names must be unique');
+    expect(() => registerUserFunctions(evaluator, { broken: { body: '1 +' } })).toThrow(
+      'Expression syntax error'
+    );
+    expect(evaluator.hasFunction('twice')).toBe(false);
+  });
+});
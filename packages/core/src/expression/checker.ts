@@ -0,0 +1,898 @@
+/**
+ * Static expression checker - walks the expressions in a spec and reports
+ * unknown variables and properties, wrong function arity and type
+ * mismatches before the bot runs
+ */
+
+import type Jexl from 'jexl';
+import type {
+  CommandOption,
+  FlowParameter,
+  FurlowSpec,
+} from '@furlow/schema';
+import { createEvaluator, type ExpressionEvaluator } from './evaluator.js';
+import {
+  ExprTypes as T,
+  CHANNEL_SHAPE,
+  GUILD_SHAPE,
+  INTERACTION_SHAPE,
+  MEMBER_SHAPE,
+  MESSAGE_SHAPE,
+  RESULT_SHAPES,
+  USER_SHAPE,
+  describeType,
+  isAssignable,
+  typeOfValue,
+  type ExprType,
+} from './shapes.js';
+import { FUNCTION_SIGNATURES, TRANSFORM_SIGNATURES, type Signature } from './signatures.js';
+import { parseMarker, scanTemplate, type TemplateExpression } from './template.js';
+import { COMPILED_EXPRESSIONS_VERSION, type CompiledExpressions } from './compiler.js';
+
+/** A problem found in an expression */
+export interface ExpressionIssue {
+  /** Where the field is in the spec, e.g. `events[0].actions[1].content` */
+  path: string;
+  /** Field value the expression was found in */
+  source: string;
+  /** The expression itself */
+  expression: string;
+  message: string;
+  /** Errors fail at runtime; warnings may be intended */
+  severity: 'error' | 'warning';
+  /** Error code when the expression cannot be compiled, e.g. a syntax error */
+  code?: string;
+}
+
+export interface ExpressionCheckerOptions {
+  /** Evaluator with the functions and transforms available at runtime */
+  evaluator?: ExpressionEvaluator;
+}
+
+/** Variables visible to an expression */
+interface Scope {
+  /** What the expressions run in, for messages (e.g. `member_join handlers`) */
+  where: string;
+  vars: Map<string, ExprType>;
+  /** Context variables known to be missing here */
+  missing: Set<string>;
+}
+
+/** Context variables set by the runtime for some handlers only */
+const CONTEXT_VARIABLES: Record<string, ExprType> = {
+  user: USER_SHAPE,
+  member: MEMBER_SHAPE,
+  guild: GUILD_SHAPE,
+  channel: CHANNEL_SHAPE,
+  message: MESSAGE_SHAPE,
+  interaction: INTERACTION_SHAPE,
+  old_message: MESSAGE_SHAPE,
+  old_member: MEMBER_SHAPE,
+  attachments: T.array(
+    T.object('attachment', { name: T.string, size: T.number, contentType: T.string, url: T.string })
+  ),
+  reaction: T.record(),
+  emoji: T.record(),
+  role: T.record(),
+  thread: T.record(),
+  reason: T.string,
+  boost_since: T.date,
+  boost_ended: T.date,
+  old_voice_state: T.record(),
+  new_voice_state: T.record(),
+  streaming: T.boolean,
+  voice_channel: CHANNEL_SHAPE,
+  custom_id: T.string,
+  customId: T.string,
+  component_type: T.string,
+  values: T.array(T.string),
+  selected: T.array(T.string),
+  fields: T.record(),
+  modal_values: T.record(),
+  timeout: T.object('timeout', {
+    event: T.string,
+    command: T.string,
+    handler: T.string,
+    duration: T.number,
+    message: T.string,
+  }),
+  batch: T.object('batch', {
+    id: T.string,
+    total: T.number,
+    completed: T.number,
+    failed: T.number,
+    cursor: T.number,
+  }),
+};
+
+const MESSAGE_VARIABLES = ['message', 'user', 'member', 'channel', 'guild'];
+const MEMBER_VARIABLES = ['member', 'user', 'guild'];
+const VOICE_VARIABLES = [
+  ...MEMBER_VARIABLES,
+  'old_voice_state',
+  'new_voice_state',
+  'streaming',
+  'voice_channel',
+];
+const INTERACTION_VARIABLES = ['interaction', 'user', 'member', 'channel', 'guild'];
+const COMPONENT_VARIABLES = [
+  ...INTERACTION_VARIABLES,
+  'custom_id',
+  'customId',
+  'component_type',
+  'values',
+  'selected',
+  'fields',
+  'modal_values',
+];
+
+/**
+ * Context variables the runtime sets for each event. Events not listed
+ * here (custom, plugin and emitted events) may carry any of them.
+ */
+const EVENT_VARIABLES: Record<string, string[]> = {
+  ready: [],
+  message: [...MESSAGE_VARIABLES, 'attachments'],
+  message_create: [...MESSAGE_VARIABLES, 'attachments'],
+  message_update: [...MESSAGE_VARIABLES, 'old_message'],
+  message_edit: [...MESSAGE_VARIABLES, 'old_message'],
+  message_delete: MESSAGE_VARIABLES,
+  member_join: MEMBER_VARIABLES,
+  member_leave: MEMBER_VARIABLES,
+  member_update: [...MEMBER_VARIABLES, 'old_member'],
+  member_boost: [...MEMBER_VARIABLES, 'old_member', 'boost_since'],
+  member_unboost: [...MEMBER_VARIABLES, 'old_member', 'boost_ended'],
+  member_ban: ['user', 'guild', 'reason'],
+  member_unban: ['user', 'guild', 'reason'],
+  reaction_add: ['reaction', 'emoji', 'message', 'channel', 'guild', 'user'],
+  reaction_remove: ['reaction', 'emoji', 'message', 'channel', 'guild', 'user'],
+  voice_join: VOICE_VARIABLES,
+  voice_leave: VOICE_VARIABLES,
+  voice_move: VOICE_VARIABLES,
+  voice_stream_start: VOICE_VARIABLES,
+  voice_stream_stop: VOICE_VARIABLES,
+  voice_state_update: VOICE_VARIABLES,
+  role_create: ['role', 'guild'],
+  role_delete: ['role', 'guild'],
+  channel_create: ['channel', 'guild'],
+  channel_delete: ['channel', 'guild'],
+  thread_create: ['thread', 'channel', 'guild'],
+  button_click: COMPONENT_VARIABLES,
+  select_menu: COMPONENT_VARIABLES,
+  modal_submit: COMPONENT_VARIABLES,
+};
+
+/** Types of command option values */
+const OPTION_TYPES: Record<CommandOption['type'], ExprType> = {
+  string: T.string,
+  integer: T.number,
+  number: T.number,
+  boolean: T.boolean,
+  user: USER_SHAPE,
+  channel: CHANNEL_SHAPE,
+  role: T.record(),
+  mentionable: T.any,
+  attachment: T.record(),
+};
+
+/** Types of flow parameter values */
+const PARAMETER_TYPES: Record<NonNullable<FlowParameter['type']>, ExprType> = {
+  string: T.string,
+  number: T.number,
+  boolean: T.boolean,
+  object: T.record(),
+  array: T.array(),
+  any: T.any,
+};
+
+/** Keys holding conditions, which are bare expressions */
+const CONDITION_KEYS = new Set(['when', 'condition', 'if', 'while']);
+
+/** Action fields evaluated as bare expressions rather than templates */
+const EXPRESSION_FIELDS: Record<string, string[]> = {
+  batch: ['items'],
+  flow_switch: ['value'],
+  return: ['value'],
+};
+
+/** Action fields whose values are each evaluated as bare expressions */
+const EXPRESSION_MAPS: Record<string, string[]> = {
+  call_flow: ['args'],
+  emit: ['data'],
+};
+
+/** Actions whose `as` names a loop variable rather than the result */
+const LOOP_VARIABLE_ACTIONS = new Set(['batch', 'repeat']);
+
+type AstNode = Jexl.AstNode;
+
+export class ExpressionChecker {
+  private evaluator: ExpressionEvaluator;
+  private issues: ExpressionIssue[] = [];
+  private globals = new Map<string, ExprType>();
+  /** Functions declared in the spec's `functions` section */
+  private userFunctions = new Map<string, Signature>();
+  /** Expressions and templates parsed so far */
+  private expressions = new Map<string, AstNode>();
+  private templates = new Map<string, TemplateExpression[]>();
+
+  constructor(options: ExpressionCheckerOptions = {}) {
+    this.evaluator = options.evaluator ?? createEvaluator();
+  }
+
+  /**
+   * Check every expression in handlers, flows, components, jobs and
+   * user-defined functions
+   */
+  check(spec: FurlowSpec): ExpressionIssue[] {
+    this.issues = [];
+    this.expressions = new Map();
+    this.templates = new Map();
+    this.globals = new Map<string, ExprType>([
+      ['now', T.date],
+      ['random', T.number],
+      ['options', T.record()],
+      ['args', T.record()],
+      ['state', T.record()],
+      ['client', T.record()],
+      ['guildId', T.string],
+      ['channelId', T.string],
+      ['userId', T.string],
+      ['messageId', T.string],
+    ]);
+    for (const name of Object.keys(spec.state?.variables ?? {})) {
+      this.globals.set(name, T.any);
+    }
+
+    this.userFunctions = new Map();
+    for (const [name, definition] of Object.entries(spec.functions ?? {})) {
+      const params = definition.params ?? [];
+      this.userFunctions.set(name, {
+        params: params.map(() => T.any),
+        required: params.length,
+        returns: T.any,
+      });
+    }
+    for (const [name, definition] of Object.entries(spec.functions ?? {})) {
+      const path = `functions.${name}`;
+      if (FUNCTION_SIGNATURES[name] || this.evaluator.hasFunction(name)) {
+        this.report(
+          { path, source: name, expression: name, severity: 'error' },
+          `Function "${name}" already exists`
+        );
+      }
+      this.checkBare(definition.body, `${path}.body`, this.functionScope(name, definition.params));
+    }
+
+    spec.commands?.forEach((command, i) => {
+      const path = `commands[${i}]`;
+      const scope = this.commandScope(`/${command.name} command`, command.options);
+      this.checkValue(command.cooldown?.message, `${path}.cooldown.message`, scope);
+      this.checkActions(command.actions, `${path}.actions`, scope);
+
+      const subcommands = [
+        ...(command.subcommands ?? []).map((sub, j) => ({ sub, path: `${path}.subcommands[${j}]` })),
+        ...(command.subcommand_groups ?? []).flatMap((group, j) =>
+          group.subcommands.map((sub, k) => ({
+            sub,
+            path: `${path}.subcommand_groups[${j}].subcommands[${k}]`,
+          }))
+        ),
+      ];
+      for (const { sub, path: subPath } of subcommands) {
+        const subScope = this.commandScope(`/${command.name} ${sub.name} command`, [
+          ...(command.options ?? []),
+          ...(sub.options ?? []),
+        ]);
+        this.checkActions(sub.actions, `${subPath}.actions`, subScope);
+      }
+    });
+
+    spec.context_menus?.forEach((menu, i) => {
+      this.checkActions(menu.actions, `context_menus[${i}].actions`, this.openScope(`"${menu.name}" menu`));
+    });
+
+    spec.events?.forEach((handler, i) => {
+      const path = `events[${i}]`;
+      const scope = this.eventScope(handler.event);
+      this.checkCondition(handler.when, `${path}.when`, scope);
+      this.checkCondition(handler.condition, `${path}.condition`, scope);
+      this.checkValue(handler.idempotency_key, `${path}.idempotency_key`, scope);
+      this.checkActions(handler.actions, `${path}.actions`, scope);
+    });
+
+    spec.flows?.forEach((flow, i) => {
+      const path = `flows[${i}]`;
+      const scope = this.openScope(`flow "${flow.name}"`);
+      if (flow.parameters) {
+        const fields: Record<string, ExprType> = {};
+        for (const param of flow.parameters) {
+          fields[param.name] = PARAMETER_TYPES[param.type ?? 'any'] ?? T.any;
+        }
+        scope.vars.set('args', T.object('args', fields));
+      }
+      if (flow.durable) {
+        scope.vars.set('workflow', T.object('workflow', { id: T.string, flow: T.string }));
+      }
+      this.checkActions(flow.actions, `${path}.actions`, scope);
+      this.checkBare(flow.returns, `${path}.returns`, scope);
+    });
+
+    const components = spec.components;
+    for (const kind of ['buttons', 'selects', 'modals'] as const) {
+      for (const [name, component] of Object.entries(components?.[kind] ?? {})) {
+        const path = `components.${kind}.${name}`;
+        const { actions, when, ...rest } = component as { actions?: unknown; when?: unknown };
+        // Labels and the like render wherever the component is sent
+        this.checkValue(rest, path, this.openScope(`component "${name}"`));
+        const scope = this.eventScope(
+          kind === 'buttons' ? 'button_click' : kind === 'selects' ? 'select_menu' : 'modal_submit'
+        );
+        this.checkCondition(when, `${path}.when`, scope);
+        this.checkActions(actions, `${path}.actions`, scope);
+      }
+    }
+
+    spec.scheduler?.jobs?.forEach((job, i) => {
+      const path = `scheduler.jobs[${i}]`;
+      const scope = this.openScope(`job "${job.name}"`);
+      this.checkCondition(job.when, `${path}.when`, scope);
+      this.checkActions(job.actions, `${path}.actions`, scope);
+    });
+
+    return this.issues;
+  }
+
+  /**
+   * Check a single expression against the given variables. Variables not
+   * listed are reported as unknown.
+   */
+  checkExpression(expression: string, vars: Record<string, ExprType> = {}): ExpressionIssue[] {
+    this.issues = [];
+    this.checkBare(expression, '', {
+      where: 'this expression',
+      vars: new Map(Object.entries(vars)),
+      missing: new Set(),
+    });
+    return this.issues;
+  }
+
+  /**
+   * Expressions and templates parsed by the last check, in the form
+   * `ExpressionEvaluator.loadCompiled()` accepts
+   */
+  getCompiled(): CompiledExpressions {
+    return {
+      version: COMPILED_EXPRESSIONS_VERSION,
+      expressions: Object.fromEntries(this.expressions),
+      templates: Object.fromEntries(this.templates),
+    };
+  }
+
+  /**
+   * Scope where every context variable may be present
+   */
+  private openScope(where: string): Scope {
+    const vars = new Map(this.globals);
+    for (const [name, type] of Object.entries(CONTEXT_VARIABLES)) {
+      vars.set(name, type);
+    }
+    return { where, vars, missing: new Set() };
+  }
+
+  /**
+   * Scope of an event handler
+   */
+  private eventScope(event: string): Scope {
+    const available = EVENT_VARIABLES[event];
+    if (!available) {
+      return this.openScope(`"${event}" handlers`);
+    }
+    return this.restrictedScope(`${event} handlers`, available);
+  }
+
+  /**
+   * Scope of a slash command, with its options typed
+   */
+  private commandScope(where: string, options: CommandOption[] = []): Scope {
+    const scope = this.restrictedScope(where, INTERACTION_VARIABLES);
+    const fields: Record<string, ExprType> = {};
+    for (const option of options) {
+      fields[option.name] = OPTION_TYPES[option.type] ?? T.any;
+    }
+    scope.vars.set('options', T.object('options', fields));
+    scope.vars.set('args', T.object('args', fields));
+    return scope;
+  }
+
+  /**
+   * Scope of a user-defined function body: its parameters only
+   */
+  private functionScope(name: string, params: string[] = []): Scope {
+    const vars = new Map(params.map((param) => [param, T.any] as [string, ExprType]));
+    const missing = new Set([...this.globals.keys(), ...Object.keys(CONTEXT_VARIABLES)]);
+    return { where: `function "${name}"`, vars, missing };
+  }
+
+  private restrictedScope(where: string, available: string[]): Scope {
+    const vars = new Map(this.globals);
+    const missing = new Set<string>();
+    for (const [name, type] of Object.entries(CONTEXT_VARIABLES)) {
+      if (available.includes(name)) {
+        vars.set(name, type);
+      } else {
+        missing.add(name);
+      }
+    }
+    return { where, vars, missing };
+  }
+
+  /**
+   * Check a list of actions, in order, tracking the variables they bind
+   */
+  private checkActions(actions: unknown, path: string, scope: Scope): void {
+    if (!Array.isArray(actions)) return;
+    actions.forEach((action, i) => {
+      if (isActionObject(action)) {
+        this.checkAction(action, `${path}[${i}]`, scope);
+      }
+    });
+  }
+
+  private checkAction(action: Record<string, unknown>, path: string, scope: Scope): void {
+    const name = action.action as string;
+
+    for (const [key, value] of Object.entries(action)) {
+      const fieldPath = `${path}.${key}`;
+      if (key === 'action' || key === 'as' || isNestedActions(value)) {
+        continue;
+      }
+      if (CONDITION_KEYS.has(key)) {
+        this.checkCondition(value, fieldPath, scope);
+      } else if (EXPRESSION_FIELDS[name]?.includes(key)) {
+        this.checkBare(value, fieldPath, scope);
+      } else if (EXPRESSION_MAPS[name]?.includes(key) && isRecord(value)) {
+        for (const [entry, expr] of Object.entries(value)) {
+          this.checkBare(expr, `${fieldPath}.${entry}`, scope);
+        }
+      } else {
+        this.checkValue(value, fieldPath, scope);
+      }
+    }
+
+    const as = typeof action.as === 'string' ? action.as : undefined;
+    for (const [key, value] of Object.entries(action)) {
+      if (!isNestedActions(value)) continue;
+      const fieldPath = `${path}.${key}`;
+
+      const extra: Record<string, ExprType> = {};
+      if (name === 'batch' && key === 'each') {
+        extra[as ?? 'item'] = T.any;
+        extra[`${as ?? 'item'}_index`] = T.number;
+      } else if (name === 'repeat' && key === 'do') {
+        extra[as ?? 'i'] = T.number;
+      } else if (key === 'catch') {
+        extra.error = T.record({ message: T.string, name: T.string });
+        extra.errorMessage = T.string;
+      } else if (key === 'compensate') {
+        extra.result = resultType(name);
+      }
+
+      if (key === 'cases' && isRecord(value)) {
+        for (const [label, caseActions] of Object.entries(value)) {
+          this.checkNested(caseActions, `${fieldPath}.${label}`, scope, extra);
+        }
+      } else {
+        this.checkNested(value, fieldPath, scope, extra);
+      }
+    }
+
+    if (as && !LOOP_VARIABLE_ACTIONS.has(name)) {
+      scope.vars.set(as, resultType(name));
+    }
+  }
+
+  /**
+   * Check nested actions in a child scope. Variables they bind stay visible
+   * afterwards, as the runtime shares the context.
+   */
+  private checkNested(
+    actions: unknown,
+    path: string,
+    scope: Scope,
+    extra: Record<string, ExprType>
+  ): void {
+    const child: Scope = { ...scope, vars: new Map(scope.vars) };
+    for (const [name, type] of Object.entries(extra)) {
+      child.vars.set(name, type);
+    }
+    this.checkActions(actions, path, child);
+    for (const [name, type] of child.vars) {
+      if (!(name in extra) && !scope.vars.has(name)) {
+        scope.vars.set(name, type);
+      }
+    }
+  }
+
+  /**
+   * Check `${}` templates in a value and everything below it
+   */
+  private checkValue(value: unknown, path: string, scope: Scope): void {
+    if (typeof value === 'string') {
+      if (this.checkMarked(value, path, scope)) return;
+      const parts = scanTemplate(value);
+      if (parts.length > 0) {
+        this.templates.set(value, parts);
+      }
+      for (const part of parts) {
+        const expression = part.expression.trim();
+        if (expression) {
+          this.checkParsed(expression, value, path, scope);
+        }
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => this.checkValue(item, `${path}[${i}]`, scope));
+    } else if (isRecord(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        this.checkValue(item, `${path}.${key}`, scope);
+      }
+    }
+  }
+
+  /**
+   * Check a field evaluated as a bare expression. Templates are accepted
+   * too, as some of these fields are also written with `${}`.
+   */
+  private checkBare(value: unknown, path: string, scope: Scope): void {
+    if (typeof value !== 'string') return;
+    if (this.checkMarked(value, path, scope)) return;
+    if (this.evaluator.hasExpressions(value)) {
+      this.checkValue(value, path, scope);
+    } else if (value.trim()) {
+      this.checkParsed(value.trim(), value, path, scope);
+    }
+  }
+
+  /**
+   * Check a field written with `$expr:` or `$literal:`. Returns false for
+   * fields without a marker.
+   */
+  private checkMarked(value: string, path: string, scope: Scope): boolean {
+    const marker = parseMarker(value);
+    if (!marker) return false;
+    if (marker.kind === 'expr' && marker.text) {
+      this.checkParsed(marker.text, value, path, scope);
+    }
+    return true;
+  }
+
+  /**
+   * Check a condition: a bare expression or an all/any/not/expr object
+   */
+  private checkCondition(condition: unknown, path: string, scope: Scope): void {
+    if (typeof condition === 'string') {
+      if (this.evaluator.hasExpressions(condition)) {
+        let bare = condition;
+        for (const part of scanTemplate(condition).reverse()) {
+          bare = bare.slice(0, part.start) + part.expression + bare.slice(part.end);
+        }
+        this.report(
+          { path, source: condition, expression: condition, severity: 'error' },
+          `Conditions are bare expressions, without \${}. Use "${bare}"`
+        );
+        return;
+      }
+      this.checkBare(condition, path, scope);
+      return;
+    }
+    if (!isRecord(condition)) return;
+
+    this.checkBare(condition.expr, `${path}.expr`, scope);
+    for (const key of ['all', 'any'] as const) {
+      const list = condition[key];
+      if (Array.isArray(list)) {
+        list.forEach((sub, i) => this.checkCondition(sub, `${path}.${key}[${i}]`, scope));
+      }
+    }
+    this.checkCondition(condition.not, `${path}.not`, scope);
+    for (const key of ['eq', 'ne', 'gt', 'gte', 'lt', 'lte']) {
+      const operands = condition[key];
+      if (Array.isArray(operands)) {
+        this.checkBare(operands[0], `${path}.${key}[0]`, scope);
+      }
+    }
+  }
+
+  private checkParsed(expression: string, source: string, path: string, scope: Scope): void {
+    const issue = { path, source, expression };
+    let ast: AstNode | undefined;
+    try {
+      ast = this.evaluator.parse(expression);
+    } catch (err) {
+      const code = (err as { code?: unknown }).code;
+      this.report(
+        { ...issue, severity: 'error', code: typeof code === 'string' ? code : undefined },
+        err instanceof Error ? err.message : String(err)
+      );
+      return;
+    }
+    if (ast) {
+      this.expressions.set(expression, ast);
+      this.infer(ast, scope, (message, severity = 'error') => this.report({ ...issue, severity }, message));
+    }
+  }
+
+  private report(issue: Omit<ExpressionIssue, 'message'>, message: string): void {
+    this.issues.push({ ...issue, message });
+  }
+
+  /**
+   * Work out the type of an expression, reporting problems on the way
+   */
+  private infer(node: AstNode, scope: Scope, report: Reporter): ExprType {
+    const infer = (child: unknown): ExprType => this.infer(child as AstNode, scope, report);
+
+    switch (node.type) {
+      case 'Literal':
+        return typeOfValue(node.value);
+
+      case 'ArrayLiteral':
+        (node.value as AstNode[]).forEach(infer);
+        return T.array();
+
+      case 'ObjectLiteral': {
+        const fields: Record<string, ExprType> = {};
+        for (const [key, value] of Object.entries(node.value as Record<string, AstNode>)) {
+          fields[key] = infer(value);
+        }
+        return T.record(fields);
+      }
+
+      case 'Identifier': {
+        const name = node.value as string;
+        // Relative identifiers (`.name` in a filter) refer to array items
+        if (node.relative) return T.any;
+        if (!node.from) return this.lookupVariable(name, scope, report);
+        return this.property(infer(node.from), name, describeNode(node.from as AstNode), report);
+      }
+
+      case 'FilterExpression': {
+        const subject = infer(node.subject);
+        const key = infer(node.expr);
+        if (node.relative) {
+          return subject.kind === 'array' ? subject : T.any;
+        }
+        const expr = node.expr as AstNode;
+        if (expr.type === 'Literal' && typeof expr.value === 'string') {
+          return this.property(subject, expr.value, describeNode(node.subject as AstNode), report);
+        }
+        if (subject.kind === 'array' && isAssignable(key, T.number)) {
+          return subject.element;
+        }
+        return T.any;
+      }
+
+      case 'UnaryExpression':
+        infer(node.right);
+        return node.operator === '!' ? T.boolean : T.any;
+
+      case 'BinaryExpression':
+        return this.inferBinary(node.operator as string, infer(node.left), infer(node.right), report);
+
+      case 'ConditionalExpression': {
+        const test = infer(node.test);
+        const consequent = node.consequent ? infer(node.consequent) : test;
+        const alternate = infer(node.alternate);
+        return consequent.kind === alternate.kind ? consequent : T.any;
+      }
+
+      case 'FunctionCall':
+        return this.inferCall(node, (node.args as AstNode[]).map(infer), report);
+
+      default:
+        return T.any;
+    }
+  }
+
+  private lookupVariable(name: string, scope: Scope, report: Reporter): ExprType {
+    const type = scope.vars.get(name);
+    if (type) return type;
+
+    if (scope.missing.has(name)) {
+      report(`"${name}" is not available in ${scope.where}`);
+    } else {
+      report(`Unknown variable "${name}"${suggest(name, [...scope.vars.keys()])}`, 'warning');
+    }
+    return T.any;
+  }
+
+  private property(type: ExprType, name: string, owner: string | undefined, report: Reporter): ExprType {
+    switch (type.kind) {
+      case 'object': {
+        const field = type.fields[name];
+        if (field) return field;
+        if (!type.open) {
+          report(`Unknown property "${name}" on ${owner ?? describeType(type)}${suggest(name, Object.keys(type.fields))}`);
+        }
+        return T.any;
+      }
+      case 'array':
+      case 'string':
+        return name === 'length' ? T.number : T.any;
+      default:
+        return T.any;
+    }
+  }
+
+  private inferBinary(operator: string, left: ExprType, right: ExprType, report: Reporter): ExprType {
+    switch (operator) {
+      case '+':
+        if (left.kind === 'string' || right.kind === 'string') return T.string;
+        if (left.kind === 'number' && right.kind === 'number') return T.number;
+        return T.any;
+
+      case '-':
+      case '*':
+      case '/':
+      case '//':
+      case '%':
+      case '^':
+        for (const operand of [left, right]) {
+          // Dates subtract to milliseconds
+          const numeric = isAssignable(operand, T.number) || (operator === '-' && operand.kind === 'date');
+          if (!numeric) {
+            report(`Operator "${operator}" needs numbers, got ${describeType(operand)}`);
+          }
+        }
+        return T.number;
+
+      case '==':
+      case '!=':
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+      case 'in':
+        return T.boolean;
+
+      case '&&':
+      case '||':
+        return left.kind === right.kind ? left : T.any;
+
+      default:
+        return T.any;
+    }
+  }
+
+  private inferCall(node: AstNode, args: ExprType[], report: Reporter): ExprType {
+    const name = node.name as string;
+    const isTransform = node.pool === 'transforms';
+    const label = isTransform ? `|${name}` : `${name}()`;
+
+    const exists = isTransform
+      ? this.evaluator.hasTransform(name)
+      : this.evaluator.hasFunction(name) || this.userFunctions.has(name);
+    if (!exists) {
+      const known = isTransform
+        ? Object.keys(TRANSFORM_SIGNATURES)
+        : [...Object.keys(FUNCTION_SIGNATURES), ...this.userFunctions.keys()];
+      report(`Unknown ${isTransform ? 'transform' : 'function'} "${name}"${suggest(name, known)}`);
+      return T.any;
+    }
+
+    const signature: Signature | undefined = isTransform
+      ? TRANSFORM_SIGNATURES[name]
+      : FUNCTION_SIGNATURES[name] ?? this.userFunctions.get(name);
+    if (!signature) return T.any;
+
+    // The piped value is not counted as an argument of a transform
+    const offset = isTransform ? 1 : 0;
+    const count = args.length - offset;
+    const min = signature.required - offset;
+    const max = signature.rest ? Infinity : signature.params.length - offset;
+    if (count < min || count > max) {
+      report(`${label} takes ${describeArity(min, max)}, got ${count}`);
+    }
+
+    args.forEach((actual, i) => {
+      const expected = signature.params[i] ?? signature.rest;
+      if (!expected || isAssignable(actual, expected)) return;
+      const what = isTransform && i === 0 ? 'value' : `argument ${i + 1 - offset}`;
+      report(`${label} expects ${describeType(expected)} for ${what}, got ${describeType(actual)}`);
+    });
+
+    return signature.returns;
+  }
+}
+
+type Reporter = (message: string, severity?: ExpressionIssue['severity']) => void;
+
+/**
+ * Create an expression checker
+ */
+export function createExpressionChecker(options?: ExpressionCheckerOptions): ExpressionChecker {
+  return new ExpressionChecker(options);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isActionObject(value: unknown): value is Record<string, unknown> {
+  return isRecord(value) && typeof value.action === 'string';
+}
+
+/**
+ * Check whether a field holds nested actions (a list, or flow_switch cases)
+ */
+function isNestedActions(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0 && value.every(isActionObject);
+  }
+  return (
+    isRecord(value) &&
+    Object.keys(value).length > 0 &&
+    Object.values(value).every((item) => Array.isArray(item) && item.every(isActionObject))
+  );
+}
+
+function resultType(action: string): ExprType {
+  return (RESULT_SHAPES as Record<string, ExprType | undefined>)[action] ?? T.any;
+}
+
+/**
+ * Write out the path an identifier chain reads, e.g. `member.user`
+ */
+function describeNode(node: AstNode): string | undefined {
+  if (node.type !== 'Identifier' || node.relative) return undefined;
+  if (!node.from) return String(node.value);
+  const parent = describeNode(node.from as AstNode);
+  return parent ? `${parent}.${String(node.value)}` : undefined;
+}
+
+function describeArity(min: number, max: number): string {
+  if (max === Infinity) return `at least ${min} argument${min === 1 ? '' : 's'}`;
+  if (min === max) return `${min} argument${min === 1 ? '' : 's'}`;
+  return `${min}-${max} arguments`;
+}
+
+/**
+ * Suggest the closest known name, for typos
+ */
+function suggest(name: string, candidates: string[]): string {
+  const limit = Math.max(1, Math.floor(name.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const lower = candidate.toLowerCase();
+    // Abbreviations like `nick` for `nickname` count as one edit
+    const distance =
+      name.length >= 3 && lower.startsWith(name.toLowerCase())
+        ? 1
+        : editDistance(name.toLowerCase(), lower);
+    if (distance <= limit && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best ? ` (did you mean "${best}"?)` : '';
+}
+
+/**
+ * Edit distance, counting swapped neighbours as one edit
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i]![j] = Math.min(d[i - 1]![j]! + 1, d[i]![j - 1]! + 1, d[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i]![j] = Math.min(d[i]![j]!, d[i - 2]![j - 2]! + 1);
+      }
+    }
+  }
+  return d[a.length]![b.length]!;
+}
@@ -0,0 +1,58 @@
+/**
+ * Ahead-of-time compilation - parses every expression and template in a
+ * spec into an artifact the evaluator loads at startup, so they are never
+ * parsed at runtime or evicted from its cache
+ */
+
+import type Jexl from 'jexl';
+import type { FurlowSpec } from '@furlow/schema';
+import { createExpressionChecker, type ExpressionCheckerOptions, type ExpressionIssue } from './checker.js';
+import type { TemplateExpression } from './template.js';
+
+/** Format version of compiled expressions; older artifacts are rejected */
+export const COMPILED_EXPRESSIONS_VERSION = 1;
+
+/** Parsed expressions and templates, serializable as JSON */
+export interface CompiledExpressions {
+  version: number;
+  /** Syntax trees by expression source */
+  expressions: Record<string, Jexl.AstNode>;
+  /** Expressions found in each template */
+  templates: Record<string, TemplateExpression[]>;
+}
+
+export interface CompileResult {
+  compiled: CompiledExpressions;
+  /** Expressions that could not be compiled */
+  errors: ExpressionIssue[];
+}
+
+/**
+ * Compile every expression and template in handlers, flows, components,
+ * jobs and user-defined functions. Pass the evaluator the bot uses, so
+ * limits such as call depth are checked the same way.
+ */
+export function compileSpecExpressions(spec: FurlowSpec, options: ExpressionCheckerOptions = {}): CompileResult {
+  const checker = createExpressionChecker(options);
+  const issues = checker.check(spec);
+  return {
+    compiled: checker.getCompiled(),
+    errors: issues.filter((issue) => issue.code !== undefined),
+  };
+}
+
+/**
+ * Check that a value read from disk is a compiled expressions artifact
+ * this version can load
+ */
+export function isCompiledExpressions(value: unknown): value is CompiledExpressions {
+  if (value === null || typeof value !== 'object') return false;
+  const { version, expressions, templates } = value as Record<string, unknown>;
+  return (
+    version === COMPILED_EXPRESSIONS_VERSION &&
+    expressions !== null &&
+    typeof expressions === 'object' &&
+    templates !== null &&
+    typeof templates === 'object'
+  );
+}
@@ -0,0 +1,582 @@
+/**
+ * Timezone-aware date helpers for the expression library. Timezones are
+ * IANA names such as "Europe/Berlin"; wall clock times are computed with
+ * Intl, so no timezone data is bundled.
+ */
+
+/** Calendar and clock fields of a moment in some timezone */
+export interface WallTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+export type DateInput = Date | ZonedDate | number | string | null | undefined;
+
+export type DateUnit = 'millisecond' | 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+const UNIT_ALIASES: Record<string, DateUnit> = {
+  ms: 'millisecond',
+  millisecond: 'millisecond',
+  milliseconds: 'millisecond',
+  s: 'second',
+  second: 'second',
+  seconds: 'second',
+  m: 'minute',
+  minute: 'minute',
+  minutes: 'minute',
+  h: 'hour',
+  hour: 'hour',
+  hours: 'hour',
+  d: 'day',
+  day: 'day',
+  days: 'day',
+  w: 'week',
+  week: 'week',
+  weeks: 'week',
+  M: 'month',
+  month: 'month',
+  months: 'month',
+  y: 'year',
+  year: 'year',
+  years: 'year',
+};
+
+const UNIT_MS: Partial<Record<DateUnit, number>> = {
+  millisecond: 1,
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Units startOf() truncates to, smallest first */
+const TRUNCATE_ORDER: DateUnit[] = ['millisecond', 'second', 'minute', 'hour', 'day', 'month', 'year'];
+
+/** Most days addBusinessDays() will step through */
+const MAX_BUSINESS_DAYS = 1_000_000;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * A moment seen from a timezone. Compares and subtracts like a Date and
+ * prints as an ISO string with the zone's offset.
+ */
+export class ZonedDate {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+  readonly hour: number;
+  readonly minute: number;
+  readonly second: number;
+  readonly millisecond: number;
+  /** 0 = Sunday ... 6 = Saturday */
+  readonly weekday: number;
+  /** Offset from UTC in minutes */
+  readonly offset: number;
+  /** Unix timestamp in seconds, as used by Discord timestamps */
+  readonly timestamp: number;
+  readonly iso: string;
+
+  constructor(
+    readonly date: Date,
+    readonly timezone: string
+  ) {
+    const wall = wallTime(date, timezone);
+    this.year = wall.year;
+    this.month = wall.month;
+    this.day = wall.day;
+    this.hour = wall.hour;
+    this.minute = wall.minute;
+    this.second = wall.second;
+    this.millisecond = wall.millisecond;
+    this.weekday = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+    this.offset = zoneOffset(date, timezone);
+    this.timestamp = Math.floor(date.getTime() / 1000);
+    this.iso = formatDate(date, 'YYYY-MM-DD[T]HH:mm:ss.SSSZ', timezone);
+  }
+
+  valueOf(): number {
+    return this.date.getTime();
+  }
+
+  toString(): string {
+    return this.iso;
+  }
+
+  toJSON(): string {
+    return this.iso;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timezone: string): Intl.DateTimeFormat {
+  let cached = formatters.get(timezone);
+  if (!cached) {
+    try {
+      cached = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      throw new Error(`Unknown timezone "${timezone}"`);
+    }
+    formatters.set(timezone, cached);
+  }
+  return cached;
+}
+
+/**
+ * Check whether a string names a timezone
+ */
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || timezone === '') return false;
+  try {
+    formatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert an expression value to a Date. Numbers are milliseconds, as
+ * with date(). Returns undefined for missing or invalid values.
+ */
+export function toDate(value: DateInput): Date | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const date = value instanceof ZonedDate
+    ? value.date
+    : value instanceof Date
+      ? value
+      : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Normalize a unit name such as "days" or "h"
+ */
+export function toUnit(unit: string): DateUnit {
+  const normalized = UNIT_ALIASES[unit] ?? UNIT_ALIASES[unit?.toLowerCase?.()];
+  if (!normalized) {
+    throw new Error(`Unknown date unit "${unit}"`);
+  }
+  return normalized;
+}
+
+/**
+ * Calendar and clock fields of a moment in a timezone
+ */
+export function wallTime(date: Date, timezone: string): WallTime {
+  const fields: Record<string, number> = {};
+  for (const part of formatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  }
+  return {
+    year: fields.year!,
+    month: fields.month!,
+    day: fields.day!,
+    hour: fields.hour!,
+    minute: fields.minute!,
+    second: fields.second!,
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a moment, in minutes
+ */
+export function zoneOffset(date: Date, timezone: string): number {
+  const wall = wallTime(date, timezone);
+  return Math.round((wallTimeAsUtc(wall) - date.getTime()) / 60000);
+}
+
+/**
+ * The moment a wall clock in a timezone shows the given time. A time
+ * skipped by a DST change is moved forward by the gap.
+ */
+export function fromWallTime(wall: WallTime, timezone: string): Date {
+  const utc = wallTimeAsUtc(wall);
+  const first = zoneOffset(new Date(utc), timezone);
+  const guess = utc - first * 60000;
+  const second = zoneOffset(new Date(guess), timezone);
+  return new Date(second === first ? guess : utc - second * 60000);
+}
+
+function wallTimeAsUtc(wall: WallTime): number {
+  const date = new Date(0);
+  date.setUTCFullYear(wall.year, wall.month - 1, wall.day);
+  date.setUTCHours(wall.hour, wall.minute, wall.second, wall.millisecond);
+  return date.getTime();
+}
+
+/**
+ * Start of the minute, hour, day, week (Monday), month or year containing
+ * a moment, in a timezone
+ */
+export function startOf(date: Date, unit: DateUnit, timezone: string): Date {
+  const wall = wallTime(date, timezone);
+  if (unit === 'week') {
+    const weekday = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+    return addCalendarDays(
+      { ...wall, hour: 0, minute: 0, second: 0, millisecond: 0 },
+      -((weekday + 6) % 7),
+      timezone
+    );
+  }
+
+  // Reset every field smaller than the unit
+  const level = TRUNCATE_ORDER.indexOf(unit);
+  const reset: Array<[keyof WallTime, number]> = [
+    ['millisecond', 0],
+    ['second', 0],
+    ['minute', 0],
+    ['hour', 0],
+    ['day', 1],
+    ['month', 1],
+  ];
+  for (const [field, value] of reset.slice(0, level)) {
+    wall[field] = value;
+  }
+  return fromWallTime(wall, timezone);
+}
+
+/**
+ * Last millisecond of the unit containing a moment, in a timezone
+ */
+export function endOf(date: Date, unit: DateUnit, timezone: string): Date {
+  const start = startOf(date, unit, timezone);
+  return new Date(addUnits(start, 1, unit, timezone).getTime() - 1);
+}
+
+/**
+ * Add whole units to a moment. Days and larger keep the wall clock time
+ * in the timezone across DST changes.
+ */
+export function addUnits(date: Date, amount: number, unit: DateUnit, timezone: string): Date {
+  if (unit === 'day' || unit === 'week') {
+    return addCalendarDays(wallTime(date, timezone), unit === 'week' ? amount * 7 : amount, timezone);
+  }
+  if (unit === 'month' || unit === 'year') {
+    const wall = wallTime(date, timezone);
+    const months = wall.month - 1 + (unit === 'year' ? amount * 12 : amount);
+    const year = wall.year + Math.floor(months / 12);
+    const month = (((months % 12) + 12) % 12) + 1;
+    // Clamp to the end of shorter months, e.g. Jan 31 + 1 month = Feb 28
+    const day = Math.min(wall.day, daysInMonth(year, month));
+    return fromWallTime({ ...wall, year, month, day }, timezone);
+  }
+  return new Date(date.getTime() + amount * UNIT_MS[unit]!);
+}
+
+/**
+ * Whole units from `b` to `a`, truncated towards zero. Months and years
+ * count calendar months in the timezone; smaller units are elapsed time.
+ */
+export function diff(a: Date, b: Date, unit: DateUnit, timezone: string): number {
+  if (unit !== 'month' && unit !== 'year') {
+    return Math.trunc((a.getTime() - b.getTime()) / UNIT_MS[unit]!);
+  }
+
+  let months = monthsBetween(b, a, timezone);
+  // Step back while whole months overshoot
+  const sign = a.getTime() >= b.getTime() ? 1 : -1;
+  while (months !== 0 && sign * (addUnits(b, months, 'month', timezone).getTime() - a.getTime()) > 0) {
+    months -= sign;
+  }
+  return unit === 'year' ? Math.trunc(months / 12) : months;
+}
+
+function monthsBetween(from: Date, to: Date, timezone: string): number {
+  const a = wallTime(from, timezone);
+  const b = wallTime(to, timezone);
+  return (b.year - a.year) * 12 + (b.month - a.month);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function addCalendarDays(wall: WallTime, days: number, timezone: string): Date {
+  const shifted = new Date(wallTimeAsUtc(wall) + days * DAY_MS);
+  return fromWallTime(
+    {
+      ...wall,
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate(),
+    },
+    timezone
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Business days
+// ---------------------------------------------------------------------------
+
+/** Days since 1970-01-01 of the calendar date a moment falls on in a timezone */
+function dayNumber(date: Date, timezone: string): number {
+  const wall = wallTime(date, timezone);
+  return Math.round(Date.UTC(wall.year, wall.month - 1, wall.day) / DAY_MS);
+}
+
+function isWeekday(day: number): boolean {
+  // 1970-01-01 was a Thursday
+  const weekday = (((day + 4) % 7) + 7) % 7;
+  return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * Day numbers of holidays given as "YYYY-MM-DD" strings or dates
+ */
+function holidayDays(holidays: unknown, timezone: string): Set<number> {
+  const days = new Set<number>();
+  if (!Array.isArray(holidays)) return days;
+  for (const holiday of holidays) {
+    if (typeof holiday === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(holiday)) {
+      days.add(Math.round(Date.parse(`${holiday}T00:00:00Z`) / DAY_MS));
+    } else {
+      const date = toDate(holiday as DateInput);
+      if (date) days.add(dayNumber(date, timezone));
+    }
+  }
+  return days;
+}
+
+/**
+ * Whether a moment falls on a weekday that is not a holiday
+ */
+export function isBusinessDay(date: Date, timezone: string, holidays?: unknown): boolean {
+  const day = dayNumber(date, timezone);
+  return isWeekday(day) && !holidayDays(holidays, timezone).has(day);
+}
+
+/**
+ * Move a moment by a number of business days, keeping its wall clock time
+ */
+export function addBusinessDays(date: Date, amount: number, timezone: string, holidays?: unknown): Date {
+  const count = Math.trunc(amount);
+  if (Math.abs(count) > MAX_BUSINESS_DAYS) {
+    throw new Error(`addBusinessDays() can move at most ${MAX_BUSINESS_DAYS} days`);
+  }
+
+  const skip = holidayDays(holidays, timezone);
+  const step = count < 0 ? -1 : 1;
+  let day = 0;
+  const start = dayNumber(date, timezone);
+  for (let left = Math.abs(count); left > 0; ) {
+    day += step;
+    if (isWeekday(start + day) && !skip.has(start + day)) left--;
+  }
+  return addCalendarDays(wallTime(date, timezone), day, timezone);
+}
+
+/**
+ * Business days after the date of `from` up to and including the date of
+ * `to`; negative when `to` is earlier
+ */
+export function businessDaysBetween(from: Date, to: Date, timezone: string, holidays?: unknown): number {
+  const a = dayNumber(from, timezone);
+  const b = dayNumber(to, timezone);
+  if (b < a) return -businessDaysBetween(to, from, timezone, holidays);
+
+  let count = weekdaysBefore(b + 1) - weekdaysBefore(a + 1);
+  for (const holiday of holidayDays(holidays, timezone)) {
+    if (holiday > a && holiday <= b && isWeekday(holiday)) count--;
+  }
+  return count;
+}
+
+/** Weekdays before a day number, counted from the Monday 1969-12-29 */
+function weekdaysBefore(day: number): number {
+  const offset = day + 3;
+  const weeks = Math.floor(offset / 7);
+  return weeks * 5 + Math.min(offset - weeks * 7, 5);
+}
+
+// ---------------------------------------------------------------------------
+// Formatting and parsing
+// ---------------------------------------------------------------------------
+
+const TOKEN_PATTERN = /\[[^\]]*\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|A|a|Z/g;
+
+/** Fields a format token is written from */
+interface FormatFields extends WallTime {
+  weekday: number;
+  offset: number;
+}
+
+function pad(n: number, width = 2): string {
+  return String(Math.abs(n)).padStart(width, '0');
+}
+
+const FORMAT_TOKENS: Record<string, (f: FormatFields) => string> = {
+  YYYY: (f) => pad(f.year, 4),
+  YY: (f) => pad(f.year % 100),
+  MMMM: (f) => MONTH_NAMES[f.month - 1]!,
+  MMM: (f) => MONTH_NAMES[f.month - 1]!.slice(0, 3),
+  MM: (f) => pad(f.month),
+  M: (f) => String(f.month),
+  DD: (f) => pad(f.day),
+  D: (f) => String(f.day),
+  dddd: (f) => WEEKDAY_NAMES[f.weekday]!,
+  ddd: (f) => WEEKDAY_NAMES[f.weekday]!.slice(0, 3),
+  HH: (f) => pad(f.hour),
+  H: (f) => String(f.hour),
+  hh: (f) => pad(f.hour % 12 || 12),
+  h: (f) => String(f.hour % 12 || 12),
+  mm: (f) => pad(f.minute),
+  m: (f) => String(f.minute),
+  ss: (f) => pad(f.second),
+  s: (f) => String(f.second),
+  SSS: (f) => pad(f.millisecond, 3),
+  A: (f) => (f.hour < 12 ? 'AM' : 'PM'),
+  a: (f) => (f.hour < 12 ? 'am' : 'pm'),
+  Z: (f) => `${f.offset < 0 ? '-' : '+'}${pad(Math.trunc(f.offset / 60))}:${pad(f.offset % 60)}`,
+};
+
+/** Numeric tokens parseDate() reads, with the field each one sets */
+const PARSE_TOKENS: Record<string, { pattern: string; set: (wall: WallTime, n: number) => void }> = {
+  YYYY: { pattern: '(\\d{4})', set: (w, n) => (w.year = n) },
+  YY: { pattern: '(\\d{2})', set: (w, n) => (w.year = 2000 + n) },
+  MM: { pattern: '(\\d{2})', set: (w, n) => (w.month = n) },
+  M: { pattern: '(\\d{1,2})', set: (w, n) => (w.month = n) },
+  DD: { pattern: '(\\d{2})', set: (w, n) => (w.day = n) },
+  D: { pattern: '(\\d{1,2})', set: (w, n) => (w.day = n) },
+  HH: { pattern: '(\\d{2})', set: (w, n) => (w.hour = n) },
+  H: { pattern: '(\\d{1,2})', set: (w, n) => (w.hour = n) },
+  hh: { pattern: '(\\d{2})', set: (w, n) => (w.hour = n) },
+  h: { pattern: '(\\d{1,2})', set: (w, n) => (w.hour = n) },
+  mm: { pattern: '(\\d{2})', set: (w, n) => (w.minute = n) },
+  m: { pattern: '(\\d{1,2})', set: (w, n) => (w.minute = n) },
+  ss: { pattern: '(\\d{2})', set: (w, n) => (w.second = n) },
+  s: { pattern: '(\\d{1,2})', set: (w, n) => (w.second = n) },
+  SSS: { pattern: '(\\d{3})', set: (w, n) => (w.millisecond = n) },
+};
+
+const MERIDIEM_PATTERN = '(AM|PM|am|pm)';
+
+const ISO_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Format a moment in a timezone. Tokens: YYYY YY MMMM MMM MM M DD D dddd
+ * ddd HH H hh h mm m ss s SSS A a Z; text in [brackets] is kept as is.
+ */
+export function formatDate(date: Date, format: string, timezone: string): string {
+  const wall = wallTime(date, timezone);
+  const fields: FormatFields = {
+    ...wall,
+    weekday: new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay(),
+    offset: Math.round((wallTimeAsUtc(wall) - date.getTime()) / 60000),
+  };
+  return format.replace(TOKEN_PATTERN, (token) =>
+    token.startsWith('[') ? token.slice(1, -1) : FORMAT_TOKENS[token]!(fields)
+  );
+}
+
+/**
+ * Parse a date string. Without a format, ISO 8601 dates are accepted; a
+ * time without an offset is read as wall clock time in the timezone.
+ * With a format, the numeric tokens of formatDate() and A/a are read.
+ * Returns undefined when the string does not match or names an
+ * impossible date.
+ */
+export function parseDate(text: string, format: string | undefined, timezone: string): Date | undefined {
+  if (typeof text !== 'string') return undefined;
+  const input = text.trim();
+
+  if (!format) {
+    const match = input.match(ISO_PATTERN);
+    if (!match) return undefined;
+    const [, year, month, day, hour = '0', minute = '0', second = '0', ms = '0', offset] = match;
+    const wall = {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: Number(second),
+      millisecond: Number(ms.padEnd(3, '0')),
+    };
+    if (!isValidWallTime(wall)) return undefined;
+    if (offset) {
+      const date = new Date(input.replace(' ', 'T'));
+      return isNaN(date.getTime()) ? undefined : date;
+    }
+    return fromWallTime(wall, timezone);
+  }
+
+  // Build a pattern with one group per token
+  const tokens: string[] = [];
+  let source = '';
+  let last = 0;
+  for (const match of format.matchAll(TOKEN_PATTERN)) {
+    const token = match[0];
+    source += escapeRegex(format.slice(last, match.index));
+    if (token.startsWith('[')) {
+      source += escapeRegex(token.slice(1, -1));
+    } else if (token === 'A' || token === 'a') {
+      source += MERIDIEM_PATTERN;
+      tokens.push(token);
+    } else if (PARSE_TOKENS[token]) {
+      source += PARSE_TOKENS[token]!.pattern;
+      tokens.push(token);
+    } else {
+      throw new Error(`parseDate() does not support the "${token}" token`);
+    }
+    last = match.index! + token.length;
+  }
+  source += escapeRegex(format.slice(last));
+
+  const match = input.match(new RegExp(`^${source}$`));
+  if (!match) return undefined;
+
+  const wall: WallTime = { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  let meridiem: string | undefined;
+  tokens.forEach((token, i) => {
+    const value = match[i + 1]!;
+    if (token === 'A' || token === 'a') {
+      meridiem = value.toUpperCase();
+    } else {
+      PARSE_TOKENS[token]!.set(wall, Number(value));
+    }
+  });
+  if (meridiem) {
+    if (wall.hour < 1 || wall.hour > 12) return undefined;
+    wall.hour = (wall.hour % 12) + (meridiem === 'PM' ? 12 : 0);
+  }
+
+  return isValidWallTime(wall) ? fromWallTime(wall, timezone) : undefined;
+}
+
+function isValidWallTime(wall: WallTime): boolean {
+  return (
+    wall.month >= 1 && wall.month <= 12 &&
+    wall.day >= 1 && wall.day <= daysInMonth(wall.year, wall.month) &&
+    wall.hour <= 23 && wall.minute <= 59 && wall.second <= 59
+  );
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -2,10 +2,24 @@
  * Jexl-based expression evaluator with LRU caching
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import Jexl from 'jexl';
-import { ExpressionSyntaxError, UndefinedVariableError } from '../errors/index.js';
+import type { LimitsConfig } from '@furlow/schema';
+import {
+  CallBudgetExceededError,
+  ExpressionSyntaxError,
+  ExpressionTimeoutError,
+  FurlowError,
+  UndefinedVariableError,
+} from '../errors/index.js';
 import { registerFunctions } from './functions.js';
 import { registerTransforms } from './transforms.js';
+import { DEFAULT_SANDBOX_LIMITS, Sandbox, callDepth } from './sandbox.js';
+import { expressionAst, expressionFromAst, functionNames, transformNames } from './jexl-internals.js';
+import { parseMarker, scanTemplate, type TemplateExpression } from './template.js';
+import { DEFAULT_LOCALE, contextLocale, type LocaleResolver } from './intl.js';
+import type { CompiledExpressions } from './compiler.js';
+import { parseDuration } from '../scheduler/timer.js';
 import type { StateManager } from '../state/manager.js';
 
 export interface EvaluatorOptions {
@@ -15,18 +29,60 @@ export interface EvaluatorOptions {
   allowUndefined?: boolean;
   /** Maximum number of cached compiled expressions (default: 1000) */
   cacheSize?: number;
+  /** Maximum async function calls per evaluation, cached results excluded (default: 10) */
+  callBudget?: number;
+  /** Maximum length of an array built by a function or transform (default: 10000) */
+  maxArrayLength?: number;
+  /** Maximum length of a string built by a function or transform (default: 100000) */
+  maxStringLength?: number;
+  /** Maximum nesting of function calls and transforms in one expression (default: 32) */
+  maxCallDepth?: number;
 }
 
 const DEFAULT_OPTIONS: Required<EvaluatorOptions> = {
   timeout: 5000,
   allowUndefined: false,
   cacheSize: 1000,
+  callBudget: 10,
+  ...DEFAULT_SANDBOX_LIMITS,
 };
 
+/**
+ * Async expression function. Receives the context of the evaluation it
+ * is called from, followed by the call's arguments.
+ */
+export type AsyncExpressionFunction = (
+  context: Record<string, unknown>,
+  ...args: unknown[]
+) => Promise<unknown>;
+
+export interface AsyncFunctionOptions {
+  /**
+   * How long results are shared between evaluations, in ms. With 0 (the
+   * default) results are only reused within the same evaluation.
+   */
+  ttl?: number;
+}
+
+/** An evaluation in progress, shared with the evaluations nested in it */
+interface EvaluationFrame {
+  context: Record<string, unknown>;
+  /** Async function calls made so far */
+  calls: number;
+  /** Results of async function calls made so far */
+  results: Map<string, Promise<unknown>>;
+  /** Whether async functions are refused, e.g. in cached user function bodies */
+  isolated: boolean;
+  /** Whether this is a synchronous evaluation, where async functions are refused */
+  sync: boolean;
+  /** Epoch ms by which the evaluation must finish */
+  deadline: number;
+}
+
 /**
  * Simple LRU cache for compiled expressions
  */
-class LRUCache<K, V> {
+export class LRUCache<K, V> {
   private cache: Map<K, V> = new Map();
   private maxSize: number;
 
@@ -59,6 +115,10 @@ class LRUCache<K, V> {
     this.cache.set(key, value);
   }
 
+  delete(key: K): void {
+    this.cache.delete(key);
+  }
+
   get size(): number {
     return this.cache.size;
   }
@@ -75,11 +135,36 @@ export function createEvaluator(options: EvaluatorOptions = {}): ExpressionEvalu
   return new ExpressionEvaluator({ ...DEFAULT_OPTIONS, ...options });
 }
 
+/**
+ * Evaluator options from the spec's `limits` section
+ */
+export function evaluatorOptionsFromLimits(limits: LimitsConfig | undefined): EvaluatorOptions {
+  const config = limits?.expressions;
+  if (!config) return {};
+
+  const options: EvaluatorOptions = {};
+  if (config.timeout !== undefined) {
+    options.timeout = typeof config.timeout === 'string' ? parseDuration(config.timeout) : config.timeout;
+  }
+  if (config.max_array_length !== undefined) options.maxArrayLength = config.max_array_length;
+  if (config.max_string_length !== undefined) options.maxStringLength = config.max_string_length;
+  if (config.max_call_depth !== undefined) options.maxCallDepth = config.max_call_depth;
+  if (config.max_lookups !== undefined) options.callBudget = config.max_lookups;
+  return options;
+}
+
 export class ExpressionEvaluator {
   private jexl: Jexl.Jexl;
   private options: Required<EvaluatorOptions>;
   private expressionCache: LRUCache<string, Jexl.Expression>;
   private templateCache: LRUCache<string, { pattern: RegExp; matches: string[] }>;
+  private resultCache: LRUCache<string, { value: Promise<unknown>; expiresAt: number }>;
+  /** Ahead-of-time compiled expressions and templates, never evicted */
+  private compiled = new Map<string, Jexl.Expression>();
+  private compiledTemplates = new Map<string, TemplateExpression[]>();
+  private frames = new AsyncLocalStorage<EvaluationFrame>();
+  private localeResolver: LocaleResolver = contextLocale;
+  private sandbox: Sandbox;
 
   // Stats for monitoring
   private stats = {
@@ -93,16 +178,34 @@ export class ExpressionEvaluator {
     this.jexl = new Jexl.Jexl();
     this.expressionCache = new LRUCache(options.cacheSize);
     this.templateCache = new LRUCache(Math.floor(options.cacheSize / 2));
+    this.resultCache = new LRUCache(Math.floor(options.cacheSize / 2));
+
+    // Functions and transforms check the deadline of the evaluation in progress
+    this.sandbox = new Sandbox(
+      {
+        maxArrayLength: options.maxArrayLength,
+        maxStringLength: options.maxStringLength,
+        maxCallDepth: options.maxCallDepth,
+      },
+      { deadline: () => this.frames.getStore()?.deadline, timeout: options.timeout }
+    );
 
     // Register built-in functions and transforms
-    registerFunctions(this.jexl);
-    registerTransforms(this.jexl);
+    registerFunctions(this.jexl, this.sandbox, () => this.getLocale());
+    registerTransforms(this.jexl, this.sandbox, () => this.getLocale());
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): { evaluations: number; cacheHits: number; cacheMisses: number; hitRate: number; cacheSize: number } {
+  getStats(): {
+    evaluations: number;
+    cacheHits: number;
+    cacheMisses: number;
+    hitRate: number;
+    cacheSize: number;
+    compiled: number;
+  } {
     const hitRate = this.stats.evaluations > 0
       ? (this.stats.cacheHits / this.stats.evaluations) * 100
       : 0;
@@ -110,15 +213,17 @@ export class ExpressionEvaluator {
       ...this.stats,
       hitRate: Math.round(hitRate * 100) / 100,
       cacheSize: this.expressionCache.size,
+      compiled: this.compiled.size,
     };
   }
 
   /**
-   * Clear all caches
+   * Clear all caches. Compiled expressions loaded with loadCompiled() are kept.
    */
   clearCache(): void {
     this.expressionCache.clear();
     this.templateCache.clear();
+    this.resultCache.clear();
     this.stats = { evaluations: 0, cacheHits: 0, cacheMisses: 0 };
   }
 
@@ -126,29 +231,139 @@ export class ExpressionEvaluator {
    * Get a compiled expression from cache or compile it
    */
   private getCompiledExpression(expression: string): Jexl.Expression {
-    let compiled = this.expressionCache.get(expression);
+    let compiled = this.compiled.get(expression) ?? this.expressionCache.get(expression);
     if (compiled) {
       this.stats.cacheHits++;
     } else {
       this.stats.cacheMisses++;
       compiled = this.jexl.compile(expression);
+      this.sandbox.checkCallDepth(callDepth(expressionAst(compiled)), 'expression');
       this.expressionCache.set(expression, compiled);
     }
     return compiled;
   }
 
+  /**
+   * Load expressions and templates compiled ahead of time, e.g. by
+   * `furlow build`. They are used instead of parsing and stay loaded
+   * however full the cache gets. Returns the number of expressions loaded.
+   */
+  loadCompiled(compiled: CompiledExpressions): number {
+    for (const [expression, ast] of Object.entries(compiled.expressions)) {
+      this.sandbox.checkCallDepth(callDepth(ast), 'expression');
+      this.compiled.set(expression, expressionFromAst(this.jexl, expression, ast));
+    }
+    for (const [template, parts] of Object.entries(compiled.templates)) {
+      this.compiledTemplates.set(template, parts);
+    }
+    return Object.keys(compiled.expressions).length;
+  }
+
+  /**
+   * Find the expressions in a template, using the compiled scan if loaded
+   */
+  private scan(template: string): TemplateExpression[] {
+    return this.compiledTemplates.get(template) ?? scanTemplate(template);
+  }
+
   /**
    * Add a custom function
    */
   addFunction(name: string, fn: (...args: unknown[]) => unknown): void {
-    this.jexl.addFunction(name, fn);
+    this.jexl.addFunction(name, this.sandbox.guard(name, fn));
+  }
+
+  /**
+   * Add an async function, such as a state or database lookup. Calls count
+   * against the evaluation's call budget; results are reused within an
+   * evaluation and, with `ttl`, cached between evaluations.
+   */
+  addAsyncFunction(name: string, fn: AsyncExpressionFunction, options: AsyncFunctionOptions = {}): void {
+    const ttl = options.ttl ?? 0;
+
+    this.jexl.addFunction(name, this.sandbox.guard(name, (...args: unknown[]) => {
+      const frame = this.frames.getStore();
+      if (!frame || frame.sync) {
+        throw new Error(`${name}() cannot be used in synchronous evaluation`);
+      }
+      if (frame.isolated) {
+        throw new Error(`${name}() cannot be used in user-defined functions`);
+      }
+
+      const key = resultKey(name, args, frame.context);
+      const cached = key !== undefined
+        ? frame.results.get(key) ?? (ttl > 0 ? this.getCachedResult(key) : undefined)
+        : undefined;
+      if (cached) return cached;
+
+      if (++frame.calls > this.options.callBudget) {
+        throw new CallBudgetExceededError(name, this.options.callBudget);
+      }
+
+      const result = fn(frame.context, ...args);
+      if (key !== undefined) {
+        frame.results.set(key, result);
+        if (ttl > 0) {
+          this.resultCache.set(key, { value: result, expiresAt: Date.now() + ttl });
+          // Failed calls are retried next time
+          result.catch(() => this.resultCache.delete(key));
+        }
+      }
+      return result;
+    }));
+  }
+
+  private getCachedResult(key: string): Promise<unknown> | undefined {
+    const entry = this.resultCache.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.resultCache.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  /**
+   * Run evaluations without access to async functions. Used where results
+   * are cached by argument and must not depend on anything else.
+   */
+  isolate<T>(fn: () => Promise<T>): Promise<T> {
+    const frame = this.frames.getStore();
+    return this.frames.run({ ...(frame ?? this.createFrame({})), isolated: true }, fn);
+  }
+
+  private createFrame(context: Record<string, unknown>, sync = false): EvaluationFrame {
+    return {
+      context,
+      calls: 0,
+      results: new Map(),
+      isolated: false,
+      sync,
+      deadline: Date.now() + this.options.timeout,
+    };
+  }
+
+  /**
+   * Set how the locale of an evaluation is chosen from its context. By
+   * default it is the interaction's locale, then the guild's preferred one.
+   */
+  setLocaleResolver(resolver: LocaleResolver): void {
+    this.localeResolver = resolver;
+  }
+
+  /**
+   * Locale of the evaluation in progress, used by formatting functions
+   */
+  getLocale(): string {
+    const frame = this.frames.getStore();
+    return (frame && this.localeResolver(frame.context)) || DEFAULT_LOCALE;
   }
 
   /**
    * Add a custom transform
    */
   addTransform(name: string, fn: (value: unknown, ...args: unknown[]) => unknown): void {
-    this.jexl.addTransform(name, fn);
+    this.jexl.addTransform(name, this.sandbox.guard(name, fn));
   }
 
   /**
@@ -167,12 +382,20 @@ export class ExpressionEvaluator {
       // Get compiled expression from cache
       const compiled = this.getCompiledExpression(expression);
 
-      // Wrap evaluation with timeout (and proper cleanup)
+      // Evaluations nested in this one (e.g. user function bodies) share
+      // its context and call budget
+      const frame = this.frames.getStore();
+      const evaluation = frame
+        ? compiled.eval(context)
+        : this.frames.run(this.createFrame(context), () => compiled.eval(context));
+
+      // Wrap evaluation with timeout (and proper cleanup). Functions also
+      // check the deadline, which stops work that never yields to timers.
       const result = await Promise.race([
-        compiled.eval(context),
+        evaluation,
         new Promise((_, reject) => {
           timeoutId = setTimeout(
-            () => reject(new Error('Expression evaluation timeout')),
+            () => reject(new ExpressionTimeoutError(this.options.timeout, expression)),
             this.options.timeout
           );
         }),
@@ -180,6 +403,10 @@ export class ExpressionEvaluator {
 
       return result as T;
     } catch (err) {
+      // Errors from functions (e.g. user function depth) keep their code
+      if (err instanceof FurlowError) {
+        throw err;
+      }
       if (err instanceof Error) {
         if (err.message.includes('undefined')) {
           const match = err.message.match(/undefined variable "?([^"]+)"?/i);
@@ -230,7 +457,8 @@ export class ExpressionEvaluator {
   }
 
   /**
-   * Evaluate an expression synchronously (cached, no timeout)
+   * Evaluate an expression synchronously (cached). The timeout is checked
+   * by functions and transforms as they are called.
    */
   evaluateSync<T = unknown>(
     expression: string,
@@ -240,8 +468,11 @@ export class ExpressionEvaluator {
 
     try {
       const compiled = this.getCompiledExpression(expression);
-      return compiled.evalSync(context) as T;
+      return this.frames.run(this.createFrame(context, true), () => compiled.evalSync(context)) as T;
     } catch (err) {
+      if (err instanceof FurlowError) {
+        throw err;
+      }
       if (err instanceof Error) {
         throw new ExpressionSyntaxError(expression, err.message);
       }
@@ -250,30 +481,38 @@ export class ExpressionEvaluator {
   }
 
   /**
-   * Interpolate a string with ${...} expressions
+   * Interpolate a string with ${...} expressions. A `$literal:` field is
+   * returned as written and an `$expr:` field is evaluated whole.
    */
   async interpolate(
     template: string,
     context: Record<string, unknown> = {}
   ): Promise<string> {
-    const pattern = /\$\{([^}]+)\}/g;
-    const matches = [...template.matchAll(pattern)];
+    const marker = parseMarker(template);
+    if (marker) {
+      return marker.kind === 'literal'
+        ? marker.text
+        : String((await this.evaluate(marker.text, context)) ?? '');
+    }
+
+    const parts = this.scan(template);
 
-    if (matches.length === 0) {
+    if (parts.length === 0) {
       return template;
     }
 
-    let result = template;
-    for (const match of matches) {
-      const fullMatch = match[0];
-      const expression = match[1]?.trim();
+    let result = '';
+    let last = 0;
+    for (const part of parts) {
+      const expression = part.expression.trim();
       if (!expression) continue;
 
       const value = await this.evaluate(expression, context);
-      result = result.replace(fullMatch, String(value ?? ''));
+      result += template.slice(last, part.start) + String(value ?? '');
+      last = part.end;
     }
 
-    return result;
+    return result + template.slice(last);
   }
 
   /**
@@ -283,11 +522,22 @@ export class ExpressionEvaluator {
     template: string,
     context: Record<string, unknown> = {}
   ): string {
-    const pattern = /\$\{([^}]+)\}/g;
-    return template.replace(pattern, (_, expression: string) => {
-      const value = this.evaluateSync(expression.trim(), context);
-      return String(value ?? '');
-    });
+    const marker = parseMarker(template);
+    if (marker) {
+      return marker.kind === 'literal' ? marker.text : String(this.evaluateSync(marker.text, context) ?? '');
+    }
+
+    let result = '';
+    let last = 0;
+    for (const part of this.scan(template)) {
+      const expression = part.expression.trim();
+      if (!expression) continue;
+
+      const value = this.evaluateSync(expression, context);
+      result += template.slice(last, part.start) + String(value ?? '');
+      last = part.end;
+    }
+    return result + template.slice(last);
   }
 
   /**
@@ -306,21 +556,69 @@ export class ExpressionEvaluator {
       return template;
     }
 
+    const marker = parseMarker(template);
+    if (marker) {
+      return marker.kind === 'literal' ? marker.text : this.evaluate(marker.text, context);
+    }
+
     // Check if template is exactly "${expression}" (no other text)
-    const exactMatch = template.match(/^\$\{([^}]+)\}$/);
-    if (exactMatch) {
+    const parts = this.scan(template);
+    const exact = parts.length === 1 && parts[0]!.start === 0 && parts[0]!.end === template.length;
+    if (exact && parts[0]!.expression.trim()) {
       // Return raw value without string conversion
-      return this.evaluate(exactMatch[1]!.trim(), context);
+      return this.evaluate(parts[0]!.expression.trim(), context);
     }
     // Otherwise, interpolate as string (mixed content)
     return this.interpolate(template, context);
   }
 
+  /**
+   * Resolve an action field and everything below it. Strings are evaluated
+   * as templates, so a field that is exactly "${expression}" or starts with
+   * `$expr:` keeps the type of its result (array, object, number); arrays
+   * and plain objects are resolved item by item.
+   */
+  async resolveValue(value: unknown, context: Record<string, unknown> = {}): Promise<unknown> {
+    if (typeof value === 'string') {
+      return this.evaluateTemplate(value, context);
+    }
+    if (Array.isArray(value)) {
+      return Promise.all(value.map((item) => this.resolveValue(item, context)));
+    }
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = await this.resolveValue(item, context);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  /**
+   * Resolve a field written as a bare expression, such as a state value or
+   * flow argument. Templates and markers are accepted too; other values
+   * are resolved with resolveValue().
+   */
+  async resolveExpression(value: unknown, context: Record<string, unknown> = {}): Promise<unknown> {
+    if (typeof value !== 'string') {
+      return this.resolveValue(value, context);
+    }
+    if (parseMarker(value) || this.scan(value).length > 0) {
+      return this.evaluateTemplate(value, context);
+    }
+    return this.evaluate(value, context);
+  }
+
   /**
    * Check if a string contains expressions
    */
   hasExpressions(template: string): boolean {
-    return /\$\{[^}]+\}/.test(template);
+    const marker = parseMarker(template);
+    if (marker) {
+      return marker.kind === 'expr' && marker.text !== '';
+    }
+    return this.scan(template).some((part) => part.expression.trim() !== '');
   }
 
   /**
@@ -329,4 +627,66 @@ export class ExpressionEvaluator {
   compile(expression: string): Jexl.Expression {
     return this.jexl.compile(expression);
   }
+
+  /**
+   * Parse an expression into its syntax tree without evaluating it
+   */
+  parse(expression: string): Jexl.AstNode | undefined {
+    try {
+      return expressionAst(this.getCompiledExpression(expression));
+    } catch (err) {
+      if (err instanceof FurlowError) throw err;
+      throw new ExpressionSyntaxError(expression, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  /**
+   * Check whether a function is registered
+   */
+  hasFunction(name: string): boolean {
+    return this.jexl.getFunction(name) !== undefined;
+  }
+
+  /**
+   * Check whether a transform is registered
+   */
+  hasTransform(name: string): boolean {
+    return this.jexl.getTransform(name) !== undefined;
+  }
+
+  /**
+   * Names of all registered functions, including custom and plugin ones
+   */
+  getFunctionNames(): string[] {
+    return functionNames(this.jexl).sort();
+  }
+
+  /**
+   * Names of all registered transforms
+   */
+  getTransformNames(): string[] {
+    return transformNames(this.jexl).sort();
+  }
+}
+
+/**
+ * Check for an object literal, as opposed to a Date, Buffer or class instance
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Cache key for an async function call, or undefined when the arguments
+ * cannot be serialized. Results may depend on the guild, channel and user
+ * the expression runs for, so those are part of the key.
+ */
+function resultKey(name: string, args: unknown[], context: Record<string, unknown>): string | undefined {
+  try {
+    return JSON.stringify([name, args, context.guildId, context.channelId, context.userId]);
+  } catch {
+    return undefined;
+  }
 }
@@ -3,23 +3,73 @@
  */
 
 import type Jexl from 'jexl';
+import { Sandbox } from './sandbox.js';
+import {
+  ZonedDate,
+  addBusinessDays,
+  addUnits,
+  businessDaysBetween,
+  diff,
+  endOf,
+  formatDate,
+  isBusinessDay,
+  parseDate,
+  startOf,
+  toDate,
+  toUnit,
+  type DateInput,
+} from './dates.js';
+import {
+  compilePattern,
+  escapeHtml,
+  escapeMarkdown,
+  escapeMentions,
+  formatTemplate,
+  regexMatches,
+  sprintf,
+} from './text.js';
+import {
+  DEFAULT_LOCALE,
+  formatList,
+  formatNumber,
+  ordinal,
+  pluralize,
+  relativeTime,
+  type PluralForms,
+} from './intl.js';
 
 /**
- * Register all built-in functions
+ * Register all built-in functions. Every call is checked against the
+ * sandbox's time and size limits. Formatting functions use the locale of
+ * the evaluation in progress unless one is passed.
  */
-export function registerFunctions(jexl: Jexl.Jexl): void {
+export function registerFunctions(
+  jexl: Jexl.Jexl,
+  sandbox: Sandbox = new Sandbox(),
+  locale: () => string = () => DEFAULT_LOCALE
+): void {
+  // Each function declares the arguments it expects; jexl passes whatever
+  // the expression gives it
+  const add = (name: string, fn: (...args: never[]) => unknown): void => {
+    jexl.addFunction(name, sandbox.guard(name, fn) as Jexl.JexlFunction);
+  };
+
   // Date/Time functions
-  jexl.addFunction('now', () => new Date());
-  jexl.addFunction('timestamp', (date?: Date | string | number, format?: string) => {
+  add('now', () => new Date());
+  add('timestamp', (date?: Date | string | number, format?: string) => {
     const d = date ? new Date(date) : new Date();
     if (format) {
       return formatDiscordTimestamp(d, format);
     }
     return Math.floor(d.getTime() / 1000);
   });
-  jexl.addFunction('date', (value: string | number) => new Date(value));
-  jexl.addFunction('dateAdd', (date: Date, amount: number, unit: string) => {
-    const d = new Date(date);
+  add('date', (value: string | number) => new Date(value));
+  add('dateAdd', (date: DateInput, amount: number, unit: string, tz?: string) => {
+    if (tz) {
+      const d = toDate(date);
+      return d ? addUnits(d, amount, toUnit(unit), tz) : null;
+    }
+    const d = new Date(date as Date);
     switch (unit) {
       case 's':
       case 'second':
@@ -59,7 +109,7 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
     }
     return d;
   });
-  jexl.addFunction('addDuration', (date: Date | number | string, duration: string) => {
+  add('addDuration', (date: Date | number | string, duration: string) => {
     const d = new Date(date);
     if (isNaN(d.getTime())) return d;
     const units: Record<string, number> = {
@@ -80,78 +130,130 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
     return d;
   });
 
+  // Timezone-aware date functions. Timezones default to UTC.
+  add('inZone', (date: DateInput, tz: string = 'UTC') => {
+    const d = toDate(date);
+    return d ? new ZonedDate(d, tz) : null;
+  });
+  add('startOf', (date: DateInput, unit: string, tz: string = 'UTC') => {
+    const d = toDate(date);
+    return d ? startOf(d, toUnit(unit), tz) : null;
+  });
+  add('endOf', (date: DateInput, unit: string, tz: string = 'UTC') => {
+    const d = toDate(date);
+    return d ? endOf(d, toUnit(unit), tz) : null;
+  });
+  add('diff', (a: DateInput, b: DateInput, unit: string = 'milliseconds', tz: string = 'UTC') => {
+    const da = toDate(a);
+    const db = toDate(b);
+    return da && db ? diff(da, db, toUnit(unit), tz) : null;
+  });
+  add('isBetween', (date: DateInput, start: DateInput, end: DateInput) => {
+    const d = toDate(date)?.getTime();
+    const from = toDate(start)?.getTime();
+    const to = toDate(end)?.getTime();
+    if (d === undefined || from === undefined || to === undefined) return false;
+    return d >= from && d <= to;
+  });
+  add('parseDate', (text: string, format?: string, tz: string = 'UTC') => {
+    return parseDate(text, format || undefined, tz) ?? null;
+  });
+  add('formatDate', (date: DateInput, format: string, tz: string = 'UTC') => {
+    const d = toDate(date);
+    return d ? formatDate(d, format, tz) : '';
+  });
+  add('isBusinessDay', (date: DateInput, tz: string = 'UTC', holidays?: unknown[]) => {
+    const d = toDate(date);
+    return d ? isBusinessDay(d, tz, holidays) : false;
+  });
+  add('addBusinessDays', (date: DateInput, amount: number, tz: string = 'UTC', holidays?: unknown[]) => {
+    const d = toDate(date);
+    return d ? addBusinessDays(d, amount, tz, holidays) : null;
+  });
+  add('businessDaysBetween', (a: DateInput, b: DateInput, tz: string = 'UTC', holidays?: unknown[]) => {
+    const da = toDate(a);
+    const db = toDate(b);
+    return da && db ? businessDaysBetween(da, db, tz, holidays) : null;
+  });
+
   // Math functions
-  jexl.addFunction('random', (min = 0, max = 1) => {
+  add('random', (min: number = 0, max: number = 1) => {
     if (min > max) [min, max] = [max, min];
     return Math.floor(Math.random() * (max - min + 1)) + min;
   });
-  jexl.addFunction('randomFloat', (min = 0, max = 1) => {
+  add('randomFloat', (min: number = 0, max: number = 1) => {
     return Math.random() * (max - min) + min;
   });
-  jexl.addFunction('round', (n: number, decimals = 0) => {
+  add('round', (n: number, decimals: number = 0) => {
     const factor = Math.pow(10, decimals);
     return Math.round(n * factor) / factor;
   });
-  jexl.addFunction('floor', Math.floor);
-  jexl.addFunction('ceil', Math.ceil);
-  jexl.addFunction('abs', Math.abs);
-  jexl.addFunction('min', Math.min);
-  jexl.addFunction('max', Math.max);
-  jexl.addFunction('clamp', (value: number, min: number, max: number) => {
+  add('floor', Math.floor);
+  add('ceil', Math.ceil);
+  add('abs', Math.abs);
+  add('min', Math.min);
+  add('max', Math.max);
+  add('clamp', (value: number, min: number, max: number) => {
     return Math.min(Math.max(value, min), max);
   });
 
   // String functions
-  jexl.addFunction('lower', (s: string) => s?.toLowerCase() ?? '');
-  jexl.addFunction('upper', (s: string) => s?.toUpperCase() ?? '');
-  jexl.addFunction('capitalize', (s: string) => {
+  add('lower', (s: string) => s?.toLowerCase() ?? '');
+  add('upper', (s: string) => s?.toUpperCase() ?? '');
+  add('capitalize', (s: string) => {
     if (!s) return '';
     return s.charAt(0).toUpperCase() + s.slice(1).toLowerCase();
   });
-  jexl.addFunction('titleCase', (s: string) => {
+  add('titleCase', (s: string) => {
     if (!s) return '';
     return s.replace(/\w\S*/g, (txt) =>
       txt.charAt(0).toUpperCase() + txt.slice(1).toLowerCase()
     );
   });
-  jexl.addFunction('trim', (s: string) => s?.trim() ?? '');
-  jexl.addFunction('truncate', (s: string, len: number, suffix = '...') => {
+  add('trim', (s: string) => s?.trim() ?? '');
+  add('truncate', (s: string, len: number, suffix: string = '...') => {
     if (!s || s.length <= len) return s ?? '';
     return s.slice(0, len - suffix.length) + suffix;
   });
-  jexl.addFunction('padStart', (s: string, len: number, char = ' ') => {
+  add('padStart', (s: string, len: number, char: string = ' ') => {
+    sandbox.checkStringLength(len, 'padStart()');
     return String(s ?? '').padStart(len, char);
   });
-  jexl.addFunction('padEnd', (s: string, len: number, char = ' ') => {
+  add('padEnd', (s: string, len: number, char: string = ' ') => {
+    sandbox.checkStringLength(len, 'padEnd()');
     return String(s ?? '').padEnd(len, char);
   });
-  jexl.addFunction('replace', (s: string, search: string, replace: string) => {
+  add('replace', (s: string, search: string, replace: string) => {
     if (!s) return '';
     // Validate regex pattern to prevent ReDoS attacks
     const validatedPattern = validateRegexPattern(search);
     if (!validatedPattern.valid) {
       console.warn(`Invalid regex pattern in replace(): ${validatedPattern.error}`);
       // Fall back to literal string replacement
+      checkReplacedLength(sandbox, s, s.split(search).length - 1, replace, 'replace()');
       return s.split(search).join(replace);
     }
-    return s.replace(new RegExp(search, 'g'), replace);
+    const pattern = new RegExp(search, 'g');
+    checkReplacedLength(sandbox, s, s.match(pattern)?.length ?? 0, replace, 'replace()');
+    return s.replace(pattern, replace);
   });
-  jexl.addFunction('split', (s: string, delimiter: string) => {
+  add('split', (s: string, delimiter: string) => {
     return s?.split(delimiter) ?? [];
   });
-  jexl.addFunction('join', (arr: unknown[], delimiter = ', ') => {
+  add('join', (arr: unknown[], delimiter: string = ', ') => {
+    checkJoinedLength(sandbox, arr, delimiter, 'join()');
     return arr?.join(delimiter) ?? '';
   });
-  jexl.addFunction('includes', (s: string | unknown[], search: unknown) => {
+  add('includes', (s: string | unknown[], search: unknown) => {
     return s?.includes(search as never) ?? false;
   });
-  jexl.addFunction('startsWith', (s: string, search: string) => {
+  add('startsWith', (s: string, search: string) => {
     return s?.startsWith(search) ?? false;
   });
-  jexl.addFunction('endsWith', (s: string, search: string) => {
+  add('endsWith', (s: string, search: string) => {
     return s?.endsWith(search) ?? false;
   });
-  jexl.addFunction('match', (s: string, pattern: string) => {
+  add('match', (s: string, pattern: string) => {
     if (!s) return false;
     // Validate regex pattern to prevent ReDoS attacks
     const validatedPattern = validateRegexPattern(pattern);
@@ -161,17 +263,34 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
     }
     return new RegExp(pattern).test(s);
   });
+  add('matchAll', (s: string, pattern: string, flags?: string) => {
+    if (!s) return [];
+    const validatedPattern = validateRegexPattern(pattern);
+    if (!validatedPattern.valid) {
+      console.warn(`Invalid regex pattern in matchAll(): ${validatedPattern.error}`);
+      return [];
+    }
+    // One past the limit, so oversized results fail instead of being cut short
+    return regexMatches(s, compilePattern(pattern, flags), sandbox.limits.maxArrayLength + 1);
+  });
+  add('format', (template: string, ...args: unknown[]) => formatTemplate(template, args));
+  add('sprintf', (format: string, ...args: unknown[]) => {
+    return sprintf(format, args, (width) => sandbox.checkStringLength(width, 'sprintf()'));
+  });
+  add('escapeMarkdown', (s: string) => escapeMarkdown(s));
+  add('escapeMentions', (s: string) => escapeMentions(s));
+  add('escapeHtml', (s: string) => escapeHtml(s));
 
   // Array functions
-  jexl.addFunction('length', (arr: unknown[] | string) => arr?.length ?? 0);
-  jexl.addFunction('first', (arr: unknown[]) => arr?.[0]);
-  jexl.addFunction('last', (arr: unknown[]) => arr?.[arr.length - 1]);
-  jexl.addFunction('nth', (arr: unknown[], n: number) => arr?.[n]);
-  jexl.addFunction('slice', (arr: unknown[], start: number, end?: number) => {
+  add('length', (arr: unknown[] | string) => arr?.length ?? 0);
+  add('first', (arr: unknown[]) => arr?.[0]);
+  add('last', (arr: unknown[]) => arr?.[arr.length - 1]);
+  add('nth', (arr: unknown[], n: number) => arr?.[n]);
+  add('slice', (arr: unknown[], start: number, end?: number) => {
     return arr?.slice(start, end) ?? [];
   });
-  jexl.addFunction('reverse', (arr: unknown[]) => [...(arr ?? [])].reverse());
-  jexl.addFunction('sort', (arr: unknown[], key?: string) => {
+  add('reverse', (arr: unknown[]) => [...(arr ?? [])].reverse());
+  add('sort', (arr: unknown[], key?: string) => {
     const copy = [...(arr ?? [])];
     if (key) {
       return copy.sort((a, b) => {
@@ -187,13 +306,13 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
     }
     return copy.sort();
   });
-  jexl.addFunction('unique', (arr: unknown[]) => [...new Set(arr ?? [])]);
-  jexl.addFunction('flatten', (arr: unknown[][]) => (arr ?? []).flat());
-  jexl.addFunction('pick', (arr: unknown[]) => {
+  add('unique', (arr: unknown[]) => [...new Set(arr ?? [])]);
+  add('flatten', (arr: unknown[][]) => (arr ?? []).flat());
+  add('pick', (arr: unknown[]) => {
     if (!arr?.length) return undefined;
     return arr[Math.floor(Math.random() * arr.length)];
   });
-  jexl.addFunction('shuffle', (arr: unknown[]) => {
+  add('shuffle', (arr: unknown[]) => {
     const copy = [...(arr ?? [])];
     for (let i = copy.length - 1; i > 0; i--) {
       const j = Math.floor(Math.random() * (i + 1));
@@ -201,22 +320,20 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
     }
     return copy;
   });
-  jexl.addFunction('range', (start: number, end: number, step = 1) => {
-    // Prevent unbounded memory allocation - cap at 10000 elements
-    const MAX_RANGE_SIZE = 10000;
-    const estimatedSize = Math.abs(Math.ceil((end - start) / (step || 1)));
-    if (estimatedSize > MAX_RANGE_SIZE) {
-      console.warn(`range() limited to ${MAX_RANGE_SIZE} elements (requested ~${estimatedSize})`);
-    }
+  add('range', (start: number, end: number, step: number = 1) => {
+    const size = step === 0
+      ? (start === end ? 0 : Infinity)
+      : Math.max(0, Math.ceil((end - start) / step));
+    sandbox.checkArrayLength(size, 'range()');
     const result: number[] = [];
-    let iterations = 0;
     for (let i = start; step > 0 ? i < end : i > end; i += step) {
-      if (iterations++ >= MAX_RANGE_SIZE) break;
+      // Stop at the checked size even if floating point steps stall
+      if (result.length >= size) break;
       result.push(i);
     }
     return result;
   });
-  jexl.addFunction('chunk', <T>(arr: T[], size: number): T[][] => {
+  add('chunk', <T>(arr: T[], size: number): T[][] => {
     if (!arr || size < 1) return [];
     const chunks: T[][] = [];
     for (let i = 0; i < arr.length; i += size) {
@@ -226,10 +343,10 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
   });
 
   // Object functions
-  jexl.addFunction('keys', (obj: Record<string, unknown>) => Object.keys(obj ?? {}));
-  jexl.addFunction('values', (obj: Record<string, unknown>) => Object.values(obj ?? {}));
-  jexl.addFunction('entries', (obj: Record<string, unknown>) => Object.entries(obj ?? {}));
-  jexl.addFunction('get', (obj: Record<string, unknown>, path: string, defaultValue?: unknown) => {
+  add('keys', (obj: Record<string, unknown>) => Object.keys(obj ?? {}));
+  add('values', (obj: Record<string, unknown>) => Object.values(obj ?? {}));
+  add('entries', (obj: Record<string, unknown>) => Object.entries(obj ?? {}));
+  add('get', (obj: Record<string, unknown>, path: string, defaultValue?: unknown) => {
     if (!obj) return defaultValue;
     // Block prototype pollution paths
     const DANGEROUS_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
@@ -247,7 +364,7 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
     }
     return current ?? defaultValue;
   });
-  jexl.addFunction('has', (obj: Record<string, unknown>, key: string) => {
+  add('has', (obj: Record<string, unknown>, key: string) => {
     // Block prototype pollution - use hasOwnProperty instead of 'in' operator
     const DANGEROUS_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
     if (DANGEROUS_KEYS.has(key)) {
@@ -255,7 +372,7 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
     }
     return obj != null && Object.prototype.hasOwnProperty.call(obj, key);
   });
-  jexl.addFunction('merge', (...objs: Record<string, unknown>[]) => {
+  add('merge', (...objs: Record<string, unknown>[]) => {
     // Block prototype pollution by filtering dangerous keys
     const DANGEROUS_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
     const result: Record<string, unknown> = {};
@@ -272,37 +389,37 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
   });
 
   // Type functions
-  jexl.addFunction('type', (value: unknown) => {
+  add('type', (value: unknown) => {
     if (value === null) return 'null';
     if (Array.isArray(value)) return 'array';
     return typeof value;
   });
-  jexl.addFunction('isNull', (value: unknown) => value === null || value === undefined);
-  jexl.addFunction('isArray', Array.isArray);
-  jexl.addFunction('isString', (value: unknown) => typeof value === 'string');
-  jexl.addFunction('isNumber', (value: unknown) => typeof value === 'number' && !isNaN(value));
-  jexl.addFunction('isBoolean', (value: unknown) => typeof value === 'boolean');
-  jexl.addFunction('isObject', (value: unknown) => {
+  add('isNull', (value: unknown) => value === null || value === undefined);
+  add('isArray', Array.isArray);
+  add('isString', (value: unknown) => typeof value === 'string');
+  add('isNumber', (value: unknown) => typeof value === 'number' && !isNaN(value));
+  add('isBoolean', (value: unknown) => typeof value === 'boolean');
+  add('isObject', (value: unknown) => {
     return value !== null && typeof value === 'object' && !Array.isArray(value);
   });
 
   // Conversion functions
-  jexl.addFunction('string', String);
-  jexl.addFunction('number', (value: unknown) => {
+  add('string', String);
+  add('number', (value: unknown) => {
     const n = Number(value);
     return isNaN(n) ? 0 : n;
   });
-  jexl.addFunction('int', (value: unknown) => {
+  add('int', (value: unknown) => {
     const n = parseInt(String(value), 10);
     return isNaN(n) ? 0 : n;
   });
-  jexl.addFunction('float', (value: unknown) => {
+  add('float', (value: unknown) => {
     const n = parseFloat(String(value));
     return isNaN(n) ? 0 : n;
   });
-  jexl.addFunction('boolean', (value: unknown) => Boolean(value));
-  jexl.addFunction('json', (value: unknown) => safeJsonStringify(value));
-  jexl.addFunction('parseJson', (s: string) => {
+  add('boolean', (value: unknown) => Boolean(value));
+  add('json', (value: unknown) => safeJsonStringify(value));
+  add('parseJson', (s: string) => {
     try {
       return JSON.parse(s);
     } catch {
@@ -311,7 +428,7 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
   });
 
   // Discord-specific functions
-  jexl.addFunction('mention', (type: string, id: string) => {
+  add('mention', (type: string, id: string) => {
     switch (type) {
       case 'user':
         return `<@${id}>`;
@@ -325,18 +442,7 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
         return id;
     }
   });
-  jexl.addFunction('formatNumber', (n: number, locale = 'en-US') => {
-    return new Intl.NumberFormat(locale).format(n);
-  });
-  jexl.addFunction('ordinal', (n: number) => {
-    const s = ['th', 'st', 'nd', 'rd'];
-    const v = n % 100;
-    return n + (s[(v - 20) % 10] ?? s[v] ?? s[0]);
-  });
-  jexl.addFunction('pluralize', (count: number, singular: string, plural?: string) => {
-    return count === 1 ? singular : (plural ?? singular + 's');
-  });
-  jexl.addFunction('duration', (ms: number) => {
+  add('duration', (ms: number) => {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
     const hours = Math.floor(minutes / 60);
@@ -348,21 +454,43 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
     return `${seconds}s`;
   });
 
+  // Localized formatting
+  add('locale', () => locale());
+  // formatNumber(n, locale) is kept from before options were supported
+  add('formatNumber', (n: number, options?: Intl.NumberFormatOptions | string, tag?: string) => {
+    return typeof options === 'string'
+      ? formatNumber(n, options)
+      : formatNumber(n, tag ?? locale(), options);
+  });
+  add('formatList', (items: unknown[], style?: string, tag?: string) => {
+    return formatList(items, tag ?? locale(), style);
+  });
+  add('ordinal', (n: number, tag?: string) => ordinal(n, tag ?? locale()));
+  // pluralize(count, forms, locale?) or pluralize(count, singular, plural?)
+  add('pluralize', (count: number, forms: PluralForms | string, arg?: string) => {
+    return typeof forms === 'string'
+      ? pluralize(count, forms, locale(), arg)
+      : pluralize(count, forms, arg ?? locale());
+  });
+  add('relativeTime', (date: DateInput, unit?: string, tag?: string) => {
+    return relativeTime(date, tag ?? locale(), unit);
+  });
+
   // Utility functions
-  jexl.addFunction('default', (value: unknown, defaultValue: unknown) => {
+  add('default', (value: unknown, defaultValue: unknown) => {
     return value ?? defaultValue;
   });
-  jexl.addFunction('coalesce', (...values: unknown[]) => {
+  add('coalesce', (...values: unknown[]) => {
     return values.find((v) => v !== null && v !== undefined);
   });
-  jexl.addFunction('uuid', () => {
+  add('uuid', () => {
     return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
       const r = (Math.random() * 16) | 0;
       const v = c === 'x' ? r : (r & 0x3) | 0x8;
       return v.toString(16);
     });
   });
-  jexl.addFunction('hash', (s: string) => {
+  add('hash', (s: string) => {
     let hash = 0;
     for (let i = 0; i < s.length; i++) {
       const char = s.charCodeAt(i);
@@ -373,6 +501,36 @@ export function registerFunctions(jexl: Jexl.Jexl): void {
   });
 }
 
+/**
+ * Fail before a replacement would build a string over the size limit
+ */
+export function checkReplacedLength(
+  sandbox: Sandbox,
+  s: string,
+  matches: number,
+  replacement: unknown,
+  where: string
+): void {
+  sandbox.checkStringLength(s.length + matches * String(replacement ?? '').length, where);
+}
+
+/**
+ * Fail before joining an array would build a string over the size limit
+ */
+export function checkJoinedLength(
+  sandbox: Sandbox,
+  arr: unknown[] | null | undefined,
+  delimiter: unknown,
+  where: string
+): void {
+  if (!Array.isArray(arr)) return;
+  let length = Math.max(0, arr.length - 1) * String(delimiter).length;
+  for (const item of arr) {
+    length += item === null || item === undefined ? 0 : String(item).length;
+    sandbox.checkStringLength(length, where);
+  }
+}
+
 /**
  * Validate a regex pattern to prevent ReDoS attacks
  * Checks for patterns known to cause exponential backtracking
@@ -6,3 +6,13 @@ export * from './evaluator.js';
 export * from './functions.js';
 export * from './transforms.js';
 export * from './context.js';
+export * from './shapes.js';
+export * from './signatures.js';
+export * from './checker.js';
+export * from './compiler.js';
+export * from './user-functions.js';
+export * from './lookups.js';
+export * from './template.js';
+export * from './sandbox.js';
+export { ZonedDate, isValidTimezone, formatDate, parseDate } from './dates.js';
+export { DEFAULT_LOCALE, contextLocale, toLocale, type LocaleResolver, type PluralForms } from './intl.js';
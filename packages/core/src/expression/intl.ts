@@ -0,0 +1,171 @@
+/**
+ * Locale-aware formatting helpers for the expression library: numbers,
+ * lists, plurals using CLDR plural rules, ordinals and relative times.
+ * Locales are BCP 47 tags such as "de" or "pt-BR"; formatting is done
+ * with Intl, so no locale data is bundled.
+ */
+
+import { toDate, type DateInput } from './dates.js';
+
+/** Locale used when an evaluation's context names none */
+export const DEFAULT_LOCALE = 'en-US';
+
+/** Choose the locale for an evaluation from its context */
+export type LocaleResolver = (context: Record<string, unknown>) => string | undefined;
+
+/** Plural forms by CLDR category; `other` is required, `#` is the count */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type ListStyle = 'conjunction' | 'disjunction' | 'unit';
+
+const LIST_STYLES: ListStyle[] = ['conjunction', 'disjunction', 'unit'];
+
+/** Ordinal suffixes by language and CLDR ordinal category */
+const ORDINAL_SUFFIXES: Record<string, Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }> = {
+  en: { one: 'st', two: 'nd', few: 'rd', other: 'th' },
+  fr: { one: 'er', other: 'e' },
+  nl: { other: 'e' },
+  sv: { one: ':a', two: ':a', other: ':e' },
+  es: { other: 'º' },
+  it: { other: 'º' },
+  pt: { other: 'º' },
+  de: { other: '.' },
+  da: { other: '.' },
+  no: { other: '.' },
+  fi: { other: '.' },
+  cs: { other: '.' },
+  pl: { other: '.' },
+  hu: { other: '.' },
+  hr: { other: '.' },
+  tr: { other: '.' },
+};
+
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365 * 24 * 60 * 60 * 1000],
+  ['month', 30 * 24 * 60 * 60 * 1000],
+  ['week', 7 * 24 * 60 * 60 * 1000],
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+  ['second', 1000],
+];
+
+const pluralRules = new Map<string, Intl.PluralRules>();
+const listFormats = new Map<string, Intl.ListFormat>();
+const relativeFormats = new Map<string, Intl.RelativeTimeFormat>();
+
+/**
+ * Check a locale tag and return it in canonical form
+ */
+export function toLocale(value: string): string {
+  try {
+    return new Intl.Locale(value).toString();
+  } catch {
+    throw new Error(`Unknown locale "${value}"`);
+  }
+}
+
+/**
+ * The locale an event was raised in: the interaction's (the user's
+ * client language), then the guild's preferred locale
+ */
+export function contextLocale(context: Record<string, unknown>): string | undefined {
+  const interaction = context.interaction as Record<string, unknown> | undefined;
+  const guild = context.guild as Record<string, unknown> | undefined;
+  const locale = interaction?.locale ?? guild?.preferredLocale ?? guild?.preferred_locale;
+  return typeof locale === 'string' && locale !== '' ? locale : undefined;
+}
+
+/**
+ * Format a number. Options are Intl.NumberFormat options, e.g.
+ * `{style: "currency", currency: "EUR"}`.
+ */
+export function formatNumber(n: number, locale: string, options?: Intl.NumberFormatOptions): string {
+  try {
+    return new Intl.NumberFormat(toLocale(locale), options).format(n);
+  } catch (error) {
+    throw new Error(`Cannot format number: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Join items into a list, e.g. "a, b and c" or "a, b ou c"
+ */
+export function formatList(items: unknown[], locale: string, style: string = 'conjunction'): string {
+  if (!LIST_STYLES.includes(style as ListStyle)) {
+    throw new Error(`Unknown list style "${style}" (expected ${LIST_STYLES.join(', ')})`);
+  }
+  const key = `${locale}|${style}`;
+  let format = listFormats.get(key);
+  if (!format) {
+    format = new Intl.ListFormat(toLocale(locale), { type: style as ListStyle });
+    listFormats.set(key, format);
+  }
+  return format.format((items ?? []).map((item) => String(item)));
+}
+
+/**
+ * CLDR plural category of a count, e.g. "one" or "few"
+ */
+export function pluralCategory(count: number, locale: string, type: Intl.PluralRuleType = 'cardinal'): Intl.LDMLPluralRule {
+  const key = `${locale}|${type}`;
+  let rules = pluralRules.get(key);
+  if (!rules) {
+    rules = new Intl.PluralRules(toLocale(locale), { type });
+    pluralRules.set(key, rules);
+  }
+  return rules.select(count);
+}
+
+/**
+ * Pick the plural form for a count. With a singular and plural, the
+ * singular is used for the "one" category; with forms by category, `#`
+ * is replaced by the formatted count.
+ */
+export function pluralize(count: number, forms: PluralForms | string, locale: string, plural?: string): string {
+  const category = pluralCategory(count, locale);
+  if (typeof forms === 'string') {
+    return category === 'one' ? forms : (plural ?? forms + 's');
+  }
+  if (!forms || typeof forms.other !== 'string') {
+    throw new Error('pluralize(): forms must include "other"');
+  }
+  const form = forms[category] ?? forms.other;
+  return form.replace(/#/g, formatNumber(count, locale));
+}
+
+/**
+ * A number with its ordinal suffix, e.g. "2nd" or "1er". Languages
+ * without known suffixes get the number alone.
+ */
+export function ordinal(n: number, locale: string): string {
+  const language = toLocale(locale).split('-')[0]!;
+  const suffixes = ORDINAL_SUFFIXES[language];
+  if (!suffixes) return String(n);
+  return n + (suffixes[pluralCategory(n, locale, 'ordinal')] ?? suffixes.other);
+}
+
+/**
+ * Describe a moment relative to now, e.g. "in 3 days" or "vor 2 Stunden".
+ * Without a unit, the largest unit that fits is used.
+ */
+export function relativeTime(value: DateInput, locale: string, unit?: string, now: number = Date.now()): string {
+  const date = toDate(value);
+  if (!date) {
+    throw new Error(`Invalid date "${String(value)}"`);
+  }
+  const delta = date.getTime() - now;
+
+  let chosen = RELATIVE_UNITS.find(([name]) => name === unit || `${name}s` === unit);
+  if (unit !== undefined && !chosen) {
+    throw new Error(`Unknown relative time unit "${unit}"`);
+  }
+  chosen ??= RELATIVE_UNITS.find(([, ms]) => Math.abs(delta) >= ms) ?? RELATIVE_UNITS[RELATIVE_UNITS.length - 1]!;
+
+  let format = relativeFormats.get(locale);
+  if (!format) {
+    format = new Intl.RelativeTimeFormat(toLocale(locale), { numeric: 'auto' });
+    relativeFormats.set(locale, format);
+  }
+  return format.format(Math.round(delta / chosen[1]), chosen[0]);
+}
@@ -0,0 +1,42 @@
+/**
+ * jexl internals - the parts of jexl's private API the evaluator uses, kept
+ * in one place. They are not covered by jexl's semver, so jexl is pinned to
+ * an exact version; check these when upgrading it.
+ */
+
+import type Jexl from 'jexl';
+
+/**
+ * Get an expression's parsed tree, parsing it if it has not been yet
+ */
+export function expressionAst(expression: Jexl.Expression): Jexl.AstNode | undefined {
+  return expression._getAst();
+}
+
+/**
+ * Create an expression from a tree parsed ahead of time, without parsing
+ * its source again
+ */
+export function expressionFromAst(
+  jexl: Jexl.Jexl,
+  source: string,
+  ast: Jexl.AstNode
+): Jexl.Expression {
+  const expression = jexl.createExpression(source);
+  expression._ast = ast;
+  return expression;
+}
+
+/**
+ * Names of the functions registered with a jexl instance
+ */
+export function functionNames(jexl: Jexl.Jexl): string[] {
+  return Object.keys(jexl._grammar.functions);
+}
+
+/**
+ * Names of the transforms registered with a jexl instance
+ */
+export function transformNames(jexl: Jexl.Jexl): string[] {
+  return Object.keys(jexl._grammar.transforms);
+}
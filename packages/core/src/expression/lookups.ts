@@ -0,0 +1,206 @@
+/**
+ * Lookup functions - async expression functions that read state, tables
+ * and HTTP pipes, e.g. `${state("warnings", user.id)}`, and the
+ * timezone stored for a user or guild
+ *
+ * Lookups are read-only and limited to what the spec declares: state
+ * variables, tables and HTTP pipes. Each call counts against the
+ * evaluation's call budget (see ExpressionEvaluator.addAsyncFunction).
+ */
+
+import type { PipeConfig, TimezoneConfig, VariableDefinition } from '@furlow/schema';
+import { PipeNotFoundError, PipeRequestError } from '../errors/index.js';
+import { parseDuration } from '../scheduler/timer.js';
+import type { StateManager } from '../state/manager.js';
+import type { QueryOptions } from '../state/types.js';
+import type { ExpressionEvaluator } from './evaluator.js';
+import { isValidTimezone } from './dates.js';
+
+export interface LookupSources {
+  /** State manager for state(), db_query() and db_count() */
+  stateManager?: StateManager;
+  /** Spec pipes; only HTTP pipes can be read with pipe() */
+  pipes?: Record<string, PipeConfig>;
+  /** Where timezone() looks up timezones (spec `state.timezone`) */
+  timezone?: TimezoneConfig;
+}
+
+export interface LookupOptions {
+  /** Maximum rows returned by db_query() (default: 100) */
+  maxRows?: number;
+  /** How long pipe() responses are cached, in ms (default: 30000) */
+  pipeCacheTtl?: number;
+  /** pipe() request timeout in ms, unless the pipe sets one (default: 5000) */
+  pipeTimeout?: number;
+}
+
+const DEFAULT_OPTIONS: Required<LookupOptions> = {
+  maxRows: 100,
+  pipeCacheTtl: 30000,
+  pipeTimeout: 5000,
+};
+
+/**
+ * Register the lookup functions on an evaluator. Functions whose source
+ * is missing are still registered and fail when called, so specs using
+ * them load the same everywhere.
+ */
+export function registerLookupFunctions(
+  evaluator: ExpressionEvaluator,
+  sources: LookupSources,
+  options: LookupOptions = {}
+): void {
+  const { maxRows, pipeCacheTtl, pipeTimeout } = { ...DEFAULT_OPTIONS, ...options };
+  const { stateManager, pipes, timezone } = sources;
+
+  const requireState = (fn: string): StateManager => {
+    if (!stateManager) {
+      throw new Error(`${fn}() is not available without state storage`);
+    }
+    return stateManager;
+  };
+
+  // state(name, id?) - read a declared state variable. The id replaces the
+  // user, guild or channel id of the current context, by variable scope.
+  evaluator.addAsyncFunction('state', async (context, name, id) => {
+    const manager = requireState('state');
+    const definition = manager.getVariableDefinition(String(name));
+    if (!definition) {
+      throw new Error(`state(): "${String(name)}" is not a declared state variable`);
+    }
+
+    return manager.get(String(name), scopeFor(definition, context, id));
+  });
+
+  // timezone(userId?) - the first valid timezone among the configured state
+  // variables, e.g. a user's own setting before their guild's. The id only
+  // replaces the user id, so guild settings still apply to other users.
+  evaluator.addAsyncFunction('timezone', async (context, userId) => {
+    const fallback = timezone?.default ?? 'UTC';
+    if (!stateManager) return fallback;
+
+    for (const name of timezone?.variables ?? ['timezone']) {
+      const definition = stateManager.getVariableDefinition(name);
+      if (!definition) continue;
+      const scope = definition.scope ?? 'guild';
+      const id = scope === 'user' || scope === 'member' ? userId : undefined;
+      const value = await stateManager.get(name, scopeFor(definition, context, id));
+      if (isValidTimezone(value)) return value;
+    }
+    return fallback;
+  });
+
+  // db_query(table, where?, limit | options?) - rows of a declared table.
+  // Options are those of the db_query action: select, order_by, group_by,
+  // aggregate, limit and offset.
+  evaluator.addAsyncFunction('db_query', async (_context, table, where, options) => {
+    const { limit, ...query } = toQueryOptions(options);
+    return requireState('db_query').query(String(table), {
+      ...query,
+      where: toWhere(where),
+      limit: Math.min(typeof limit === 'number' && limit > 0 ? limit : maxRows, maxRows),
+    });
+  });
+
+  // db_count(table, where?) - number of matching rows
+  evaluator.addAsyncFunction('db_count', async (_context, table, where) => {
+    const [row] = await requireState('db_count').query(String(table), {
+      where: toWhere(where),
+      aggregate: { count: 'count(*)' },
+    });
+    return Number(row?.count ?? 0);
+  });
+
+  // pipe(name, path?) - GET from an HTTP pipe, returning the parsed body
+  evaluator.addAsyncFunction(
+    'pipe',
+    async (_context, name, path) => {
+      const config = pipes?.[String(name)];
+      if (!config || config.type !== 'http') {
+        throw new PipeNotFoundError(String(name));
+      }
+
+      let url = config.base_url;
+      if (path !== undefined && path !== null && path !== '') {
+        url = url.replace(/\/$/, '') + '/' + String(path).replace(/^\//, '');
+      }
+      const timeout = typeof config.timeout === 'string'
+        ? parseDuration(config.timeout)
+        : config.timeout ?? pipeTimeout;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: { Accept: 'application/json', ...config.headers },
+        signal: AbortSignal.timeout(timeout),
+      });
+      if (!response.ok) {
+        throw new PipeRequestError(String(name), response.status);
+      }
+
+      const text = await response.text();
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    },
+    { ttl: pipeCacheTtl }
+  );
+}
+
+/**
+ * Scope ids for reading a state variable. An id replaces the user, guild
+ * or channel id of the current context, by variable scope.
+ */
+function scopeFor(
+  definition: VariableDefinition,
+  context: Record<string, unknown>,
+  id: unknown
+): { guildId?: string; channelId?: string; userId?: string } {
+  const scopeContext = {
+    guildId: context.guildId as string | undefined,
+    channelId: context.channelId as string | undefined,
+    userId: context.userId as string | undefined,
+  };
+  if (id !== undefined && id !== null) {
+    switch (definition.scope ?? 'guild') {
+      case 'user':
+      case 'member':
+        scopeContext.userId = String(id);
+        break;
+      case 'guild':
+        scopeContext.guildId = String(id);
+        break;
+      case 'channel':
+        scopeContext.channelId = String(id);
+        break;
+    }
+  }
+  return scopeContext;
+}
+
+function toQueryOptions(options: unknown): QueryOptions {
+  if (options === undefined || options === null) return {};
+  if (typeof options === 'number') return { limit: options };
+  if (typeof options !== 'object' || Array.isArray(options)) {
+    throw new Error('db_query() takes a row limit or an options object');
+  }
+
+  const { select, order_by, group_by, aggregate, limit, offset } = options as Record<string, unknown>;
+  return {
+    select: select as QueryOptions['select'],
+    orderBy: order_by as QueryOptions['orderBy'],
+    groupBy: group_by as QueryOptions['groupBy'],
+    aggregate: aggregate as QueryOptions['aggregate'],
+    limit: limit as number | undefined,
+    offset: offset as number | undefined,
+  };
+}
+
+function toWhere(where: unknown): Record<string, unknown> | undefined {
+  if (where === undefined || where === null) return undefined;
+  if (typeof where !== 'object' || Array.isArray(where)) {
+    throw new Error('where must be an object of column values');
+  }
+  return where as Record<string, unknown>;
+}
@@ -0,0 +1,128 @@
+/**
+ * Expression sandbox - limits on the time, memory and nesting an
+ * expression may use. Built-in functions and transforms check them on
+ * every call, so a runaway expression fails instead of blocking the
+ * event loop.
+ */
+
+import { ExpressionLimitError, ExpressionTimeoutError } from '../errors/index.js';
+
+export interface SandboxLimits {
+  /** Maximum length of an array built by a function (default: 10000) */
+  maxArrayLength: number;
+  /** Maximum length of a string built by a function (default: 100000) */
+  maxStringLength: number;
+  /** Maximum nesting of function calls and transforms in one expression (default: 32) */
+  maxCallDepth: number;
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  maxArrayLength: 10000,
+  maxStringLength: 100000,
+  maxCallDepth: 32,
+};
+
+/** Deadline of the evaluation in progress */
+export interface SandboxClock {
+  /** Epoch ms the evaluation must finish by, if one is running */
+  deadline(): number | undefined;
+  /** Evaluation time limit in ms, for messages */
+  timeout: number;
+}
+
+export class Sandbox {
+  readonly limits: SandboxLimits;
+  private clock?: SandboxClock;
+
+  constructor(limits: Partial<SandboxLimits> = {}, clock?: SandboxClock) {
+    this.limits = { ...DEFAULT_SANDBOX_LIMITS, ...limits };
+    this.clock = clock;
+  }
+
+  /**
+   * Fail if the evaluation in progress is out of time
+   */
+  checkTime(): void {
+    const deadline = this.clock?.deadline();
+    if (deadline !== undefined && Date.now() > deadline) {
+      throw new ExpressionTimeoutError(this.clock!.timeout);
+    }
+  }
+
+  /**
+   * Fail before building an array of `length` items
+   */
+  checkArrayLength(length: number, where: string): void {
+    if (length > this.limits.maxArrayLength) {
+      throw new ExpressionLimitError('array length', this.limits.maxArrayLength, where);
+    }
+  }
+
+  /**
+   * Fail before building a string of `length` characters
+   */
+  checkStringLength(length: number, where: string): void {
+    if (length > this.limits.maxStringLength) {
+      throw new ExpressionLimitError('string length', this.limits.maxStringLength, where);
+    }
+  }
+
+  /**
+   * Fail if an expression nests calls too deeply
+   */
+  checkCallDepth(depth: number, where: string): void {
+    if (depth > this.limits.maxCallDepth) {
+      throw new ExpressionLimitError('call depth', this.limits.maxCallDepth, where);
+    }
+  }
+
+  /**
+   * Check a value a function returned
+   */
+  checkValue(value: unknown, where: string): void {
+    if (typeof value === 'string') {
+      this.checkStringLength(value.length, where);
+    } else if (Array.isArray(value)) {
+      this.checkArrayLength(value.length, where);
+    }
+  }
+
+  /**
+   * Wrap a function so each call checks the time first and its result
+   * after, including results of returned promises
+   */
+  guard<F extends (...args: never[]) => unknown>(name: string, fn: F): F {
+    const where = `${name}()`;
+    return ((...args: Parameters<F>) => {
+      this.checkTime();
+      const result = fn(...args);
+      if (result instanceof Promise) {
+        return result.then((value) => {
+          this.checkValue(value, where);
+          return value;
+        });
+      }
+      this.checkValue(result, where);
+      return result;
+    }) as F;
+  }
+}
+
+/**
+ * Deepest nesting of function calls and transforms in a syntax tree
+ */
+export function callDepth(node: unknown): number {
+  if (!node || typeof node !== 'object') return 0;
+  if (Array.isArray(node)) {
+    return node.reduce((max: number, child) => Math.max(max, callDepth(child)), 0);
+  }
+
+  const record = node as Record<string, unknown>;
+  let deepest = 0;
+  for (const [key, child] of Object.entries(record)) {
+    if (key !== 'type' && child && typeof child === 'object') {
+      deepest = Math.max(deepest, callDepth(child));
+    }
+  }
+  return record.type === 'FunctionCall' ? deepest + 1 : deepest;
+}
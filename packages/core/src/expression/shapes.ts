@@ -0,0 +1,307 @@
+/**
+ * Expression types - shapes of the context objects, used by the static
+ * expression checker
+ */
+
+import type { ActionResultMap } from '@furlow/schema';
+import type {
+  ChannelContext,
+  GuildContext,
+  InteractionContext,
+  MemberContext,
+  MessageAuthorContext,
+  MessageContext,
+  UserContext,
+} from './context.js';
+
+/** Static type of an expression value */
+export type ExprType =
+  | { kind: 'any' }
+  | { kind: 'string' }
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'date' }
+  | { kind: 'null' }
+  | { kind: 'array'; element: ExprType }
+  | { kind: 'object'; name?: string; fields: Record<string, ExprType>; open?: boolean };
+
+/** Object type whose fields follow a context interface */
+type ShapeOf<T> = { [K in keyof T]-?: ExprType } & Record<string, ExprType>;
+
+const ANY: ExprType = { kind: 'any' };
+
+/** Constructors for expression types */
+export const ExprTypes = {
+  any: ANY,
+  string: { kind: 'string' } as ExprType,
+  number: { kind: 'number' } as ExprType,
+  boolean: { kind: 'boolean' } as ExprType,
+  date: { kind: 'date' } as ExprType,
+  null: { kind: 'null' } as ExprType,
+  array(element: ExprType = ANY): ExprType {
+    return { kind: 'array', element };
+  },
+  /** An object with known fields; other fields are reported as unknown */
+  object(name: string, fields: Record<string, ExprType>): ExprType {
+    return { kind: 'object', name, fields };
+  },
+  /** An object that may have fields beyond the known ones */
+  record(fields: Record<string, ExprType> = {}): ExprType {
+    return { kind: 'object', fields, open: true };
+  },
+};
+
+const T = ExprTypes;
+
+/**
+ * Describe a type for messages
+ */
+export function describeType(type: ExprType): string {
+  switch (type.kind) {
+    case 'array':
+      return type.element.kind === 'any' ? 'array' : `${describeType(type.element)}[]`;
+    case 'object':
+      return type.name ?? 'object';
+    default:
+      return type.kind;
+  }
+}
+
+/**
+ * Check whether a value of one type can be used where another is expected.
+ * `any` and `null` fit everywhere, since values may be missing at runtime.
+ */
+export function isAssignable(actual: ExprType, expected: ExprType): boolean {
+  if (actual.kind === 'any' || expected.kind === 'any' || actual.kind === 'null') {
+    return true;
+  }
+  if (actual.kind !== expected.kind) {
+    return false;
+  }
+  if (actual.kind === 'array' && expected.kind === 'array') {
+    return isAssignable(actual.element, expected.element);
+  }
+  return true;
+}
+
+/**
+ * The type of a literal value
+ */
+export function typeOfValue(value: unknown): ExprType {
+  if (value === null || value === undefined) return T.null;
+  if (typeof value === 'string') return T.string;
+  if (typeof value === 'number') return T.number;
+  if (typeof value === 'boolean') return T.boolean;
+  if (value instanceof Date) return T.date;
+  if (Array.isArray(value)) return T.array();
+  return T.record();
+}
+
+// Context shapes. Fields follow expression/context.ts; the CLI passes
+// discord.js objects, so their documented camelCase properties are included.
+
+const USER_FIELDS: ShapeOf<UserContext> = {
+  id: T.string,
+  username: T.string,
+  discriminator: T.string,
+  tag: T.string,
+  avatar: T.string,
+  bot: T.boolean,
+  created_at: T.date,
+  mention: T.string,
+  globalName: T.string,
+  avatarURL: T.string,
+  displayAvatarURL: T.string,
+  bannerURL: T.string,
+  createdAt: T.date,
+  createdTimestamp: T.number,
+};
+
+export const USER_SHAPE = T.object('user', USER_FIELDS);
+
+const MEMBER_FIELDS: ShapeOf<MemberContext> = {
+  ...USER_FIELDS,
+  nickname: T.string,
+  display_name: T.string,
+  joined_at: T.date,
+  boosting_since: T.date,
+  is_boosting: T.boolean,
+  // A role list in the documented context, a role manager on discord.js members
+  roles: T.any,
+  role_ids: T.array(T.string),
+  highest_role: T.string,
+  permissions: T.any,
+  is_owner: T.boolean,
+  user: USER_SHAPE,
+  displayName: T.string,
+  joinedAt: T.date,
+  joinedTimestamp: T.number,
+  premiumSince: T.date,
+  voice: T.record(),
+  guild: T.record(),
+  communicationDisabledUntil: T.date,
+};
+
+export const MEMBER_SHAPE = T.object('member', MEMBER_FIELDS);
+
+const GUILD_FIELDS: ShapeOf<GuildContext> = {
+  id: T.string,
+  name: T.string,
+  icon: T.string,
+  owner_id: T.string,
+  member_count: T.number,
+  created_at: T.date,
+  premium_tier: T.number,
+  premium_subscription_count: T.number,
+  boost_count: T.number,
+  iconURL: T.string,
+  memberCount: T.number,
+  ownerId: T.string,
+  createdAt: T.date,
+  premiumTier: T.number,
+  premiumSubscriptionCount: T.number,
+  description: T.string,
+  roles: T.record(),
+  members: T.record(),
+  channels: T.record(),
+  emojis: T.record(),
+};
+
+export const GUILD_SHAPE = T.object('guild', GUILD_FIELDS);
+
+const CHANNEL_FIELDS: ShapeOf<ChannelContext> = {
+  id: T.string,
+  name: T.string,
+  type: T.any,
+  mention: T.string,
+  topic: T.string,
+  nsfw: T.boolean,
+  parent_id: T.string,
+  parentId: T.string,
+  guildId: T.string,
+  position: T.number,
+  url: T.string,
+  createdAt: T.date,
+};
+
+export const CHANNEL_SHAPE = T.object('channel', CHANNEL_FIELDS);
+
+const MESSAGE_AUTHOR_FIELDS: ShapeOf<MessageAuthorContext> = {
+  ...USER_FIELDS,
+};
+
+const MESSAGE_FIELDS: ShapeOf<MessageContext> = {
+  id: T.string,
+  content: T.string,
+  clean_content: T.string,
+  created_at: T.date,
+  edited_at: T.date,
+  pinned: T.boolean,
+  tts: T.boolean,
+  mention_everyone: T.boolean,
+  mentions: T.any,
+  mention_roles: T.array(T.string),
+  // Counts in the documented context, collections on discord.js messages
+  attachments: T.any,
+  embeds: T.any,
+  url: T.string,
+  author: T.object('message.author', MESSAGE_AUTHOR_FIELDS),
+  cleanContent: T.string,
+  createdAt: T.date,
+  editedAt: T.date,
+  channelId: T.string,
+  guildId: T.string,
+  member: MEMBER_SHAPE,
+  channel: CHANNEL_SHAPE,
+  guild: GUILD_SHAPE,
+  reference: T.record(),
+  reactions: T.record(),
+  stickers: T.record(),
+};
+
+export const MESSAGE_SHAPE = T.object('message', MESSAGE_FIELDS);
+
+const INTERACTION_FIELDS: ShapeOf<InteractionContext> = {
+  id: T.string,
+  type: T.any,
+  command_name: T.string,
+  custom_id: T.string,
+  options: T.record(),
+  commandName: T.string,
+  customId: T.string,
+  values: T.array(T.string),
+  user: USER_SHAPE,
+  member: MEMBER_SHAPE,
+  channel: CHANNEL_SHAPE,
+  guild: GUILD_SHAPE,
+  guildId: T.string,
+  channelId: T.string,
+  locale: T.string,
+  fields: T.record(),
+};
+
+export const INTERACTION_SHAPE = T.object('interaction', INTERACTION_FIELDS);
+
+// Result shapes bound by `as`, following ActionResultMap in @furlow/schema
+const MESSAGE_RESULT = T.object('message result', {
+  id: T.string,
+  channel_id: T.string,
+  guild_id: T.string,
+  content: T.string,
+  url: T.string,
+});
+
+const CHANNEL_RESULT = T.object('channel result', {
+  id: T.string,
+  name: T.string,
+  type: T.string,
+  guild_id: T.string,
+  parent_id: T.string,
+  mention: T.string,
+  url: T.string,
+});
+
+const ROLE_RESULT = T.object('role result', {
+  id: T.string,
+  name: T.string,
+  color: T.number,
+  position: T.number,
+  mention: T.string,
+});
+
+export const RESULT_SHAPES: { [K in keyof ActionResultMap]?: ExprType } = {
+  send_message: MESSAGE_RESULT,
+  reply: MESSAGE_RESULT,
+  send_dm: MESSAGE_RESULT,
+  edit_message: MESSAGE_RESULT,
+  create_channel: CHANNEL_RESULT,
+  edit_channel: CHANNEL_RESULT,
+  create_thread: CHANNEL_RESULT,
+  create_role: ROLE_RESULT,
+  edit_role: ROLE_RESULT,
+  pipe_request: T.object('pipe_request result', { status: T.number, ok: T.boolean, data: T.any }),
+  increment: T.number,
+  decrement: T.number,
+  db_update: T.number,
+  db_delete: T.number,
+  db_query: T.array(T.record()),
+  transaction: T.object('transaction result', {
+    committed: T.boolean,
+    steps: T.number,
+    compensated: T.array(T.string),
+    failed: T.array(T.record()),
+  }),
+  voice_search: T.array(
+    T.object('voice_search result', {
+      url: T.string,
+      title: T.string,
+      duration: T.number,
+      thumbnail: T.string,
+    })
+  ),
+  queue_get: T.object('queue_get result', {
+    queue: T.array(),
+    currentTrack: T.any,
+    length: T.number,
+  }),
+};
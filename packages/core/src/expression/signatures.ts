@@ -0,0 +1,244 @@
+/**
+ * Signatures of the built-in expression functions and transforms, used by
+ * the static expression checker
+ */
+
+import { ExprTypes as T, type ExprType } from './shapes.js';
+
+/** Parameters and result of a function or transform */
+export interface Signature {
+  /** Parameter types; for transforms the first one is the piped value */
+  params: ExprType[];
+  /** Number of required parameters */
+  required: number;
+  /** Type of any further arguments, for functions taking any number */
+  rest?: ExprType;
+  returns: ExprType;
+}
+
+function sig(
+  returns: ExprType,
+  params: ExprType[] = [],
+  required = params.length,
+  rest?: ExprType
+): Signature {
+  return { params, required, rest, returns };
+}
+
+const { any, string, number, boolean, date } = T;
+const array = T.array();
+
+/** A moment seen from a timezone (see ZonedDate in dates.ts) */
+const zonedDate = T.object('zoned date', {
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  millisecond: number,
+  weekday: number,
+  offset: number,
+  timestamp: number,
+  iso: string,
+  timezone: string,
+  date,
+});
+
+/** Built-in functions (see functions.ts) */
+export const FUNCTION_SIGNATURES: Record<string, Signature> = {
+  // Date/Time
+  now: sig(date),
+  timestamp: sig(any, [any, string], 0),
+  date: sig(date, [any]),
+  dateAdd: sig(date, [any, number, string, string], 3),
+  addDuration: sig(date, [any, string]),
+  inZone: sig(zonedDate, [any, string], 1),
+  startOf: sig(date, [any, string, string], 2),
+  endOf: sig(date, [any, string, string], 2),
+  diff: sig(number, [any, any, string, string], 2),
+  isBetween: sig(boolean, [any, any, any]),
+  parseDate: sig(date, [string, string, string], 1),
+  formatDate: sig(string, [any, string, string], 2),
+  isBusinessDay: sig(boolean, [any, string, array], 1),
+  addBusinessDays: sig(date, [any, number, string, array], 2),
+  businessDaysBetween: sig(number, [any, any, string, array], 2),
+
+  // Math
+  random: sig(number, [number, number], 0),
+  randomFloat: sig(number, [number, number], 0),
+  round: sig(number, [number, number], 1),
+  floor: sig(number, [number]),
+  ceil: sig(number, [number]),
+  abs: sig(number, [number]),
+  min: sig(number, [], 0, number),
+  max: sig(number, [], 0, number),
+  clamp: sig(number, [number, number, number]),
+
+  // String
+  lower: sig(string, [string]),
+  upper: sig(string, [string]),
+  capitalize: sig(string, [string]),
+  titleCase: sig(string, [string]),
+  trim: sig(string, [string]),
+  truncate: sig(string, [string, number, string], 2),
+  padStart: sig(string, [string, number, string], 2),
+  padEnd: sig(string, [string, number, string], 2),
+  replace: sig(string, [string, string, string]),
+  split: sig(T.array(string), [string, string]),
+  join: sig(string, [array, string], 1),
+  includes: sig(boolean, [any, any]),
+  startsWith: sig(boolean, [string, string]),
+  endsWith: sig(boolean, [string, string]),
+  match: sig(any, [string, string]),
+  matchAll: sig(T.array(T.record()), [string, string, string], 2),
+  format: sig(string, [string], 1, any),
+  sprintf: sig(string, [string], 1, any),
+  escapeMarkdown: sig(string, [string]),
+  escapeMentions: sig(string, [string]),
+  escapeHtml: sig(string, [string]),
+
+  // Array
+  length: sig(number, [any]),
+  first: sig(any, [array]),
+  last: sig(any, [array]),
+  nth: sig(any, [array, number]),
+  slice: sig(array, [array, number, number], 2),
+  reverse: sig(array, [array]),
+  sort: sig(array, [array, string], 1),
+  unique: sig(array, [array]),
+  flatten: sig(array, [array]),
+  pick: sig(any, [array]),
+  shuffle: sig(array, [array]),
+  range: sig(T.array(number), [number, number, number], 2),
+  chunk: sig(T.array(array), [array, number]),
+
+  // Object
+  keys: sig(T.array(string), [any]),
+  values: sig(array, [any]),
+  entries: sig(array, [any]),
+  get: sig(any, [any, string, any], 2),
+  has: sig(boolean, [any, string]),
+  merge: sig(T.record(), [], 0, any),
+
+  // Type
+  type: sig(string, [any]),
+  isNull: sig(boolean, [any]),
+  isArray: sig(boolean, [any]),
+  isString: sig(boolean, [any]),
+  isNumber: sig(boolean, [any]),
+  isBoolean: sig(boolean, [any]),
+  isObject: sig(boolean, [any]),
+
+  // Conversion
+  string: sig(string, [any]),
+  number: sig(number, [any]),
+  int: sig(number, [any]),
+  float: sig(number, [any]),
+  boolean: sig(boolean, [any]),
+  json: sig(string, [any]),
+  parseJson: sig(any, [string]),
+
+  // Discord
+  mention: sig(string, [string, string]),
+  duration: sig(string, [number]),
+
+  // Localized formatting
+  locale: sig(string),
+  formatNumber: sig(string, [number, any, string], 1),
+  formatList: sig(string, [array, string, string], 1),
+  ordinal: sig(string, [number, string], 1),
+  pluralize: sig(string, [number, any, string], 2),
+  relativeTime: sig(string, [any, string, string], 1),
+
+  // Utility
+  default: sig(any, [any, any]),
+  coalesce: sig(any, [], 0, any),
+  uuid: sig(string),
+  hash: sig(string, [string]),
+
+  // Lookups (see lookups.ts)
+  state: sig(any, [string, any], 1),
+  db_query: sig(T.array(T.record()), [string, T.record(), any], 1),
+  db_count: sig(number, [string, T.record()], 1),
+  pipe: sig(any, [string, string], 1),
+  timezone: sig(string, [string], 0),
+};
+
+/** Built-in transforms (see transforms.ts) */
+export const TRANSFORM_SIGNATURES: Record<string, Signature> = {
+  // String
+  lower: sig(string, [string]),
+  upper: sig(string, [string]),
+  capitalize: sig(string, [string]),
+  trim: sig(string, [string]),
+  truncate: sig(string, [string, number, string], 2),
+  split: sig(T.array(string), [string, string]),
+  replace: sig(string, [string, string, string]),
+  padStart: sig(string, [string, number, string], 2),
+  padEnd: sig(string, [string, number, string], 2),
+  includes: sig(boolean, [any, any]),
+  startsWith: sig(boolean, [string, string]),
+  endsWith: sig(boolean, [string, string]),
+  contains: sig(boolean, [any, any]),
+  match: sig(any, [string, string, string], 2),
+  matchAll: sig(T.array(T.record()), [string, string, string], 2),
+  escapeMarkdown: sig(string, [string]),
+  escapeMentions: sig(string, [string]),
+  escapeHtml: sig(string, [string]),
+
+  // Array
+  join: sig(string, [array, string], 1),
+  first: sig(any, [array]),
+  last: sig(any, [array]),
+  nth: sig(any, [array, number]),
+  slice: sig(array, [array, number, number], 2),
+  reverse: sig(array, [array]),
+  sort: sig(array, [array, string], 1),
+  unique: sig(array, [array]),
+  flatten: sig(array, [array]),
+  filter: sig(array, [array, string, any], 2),
+  map: sig(array, [array, string]),
+  pluck: sig(array, [array, string]),
+  pick: sig(any, [array]),
+  shuffle: sig(array, [array]),
+
+  // Number
+  round: sig(number, [number, number], 1),
+  floor: sig(number, [number]),
+  ceil: sig(number, [number]),
+  abs: sig(number, [number]),
+  format: sig(string, [any], 1, any),
+  ordinal: sig(string, [number, string], 1),
+
+  // Object
+  keys: sig(T.array(string), [any]),
+  values: sig(array, [any]),
+  entries: sig(array, [any]),
+  get: sig(any, [any, string, any], 2),
+
+  // Conversion
+  string: sig(string, [any]),
+  number: sig(number, [any]),
+  int: sig(number, [any]),
+  float: sig(number, [any]),
+  boolean: sig(boolean, [any]),
+  json: sig(string, [any]),
+
+  // Utility
+  default: sig(any, [any, any]),
+  length: sig(number, [any]),
+  size: sig(number, [any]),
+
+  // Date
+  timestamp: sig(any, [any, string], 1),
+  duration: sig(string, [number]),
+
+  // Discord
+  mention: sig(string, [string, string], 1),
+  pluralize: sig(string, [number, any, string], 2),
+
+  // Localized formatting
+  formatList: sig(string, [array, string, string], 1),
+  relativeTime: sig(string, [any, string, string], 1),
+};
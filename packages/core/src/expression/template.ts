@@ -0,0 +1,95 @@
+/**
+ * Template scanning - finds the `${...}` expressions in a string. Braces
+ * inside an expression, such as object literals, and braces inside quoted
+ * strings do not end it. Fields may also start with an escape marker:
+ * `$expr:` for a bare expression, `$literal:` for text used as written.
+ */
+
+/** An expression found in a template */
+export interface TemplateExpression {
+  /** Text between `${` and the closing `}`, untrimmed */
+  expression: string;
+  /** Index of the `$` */
+  start: number;
+  /** Index just past the closing `}` */
+  end: number;
+}
+
+/**
+ * Find the `${...}` expressions in a template, in order. An unclosed `${`
+ * and everything after it is treated as plain text.
+ */
+export function scanTemplate(template: string): TemplateExpression[] {
+  const found: TemplateExpression[] = [];
+  let from = 0;
+
+  while (from < template.length) {
+    const start = template.indexOf('${', from);
+    if (start === -1) break;
+
+    const end = findClosingBrace(template, start + 2);
+    if (end === -1) break;
+
+    const expression = template.slice(start + 2, end);
+    if (expression.length > 0) {
+      found.push({ expression, start, end: end + 1 });
+    }
+    from = end + 1;
+  }
+
+  return found;
+}
+
+/**
+ * Index of the `}` closing an expression that starts at `from`, or -1
+ */
+function findClosingBrace(text: string, from: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+
+  return -1;
+}
+
+/** Prefix of a field evaluated as a bare expression, keeping the result's type */
+export const EXPR_MARKER = '$expr:';
+
+/** Prefix of a field used as written, with `${...}` left as text */
+export const LITERAL_MARKER = '$literal:';
+
+/** A field value written with an escape marker */
+export interface MarkedValue {
+  kind: 'expr' | 'literal';
+  /** Text after the marker; expressions are trimmed */
+  text: string;
+}
+
+/**
+ * Read the `$expr:` or `$literal:` marker at the start of a field value
+ */
+export function parseMarker(value: string): MarkedValue | undefined {
+  if (value.startsWith(EXPR_MARKER)) {
+    return { kind: 'expr', text: value.slice(EXPR_MARKER.length).trim() };
+  }
+  if (value.startsWith(LITERAL_MARKER)) {
+    return { kind: 'literal', text: value.slice(LITERAL_MARKER.length) };
+  }
+  return undefined;
+}
@@ -0,0 +1,213 @@
+/**
+ * Text helpers for the expression library: regex matches with capture
+ * groups, `{0}` templates, printf-style formatting and escaping of
+ * Discord markdown, mentions and HTML.
+ */
+
+/** A regex match as seen by expressions */
+export interface RegexMatch {
+  /** The matched text */
+  match: string;
+  /** Index of the match in the input */
+  index: number;
+  /** Numbered capture groups; groups that did not take part are null */
+  captures: Array<string | null>;
+  /** Named capture groups, also copied onto the match itself */
+  groups: Record<string, string | null>;
+  [group: string]: unknown;
+}
+
+/**
+ * Compile a pattern with user-supplied flags. `g` is always added, since
+ * every caller scans the whole input.
+ */
+export function compilePattern(pattern: string, flags = ''): RegExp {
+  if (!/^[imsu]*$/.test(flags)) {
+    throw new Error(`Invalid regex flags "${flags}" (allowed: i, m, s, u)`);
+  }
+  return new RegExp(pattern, flags + 'g');
+}
+
+/**
+ * Every match of a global pattern, stopping after `limit` matches
+ */
+export function regexMatches(s: string, pattern: RegExp, limit: number): RegexMatch[] {
+  const results: RegexMatch[] = [];
+  for (const found of s.matchAll(pattern)) {
+    if (results.length >= limit) break;
+    results.push(toRegexMatch(found));
+  }
+  return results;
+}
+
+/**
+ * The first match of a pattern, or null
+ */
+export function firstMatch(s: string, pattern: RegExp): RegexMatch | null {
+  const found = s.matchAll(pattern).next();
+  return found.done ? null : toRegexMatch(found.value);
+}
+
+function toRegexMatch(found: RegExpMatchArray): RegexMatch {
+  const groups: Record<string, string | null> = {};
+  for (const [name, value] of Object.entries(found.groups ?? {})) {
+    groups[name] = value ?? null;
+  }
+  return {
+    ...groups,
+    match: found[0],
+    index: found.index ?? 0,
+    captures: found.slice(1).map((value) => value ?? null),
+    groups,
+  };
+}
+
+/**
+ * Fill `{0}`, `{1}` ... placeholders with arguments. With a single object
+ * argument, `{name}` placeholders read its fields. `{{` and `}}` are
+ * literal braces; unknown placeholders are kept as is.
+ */
+export function formatTemplate(template: string, args: unknown[]): string {
+  const named = args.length === 1 && args[0] !== null && typeof args[0] === 'object' && !Array.isArray(args[0])
+    ? (args[0] as Record<string, unknown>)
+    : undefined;
+
+  return String(template ?? '').replace(/\{\{|\}\}|\{([A-Za-z0-9_]+)\}/g, (token, key: string | undefined) => {
+    if (token === '{{') return '{';
+    if (token === '}}') return '}';
+    if (/^\d+$/.test(key!) && Number(key) < args.length) {
+      return stringify(args[Number(key)]);
+    }
+    if (named && key! in named) {
+      return stringify(named[key!]);
+    }
+    return token;
+  });
+}
+
+const SPRINTF_PATTERN = /%([-+ 0#]*)(\d+)?(?:\.(\d+))?([sdifeExXobc%])/g;
+
+/**
+ * printf-style formatting. Supports %s %d %i %f %e %E %x %X %o %b %c and
+ * %%, with the flags `-` `+` space `0` `#`, a width and a precision.
+ * `checkWidth` is called with each width and precision before padding.
+ */
+export function sprintf(format: string, args: unknown[], checkWidth: (n: number) => void = () => {}): string {
+  let next = 0;
+  return String(format ?? '').replace(
+    SPRINTF_PATTERN,
+    (_token, flags: string, width: string | undefined, precision: string | undefined, type: string) => {
+      if (type === '%') return '%';
+
+      const minWidth = width ? Number(width) : 0;
+      const digits = precision !== undefined ? Number(precision) : undefined;
+      checkWidth(minWidth);
+      if (digits !== undefined) checkWidth(digits);
+
+      const arg = args[next++];
+      let body: string;
+      let sign = '';
+      let prefix = '';
+
+      if (type === 's') {
+        body = stringify(arg);
+        if (digits !== undefined) body = body.slice(0, digits);
+      } else if (type === 'c') {
+        body = typeof arg === 'number' ? String.fromCharCode(arg) : stringify(arg).charAt(0);
+      } else {
+        const n = Number(arg);
+        if (!Number.isFinite(n)) {
+          body = String(n);
+        } else {
+          if (n < 0) sign = '-';
+          else if (flags.includes('+')) sign = '+';
+          else if (flags.includes(' ')) sign = ' ';
+          body = formatNumberBody(Math.abs(n), type, digits);
+          if (flags.includes('#')) prefix = RADIX_PREFIXES[type] ?? '';
+        }
+      }
+
+      const length = sign.length + prefix.length + body.length;
+      if (length >= minWidth) return sign + prefix + body;
+      const fill = minWidth - length;
+      if (flags.includes('-')) return sign + prefix + body + ' '.repeat(fill);
+      if (flags.includes('0') && type !== 's' && type !== 'c') return sign + prefix + '0'.repeat(fill) + body;
+      return ' '.repeat(fill) + sign + prefix + body;
+    }
+  );
+}
+
+const RADIX_PREFIXES: Record<string, string> = { x: '0x', X: '0X', o: '0o', b: '0b' };
+
+function formatNumberBody(n: number, type: string, digits: number | undefined): string {
+  switch (type) {
+    case 'd':
+    case 'i':
+      return String(Math.trunc(n));
+    case 'f':
+      return n.toFixed(Math.min(digits ?? 6, 100));
+    case 'e':
+      return n.toExponential(Math.min(digits ?? 6, 100));
+    case 'E':
+      return n.toExponential(Math.min(digits ?? 6, 100)).toUpperCase();
+    case 'x':
+      return Math.trunc(n).toString(16);
+    case 'X':
+      return Math.trunc(n).toString(16).toUpperCase();
+    case 'o':
+      return Math.trunc(n).toString(8);
+    case 'b':
+      return Math.trunc(n).toString(2);
+    default:
+      return String(n);
+  }
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object' && !(value instanceof Date)) {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Escape Discord markdown so text shows as typed: emphasis, code, spoilers
+ * and masked links anywhere, and headings, quotes and lists at the start
+ * of a line
+ */
+export function escapeMarkdown(s: string): string {
+  return String(s ?? '')
+    .replace(/[\\*_~`|[\]()]/g, '\\$&')
+    .replace(/^(\s*)([#>-])/gm, '$1\\$2')
+    .replace(/^(\s*\d+)\./gm, '$1\\.');
+}
+
+/**
+ * Stop @everyone, @here, user and role mentions from pinging by putting a
+ * zero-width space after the @
+ */
+export function escapeMentions(s: string): string {
+  return String(s ?? '')
+    .replace(/@(everyone|here)/g, '@\u200b$1')
+    .replace(/<@([!&]?\d+)>/g, '<@\u200b$1>');
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for HTML, e.g. web dashboards and canvas templates
+ */
+export function escapeHtml(s: string): string {
+  return String(s ?? '').replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]!);
+}
@@ -3,61 +3,113 @@
  */
 
 import type Jexl from 'jexl';
+import { checkJoinedLength, checkReplacedLength } from './functions.js';
+import { Sandbox } from './sandbox.js';
+import {
+  compilePattern,
+  escapeHtml,
+  escapeMarkdown,
+  escapeMentions,
+  firstMatch,
+  formatTemplate,
+  regexMatches,
+} from './text.js';
+import {
+  DEFAULT_LOCALE,
+  formatList,
+  formatNumber,
+  ordinal,
+  pluralize,
+  relativeTime,
+  type PluralForms,
+} from './intl.js';
+import type { DateInput } from './dates.js';
 
 /**
- * Register all built-in transforms
+ * Register all built-in transforms. Every call is checked against the
+ * sandbox's time and size limits.
  */
-export function registerTransforms(jexl: Jexl.Jexl): void {
+export function registerTransforms(
+  jexl: Jexl.Jexl,
+  sandbox: Sandbox = new Sandbox(),
+  locale: () => string = () => DEFAULT_LOCALE
+): void {
+  // Each transform declares the arguments it expects; jexl passes whatever
+  // the expression gives it
+  const add = (name: string, fn: (...args: never[]) => unknown): void => {
+    jexl.addTransform(name, sandbox.guard(name, fn) as Jexl.JexlFunction);
+  };
+
   // String transforms
-  jexl.addTransform('lower', (s: string) => s?.toLowerCase() ?? '');
-  jexl.addTransform('upper', (s: string) => s?.toUpperCase() ?? '');
-  jexl.addTransform('capitalize', (s: string) => {
+  add('lower', (s: string) => s?.toLowerCase() ?? '');
+  add('upper', (s: string) => s?.toUpperCase() ?? '');
+  add('capitalize', (s: string) => {
     if (!s) return '';
     return s.charAt(0).toUpperCase() + s.slice(1).toLowerCase();
   });
-  jexl.addTransform('trim', (s: string) => s?.trim() ?? '');
-  jexl.addTransform('truncate', (s: string, len: number, suffix = '...') => {
+  add('trim', (s: string) => s?.trim() ?? '');
+  add('truncate', (s: string, len: number, suffix: string = '...') => {
     if (!s || s.length <= len) return s ?? '';
     return s.slice(0, len - suffix.length) + suffix;
   });
-  jexl.addTransform('split', (s: string, delimiter: string) => s?.split(delimiter) ?? []);
-  jexl.addTransform('replace', (s: string, search: string, replace: string) => {
+  add('split', (s: string, delimiter: string) => s?.split(delimiter) ?? []);
+  add('replace', (s: string, search: string, replace: string) => {
     if (!s) return '';
     // Validate regex to prevent ReDoS - fall back to literal replacement on invalid pattern
     if (!isValidRegexPattern(search)) {
+      checkReplacedLength(sandbox, s, s.split(search).length - 1, replace, '|replace');
       return s.split(search).join(replace);
     }
-    return s.replace(new RegExp(search, 'g'), replace);
+    const pattern = new RegExp(search, 'g');
+    checkReplacedLength(sandbox, s, s.match(pattern)?.length ?? 0, replace, '|replace');
+    return s.replace(pattern, replace);
+  });
+  add('match', (s: string, pattern: string, flags?: string) => {
+    if (!s || !isValidRegexPattern(pattern)) return null;
+    return firstMatch(s, compilePattern(pattern, flags));
   });
-  jexl.addTransform('padStart', (s: string, len: number, char = ' ') => {
+  add('matchAll', (s: string, pattern: string, flags?: string) => {
+    if (!s || !isValidRegexPattern(pattern)) return [];
+    // One past the limit, so oversized results fail instead of being cut short
+    return regexMatches(s, compilePattern(pattern, flags), sandbox.limits.maxArrayLength + 1);
+  });
+  add('escapeMarkdown', (s: string) => escapeMarkdown(s));
+  add('escapeMentions', (s: string) => escapeMentions(s));
+  add('escapeHtml', (s: string) => escapeHtml(s));
+  add('padStart', (s: string, len: number, char: string = ' ') => {
+    sandbox.checkStringLength(len, '|padStart');
     return String(s ?? '').padStart(len, char);
   });
-  jexl.addTransform('padEnd', (s: string, len: number, char = ' ') => {
+  add('padEnd', (s: string, len: number, char: string = ' ') => {
+    sandbox.checkStringLength(len, '|padEnd');
     return String(s ?? '').padEnd(len, char);
   });
-  jexl.addTransform('includes', (s: string | unknown[], search: unknown) => {
+  add('includes', (s: string | unknown[], search: unknown) => {
     if (Array.isArray(s)) return s.includes(search);
     return String(s ?? '').includes(String(search));
   });
-  jexl.addTransform('startsWith', (s: string, search: string) => {
+  add('startsWith', (s: string, search: string) => {
     return String(s ?? '').startsWith(search);
   });
-  jexl.addTransform('endsWith', (s: string, search: string) => {
+  add('endsWith', (s: string, search: string) => {
     return String(s ?? '').endsWith(search);
   });
-  jexl.addTransform('contains', (s: string | unknown[], search: unknown) => {
+  add('contains', (s: string | unknown[], search: unknown) => {
     if (Array.isArray(s)) return s.includes(search);
     return String(s ?? '').includes(String(search));
   });
 
   // Array transforms
-  jexl.addTransform('join', (arr: unknown[], delimiter = ', ') => arr?.join(delimiter) ?? '');
-  jexl.addTransform('first', (arr: unknown[]) => arr?.[0]);
-  jexl.addTransform('last', (arr: unknown[]) => arr?.[arr.length - 1]);
-  jexl.addTransform('nth', (arr: unknown[], n: number) => arr?.[n]);
-  jexl.addTransform('slice', (arr: unknown[], start: number, end?: number) => arr?.slice(start, end) ?? []);
-  jexl.addTransform('reverse', (arr: unknown[]) => [...(arr ?? [])].reverse());
-  jexl.addTransform('sort', (arr: unknown[], key?: string) => {
+  add('join', (arr: unknown[], delimiter: string = ', ') => {
+    checkJoinedLength(sandbox, arr, delimiter, '|join');
+    return arr?.join(delimiter) ?? '';
+  });
+  add('first', (arr: unknown[]) => arr?.[0]);
+  add('last', (arr: unknown[]) => arr?.[arr.length - 1]);
+  add('nth', (arr: unknown[], n: number) => arr?.[n]);
+  add('slice', (arr: unknown[], start: number, end?: number) => arr?.slice(start, end) ?? []);
+  add('reverse', (arr: unknown[]) => [...(arr ?? [])].reverse());
+  add('sort', (arr: unknown[], key?: string) => {
     const copy = [...(arr ?? [])];
     if (key) {
       return copy.sort((a, b) => {
@@ -73,24 +125,24 @@ export function registerTransforms(jexl: Jexl.Jexl): void {
     }
     return copy.sort();
   });
-  jexl.addTransform('unique', (arr: unknown[]) => [...new Set(arr ?? [])]);
-  jexl.addTransform('flatten', (arr: unknown[][]) => (arr ?? []).flat());
-  jexl.addTransform('filter', (arr: unknown[], key: string, value: unknown) => {
+  add('unique', (arr: unknown[]) => [...new Set(arr ?? [])]);
+  add('flatten', (arr: unknown[][]) => (arr ?? []).flat());
+  add('filter', (arr: unknown[], key: string, value: unknown) => {
     return (arr ?? []).filter((item) => {
       return (item as Record<string, unknown>)?.[key] === value;
     });
   });
-  jexl.addTransform('map', (arr: unknown[], key: string) => {
+  add('map', (arr: unknown[], key: string) => {
     return (arr ?? []).map((item) => (item as Record<string, unknown>)?.[key]);
   });
-  jexl.addTransform('pluck', (arr: unknown[], key: string) => {
+  add('pluck', (arr: unknown[], key: string) => {
     return (arr ?? []).map((item) => (item as Record<string, unknown>)?.[key]);
   });
-  jexl.addTransform('pick', (arr: unknown[]) => {
+  add('pick', (arr: unknown[]) => {
     if (!arr?.length) return undefined;
     return arr[Math.floor(Math.random() * arr.length)];
   });
-  jexl.addTransform('shuffle', (arr: unknown[]) => {
+  add('shuffle', (arr: unknown[]) => {
     const copy = [...(arr ?? [])];
     for (let i = copy.length - 1; i > 0; i--) {
       const j = Math.floor(Math.random() * (i + 1));
@@ -100,27 +152,32 @@ export function registerTransforms(jexl: Jexl.Jexl): void {
   });
 
   // Number transforms
-  jexl.addTransform('round', (n: number, decimals = 0) => {
+  add('round', (n: number, decimals: number = 0) => {
     const factor = Math.pow(10, decimals);
     return Math.round(n * factor) / factor;
   });
-  jexl.addTransform('floor', Math.floor);
-  jexl.addTransform('ceil', Math.ceil);
-  jexl.addTransform('abs', Math.abs);
-  jexl.addTransform('format', (n: number, locale = 'en-US') => {
-    return new Intl.NumberFormat(locale).format(n);
-  });
-  jexl.addTransform('ordinal', (n: number) => {
-    const s = ['th', 'st', 'nd', 'rd'];
-    const v = n % 100;
-    return n + (s[(v - 20) % 10] ?? s[v] ?? s[0]);
+  add('floor', Math.floor);
+  add('ceil', Math.ceil);
+  add('abs', Math.abs);
+  // Numbers and numeric strings are formatted for a locale, or with
+  // Intl.NumberFormat options; strings with placeholders and arguments are
+  // {0} templates
+  add('format', (value: unknown, ...args: unknown[]) => {
+    if (typeof value === 'string' && args.length > 0 && value.includes('{')) {
+      return formatTemplate(value, args);
+    }
+    const [options, tag] = args as [Intl.NumberFormatOptions | string | undefined, string | undefined];
+    return typeof options === 'string'
+      ? formatNumber(value as number, options)
+      : formatNumber(value as number, tag ?? locale(), options);
   });
+  add('ordinal', (n: number, tag?: string) => ordinal(n, tag ?? locale()));
 
   // Object transforms
-  jexl.addTransform('keys', (obj: Record<string, unknown>) => Object.keys(obj ?? {}));
-  jexl.addTransform('values', (obj: Record<string, unknown>) => Object.values(obj ?? {}));
-  jexl.addTransform('entries', (obj: Record<string, unknown>) => Object.entries(obj ?? {}));
-  jexl.addTransform('get', (obj: Record<string, unknown>, path: string, defaultValue?: unknown) => {
+  add('keys', (obj: Record<string, unknown>) => Object.keys(obj ?? {}));
+  add('values', (obj: Record<string, unknown>) => Object.values(obj ?? {}));
+  add('entries', (obj: Record<string, unknown>) => Object.entries(obj ?? {}));
+  add('get', (obj: Record<string, unknown>, path: string, defaultValue?: unknown) => {
     if (!obj) return defaultValue;
     const parts = path.split('.');
     let current: unknown = obj;
@@ -132,17 +189,17 @@ export function registerTransforms(jexl: Jexl.Jexl): void {
   });
 
   // Type transforms
-  jexl.addTransform('string', String);
-  jexl.addTransform('number', (value: unknown) => Number(value) || 0);
-  jexl.addTransform('int', (value: unknown) => parseInt(String(value), 10) || 0);
-  jexl.addTransform('float', (value: unknown) => parseFloat(String(value)) || 0);
-  jexl.addTransform('boolean', Boolean);
-  jexl.addTransform('json', (value: unknown) => safeJsonStringify(value));
+  add('string', String);
+  add('number', (value: unknown) => Number(value) || 0);
+  add('int', (value: unknown) => parseInt(String(value), 10) || 0);
+  add('float', (value: unknown) => parseFloat(String(value)) || 0);
+  add('boolean', Boolean);
+  add('json', (value: unknown) => safeJsonStringify(value));
 
   // Utility transforms
-  jexl.addTransform('default', (value: unknown, defaultValue: unknown) => value ?? defaultValue);
-  jexl.addTransform('length', (value: string | unknown[]) => value?.length ?? 0);
-  jexl.addTransform('size', (value: string | unknown[] | Record<string, unknown>) => {
+  add('default', (value: unknown, defaultValue: unknown) => value ?? defaultValue);
+  add('length', (value: string | unknown[]) => value?.length ?? 0);
+  add('size', (value: string | unknown[] | Record<string, unknown>) => {
     if (typeof value === 'string' || Array.isArray(value)) {
       return value.length;
     }
@@ -153,14 +210,14 @@ export function registerTransforms(jexl: Jexl.Jexl): void {
   });
 
   // Date transforms
-  jexl.addTransform('timestamp', (date: Date, format?: string) => {
+  add('timestamp', (date: Date, format?: string) => {
     const d = date instanceof Date ? date : new Date(date);
     if (format) {
       return formatDiscordTimestamp(d, format);
     }
     return Math.floor(d.getTime() / 1000);
   });
-  jexl.addTransform('duration', (ms: number) => {
+  add('duration', (ms: number) => {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
     const hours = Math.floor(minutes / 60);
@@ -173,7 +230,7 @@ export function registerTransforms(jexl: Jexl.Jexl): void {
   });
 
   // Discord transforms
-  jexl.addTransform('mention', (id: string, type = 'user') => {
+  add('mention', (id: string, type: string = 'user') => {
     switch (type) {
       case 'user':
         return `<@${id}>`;
@@ -187,8 +244,18 @@ export function registerTransforms(jexl: Jexl.Jexl): void {
         return id;
     }
   });
-  jexl.addTransform('pluralize', (count: number, singular: string, plural?: string) => {
-    return count === 1 ? singular : (plural ?? singular + 's');
+  add('pluralize', (count: number, forms: PluralForms | string, arg?: string) => {
+    return typeof forms === 'string'
+      ? pluralize(count, forms, locale(), arg)
+      : pluralize(count, forms, arg ?? locale());
+  });
+
+  // Localized list and time transforms
+  add('formatList', (items: unknown[], style?: string, tag?: string) => {
+    return formatList(items, tag ?? locale(), style);
+  });
+  add('relativeTime', (date: DateInput, unit?: string, tag?: string) => {
+    return relativeTime(date, tag ?? locale(), unit);
   });
 }
 
@@ -0,0 +1,142 @@
+/**
+ * User-defined expression functions - helpers declared in the spec's
+ * `functions` section and written in the expression language itself
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { FunctionDefinition } from '@furlow/schema';
+import { InvalidFunctionError, MaxFunctionDepthError } from '../errors/index.js';
+import { LRUCache, type ExpressionEvaluator } from './evaluator.js';
+import { scanTemplate } from './template.js';
+
+export interface UserFunctionOptions {
+  /** Maximum nesting of user function calls, recursion included (default: 32) */
+  maxDepth?: number;
+  /** Maximum cached results per function (default: 500) */
+  cacheSize?: number;
+}
+
+const DEFAULT_OPTIONS: Required<UserFunctionOptions> = {
+  maxDepth: 32,
+  cacheSize: 500,
+};
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** User function calls being evaluated, outermost first */
+const callStack = new AsyncLocalStorage<string[]>();
+
+/**
+ * Register user-defined functions on an evaluator.
+ *
+ * A function's body only sees its parameters, so results depend on the
+ * arguments alone and are cached per function. Arguments that are not
+ * strings, numbers, booleans or null are never cached. Bodies may call
+ * other user functions and themselves, up to `maxDepth` nested calls.
+ */
+export function registerUserFunctions(
+  evaluator: ExpressionEvaluator,
+  functions: Record<string, FunctionDefinition>,
+  options: UserFunctionOptions = {}
+): void {
+  const { maxDepth, cacheSize } = { ...DEFAULT_OPTIONS, ...options };
+
+  for (const [name, definition] of Object.entries(functions)) {
+    validateDefinition(evaluator, name, definition);
+  }
+
+  for (const [name, definition] of Object.entries(functions)) {
+    const params = definition.params ?? [];
+    const body = definition.body.trim();
+    const isTemplate = evaluator.hasExpressions(body);
+    // Pending calls are cached too, so concurrent calls share one evaluation
+    const cache = definition.cache === false ? null : new LRUCache<string, Promise<unknown>>(cacheSize);
+
+    const call = async (args: unknown[], id: string): Promise<unknown> => {
+      const stack = callStack.getStore() ?? [];
+      if (stack.length >= maxDepth) {
+        throw new MaxFunctionDepthError(name, maxDepth);
+      }
+
+      const scope: Record<string, unknown> = {};
+      params.forEach((param, i) => {
+        scope[param] = args[i];
+      });
+
+      // Bodies cannot use async lookups, which would make cached results stale
+      return callStack.run([...stack, id], () =>
+        evaluator.isolate(() =>
+          isTemplate ? evaluator.evaluateTemplate(body, scope) : evaluator.evaluate(body, scope)
+        )
+      );
+    };
+
+    evaluator.addFunction(name, (...args: unknown[]) => {
+      // Formatting functions in the body depend on the caller's locale
+      const key = cache ? cacheKey([evaluator.getLocale(), ...args]) : undefined;
+      if (key === undefined) {
+        return call(args, name);
+      }
+
+      // A call waiting on itself would never settle; let it hit the depth limit
+      const id = `${name}${key}`;
+      const cached = cache!.get(key);
+      if (cached && !callStack.getStore()?.includes(id)) return cached;
+
+      const result = call(args, id);
+      cache!.set(key, result);
+      // Failed calls are retried next time
+      result.catch(() => cache!.delete(key));
+      return result;
+    });
+  }
+}
+
+function validateDefinition(
+  evaluator: ExpressionEvaluator,
+  name: string,
+  definition: FunctionDefinition
+): void {
+  if (!NAME_PATTERN.test(name)) {
+    throw new InvalidFunctionError(name, 'names must be letters, digits and underscores');
+  }
+  if (evaluator.hasFunction(name)) {
+    throw new InvalidFunctionError(name, 'a function with this name already exists');
+  }
+  if (typeof definition?.body !== 'string' || !definition.body.trim()) {
+    throw new InvalidFunctionError(name, 'body must be a non-empty expression');
+  }
+
+  // Report syntax errors when the spec loads rather than on first call
+  const body = definition.body.trim();
+  if (evaluator.hasExpressions(body)) {
+    for (const part of scanTemplate(body)) {
+      if (part.expression.trim()) evaluator.parse(part.expression.trim());
+    }
+  } else {
+    evaluator.parse(body);
+  }
+
+  const params = definition.params ?? [];
+  for (const param of params) {
+    if (!NAME_PATTERN.test(param)) {
+      throw new InvalidFunctionError(name, `invalid parameter name "${param}"`);
+    }
+  }
+  if (new Set(params).size !== params.length) {
+    throw new InvalidFunctionError(name, 'parameter names must be unique');
+  }
+}
+
+/**
+ * Cache key for a call, or undefined when an argument cannot be compared
+ * by value
+ */
+function cacheKey(args: unknown[]): string | undefined {
+  for (const arg of args) {
+    if (arg !== null && arg !== undefined && !['string', 'number', 'boolean'].includes(typeof arg)) {
+      return undefined;
+    }
+  }
+  return JSON.stringify(args.map((arg) => (arg === undefined ? null : arg)));
+}
@@ -0,0 +1,359 @@
+/**
+ * Durable workflow tests
+ *
+ * Covers:
+ * - Checkpointing position, args and variables to storage
+ * - Suspending at top-level waits and continuing in-process
+ * - Resuming saved runs in a new engine after a restart
+ * - Cleaning up checkpoints on completion, abort and unknown flows
+ * - Rejecting waits that cannot be checkpointed
+ * - Claiming runs so only one process resumes each
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryAdapter } from '@furlow/storage';
+import { createFlowEngine } from '../engine.js';
+import { WORKFLOW_CLAIM_TTL, createWorkflowStore, type WorkflowStore } from '../workflows.js';
+import { createActionExecutor, type ActionExecutor } from '../../actions/executor.js';
+import { createActionRegistry } from '../../actions/registry.js';
+import { registerFlowHandlers } from '../../actions/handlers/flow.js';
+import { createEvaluator } from '../../expression/evaluator.js';
+import type { Action, FlowDefinition } from '@furlow/schema';
+import type { ActionContext } from '../../actions/types.js';
+
+const HOUR = 60 * 60 * 1000;
+
+const moderationFlow: FlowDefinition = {
+  name: 'temp_mute',
+  durable: true,
+  parameters: [{ name: 'hours', type: 'number', required: true }],
+  actions: [
+    { action: 'lookup', as: 'member' },
+    { action: 'record', label: 'muted ${member.name}' },
+    { action: 'wait', duration: '${args.hours}h' },
+    { action: 'record', label: 'unmuted ${member.name} after ${args.hours}h' },
+  ] as unknown as Action[],
+};
+
+describe('Durable workflows', () => {
+  let adapter: MemoryAdapter;
+  let store: WorkflowStore;
+  let executor: ActionExecutor;
+  let evaluator: ReturnType<typeof createEvaluator>;
+  let recorded: string[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    adapter = new MemoryAdapter();
+    store = createWorkflowStore(adapter);
+    recorded = [];
+
+    evaluator = createEvaluator();
+    const registry = createActionRegistry();
+    registry.register({
+      name: 'lookup',
+      execute: async () => ({ success: true, data: { name: 'alice' } }),
+    });
+    registry.register({
+      name: 'record',
+      execute: async (config, context) => {
+        recorded.push(await evaluator.interpolate(String((config as any).label), context));
+        return { success: true };
+      },
+    });
+    registerFlowHandlers(registry, { evaluator } as any);
+    executor = createActionExecutor(registry, evaluator);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should suspend at a top-level wait and save a checkpoint', async () => {
+    const engine = createFlowEngine({ workflows: store });
+    engine.register(moderationFlow);
+
+    const result = await engine.execute(
+      'temp_mute',
+      { hours: 24 },
+      { guildId: 'g1', userId: 'u1' } as ActionContext,
+      executor,
+      evaluator
+    );
+
+    expect(result).toMatchObject({ success: true, suspended: true });
+    expect(recorded).toEqual(['muted alice']);
+
+    const [checkpoint] = await store.list();
+    expect(checkpoint).toMatchObject({
+      id: result.workflowId,
+      flow: 'temp_mute',
+      args: { hours: 24 },
+      position: 3,
+      vars: { member: { name: 'alice' } },
+      results: [{ success: true, data: { name: 'alice' } }, { success: true }, { success: true }],
+      scope: { guildId: 'g1', userId: 'u1' },
+      resumeAt: Date.now() + 24 * HOUR,
+    });
+
+    await engine.stopWorkflows();
+  });
+
+  it('should continue in-process when the wait is over and delete the checkpoint', async () => {
+    const engine = createFlowEngine({ workflows: store });
+    engine.register({
+      ...moderationFlow,
+      actions: [
+        { action: 'lookup', as: 'member' },
+        { action: 'wait', duration: '2h' },
+        { action: 'record', label: '${member.name} in ${workflow.flow}' },
+      ] as unknown as Action[],
+    });
+
+    await engine.execute('temp_mute', { hours: 2 }, {} as ActionContext, executor, evaluator);
+    await vi.advanceTimersByTimeAsync(2 * HOUR - 1);
+    expect(recorded).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(recorded).toEqual(['alice in temp_mute']);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should resume a saved run in a new engine after a restart', async () => {
+    const flow: FlowDefinition = {
+      ...moderationFlow,
+      actions: [
+        { action: 'lookup', as: 'member' },
+        { action: 'wait', duration: '1d' },
+        { action: 'record', label: 'unmuted ${member.name} in ${guildId}' },
+      ] as unknown as Action[],
+    };
+
+    const first = createFlowEngine({ workflows: store });
+    first.register(flow);
+    await first.execute('temp_mute', { hours: 24 }, { guildId: 'g1' } as ActionContext, executor, evaluator);
+    await first.stopWorkflows();
+
+    await vi.advanceTimersByTimeAsync(HOUR);
+
+    const second = createFlowEngine({ workflows: store });
+    second.register(flow);
+    const buildContext = vi.fn((scope) => ({ guildId: scope.guildId }) as ActionContext);
+    const resumed = await second.resumeWorkflows(buildContext, executor, evaluator);
+
+    expect(resumed).toBe(1);
+    expect(buildContext).toHaveBeenCalledWith({ guildId: 'g1' });
+
+    await vi.advanceTimersByTimeAsync(23 * HOUR);
+
+    expect(recorded).toEqual(['unmuted alice in g1']);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should run overdue waits as soon as they are resumed', async () => {
+    const engine = createFlowEngine({ workflows: store });
+    engine.register(moderationFlow);
+    const now = Date.now();
+    await store.save({
+      id: 'overdue',
+      flow: 'temp_mute',
+      args: { hours: 1 },
+      position: 3,
+      vars: { member: { name: 'bob' } },
+      scope: {},
+      resumeAt: now - HOUR,
+      createdAt: now - 2 * HOUR,
+      updatedAt: now - HOUR,
+    });
+
+    await engine.resumeWorkflows(() => ({}) as ActionContext, executor, evaluator);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(recorded).toEqual(['unmuted bob after 1h']);
+  });
+
+  it('should split waits longer than a timer allows', async () => {
+    const engine = createFlowEngine({ workflows: store });
+    engine.register({
+      name: 'reminder',
+      durable: true,
+      actions: [
+        { action: 'wait', duration: '4w' },
+        { action: 'record', label: 'done' },
+      ] as unknown as Action[],
+    });
+
+    await engine.execute('reminder', {}, {} as ActionContext, executor, evaluator);
+    await vi.advanceTimersByTimeAsync(27 * 24 * HOUR);
+    expect(recorded).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(24 * HOUR);
+    expect(recorded).toEqual(['done']);
+  });
+
+  it('should delete the checkpoint when the run aborts', async () => {
+    const engine = createFlowEngine({ workflows: store });
+    engine.register({
+      name: 'fragile',
+      durable: true,
+      actions: [
+        { action: 'abort', reason: 'not needed' },
+        { action: 'wait', duration: '1h' },
+      ] as unknown as Action[],
+    });
+
+    const result = await engine.execute('fragile', {}, {} as ActionContext, executor, evaluator);
+
+    expect(result).toMatchObject({ success: false, aborted: true });
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should drop checkpoints for flows that no longer exist', async () => {
+    const engine = createFlowEngine({ workflows: store });
+    const now = Date.now();
+    await store.save({
+      id: 'orphan',
+      flow: 'removed_flow',
+      args: {},
+      position: 1,
+      vars: {},
+      scope: {},
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const resumed = await engine.resumeWorkflows(() => ({}) as ActionContext, executor, evaluator);
+
+    expect(resumed).toBe(0);
+    expect(await store.load('orphan')).toBeNull();
+  });
+
+  it('should run durable flows called from another flow inline', async () => {
+    const engine = createFlowEngine({ workflows: store });
+    engine.register({
+      name: 'inner',
+      durable: true,
+      actions: [
+        { action: 'wait', duration: '1s' },
+        { action: 'record', label: 'inner' },
+      ] as unknown as Action[],
+    });
+    engine.register({
+      name: 'outer',
+      actions: [{ action: 'call_flow', flow: 'inner' }] as unknown as Action[],
+    });
+
+    const pending = engine.execute('outer', {}, {} as ActionContext, executor, evaluator);
+    await vi.advanceTimersByTimeAsync(1000);
+    const result = await pending;
+
+    expect(result.workflowId).toBeUndefined();
+    expect(recorded).toEqual(['inner']);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should keep earlier results for returns after a wait', async () => {
+    const engine = createFlowEngine({ workflows: store });
+    engine.register({
+      name: 'lookup_later',
+      durable: true,
+      returns: 'results[0].data.name',
+      actions: [
+        { action: 'lookup' },
+        { action: 'wait', duration: '1h' },
+        { action: 'record', label: 'done' },
+      ] as unknown as Action[],
+    });
+    const run = vi.spyOn(engine as any, 'runWorkflow');
+
+    await engine.execute('lookup_later', {}, {} as ActionContext, executor, evaluator);
+    await vi.advanceTimersByTimeAsync(HOUR);
+
+    expect(recorded).toEqual(['done']);
+    expect(await run.mock.results[1]!.value).toMatchObject({ success: true, value: 'alice' });
+  });
+
+  it('should reject waits and timers a durable flow cannot save', () => {
+    const engine = createFlowEngine({ workflows: store });
+
+    expect(() =>
+      engine.register({
+        name: 'nested_wait',
+        durable: true,
+        actions: [
+          { action: 'flow_if', if: 'true', then: [{ action: 'wait', duration: '1h' }] },
+        ] as unknown as Action[],
+      })
+    ).toThrow('Durable flow "nested_wait" cannot use wait');
+    expect(() =>
+      engine.register({
+        name: 'with_timer',
+        durable: true,
+        actions: [{ action: 'create_timer', id: 't', duration: '1h', event: 'done' }] as unknown as Action[],
+      })
+    ).toThrow('Durable flow "with_timer" cannot use create_timer');
+
+    // Flows that are not durable may wait anywhere
+    engine.register({
+      name: 'in_memory',
+      actions: [
+        { action: 'flow_if', if: 'true', then: [{ action: 'wait', duration: '1h' }] },
+      ] as unknown as Action[],
+    });
+  });
+
+  it('should resume each saved run in only one engine', async () => {
+    const first = createFlowEngine({ workflows: store });
+    const second = createFlowEngine({ workflows: store });
+    first.register(moderationFlow);
+    second.register(moderationFlow);
+    const now = Date.now();
+    await store.save({
+      id: 'shared',
+      flow: 'temp_mute',
+      args: { hours: 1 },
+      position: 3,
+      vars: { member: { name: 'bob' } },
+      scope: {},
+      resumeAt: now + HOUR,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    expect(await first.resumeWorkflows(() => ({}) as ActionContext, executor, evaluator)).toBe(1);
+    expect(await second.resumeWorkflows(() => ({}) as ActionContext, executor, evaluator)).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(HOUR + WORKFLOW_CLAIM_TTL);
+
+    expect(recorded).toEqual(['unmuted bob after 1h']);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should take over a run once the claim of a stopped process lapses', async () => {
+    const engine = createFlowEngine({ workflows: store });
+    engine.register(moderationFlow);
+    const now = Date.now();
+    const checkpoint = {
+      id: 'crashed',
+      flow: 'temp_mute',
+      args: { hours: 1 },
+      position: 3,
+      vars: { member: { name: 'carol' } },
+      scope: {},
+      resumeAt: now + HOUR,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await store.save(checkpoint);
+    expect(await store.claim(checkpoint)).toBe(true);
+
+    expect(await engine.resumeWorkflows(() => ({}) as ActionContext, executor, evaluator)).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(HOUR);
+    expect(recorded).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(WORKFLOW_CLAIM_TTL + 1);
+    expect(recorded).toEqual(['unmuted carol after 1h']);
+  });
+});
@@ -2,33 +2,117 @@
  * Flow engine - executes named action sequences
  */
 
+import { randomUUID } from 'node:crypto';
 import type { FlowDefinition, FlowParameter, Action } from '@furlow/schema';
 import type { FlowExecutionContext, FlowResult, RegisteredFlow } from './types.js';
-import type { ActionExecutor } from '../actions/executor.js';
+import type { WorkflowCheckpoint, WorkflowStore } from './workflows.js';
+import { bindResult, type ActionExecutor } from '../actions/executor.js';
 import type { ActionContext, ActionResult } from '../actions/types.js';
 import type { ExpressionEvaluator } from '../expression/evaluator.js';
 import type { StateManager } from '../state/manager.js';
-import { FlowNotFoundError, FlowAbortedError, MaxFlowDepthError } from '../errors/index.js';
+import {
+  FlowNotFoundError,
+  FlowAbortedError,
+  InvalidDurableFlowError,
+  MaxFlowDepthError,
+} from '../errors/index.js';
 import { normalizeActionsDeep } from '../parser/normalize.js';
+import { runTransaction, type RollbackReport } from '../actions/compensation.js';
+import { runBatchAction } from '../actions/batch.js';
+import { abortReason } from '../actions/deadline.js';
+import { atActionPosition, withActionScope } from '../actions/idempotency.js';
+import { parseDuration } from '../scheduler/timer.js';
+import { handleError } from '../errors/handler.js';
+import { toPlainData, type Tracer } from '../tracing/tracer.js';
 
 export interface FlowEngineOptions {
   /** Maximum flow call depth */
   maxDepth?: number;
   /** Maximum loop iterations */
   maxIterations?: number;
+  /** Record spans for flows and flow control actions */
+  tracer?: Tracer;
+  /** Checkpoint store for durable flows; without it they run in memory */
+  workflows?: WorkflowStore;
 }
 
-const DEFAULT_OPTIONS: Required<FlowEngineOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<FlowEngineOptions, 'tracer' | 'workflows'>> = {
   maxDepth: 50,
   maxIterations: 10000,
 };
 
+/** Actions handled by the engine itself rather than the executor */
+const CONTROL_ACTIONS = new Set([
+  'abort',
+  'return',
+  'flow_if',
+  'flow_switch',
+  'flow_while',
+  'repeat',
+  'call_flow',
+  'parallel',
+  'batch',
+  'try',
+  'transaction',
+]);
+
+/** Longest delay setTimeout accepts */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Check that a durable flow only waits where it can be checkpointed: a
+ * `wait` nested in another action, or a `create_timer`, would be lost on
+ * restart.
+ */
+function checkDurableActions(flowName: string, value: unknown, topLevel: boolean): void {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      checkDurableActions(flowName, item, topLevel);
+    }
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  const action = (value as { action?: unknown }).action;
+  if (action === 'wait' && !topLevel) {
+    throw new InvalidDurableFlowError(flowName, 'wait', 'only top-level waits are saved');
+  }
+  if (action === 'create_timer') {
+    throw new InvalidDurableFlowError(flowName, 'create_timer', 'timers are not saved; use a top-level wait');
+  }
+  for (const child of Object.values(value)) {
+    checkDurableActions(flowName, child, false);
+  }
+}
+
+/**
+ * Collect the variables a flow has bound beyond its starting context, as
+ * plain data that can be stored
+ */
+function collectVars(context: ActionContext, baseKeys: Set<string>): Record<string, unknown> {
+  const vars: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(context)) {
+    if (baseKeys.has(key) || key.startsWith('_')) continue;
+    if (value === undefined || typeof value === 'function') continue;
+    vars[key] = toPlainData(value);
+  }
+  return vars;
+}
+
 export class FlowEngine {
   private flows: Map<string, RegisteredFlow> = new Map();
-  private options: Required<FlowEngineOptions>;
+  private options: Required<Omit<FlowEngineOptions, 'tracer' | 'workflows'>>;
+  private tracer?: Tracer;
+  private workflows?: WorkflowStore;
+  private workflowTimers: Map<string, NodeJS.Timeout> = new Map();
+  private activeWorkflows: Set<string> = new Set();
+  private claimedWorkflows: Set<string> = new Set();
 
   constructor(options: FlowEngineOptions = {}) {
-    this.options = { ...DEFAULT_OPTIONS, ...options };
+    const { tracer, workflows, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.tracer = tracer;
+    this.workflows = workflows;
   }
 
   /**
@@ -45,6 +129,9 @@ export class FlowEngine {
       ...flow,
       actions: normalizeActionsDeep(flow.actions),
     };
+    if (normalizedFlow.durable) {
+      checkDurableActions(flow.name, normalizedFlow.actions, true);
+    }
 
     this.flows.set(flow.name, { definition: normalizedFlow, parameters });
   }
@@ -82,6 +169,37 @@ export class FlowEngine {
     executor: ActionExecutor,
     evaluator: ExpressionEvaluator,
     flowContext: FlowExecutionContext = { args: {}, depth: 0 }
+  ): Promise<FlowResult> {
+    const tracer = this.tracer;
+    if (!tracer) {
+      return this.run(name, args, context, executor, evaluator, flowContext);
+    }
+
+    return tracer.span(
+      name,
+      'flow',
+      async (span) => {
+        const result = await this.run(name, args, context, executor, evaluator, flowContext);
+        tracer.recordResult(span, { ...result, data: result.value });
+        if (result.aborted) {
+          span.attributes.aborted = true;
+        }
+        return result;
+      },
+      { args }
+    );
+  }
+
+  /**
+   * Resolve parameters and run a flow's actions
+   */
+  private async run(
+    name: string,
+    args: Record<string, unknown>,
+    context: ActionContext,
+    executor: ActionExecutor,
+    evaluator: ExpressionEvaluator,
+    flowContext: FlowExecutionContext
   ): Promise<FlowResult> {
     // Check depth
     if (flowContext.depth >= this.options.maxDepth) {
@@ -116,43 +234,335 @@ export class FlowEngine {
       flowContext: flowCtx,
     } as ActionContext;
 
-    try {
-      // Execute actions
-      const results = await this.executeActions(
-        flow.definition.actions,
+    // Durable flows started outside another flow are checkpointed
+    if (flow.definition.durable && this.workflows && flowContext.depth === 0) {
+      const now = Date.now();
+      const checkpoint: WorkflowCheckpoint = {
+        id: randomUUID(),
+        flow: name,
+        args: toPlainData(resolvedArgs) as Record<string, unknown>,
+        position: 0,
+        vars: {},
+        scope: {
+          guildId: context.guildId,
+          channelId: context.channelId,
+          userId: context.userId,
+        },
+        createdAt: now,
+        updatedAt: now,
+      };
+      (actionContext as Record<string, unknown>).workflow = { id: checkpoint.id, flow: name };
+      await this.workflows.claim(checkpoint);
+      this.claimedWorkflows.add(checkpoint.id);
+      return this.runWorkflow(
+        flow,
+        checkpoint,
         actionContext,
+        new Set(Object.keys(actionContext)),
         executor,
         evaluator,
         flowCtx
       );
+    }
 
-      // Check for abort
-      if (flowCtx.aborted) {
-        return {
-          success: false,
-          aborted: true,
-          error: new FlowAbortedError(name, flowCtx.abortReason),
-        };
-      }
+    try {
+      // Execute actions, placed under the flow for their idempotency keys
+      const results = await atActionPosition(`flow:${name}`, () =>
+        this.executeActions(flow.definition.actions, actionContext, executor, evaluator, flowCtx)
+      );
 
-      // Evaluate return value
-      let returnValue: unknown;
-      if (flow.definition.returns) {
-        returnValue = await evaluator.evaluate(flow.definition.returns, {
-          ...actionContext,
-          results,
-        });
-      }
+      return await this.finish(name, flow, actionContext, evaluator, flowCtx, results);
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err : new Error(String(err)),
+      };
+    }
+  }
 
+  /**
+   * Build a flow's result once its actions have run
+   */
+  private async finish(
+    name: string,
+    flow: RegisteredFlow,
+    context: ActionContext,
+    evaluator: ExpressionEvaluator,
+    flowCtx: FlowExecutionContext,
+    results: ActionResult[]
+  ): Promise<FlowResult> {
+    // Check for abort
+    if (flowCtx.aborted) {
       return {
-        success: true,
-        value: returnValue ?? flowCtx.returnValue,
+        success: false,
+        aborted: true,
+        error: new FlowAbortedError(name, flowCtx.abortReason),
       };
+    }
+
+    // Evaluate return value
+    let returnValue: unknown;
+    if (flow.definition.returns) {
+      returnValue = await evaluator.resolveExpression(flow.definition.returns, {
+        ...context,
+        results,
+      });
+    }
+
+    return {
+      success: true,
+      value: returnValue ?? flowCtx.returnValue,
+    };
+  }
+
+  /**
+   * Run a durable flow's top-level actions from its checkpoint, saving the
+   * position, variables and results after each one. A top-level wait saves
+   * the checkpoint and suspends the run until the wait is over.
+   */
+  private async runWorkflow(
+    flow: RegisteredFlow,
+    checkpoint: WorkflowCheckpoint,
+    context: ActionContext,
+    baseKeys: Set<string>,
+    executor: ActionExecutor,
+    evaluator: ExpressionEvaluator,
+    flowCtx: FlowExecutionContext
+  ): Promise<FlowResult> {
+    const workflows = this.workflows!;
+    const actions = flow.definition.actions;
+    const results: ActionResult[] = (checkpoint.results ?? []).map((result) => ({ ...result }));
+    const workflowId = checkpoint.id;
+    this.activeWorkflows.add(workflowId);
+
+    try {
+      for (let i = checkpoint.position; i < actions.length; i++) {
+        const action = actions[i]!;
+
+        if (
+          action.action === 'wait' &&
+          !flowCtx.aborted &&
+          !context.signal?.aborted &&
+          (!action.when || (await executor.evaluateCondition(action.when, context)))
+        ) {
+          const duration = await evaluator.interpolate(String(action.duration), context);
+          results.push({ success: true });
+          checkpoint.position = i + 1;
+          checkpoint.resumeAt = Date.now() + parseDuration(duration);
+          await this.saveCheckpoint(checkpoint, context, baseKeys, results);
+
+          // The invocation that started the run is over once it suspends
+          const resumeContext = { ...context, signal: undefined } as ActionContext;
+          this.scheduleWorkflow(checkpoint, () =>
+            this.runWorkflow(flow, checkpoint, resumeContext, baseKeys, executor, evaluator, flowCtx)
+          );
+          return { success: true, workflowId, suspended: true };
+        }
+
+        // Resumed runs start outside the caller, so the run id keeps their keys stable
+        const outcome = await withActionScope(`workflow:${checkpoint.id}`, () =>
+          atActionPosition(i, () =>
+            this.executeTraced(action, context, executor, evaluator, flowCtx, results)
+          )
+        );
+
+        if (context.signal?.aborted) {
+          // Leave the last checkpoint in place so the run resumes on the next start
+          await workflows.release(workflowId);
+          this.claimedWorkflows.delete(workflowId);
+          return {
+            success: false,
+            workflowId,
+            suspended: true,
+            error: abortReason(context.signal),
+          };
+        }
+
+        checkpoint.position = i + 1;
+        checkpoint.resumeAt = undefined;
+        await this.saveCheckpoint(checkpoint, context, baseKeys, results);
+
+        if (outcome === 'break') {
+          break;
+        }
+      }
+
+      const result = await this.finish(checkpoint.flow, flow, context, evaluator, flowCtx, results);
+      await workflows.delete(workflowId);
+      this.claimedWorkflows.delete(workflowId);
+      return { ...result, workflowId };
     } catch (err) {
+      await workflows.delete(workflowId).catch(() => false);
+      this.claimedWorkflows.delete(workflowId);
       return {
         success: false,
+        workflowId,
         error: err instanceof Error ? err : new Error(String(err)),
       };
+    } finally {
+      this.activeWorkflows.delete(workflowId);
+    }
+  }
+
+  /**
+   * Save a run's variables and results with its checkpoint and extend this
+   * process's claim on it
+   */
+  private async saveCheckpoint(
+    checkpoint: WorkflowCheckpoint,
+    context: ActionContext,
+    baseKeys: Set<string>,
+    results: ActionResult[]
+  ): Promise<void> {
+    checkpoint.vars = collectVars(context, baseKeys);
+    checkpoint.results = results.map((result) => ({
+      success: result.success,
+      data: toPlainData(result.data),
+    }));
+    await this.workflows!.save(checkpoint);
+    await this.workflows!.renew(checkpoint);
+  }
+
+  /**
+   * Continue a suspended workflow once its wait is over
+   */
+  private scheduleWorkflow(
+    checkpoint: WorkflowCheckpoint,
+    resume: () => Promise<FlowResult>
+  ): void {
+    this.scheduleAt(checkpoint.id, checkpoint.resumeAt ?? 0, async () => {
+      const result = await resume();
+      if (result.error && !result.aborted) {
+        handleError(result.error, 'action', 'error', {
+          flow: checkpoint.flow,
+          workflowId: checkpoint.id,
+        });
+      }
+    });
+  }
+
+  /**
+   * Run fn for a workflow at the given time (ms since epoch)
+   */
+  private scheduleAt(id: string, at: number, fn: () => Promise<void>): void {
+    const delay = Math.max(0, at - Date.now());
+    const timer = setTimeout(() => {
+      this.workflowTimers.delete(id);
+
+      // Waits longer than a timer allows are split into several timers
+      if (delay > MAX_TIMER_DELAY) {
+        this.scheduleAt(id, at, fn);
+        return;
+      }
+
+      void fn();
+    }, Math.min(delay, MAX_TIMER_DELAY));
+
+    this.workflowTimers.set(id, timer);
+  }
+
+  /**
+   * Resume durable flows saved by a previous run. buildContext recreates
+   * the context each run was started in from its saved IDs; variables the
+   * run had bound are restored on top. Returns the number of runs resumed.
+   */
+  async resumeWorkflows(
+    buildContext: (scope: WorkflowCheckpoint['scope']) => ActionContext | Promise<ActionContext>,
+    executor: ActionExecutor,
+    evaluator: ExpressionEvaluator
+  ): Promise<number> {
+    if (!this.workflows) {
+      return 0;
+    }
+
+    let resumed = 0;
+    for (const checkpoint of await this.workflows.list()) {
+      if (this.activeWorkflows.has(checkpoint.id) || this.workflowTimers.has(checkpoint.id)) {
+        continue;
+      }
+
+      if (await this.resumeWorkflow(checkpoint, buildContext, executor, evaluator)) {
+        resumed++;
+      }
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Resume one saved run if this process can claim it. A run another
+   * process has claimed is checked again when that claim lapses, so it
+   * still resumes if that process stopped. Returns whether it was claimed.
+   */
+  private async resumeWorkflow(
+    checkpoint: WorkflowCheckpoint,
+    buildContext: (scope: WorkflowCheckpoint['scope']) => ActionContext | Promise<ActionContext>,
+    executor: ActionExecutor,
+    evaluator: ExpressionEvaluator
+  ): Promise<boolean> {
+    const workflows = this.workflows!;
+    const flow = this.flows.get(checkpoint.flow);
+    if (!flow) {
+      await workflows.delete(checkpoint.id);
+      handleError(new FlowNotFoundError(checkpoint.flow), 'action', 'warn', {
+        workflowId: checkpoint.id,
+      });
+      return false;
+    }
+
+    if (!(await workflows.claim(checkpoint))) {
+      const claimedUntil = (await workflows.claimedUntil(checkpoint.id)) ?? Date.now();
+      this.scheduleAt(checkpoint.id, claimedUntil, async () => {
+        try {
+          const latest = await workflows.load(checkpoint.id);
+          if (latest) {
+            await this.resumeWorkflow(latest, buildContext, executor, evaluator);
+          }
+        } catch (err) {
+          handleError(err instanceof Error ? err : new Error(String(err)), 'action', 'error', {
+            flow: checkpoint.flow,
+            workflowId: checkpoint.id,
+          });
+        }
+      });
+      return false;
+    }
+    this.claimedWorkflows.add(checkpoint.id);
+
+    const flowCtx: FlowExecutionContext = {
+      args: checkpoint.args,
+      depth: 1,
+      parentFlow: checkpoint.flow,
+    };
+    const context = {
+      ...(await buildContext(checkpoint.scope)),
+      args: checkpoint.args,
+      flowContext: flowCtx,
+      workflow: { id: checkpoint.id, flow: checkpoint.flow },
+    } as ActionContext;
+    const baseKeys = new Set(Object.keys(context));
+    Object.assign(context, checkpoint.vars);
+
+    this.scheduleWorkflow(checkpoint, () =>
+      this.runWorkflow(flow, checkpoint, context, baseKeys, executor, evaluator, flowCtx)
+    );
+    return true;
+  }
+
+  /**
+   * Stop the timers of suspended workflows and release their claims. Their
+   * checkpoints stay saved and resume on the next start.
+   */
+  async stopWorkflows(): Promise<void> {
+    for (const timer of this.workflowTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.workflowTimers.clear();
+
+    for (const id of this.claimedWorkflows) {
+      if (this.activeWorkflows.has(id)) continue;
+      this.claimedWorkflows.delete(id);
+      await this.workflows?.release(id);
     }
   }
 
@@ -168,312 +578,345 @@ export class FlowEngine {
   ): Promise<ActionResult[]> {
     const results: ActionResult[] = [];
 
-    for (const action of actions) {
-      // Check for abort
-      if (flowCtx.aborted || context.signal?.aborted) {
+    for (const [index, action] of actions.entries()) {
+      const outcome = await atActionPosition(index, () =>
+        this.executeTraced(action, context, executor, evaluator, flowCtx, results)
+      );
+      if (outcome === 'break') {
         break;
       }
+    }
 
-      // Handle flow control actions
-      if (action.action === 'abort') {
-        flowCtx.aborted = true;
-        flowCtx.abortReason = action.reason
-          ? await evaluator.interpolate(action.reason, context)
-          : undefined;
-        break;
+    return results;
+  }
+
+  /**
+   * Execute one action, recording a span for flow control actions
+   */
+  private executeTraced(
+    action: Action,
+    context: ActionContext,
+    executor: ActionExecutor,
+    evaluator: ExpressionEvaluator,
+    flowCtx: FlowExecutionContext,
+    results: ActionResult[]
+  ): Promise<'break' | 'continue'> {
+    const tracer = this.tracer;
+    return tracer && CONTROL_ACTIONS.has(action.action)
+      ? tracer.span(action.action, 'control', () =>
+          this.executeAction(action, context, executor, evaluator, flowCtx, results)
+        )
+      : this.executeAction(action, context, executor, evaluator, flowCtx, results);
+  }
+
+  /**
+   * Execute one action, handling flow control actions inline.
+   * Results are appended to `results`; the return value tells the caller
+   * whether to keep going through the remaining actions.
+   */
+  private async executeAction(
+    action: Action,
+    context: ActionContext,
+    executor: ActionExecutor,
+    evaluator: ExpressionEvaluator,
+    flowCtx: FlowExecutionContext,
+    results: ActionResult[]
+  ): Promise<'break' | 'continue'> {
+    // Check for abort
+    if (flowCtx.aborted || context.signal?.aborted) {
+      return 'break';
+    }
+
+    // Handle flow control actions
+    if (action.action === 'abort') {
+      flowCtx.aborted = true;
+      flowCtx.abortReason = action.reason
+        ? await evaluator.interpolate(action.reason, context)
+        : undefined;
+      this.tracer?.annotate({ reason: flowCtx.abortReason });
+      return 'break';
+    }
+
+    if (action.action === 'return') {
+      if (action.value) {
+        flowCtx.returnValue = await evaluator.resolveExpression(action.value, context);
+        this.tracer?.annotate({ value: flowCtx.returnValue });
       }
+      return 'break';
+    }
 
-      if (action.action === 'return') {
-        if (action.value) {
-          flowCtx.returnValue = await evaluator.evaluate(action.value, context);
-        }
-        break;
+    // Handle flow_if
+    if (action.action === 'flow_if') {
+      const condition = await this.evaluateConditionWithState(
+        action.if as string,
+        context,
+        evaluator
+      );
+      const branch = condition
+        ? (action.then as Action[])
+        : (action.else as Action[] | undefined);
+      this.tracer?.annotate({ condition, branch: condition ? 'then' : 'else' });
+
+      if (branch) {
+        const branchResults = await this.executeActions(
+          branch,
+          context,
+          executor,
+          evaluator,
+          flowCtx
+        );
+        results.push(...branchResults);
+      }
+      return 'continue';
+    }
+
+    // Handle flow_switch
+    if (action.action === 'flow_switch') {
+      const value = (await evaluator.resolveExpression(action.value, context)) as string;
+      const cases = action.cases as Record<string, Action[]>;
+      const branch = cases[value] ?? (action.default as Action[] | undefined);
+      this.tracer?.annotate({ value, branch: value in cases ? value : 'default' });
+
+      if (branch) {
+        const branchResults = await this.executeActions(
+          branch,
+          context,
+          executor,
+          evaluator,
+          flowCtx
+        );
+        results.push(...branchResults);
       }
+      return 'continue';
+    }
 
-      // Handle flow_if
-      if (action.action === 'flow_if') {
+    // Handle flow_while
+    if (action.action === 'flow_while') {
+      let iterations = 0;
+      // Use per-action max_iterations if defined, otherwise use global
+      const maxIter = (action.max_iterations as number) ?? this.options.maxIterations;
+      while (iterations < maxIter) {
         const condition = await this.evaluateConditionWithState(
-          action.if as string,
+          action.while as string,
           context,
           evaluator
         );
-        const branch = condition
-          ? (action.then as Action[])
-          : (action.else as Action[] | undefined);
+        if (!condition || flowCtx.aborted || context.signal?.aborted) break;
 
-        if (branch) {
-          const branchResults = await this.executeActions(
-            branch,
-            context,
-            executor,
-            evaluator,
-            flowCtx
-          );
-          results.push(...branchResults);
-        }
-        continue;
+        const loopResults = await this.executeActions(
+          action.do as Action[],
+          context,
+          executor,
+          evaluator,
+          flowCtx
+        );
+        results.push(...loopResults);
+
+        // Check abort after executing loop body
+        if (flowCtx.aborted || context.signal?.aborted) break;
+
+        iterations++;
+      }
+      this.tracer?.annotate({ iterations });
+      return 'continue';
+    }
+
+    // Handle repeat
+    if (action.action === 'repeat') {
+      const rawTimes = action.times;
+      // Validate times is a positive integer
+      if (typeof rawTimes !== 'number' || !Number.isInteger(rawTimes) || rawTimes < 0) {
+        results.push({
+          success: false,
+          error: new Error(`repeat.times must be a non-negative integer, got: ${typeof rawTimes === 'number' ? rawTimes : typeof rawTimes}`),
+        });
+        return 'continue';
+      }
+      // Cap at maxIterations to prevent runaway loops
+      const times = Math.min(rawTimes, this.options.maxIterations);
+      const varName = action.as ?? 'i';
+      this.tracer?.annotate({ times });
+
+      for (let i = 0; i < times && !flowCtx.aborted && !context.signal?.aborted; i++) {
+        const loopContext = { ...context, [varName]: i };
+        const loopResults = await this.executeActions(
+          action.do as Action[],
+          loopContext as ActionContext,
+          executor,
+          evaluator,
+          flowCtx
+        );
+        results.push(...loopResults);
       }
+      return 'continue';
+    }
 
-      // Handle flow_switch
-      if (action.action === 'flow_switch') {
-        const value = await evaluator.evaluate<string>(action.value as string, context);
-        const cases = action.cases as Record<string, Action[]>;
-        const branch = cases[value] ?? (action.default as Action[] | undefined);
+    // Handle call_flow
+    if (action.action === 'call_flow') {
+      const flowName = action.flow as string;
+      const flowArgs: Record<string, unknown> = {};
 
-        if (branch) {
-          const branchResults = await this.executeActions(
-            branch,
-            context,
-            executor,
-            evaluator,
-            flowCtx
-          );
-          results.push(...branchResults);
+      if (action.args) {
+        for (const [key, expr] of Object.entries(action.args as Record<string, string>)) {
+          flowArgs[key] = await evaluator.resolveExpression(expr, context);
         }
-        continue;
       }
 
-      // Handle flow_while
-      if (action.action === 'flow_while') {
-        let iterations = 0;
-        // Use per-action max_iterations if defined, otherwise use global
-        const maxIter = (action.max_iterations as number) ?? this.options.maxIterations;
-        while (iterations < maxIter) {
-          const condition = await this.evaluateConditionWithState(
-            action.while as string,
-            context,
-            evaluator
-          );
-          if (!condition || flowCtx.aborted) break;
+      const result = await this.execute(
+        flowName,
+        flowArgs,
+        context,
+        executor,
+        evaluator,
+        flowCtx
+      );
 
-          const loopResults = await this.executeActions(
-            action.do as Action[],
-            context,
-            executor,
-            evaluator,
-            flowCtx
-          );
-          results.push(...loopResults);
+      // Propagate abort from nested flow to parent
+      if (result.aborted) {
+        flowCtx.aborted = true;
+        flowCtx.abortReason = result.error?.message ?? 'Nested flow aborted';
+      }
 
-          // Check abort after executing loop body
-          if (flowCtx.aborted) break;
+      results.push(
+        bindResult(action, { success: result.success, data: result.value, error: result.error }, context)
+      );
+      return 'continue';
+    }
 
-          iterations++;
-        }
-        continue;
+    // Handle parallel
+    if (action.action === 'parallel') {
+      const parallelResults = await executor.executeParallel(
+        action.actions as Action[],
+        context
+      );
+      results.push(...parallelResults);
+      return 'continue';
+    }
+
+    // Handle batch - iterate over items and execute actions for each
+    if (action.action === 'batch') {
+      const items = (await evaluator.resolveExpression(action.items, context)) as unknown[];
+      if (!Array.isArray(items)) {
+        results.push({ success: false, error: new Error('Batch items must be an array') });
+        return 'continue';
       }
 
-      // Handle repeat
-      if (action.action === 'repeat') {
-        const rawTimes = action.times;
-        // Validate times is a positive integer
-        if (typeof rawTimes !== 'number' || !Number.isInteger(rawTimes) || rawTimes < 0) {
-          results.push({
-            success: false,
-            error: new Error(`repeat.times must be a non-negative integer, got: ${typeof rawTimes === 'number' ? rawTimes : typeof rawTimes}`),
-          });
-          continue;
-        }
-        // Cap at maxIterations to prevent runaway loops
-        const times = Math.min(rawTimes, this.options.maxIterations);
-        const varName = action.as ?? 'i';
-
-        for (let i = 0; i < times && !flowCtx.aborted; i++) {
-          const loopContext = { ...context, [varName]: i };
-          const loopResults = await this.executeActions(
-            action.do as Action[],
-            loopContext as ActionContext,
-            executor,
-            evaluator,
-            flowCtx
-          );
-          results.push(...loopResults);
-        }
-        continue;
+      this.tracer?.annotate({ items: items.length, concurrency: action.concurrency ?? 1 });
+
+      const batch = await runBatchAction(
+        action,
+        items,
+        context,
+        executor,
+        (eachActions, itemContext) =>
+          this.executeActions(eachActions, itemContext, executor, evaluator, flowCtx),
+        () => !!flowCtx.aborted
+      );
+      for (const itemResults of batch.results) {
+        results.push(...itemResults);
+      }
+      if (!batch.result.success) {
+        results.push(batch.result);
       }
+      return 'continue';
+    }
 
-      // Handle call_flow
-      if (action.action === 'call_flow') {
-        const flowName = action.flow as string;
-        const flowArgs: Record<string, unknown> = {};
+    // Handle try/catch/finally
+    if (action.action === 'try') {
+      const doActions = action.do as Action[];
+      const catchActions = action.catch as Action[] | undefined;
+      const finallyActions = action.finally as Action[] | undefined;
 
-        if (action.args) {
-          for (const [key, expr] of Object.entries(action.args as Record<string, string>)) {
-            flowArgs[key] = await evaluator.evaluate(expr, context);
-          }
-        }
+      let tryError: Error | undefined;
 
-        const result = await this.execute(
-          flowName,
-          flowArgs,
+      try {
+        const tryResults = await this.executeActions(
+          doActions,
           context,
           executor,
           evaluator,
           flowCtx
         );
+        results.push(...tryResults);
 
-        // Propagate abort from nested flow to parent
-        if (result.aborted) {
-          flowCtx.aborted = true;
-          flowCtx.abortReason = result.error?.message ?? 'Nested flow aborted';
-        }
-
-        if (action.as && result.value !== undefined) {
-          (context as Record<string, unknown>)[action.as as string] = result.value;
+        // Check if any action in try block failed
+        const failedResult = tryResults.find(r => !r.success && r.error);
+        if (failedResult) {
+          tryError = failedResult.error;
         }
-
-        results.push({
-          success: result.success,
-          data: result.value,
-          error: result.error,
-        });
-        continue;
+      } catch (err) {
+        tryError = err instanceof Error ? err : new Error(String(err));
       }
 
-      // Handle parallel
-      if (action.action === 'parallel') {
-        const parallelResults = await executor.executeParallel(
-          action.actions as Action[],
-          context
-        );
-        results.push(...parallelResults);
-        continue;
+      if (tryError) {
+        this.tracer?.annotate({ caught: tryError.message });
       }
 
-      // Handle batch - iterate over items and execute actions for each
-      if (action.action === 'batch') {
-        const items = await evaluator.evaluate<unknown[]>(action.items as string, context);
-        if (!Array.isArray(items)) {
-          results.push({ success: false, error: new Error('Batch items must be an array') });
-          continue;
-        }
-
-        const varName = action.as ?? 'item';
-        const concurrency = (action.concurrency as number) ?? 1;
-        const eachActions = Array.isArray(action.each) ? action.each : [action.each];
-
-        if (concurrency === 1) {
-          // Sequential execution
-          for (let i = 0; i < items.length && !flowCtx.aborted; i++) {
-            const itemContext = {
-              ...context,
-              [varName]: items[i],
-              [`${varName}_index`]: i,
-            } as ActionContext;
-            const itemResults = await this.executeActions(
-              eachActions as Action[],
-              itemContext,
-              executor,
-              evaluator,
-              flowCtx
-            );
-            results.push(...itemResults);
-          }
-        } else {
-          // Parallel execution with concurrency limit
-          for (let i = 0; i < items.length && !flowCtx.aborted; i += concurrency) {
-            const batch = items.slice(i, i + concurrency);
-            const batchPromises = batch.map((item, idx) => {
-              const itemContext = {
-                ...context,
-                [varName]: item,
-                [`${varName}_index`]: i + idx,
-              } as ActionContext;
-              return this.executeActions(
-                eachActions as Action[],
-                itemContext,
-                executor,
-                evaluator,
-                flowCtx
-              );
-            });
-            const batchResults = await Promise.all(batchPromises);
-            for (const itemResults of batchResults) {
-              results.push(...itemResults);
-            }
-          }
+      // Execute catch block if there was an error
+      if (tryError && catchActions && catchActions.length > 0) {
+        const catchContext = {
+          ...context,
+          error: tryError,
+          errorMessage: tryError.message,
+        } as ActionContext;
+        try {
+          const catchResults = await this.executeActions(
+            catchActions,
+            catchContext,
+            executor,
+            evaluator,
+            flowCtx
+          );
+          results.push(...catchResults);
+        } catch (catchErr) {
+          results.push({
+            success: false,
+            error: catchErr instanceof Error ? catchErr : new Error(String(catchErr)),
+          });
         }
-        continue;
       }
 
-      // Handle try/catch/finally
-      if (action.action === 'try') {
-        const doActions = action.do as Action[];
-        const catchActions = action.catch as Action[] | undefined;
-        const finallyActions = action.finally as Action[] | undefined;
-
-        let tryError: Error | undefined;
-
+      // Execute finally block always
+      if (finallyActions && finallyActions.length > 0) {
         try {
-          const tryResults = await this.executeActions(
-            doActions,
+          const finallyResults = await this.executeActions(
+            finallyActions,
             context,
             executor,
             evaluator,
             flowCtx
           );
-          results.push(...tryResults);
-
-          // Check if any action in try block failed
-          const failedResult = tryResults.find(r => !r.success && r.error);
-          if (failedResult) {
-            tryError = failedResult.error;
-          }
-        } catch (err) {
-          tryError = err instanceof Error ? err : new Error(String(err));
-        }
-
-        // Execute catch block if there was an error
-        if (tryError && catchActions && catchActions.length > 0) {
-          const catchContext = {
-            ...context,
-            error: tryError,
-            errorMessage: tryError.message,
-          } as ActionContext;
-          try {
-            const catchResults = await this.executeActions(
-              catchActions,
-              catchContext,
-              executor,
-              evaluator,
-              flowCtx
-            );
-            results.push(...catchResults);
-          } catch (catchErr) {
-            results.push({
-              success: false,
-              error: catchErr instanceof Error ? catchErr : new Error(String(catchErr)),
-            });
-          }
-        }
-
-        // Execute finally block always
-        if (finallyActions && finallyActions.length > 0) {
-          try {
-            const finallyResults = await this.executeActions(
-              finallyActions,
-              context,
-              executor,
-              evaluator,
-              flowCtx
-            );
-            results.push(...finallyResults);
-          } catch (finallyErr) {
-            results.push({
-              success: false,
-              error: finallyErr instanceof Error ? finallyErr : new Error(String(finallyErr)),
-            });
-          }
+          results.push(...finallyResults);
+        } catch (finallyErr) {
+          results.push({
+            success: false,
+            error: finallyErr instanceof Error ? finallyErr : new Error(String(finallyErr)),
+          });
         }
-        continue;
       }
+      return 'continue';
+    }
 
-      // Execute regular action
-      const result = await executor.executeOne(action, context);
-      results.push(result);
+    // Handle transaction - roll back completed steps when one fails
+    if (action.action === 'transaction') {
+      const result = await runTransaction(action.actions as Action[], context, (step) =>
+        this.executeActions([step], context, executor, evaluator, flowCtx)
+      );
+      if (!result.success) {
+        const report = result.data as RollbackReport;
+        this.tracer?.annotate({
+          rolled_back: report.compensated.length,
+          compensation_failures: report.failed.length,
+        });
+      }
+      results.push(bindResult(action, result, context));
+      return 'continue';
     }
 
-    return results;
+    // Execute regular action
+    const result = await executor.executeOne(action, context);
+    results.push(result);
+    return 'continue';
   }
 
   /**
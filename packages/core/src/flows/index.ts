@@ -4,3 +4,4 @@
 
 export * from './engine.js';
 export * from './types.js';
+export * from './workflows.js';
@@ -24,6 +24,10 @@ export interface FlowResult<T = unknown> {
   value?: T;
   error?: Error;
   aborted?: boolean;
+  /** ID of the durable workflow run */
+  workflowId?: string;
+  /** Whether a durable run is waiting to be resumed */
+  suspended?: boolean;
 }
 
 export interface RegisteredFlow {
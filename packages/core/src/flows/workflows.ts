@@ -0,0 +1,163 @@
+/**
+ * Durable workflows - checkpoints for flows marked `durable`, kept in the
+ * storage adapter so they can resume after a restart
+ */
+
+import type { StorageAdapter, StoredValue } from '../state/types.js';
+
+/** Where a durable flow run has got to */
+export interface WorkflowCheckpoint {
+  /** Workflow run ID */
+  id: string;
+  /** Flow being run */
+  flow: string;
+  /** Resolved flow arguments */
+  args: Record<string, unknown>;
+  /** Index of the next top-level action to run */
+  position: number;
+  /** Variables the flow has bound so far */
+  vars: Record<string, unknown>;
+  /** Results of the top-level actions run so far, as plain data */
+  results?: { success: boolean; data?: unknown }[];
+  /** IDs from the context the run was started in */
+  scope: {
+    guildId?: string;
+    channelId?: string;
+    userId?: string;
+  };
+  /** When the pending wait ends (ms since epoch) */
+  resumeAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const KEY_PREFIX = 'workflow:';
+const CLAIM_PREFIX = 'workflow_claim:';
+
+/**
+ * How long a claim on a run lasts past its pending wait, or past its last
+ * saved step. A run whose process stopped without releasing it can be
+ * resumed elsewhere once this has passed.
+ */
+export const WORKFLOW_CLAIM_TTL = 5 * 60 * 1000;
+
+export class WorkflowStore {
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter) {
+    this.storage = storage;
+  }
+
+  /**
+   * Save a checkpoint
+   */
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    const now = Date.now();
+    checkpoint.updatedAt = now;
+    await this.storage.set(KEY_PREFIX + checkpoint.id, {
+      value: { ...checkpoint },
+      type: 'json',
+      createdAt: checkpoint.createdAt,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Load a checkpoint
+   */
+  async load(id: string): Promise<WorkflowCheckpoint | null> {
+    const stored = await this.storage.get(KEY_PREFIX + id);
+    return stored ? (stored.value as WorkflowCheckpoint) : null;
+  }
+
+  /**
+   * Delete a checkpoint and its claim
+   */
+  async delete(id: string): Promise<boolean> {
+    await this.storage.delete(CLAIM_PREFIX + id);
+    return this.storage.delete(KEY_PREFIX + id);
+  }
+
+  /**
+   * Claim a run so only one process resumes it. Returns false while
+   * another claim on it is live.
+   */
+  async claim(checkpoint: WorkflowCheckpoint): Promise<boolean> {
+    const key = CLAIM_PREFIX + checkpoint.id;
+    const claim = claimValue(checkpoint);
+
+    // Storage that checks and writes in one step settles claims made by
+    // other processes sharing it
+    if (this.storage.setIfAbsent) {
+      return this.storage.setIfAbsent(key, claim);
+    }
+
+    const stored = await this.storage.get(key);
+    if (stored && (!stored.expiresAt || stored.expiresAt > Date.now())) {
+      return false;
+    }
+    await this.storage.set(key, claim);
+    return true;
+  }
+
+  /**
+   * Extend the claim on a run this process holds
+   */
+  async renew(checkpoint: WorkflowCheckpoint): Promise<void> {
+    await this.storage.set(CLAIM_PREFIX + checkpoint.id, claimValue(checkpoint));
+  }
+
+  /**
+   * Give up the claim on a run, leaving its checkpoint for the next claim
+   */
+  async release(id: string): Promise<void> {
+    await this.storage.delete(CLAIM_PREFIX + id);
+  }
+
+  /**
+   * When the live claim on a run lapses, or undefined if it has none
+   */
+  async claimedUntil(id: string): Promise<number | undefined> {
+    const stored = await this.storage.get(CLAIM_PREFIX + id);
+    if (!stored || (stored.expiresAt !== undefined && stored.expiresAt <= Date.now())) {
+      return undefined;
+    }
+    return stored.expiresAt;
+  }
+
+  /**
+   * List all saved checkpoints, oldest first
+   */
+  async list(): Promise<WorkflowCheckpoint[]> {
+    const keys = await this.storage.keys(`${KEY_PREFIX}*`);
+    const checkpoints: WorkflowCheckpoint[] = [];
+    for (const key of keys) {
+      const stored = await this.storage.get(key);
+      if (stored) {
+        checkpoints.push(stored.value as WorkflowCheckpoint);
+      }
+    }
+    return checkpoints.sort((a, b) => a.createdAt - b.createdAt);
+  }
+}
+
+/**
+ * Claim record for a run, lasting until WORKFLOW_CLAIM_TTL past its wait
+ */
+function claimValue(checkpoint: WorkflowCheckpoint): StoredValue {
+  const now = Date.now();
+  return {
+    value: true,
+    type: 'boolean',
+    expiresAt: Math.max(checkpoint.resumeAt ?? 0, now) + WORKFLOW_CLAIM_TTL,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Create a workflow store
+ */
+export function createWorkflowStore(storage: StorageAdapter): WorkflowStore {
+  return new WorkflowStore(storage);
+}
@@ -9,6 +9,8 @@ export * from './actions/index.js';
 export * from './events/index.js';
 export * from './flows/index.js';
 export * from './state/index.js';
+export * from './tracing/index.js';
+export * from './plugins/index.js';
 
 // Re-export types from schema
 export type {
@@ -278,6 +278,16 @@ describe('LocaleManager', () => {
     });
   });
 
+  describe('resolve', () => {
+    it('should prefer the interaction locale, then the guild locale', () => {
+      configure({ default: 'de' });
+
+      expect(manager.resolve({ interaction: { locale: 'fr' }, guild: { preferredLocale: 'ja' } })).toBe('fr');
+      expect(manager.resolve({ guild: { preferredLocale: 'ja' } })).toBe('ja');
+      expect(manager.resolve({})).toBe('de');
+    });
+  });
+
   describe('addStrings', () => {
     it('should add strings to new locale', () => {
       manager.addStrings('es-ES' as any, {
@@ -3,6 +3,7 @@
  */
 
 import type { LocaleConfig, DiscordLocale } from '@furlow/schema';
+import { contextLocale } from '../expression/intl.js';
 
 export class LocaleManager {
   private locales: Map<DiscordLocale, Record<string, string | Record<string, string>>> = new Map();
@@ -93,6 +94,15 @@ export class LocaleManager {
     return this.defaultLocale;
   }
 
+  /**
+   * Get the locale for an expression context: the interaction's, then the
+   * guild's preferred locale, then the default. Pass to
+   * ExpressionEvaluator.setLocaleResolver() so formatting functions follow it.
+   */
+  resolve(context: Record<string, unknown>): string {
+    return contextLocale(context) ?? this.defaultLocale;
+  }
+
   /**
    * Add strings for a locale
    */
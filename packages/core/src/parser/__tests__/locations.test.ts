@@ -0,0 +1,66 @@
+/**
+ * Source Location Tests
+ *
+ * Covers:
+ * - Indexing string values of spec files with line and column
+ * - Skipping map keys and unreadable files
+ * - Picking between repeated values by key
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { tmpdir } from 'node:os';
+import { indexSourceStrings, findSourceLocation } from '../locations.js';
+
+describe('Source locations', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = path.join(tmpdir(), `furlow-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await fs.mkdir(dir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should index string values with their line, column and key', async () => {
+    const file = path.join(dir, 'furlow.yaml');
+    await fs.writeFile(
+      file,
+      [
+        'events:',
+        '  - event: member_join',
+        '    actions:',
+        '      - log:',
+        '          message: "Welcome ${member.usre.id}"',
+      ].join('\n')
+    );
+
+    const index = await indexSourceStrings([file, path.join(dir, 'missing.yaml')]);
+
+    expect(findSourceLocation(index, 'Welcome ${member.usre.id}')).toEqual({
+      file,
+      line: 5,
+      column: 20,
+      key: 'message',
+    });
+    expect(index.has('events')).toBe(false);
+  });
+
+  it('should prefer the location under the same key when a value repeats', async () => {
+    const main = path.join(dir, 'main.yaml');
+    const other = path.join(dir, 'other.yaml');
+    await fs.writeFile(main, 'identity:\n  name: "${user.id}"\n');
+    await fs.writeFile(other, 'flows:\n  - name: x\n    actions:\n      - reply:\n          content: "${user.id}"\n');
+
+    const index = await indexSourceStrings([main, other]);
+
+    expect(findSourceLocation(index, '${user.id}', 'flows[0].actions[0].content')).toMatchObject({
+      file: other,
+      line: 5,
+    });
+    expect(findSourceLocation(index, '${user.id}')).toMatchObject({ file: main, line: 2 });
+  });
+});
@@ -56,6 +56,58 @@ describe('normalizeActionsDeep', () => {
       ]);
     });
 
+    it('should carry retry and timeout modifiers onto shorthand actions', () => {
+      const actions = [
+        { pipe_request: { pipe: 'api' }, retry: { attempts: 3 }, timeout: '5s' },
+      ] as unknown as Action[];
+
+      const result = normalizeActionsDeep(actions);
+
+      expect(result).toEqual([
+        { action: 'pipe_request', pipe: 'api', retry: { attempts: 3 }, timeout: '5s' },
+      ]);
+    });
+
+    it('should still treat a lone timeout key as the timeout action', () => {
+      const actions = [
+        { timeout: { user: '123', duration: '10m' }, retry: { attempts: 2 } },
+      ] as unknown as Action[];
+
+      const result = normalizeActionsDeep(actions);
+
+      expect(result).toEqual([
+        { action: 'timeout', user: '123', duration: '10m', retry: { attempts: 2 } },
+      ]);
+    });
+
+    it('should carry and normalize compensate blocks', () => {
+      const actions = [
+        {
+          create_channel: { name: 'ticket' },
+          compensate: [{ delete_channel: { channel: '${result.id}' } }],
+        },
+        {
+          transaction: {
+            actions: [{ assign_role: { role: '123' } }],
+          },
+        },
+      ] as unknown as Action[];
+
+      const result = normalizeActionsDeep(actions);
+
+      expect(result).toEqual([
+        {
+          action: 'create_channel',
+          name: 'ticket',
+          compensate: [{ action: 'delete_channel', channel: '${result.id}' }],
+        },
+        {
+          action: 'transaction',
+          actions: [{ action: 'assign_role', role: '123' }],
+        },
+      ]);
+    });
+
     it('should handle actions with null/empty value (e.g., voice_stop)', () => {
       const actions = [
         { voice_stop: null },
@@ -331,6 +383,30 @@ describe('normalizeActionsDeep', () => {
     });
   });
 
+  describe('field markers', () => {
+    it('should rewrite $expr and $literal maps to their string form', () => {
+      const actions = [
+        {
+          pipe_request: {
+            pipe: 'api',
+            body: { items: { $expr: 'rows|length' }, raw: { $literal: '${x}' }, keep: { $expr: 1 } },
+          },
+        },
+        { flow_if: { if: 'true', then: [{ set: { var: 'n', value: { $expr: 'n + 1' } } }] } },
+      ] as unknown as Action[];
+
+      const result = normalizeActionsDeep(actions);
+
+      expect(result[0]).toEqual({
+        action: 'pipe_request',
+        pipe: 'api',
+        body: { items: '$expr:rows|length', raw: '$literal:${x}', keep: { $expr: 1 } },
+      });
+      expect((result[1] as any).then[0]).toEqual({ action: 'set', var: 'n', value: '$expr:n + 1' });
+      expect(normalizeActionsDeep(result)).toEqual(result);
+    });
+  });
+
   describe('idempotency', () => {
     it('should be idempotent - normalizing twice produces same result', () => {
       const actions = [
@@ -751,6 +827,43 @@ describe('normalizeSpec', () => {
     });
   });
 
+  describe('functions normalization', () => {
+    it('should split parameter lists out of function names', () => {
+      const spec = {
+        functions: {
+          'xp_for_level(level)': '${5 * level ^ 2 + 50 * level + 100}',
+          'clamp_xp( value, max )': { body: 'value > max ? max : value', cache: false },
+          'greeting()': '"hello"',
+        },
+      } as unknown as FurlowSpec;
+
+      expect(normalizeSpec(spec).functions).toEqual({
+        xp_for_level: { params: ['level'], body: '${5 * level ^ 2 + 50 * level + 100}' },
+        clamp_xp: { params: ['value', 'max'], body: 'value > max ? max : value', cache: false },
+        greeting: { params: [], body: '"hello"' },
+      });
+    });
+
+    it('should keep definitions and invalid names for validation', () => {
+      const spec = {
+        functions: {
+          double: { params: ['n'], body: 'n * 2' },
+          answer: '42',
+          'bad name(x)': 'x',
+        },
+      } as unknown as FurlowSpec;
+
+      const result = normalizeSpec(spec);
+
+      expect(result.functions).toEqual({
+        double: { params: ['n'], body: 'n * 2' },
+        answer: { body: '42' },
+        'bad name(x)': { body: 'x' },
+      });
+      expect(normalizeSpec(result)).toEqual(result);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle null spec gracefully', () => {
       const result = normalizeSpec(null as unknown as FurlowSpec);
@@ -6,3 +6,4 @@ export * from './loader.js';
 export * from './resolver.js';
 export * from './env.js';
 export * from './normalize.js';
+export * from './locations.js';
@@ -0,0 +1,80 @@
+/**
+ * Source locations - find where string values of a loaded spec came from,
+ * so problems found after loading can point at a file and line
+ */
+
+import { readFile } from 'node:fs/promises';
+import { LineCounter, parseDocument, visit, isPair, isScalar } from 'yaml';
+
+/** Where a value is in a spec file */
+export interface SourceLocation {
+  file: string;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+  /** Key the value is stored under, if it is a map value */
+  key?: string;
+}
+
+/** String values of spec files, with where each one appears */
+export type SourceIndex = Map<string, SourceLocation[]>;
+
+/**
+ * Index the string values of the given spec files. Files that cannot be
+ * read or parsed are skipped; the loader reports those.
+ */
+export async function indexSourceStrings(files: string[]): Promise<SourceIndex> {
+  const index: SourceIndex = new Map();
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await readFile(file, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(content, { lineCounter });
+    if (doc.errors.length > 0) continue;
+
+    visit(doc, {
+      Scalar(_key, node, path) {
+        if (typeof node.value !== 'string' || !node.range) return;
+        const parent = path[path.length - 1];
+        // Skip map keys
+        if (isPair(parent) && parent.key === node) return;
+
+        const { line, col } = lineCounter.linePos(node.range[0]);
+        const location: SourceLocation = { file, line, column: col };
+        if (isPair(parent) && isScalar(parent.key)) {
+          location.key = String(parent.key.value);
+        }
+
+        const locations = index.get(node.value) ?? [];
+        locations.push(location);
+        index.set(node.value, locations);
+      },
+    });
+  }
+
+  return index;
+}
+
+/**
+ * Find where a value came from. When the same text appears more than
+ * once, the location stored under the same key as `path` ends in is
+ * preferred.
+ */
+export function findSourceLocation(
+  index: SourceIndex,
+  value: string,
+  path?: string
+): SourceLocation | undefined {
+  const locations = index.get(value);
+  if (!locations || locations.length === 0) return undefined;
+
+  const key = path?.match(/([^.[\]]+)(?:\[\d+\])*$/)?.[1];
+  return locations.find((location) => location.key === key) ?? locations[0];
+}
@@ -18,10 +18,38 @@
  * data produces the same result.
  */
 
-import type { FurlowSpec, Action, EventHandler, FlowDefinition, FlowParameter, BuiltinReference, IntentsConfig } from '@furlow/schema';
+import type { FurlowSpec, Action, EventHandler, FlowDefinition, FlowParameter, FunctionDefinition, BuiltinReference, IntentsConfig } from '@furlow/schema';
 
 /** Reserved keys that are not action names */
-const RESERVED_KEYS = new Set(['when', 'error_handler']);
+const RESERVED_KEYS = new Set([
+  'when',
+  'error_handler',
+  'retry',
+  'compensate',
+  'idempotency_key',
+  'idempotency_ttl',
+]);
+
+/**
+ * Keys copied from a shorthand action onto the normalized action.
+ * 'timeout' is also an action name, so it is only treated as a modifier
+ * when another action key is present alongside it.
+ */
+const MODIFIER_KEYS = [
+  'when',
+  'error_handler',
+  'retry',
+  'timeout',
+  'compensate',
+  'idempotency_key',
+  'idempotency_ttl',
+] as const;
+
+/**
+ * Escape markers that may also be written as a single-key map:
+ * `{ $expr: "..." }` and `{ $literal: "..." }`
+ */
+const MARKER_KEYS = new Set(['$expr', '$literal']);
 
 /**
  * Normalize actions from YAML shorthand format to schema format, recursively.
@@ -65,8 +93,12 @@ function normalizeAction(action: Action): Action {
 
   // Convert shorthand to schema format
   // Find the first key that's not a reserved key - that's the action name
+  const candidateKeys = Object.keys(actionObj).filter((key) => !RESERVED_KEYS.has(key));
+  const hasOtherAction = candidateKeys.some((key) => key !== 'timeout');
+
   for (const [key, value] of Object.entries(actionObj)) {
     if (RESERVED_KEYS.has(key)) continue;
+    if (key === 'timeout' && hasOtherAction) continue;
 
     // Found the action type - build normalized action
     const normalized: Record<string, unknown> = {
@@ -80,8 +112,10 @@ function normalizeAction(action: Action): Action {
     }
 
     // Copy over reserved properties if present
-    if (actionObj.when !== undefined) normalized.when = actionObj.when;
-    if (actionObj.error_handler !== undefined) normalized.error_handler = actionObj.error_handler;
+    for (const modifier of MODIFIER_KEYS) {
+      if (modifier === key || actionObj[modifier] === undefined) continue;
+      normalized[modifier] = actionObj[modifier];
+    }
 
     // Normalize nested actions in control flow structures
     return normalizeNestedActions(normalized) as unknown as Action;
@@ -100,7 +134,7 @@ function normalizeAction(action: Action): Action {
  * @internal
  */
 function normalizeNestedActions(action: Record<string, unknown>): Record<string, unknown> {
-  const result = { ...action };
+  const result = normalizeMarkers(action) as Record<string, unknown>;
 
   // Helper to safely normalize an action array property
   const normalizeArrayProp = (prop: string) => {
@@ -155,9 +189,39 @@ function normalizeNestedActions(action: Record<string, unknown>): Record<string,
   normalizeArrayProp('catch');
   normalizeArrayProp('finally');
 
+  // Any action - compensate block, plus transaction steps (already handled as 'actions')
+  normalizeArrayProp('compensate');
+
   return result;
 }
 
+/**
+ * Rewrite marker maps in action fields to the string form the evaluator
+ * reads, recursively.
+ *
+ * YAML allows: value: { $expr: "items|length" }
+ * Runtime expects: value: "$expr:items|length"
+ *
+ * @internal
+ */
+function normalizeMarkers(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalizeMarkers);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 1) {
+    const [key, text] = entries[0]!;
+    if (MARKER_KEYS.has(key) && typeof text === 'string') {
+      return `${key}:${text}`;
+    }
+  }
+  return Object.fromEntries(entries.map(([key, item]) => [key, normalizeMarkers(item)]));
+}
+
 /**
  * Normalize flow parameters from string format to object format.
  *
@@ -179,6 +243,34 @@ function normalizeFlowParameters(parameters?: (string | FlowParameter)[]): FlowP
   });
 }
 
+/**
+ * Normalize user-defined functions to definition objects.
+ *
+ * YAML allows: functions: { 'xp_for_level(level)': '${5 * level ^ 2}' }
+ * Schema expects: functions: { xp_for_level: { params: ['level'], body: '${5 * level ^ 2}' } }
+ *
+ * Keys that are not a name with an optional parameter list are kept as
+ * they are, for schema validation to report.
+ *
+ * @internal
+ */
+function normalizeFunctions(
+  functions: Record<string, unknown>
+): Record<string, FunctionDefinition> {
+  const normalized: Record<string, FunctionDefinition> = {};
+  for (const [key, value] of Object.entries(functions)) {
+    const definition = (typeof value === 'string' ? { body: value } : value) as FunctionDefinition;
+    const match = key.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*\(([^)]*)\)\s*$/);
+    if (!match || !definition || typeof definition !== 'object') {
+      normalized[key] = definition;
+      continue;
+    }
+    const params = match[2]!.split(',').map((param) => param.trim()).filter(Boolean);
+    normalized[match[1]!] = { ...definition, params };
+  }
+  return normalized;
+}
+
 /**
  * Normalize a full FURLOW spec, converting all shorthand actions to schema format.
  *
@@ -190,6 +282,8 @@ function normalizeFlowParameters(parameters?: (string | FlowParameter)[]): FlowP
  * - scheduler.jobs[].actions
  * - automod.rules[].actions and escalation.actions
  * - components.buttons/selects/modals[].actions
+ * - functions written as `name(params): body`
+ * - `{ $expr: ... }` and `{ $literal: ... }` maps in action fields
  *
  * This function is IDEMPOTENT - safe to call on already-normalized specs.
  *
@@ -316,6 +410,11 @@ export function normalizeSpec(spec: FurlowSpec): FurlowSpec {
     }
   }
 
+  // Normalize functions: 'name(a, b)' keys and string bodies to definitions
+  if (normalized.functions && typeof normalized.functions === 'object') {
+    normalized.functions = normalizeFunctions(normalized.functions);
+  }
+
   // Normalize scheduler.jobs[].actions
   if (normalized.scheduler?.jobs) {
     normalized.scheduler = {
@@ -0,0 +1,263 @@
+/**
+ * Plugin Loader Tests
+ *
+ * Covers:
+ * - Loading local modules and packages, plain objects and factories
+ * - Shape validation and load errors
+ * - Installing actions, functions, transforms and canvas generators
+ * - Checking spec actions against handler schemas
+ * - Starting and stopping event sources
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  loadPlugins,
+  installPlugins,
+  validateActionConfigs,
+  startEventSources,
+} from '../loader.js';
+import type { FurlowPlugin } from '../types.js';
+import { createActionRegistry, type ActionRegistry } from '../../actions/registry.js';
+import { createEvaluator } from '../../expression/evaluator.js';
+import { InvalidPluginError, PluginLoadError } from '../../errors/index.js';
+import type { FurlowSpec } from '@furlow/schema';
+
+async function writeModule(dir: string, filename: string, content: string): Promise<void> {
+  const filePath = path.join(dir, filename);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, 'utf-8');
+}
+
+describe('Plugin Loader', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = path.join(tmpdir(), `furlow-plugins-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await fs.mkdir(dir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('loadPlugins', () => {
+    it('should load a local module exporting a plugin object', async () => {
+      await writeModule(
+        dir,
+        'plugins/greet.mjs',
+        `export default {
+          name: 'greet',
+          actions: [{ name: 'greet', execute: async () => ({ success: true }) }],
+        };`
+      );
+
+      const [plugin] = await loadPlugins(['./plugins/greet.mjs'], { baseDir: dir });
+
+      expect(plugin!.name).toBe('greet');
+      expect(plugin!.actions![0]!.name).toBe('greet');
+    });
+
+    it('should call factories with the plugin config', async () => {
+      await writeModule(
+        dir,
+        'factory.mjs',
+        `export const plugin = (config) => ({
+          name: 'factory',
+          functions: { prefix: (v) => config.prefix + v },
+        });`
+      );
+
+      const [plugin] = await loadPlugins(
+        [{ module: './factory.mjs', config: { prefix: 'acme-' } }],
+        { baseDir: dir }
+      );
+
+      expect(plugin!.functions!.prefix!('x')).toBe('acme-x');
+    });
+
+    it('should resolve packages from the spec directory', async () => {
+      await writeModule(
+        dir,
+        'node_modules/furlow-plugin-acme/package.json',
+        JSON.stringify({ name: 'furlow-plugin-acme', type: 'module', main: 'index.js' })
+      );
+      await writeModule(
+        dir,
+        'node_modules/furlow-plugin-acme/index.js',
+        `export default { name: 'acme' };`
+      );
+
+      const [plugin] = await loadPlugins(['furlow-plugin-acme'], { baseDir: dir });
+
+      expect(plugin!.name).toBe('acme');
+    });
+
+    it('should wrap import failures in PluginLoadError', async () => {
+      await expect(loadPlugins(['./missing.mjs'], { baseDir: dir })).rejects.toBeInstanceOf(
+        PluginLoadError
+      );
+    });
+
+    it('should reject plugins with the wrong shape', async () => {
+      await writeModule(
+        dir,
+        'broken.mjs',
+        `export default { name: 'broken', actions: [{ name: 'no_execute' }] };`
+      );
+
+      const error = await loadPlugins(['./broken.mjs'], { baseDir: dir }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(InvalidPluginError);
+      expect(error.code).toBe('E1008');
+      expect(error.message).toContain('needs a name and an execute function');
+    });
+  });
+
+  describe('installPlugins', () => {
+    let registry: ActionRegistry;
+
+    beforeEach(() => {
+      registry = createActionRegistry();
+      registry.register({ name: 'send_message', execute: async () => ({ success: true }) });
+    });
+
+    it('should register actions, expression functions and canvas generators', async () => {
+      const evaluator = createEvaluator();
+      const spec: FurlowSpec = {
+        canvas: { generators: { local: { width: 10, height: 10, layers: [] } } },
+      };
+      const plugin: FurlowPlugin = {
+        name: 'acme',
+        actions: [{ name: 'acme_ticket', execute: async () => ({ success: true }) }],
+        functions: { double: (n) => (n as number) * 2 },
+        transforms: { shout: (v) => String(v).toUpperCase() },
+        canvasGenerators: { badge: { width: 100, height: 100, layers: [] } },
+      };
+
+      installPlugins([plugin], { registry, evaluator, spec });
+
+      expect(registry.has('acme_ticket')).toBe(true);
+      expect(await evaluator.evaluate('double(21)', {})).toBe(42);
+      expect(await evaluator.evaluate("'hi'|shout", {})).toBe('HI');
+      expect(Object.keys(spec.canvas!.generators!)).toEqual(['local', 'badge']);
+    });
+
+    it('should refuse to replace an existing action', () => {
+      const plugin: FurlowPlugin = {
+        name: 'sneaky',
+        actions: [{ name: 'send_message', execute: async () => ({ success: true }) }],
+      };
+
+      expect(() => installPlugins([plugin], { registry })).toThrow(
+        'action "send_message" is already registered'
+      );
+    });
+
+    it('should return event sources from every plugin', () => {
+      const source = { name: 'webhook', start: vi.fn() };
+
+      const sources = installPlugins([{ name: 'a', eventSources: [source] }, { name: 'b' }], {
+        registry,
+      });
+
+      expect(sources).toEqual([source]);
+    });
+  });
+
+  describe('validateActionConfigs', () => {
+    it('should report actions that do not match their handler schema', () => {
+      const registry = createActionRegistry();
+      registry.register({
+        name: 'acme_ticket',
+        schema: {
+          type: 'object',
+          properties: { priority: { type: 'string', enum: ['low', 'high'] } },
+          required: ['priority'],
+          additionalProperties: false,
+        },
+        execute: async () => ({ success: true }),
+      });
+
+      const spec = {
+        commands: [
+          {
+            name: 'ticket',
+            actions: [
+              {
+                action: 'acme_ticket',
+                priority: 'high',
+                when: 'true',
+                as: 'ticket',
+                idempotency_key: '${interaction.id}',
+                idempotency_ttl: '1h',
+              },
+              { action: 'acme_ticket', priority: 'urgent' },
+              { action: 'send_message', content: 'not checked' },
+            ],
+          },
+        ],
+        flows: [{ name: 'f', actions: [{ action: 'flow_if', if: 'x', then: [{ action: 'acme_ticket' }] }] }],
+      } as unknown as FurlowSpec;
+
+      const issues = validateActionConfigs(spec, registry);
+
+      expect(issues).toEqual([
+        {
+          path: '/commands/0/actions/1/priority',
+          action: 'acme_ticket',
+          message: 'must be equal to one of the allowed values',
+        },
+        {
+          path: '/flows/0/actions/0/then/0',
+          action: 'acme_ticket',
+          message: "must have required property 'priority'",
+        },
+      ]);
+    });
+
+    it('should use the handler validate hook', () => {
+      const registry = createActionRegistry();
+      registry.register({
+        name: 'acme_ping',
+        validate: (config) => ((config as any).host ? true : 'host is required'),
+        execute: async () => ({ success: true }),
+      });
+
+      const spec = { events: [{ event: 'ready', actions: [{ action: 'acme_ping' }] }] } as unknown as FurlowSpec;
+
+      expect(validateActionConfigs(spec, registry)).toEqual([
+        { path: '/events/0/actions/0', action: 'acme_ping', message: 'host is required' },
+      ]);
+    });
+  });
+
+  describe('startEventSources', () => {
+    it('should start sources with an emitter and stop them in reverse order', async () => {
+      const order: string[] = [];
+      const emit = vi.fn(async () => {});
+
+      const stop = await startEventSources(
+        [
+          {
+            name: 'first',
+            start: async (emitEvent) => {
+              await emitEvent('acme_order', { id: 1 });
+              return () => void order.push('first');
+            },
+          },
+          { name: 'second', start: () => () => void order.push('second') },
+          { name: 'third', start: () => {} },
+        ],
+        emit
+      );
+
+      expect(emit).toHaveBeenCalledWith('acme_order', { id: 1 });
+
+      await stop();
+      expect(order).toEqual(['second', 'first']);
+    });
+  });
+});
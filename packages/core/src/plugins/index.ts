@@ -0,0 +1,7 @@
+/**
+ * Plugin module - load actions, expression functions, canvas generators
+ * and event sources from npm packages or local modules
+ */
+
+export * from './types.js';
+export * from './loader.js';
@@ -0,0 +1,326 @@
+/**
+ * Plugin loader - imports plugin modules, registers what they provide and
+ * checks spec actions against plugin handler schemas
+ */
+
+import { createRequire } from 'node:module';
+import { isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { validateAgainstSchema } from '@furlow/schema';
+import type { Action, FurlowSpec, PluginReference } from '@furlow/schema';
+import type { ActionRegistry } from '../actions/registry.js';
+import type { ExpressionEvaluator } from '../expression/evaluator.js';
+import { InvalidPluginError, PluginLoadError } from '../errors/index.js';
+import type {
+  ActionConfigIssue,
+  EmitEvent,
+  EventSource,
+  FurlowPlugin,
+  PluginFactory,
+  StopEventSource,
+} from './types.js';
+
+export interface LoadPluginsOptions {
+  /** Directory local plugin paths and npm packages are resolved from */
+  baseDir: string;
+}
+
+export interface InstallPluginsOptions {
+  /** Registry plugin actions are added to */
+  registry: ActionRegistry;
+  /** Evaluator plugin functions and transforms are added to */
+  evaluator?: ExpressionEvaluator;
+  /** Spec whose canvas generators are extended */
+  spec?: FurlowSpec;
+}
+
+/** Keys every action accepts, which are not part of a handler's schema */
+const BASE_ACTION_KEYS = new Set([
+  'action',
+  'when',
+  'error_handler',
+  'retry',
+  'timeout',
+  'compensate',
+  'as',
+  'idempotency_key',
+  'idempotency_ttl',
+]);
+
+/**
+ * Identity helper that gives plugin authors type checking
+ */
+export function definePlugin<T extends FurlowPlugin | PluginFactory>(plugin: T): T {
+  return plugin;
+}
+
+/** Extensions Node only imports under a TypeScript loader */
+const TYPESCRIPT_EXTENSION = /\.[cm]?ts$/;
+
+/**
+ * Import a plugin module. Local paths are resolved against baseDir; package
+ * names are resolved from baseDir's node_modules, falling back to a plain import.
+ * Plugins are plain imports, so TypeScript plugins must be compiled first
+ * unless the CLI runs under a TypeScript loader.
+ */
+async function importPlugin(specifier: string, baseDir: string): Promise<Record<string, unknown>> {
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    try {
+      return await import(pathToFileURL(resolve(baseDir, specifier)).href);
+    } catch (err) {
+      const code = (err as { code?: string }).code;
+      if (TYPESCRIPT_EXTENSION.test(specifier) && code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+        throw new Error('TypeScript plugins must be compiled to JavaScript first; list the compiled .js file');
+      }
+      throw err;
+    }
+  }
+
+  let target = specifier;
+  try {
+    const require = createRequire(join(baseDir, 'package.json'));
+    target = pathToFileURL(require.resolve(specifier)).href;
+  } catch {
+    // ESM-only packages may not resolve through require
+  }
+  return import(target);
+}
+
+/**
+ * Check that a plugin has the expected shape
+ */
+function checkPlugin(plugin: unknown, module: string): FurlowPlugin {
+  if (!plugin || typeof plugin !== 'object') {
+    throw new InvalidPluginError(module, 'module must export a plugin object or factory');
+  }
+
+  const p = plugin as FurlowPlugin;
+  if (typeof p.name !== 'string' || !p.name) {
+    throw new InvalidPluginError(module, 'plugin must have a name');
+  }
+
+  if (p.actions !== undefined) {
+    if (!Array.isArray(p.actions)) {
+      throw new InvalidPluginError(p.name, 'actions must be an array of action handlers');
+    }
+    for (const handler of p.actions) {
+      if (!handler || typeof handler.name !== 'string' || typeof handler.execute !== 'function') {
+        throw new InvalidPluginError(p.name, 'each action handler needs a name and an execute function');
+      }
+      if (handler.schema !== undefined && (typeof handler.schema !== 'object' || handler.schema === null)) {
+        throw new InvalidPluginError(p.name, `schema of action "${handler.name}" must be an object`);
+      }
+    }
+  }
+
+  for (const key of ['functions', 'transforms'] as const) {
+    const fns = p[key];
+    if (fns === undefined) continue;
+    for (const [name, fn] of Object.entries(fns)) {
+      if (typeof fn !== 'function') {
+        throw new InvalidPluginError(p.name, `${key}.${name} must be a function`);
+      }
+    }
+  }
+
+  if (p.canvasGenerators !== undefined) {
+    for (const [name, generator] of Object.entries(p.canvasGenerators)) {
+      if (!generator || !Array.isArray(generator.layers)) {
+        throw new InvalidPluginError(p.name, `canvas generator "${name}" must have layers`);
+      }
+    }
+  }
+
+  if (p.eventSources !== undefined) {
+    if (!Array.isArray(p.eventSources)) {
+      throw new InvalidPluginError(p.name, 'eventSources must be an array');
+    }
+    for (const source of p.eventSources) {
+      if (!source || typeof source.name !== 'string' || typeof source.start !== 'function') {
+        throw new InvalidPluginError(p.name, 'each event source needs a name and a start function');
+      }
+    }
+  }
+
+  return p;
+}
+
+/**
+ * Load the plugins listed in a spec's `plugins` section
+ */
+export async function loadPlugins(
+  references: (string | PluginReference)[],
+  options: LoadPluginsOptions
+): Promise<FurlowPlugin[]> {
+  const plugins: FurlowPlugin[] = [];
+
+  for (const reference of references) {
+    const { module, config = {} } =
+      typeof reference === 'string' ? { module: reference } : reference;
+
+    let exports: Record<string, unknown>;
+    try {
+      exports = await importPlugin(module, options.baseDir);
+    } catch (err) {
+      throw new PluginLoadError(module, err instanceof Error ? err : new Error(String(err)));
+    }
+
+    let plugin = exports.default ?? exports.plugin;
+    if (typeof plugin === 'function') {
+      try {
+        plugin = await (plugin as PluginFactory)(config);
+      } catch (err) {
+        throw new PluginLoadError(module, err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+
+    plugins.push(checkPlugin(plugin, module));
+  }
+
+  return plugins;
+}
+
+/**
+ * Register what plugins provide. Names that clash with an existing action,
+ * another plugin or a canvas generator in the spec are rejected.
+ * Returns the plugins' event sources, to be started once the bot is ready.
+ */
+export function installPlugins(
+  plugins: FurlowPlugin[],
+  options: InstallPluginsOptions
+): EventSource[] {
+  const { registry, evaluator, spec } = options;
+  const functionNames = new Set<string>();
+  const transformNames = new Set<string>();
+  const sources: EventSource[] = [];
+
+  for (const plugin of plugins) {
+    for (const handler of plugin.actions ?? []) {
+      if (registry.has(handler.name)) {
+        throw new InvalidPluginError(plugin.name, `action "${handler.name}" is already registered`);
+      }
+      registry.register(handler);
+    }
+
+    if (evaluator) {
+      for (const [name, fn] of Object.entries(plugin.functions ?? {})) {
+        if (functionNames.has(name)) {
+          throw new InvalidPluginError(plugin.name, `function "${name}" is already registered`);
+        }
+        functionNames.add(name);
+        evaluator.addFunction(name, fn);
+      }
+
+      for (const [name, fn] of Object.entries(plugin.transforms ?? {})) {
+        if (transformNames.has(name)) {
+          throw new InvalidPluginError(plugin.name, `transform "${name}" is already registered`);
+        }
+        transformNames.add(name);
+        evaluator.addTransform(name, fn);
+      }
+    }
+
+    if (spec && plugin.canvasGenerators) {
+      const generators = { ...spec.canvas?.generators };
+      for (const [name, generator] of Object.entries(plugin.canvasGenerators)) {
+        if (generators[name]) {
+          throw new InvalidPluginError(plugin.name, `canvas generator "${name}" is already defined`);
+        }
+        generators[name] = generator;
+      }
+      spec.canvas = { ...spec.canvas, generators };
+    }
+
+    sources.push(...(plugin.eventSources ?? []));
+  }
+
+  return sources;
+}
+
+/**
+ * Find every action in a spec, with its JSON pointer
+ */
+function collectActions(
+  value: unknown,
+  path: string,
+  found: { path: string; action: Action }[]
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collectActions(item, `${path}/${i}`, found));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  if (typeof (value as { action?: unknown }).action === 'string') {
+    found.push({ path: path || '/', action: value as Action });
+  }
+  for (const [key, child] of Object.entries(value)) {
+    collectActions(child, `${path}/${key}`, found);
+  }
+}
+
+/**
+ * Check every action in a spec against its handler's `schema` and
+ * `validate` hook. Actions without a handler are left to the executor.
+ */
+export function validateActionConfigs(
+  spec: FurlowSpec,
+  registry: ActionRegistry
+): ActionConfigIssue[] {
+  const found: { path: string; action: Action }[] = [];
+  collectActions(spec, '', found);
+
+  const issues: ActionConfigIssue[] = [];
+  for (const { path, action } of found) {
+    if (!registry.has(action.action)) continue;
+    const handler = registry.get(action.action);
+
+    if (handler.schema) {
+      const config = Object.fromEntries(
+        Object.entries(action).filter(([key]) => !BASE_ACTION_KEYS.has(key))
+      );
+      const result = validateAgainstSchema(handler.schema, config);
+      for (const error of result.errors) {
+        issues.push({
+          path: error.path === '/' ? path : `${path}${error.path}`,
+          action: action.action,
+          message: error.message,
+        });
+      }
+    }
+
+    const verdict = handler.validate?.(action);
+    if (verdict === false || typeof verdict === 'string') {
+      issues.push({
+        path,
+        action: action.action,
+        message: typeof verdict === 'string' ? verdict : 'invalid configuration',
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Start event sources. Returns a function that stops all of them.
+ */
+export async function startEventSources(
+  sources: EventSource[],
+  emit: EmitEvent
+): Promise<() => Promise<void>> {
+  const stops: StopEventSource[] = [];
+
+  for (const source of sources) {
+    const stop = await source.start(emit);
+    if (typeof stop === 'function') {
+      stops.push(stop);
+    }
+  }
+
+  return async () => {
+    for (const stop of stops.reverse()) {
+      await stop();
+    }
+  };
+}
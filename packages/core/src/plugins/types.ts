@@ -0,0 +1,54 @@
+/**
+ * Plugin types
+ */
+
+import type { CanvasGenerator } from '@furlow/schema';
+import type { ActionHandler } from '../actions/types.js';
+
+/** Emits a custom event into the bot's event router */
+export type EmitEvent = (event: string, data?: Record<string, unknown>) => Promise<void>;
+
+/** Stops an event source */
+export type StopEventSource = () => void | Promise<void>;
+
+/**
+ * A long-running producer of custom events, such as a webhook listener or
+ * a message queue consumer
+ */
+export interface EventSource {
+  /** Source name, used in logs */
+  name: string;
+  /** Start producing events. May return a function that stops the source. */
+  start(emit: EmitEvent): void | StopEventSource | Promise<void | StopEventSource>;
+}
+
+/** What a plugin module provides */
+export interface FurlowPlugin {
+  /** Plugin name, used in error messages */
+  name: string;
+  /** Custom action handlers */
+  actions?: ActionHandler[];
+  /** Expression functions, called as name(args) */
+  functions?: Record<string, (...args: unknown[]) => unknown>;
+  /** Expression transforms, called as value|name(args) */
+  transforms?: Record<string, (value: unknown, ...args: unknown[]) => unknown>;
+  /** Canvas generators, rendered with canvas_render like spec.canvas.generators */
+  canvasGenerators?: Record<string, CanvasGenerator>;
+  /** Event sources started when the bot is ready */
+  eventSources?: EventSource[];
+}
+
+/** A plugin module may export the plugin itself or a factory taking its config */
+export type PluginFactory = (
+  config: Record<string, unknown>
+) => FurlowPlugin | Promise<FurlowPlugin>;
+
+/** An action configuration that failed its handler's schema */
+export interface ActionConfigIssue {
+  /** JSON pointer to the action in the spec */
+  path: string;
+  /** Action name */
+  action: string;
+  /** What is wrong */
+  message: string;
+}
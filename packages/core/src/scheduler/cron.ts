@@ -7,6 +7,7 @@ import type { ActionExecutor } from '../actions/executor.js';
 import type { ActionContext } from '../actions/types.js';
 import type { ExpressionEvaluator } from '../expression/evaluator.js';
 import { handleError } from '../errors/handler.js';
+import { withActionScope } from '../actions/idempotency.js';
 
 interface ScheduledJob {
   id: string;
@@ -157,7 +158,9 @@ export class CronScheduler {
       // Normalize and execute actions
       try {
         const normalizedActions = normalizeActions(job.config.actions);
-        await executor.executeSequence(normalizedActions, context);
+        await withActionScope(`job:${job.id}`, () =>
+          executor.executeSequence(normalizedActions, context)
+        );
       } catch (err) {
         handleError(
           err instanceof Error ? err : new Error(String(err)),
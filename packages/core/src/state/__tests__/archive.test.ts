@@ -0,0 +1,267 @@
+/**
+ * State Archive Tests
+ *
+ * Covers:
+ * - Exporting variables with their scope, TTL and timestamps, and table rows
+ * - Filtering by guild and scope
+ * - Importing into another kind of storage
+ * - Archive files and scheduled backups
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { tmpdir } from 'node:os';
+import { MemoryAdapter, createSQLiteAdapter } from '@furlow/storage';
+import type { TableDefinition } from '@furlow/schema';
+import {
+  exportState,
+  importState,
+  readArchive,
+  writeArchive,
+  type ArchiveRecord,
+} from '../archive.js';
+import { scheduleBackups, writeBackup } from '../backup.js';
+import { createStateManager } from '../manager.js';
+
+const tables: Record<string, TableDefinition> = {
+  tickets: {
+    columns: {
+      id: { type: 'string', primary: true },
+      guild_id: { type: 'string' },
+      subject: { type: 'string' },
+    },
+  },
+  settings: { columns: { key: { type: 'string', primary: true }, value: { type: 'string' } } },
+};
+
+async function collect(records: AsyncIterable<ArchiveRecord>): Promise<ArchiveRecord[]> {
+  const list: ArchiveRecord[] = [];
+  for await (const record of records) list.push(record);
+  return list;
+}
+
+describe('State archives', () => {
+  let storage: MemoryAdapter;
+  const expiresAt = Date.now() + 3600000;
+
+  beforeEach(async () => {
+    storage = new MemoryAdapter();
+    await storage.set('guild:motd:g1', { value: 'hi', type: 'string', createdAt: 1, updatedAt: 2 });
+    await storage.set('member:xp:g1:u1', { value: 40, type: 'number', createdAt: 3, updatedAt: 4, expiresAt });
+    await storage.set('member:xp:g2:u1', { value: 7, type: 'number', createdAt: 5, updatedAt: 6 });
+    await storage.set('user:tz:u1', { value: 'Europe/Berlin', type: 'string', createdAt: 7, updatedAt: 8 });
+    await storage.set('idempotency:cmd:abc', { value: true, type: 'boolean', createdAt: 9, updatedAt: 9 });
+    for (const [name, definition] of Object.entries(tables)) {
+      await storage.createTable(name, definition);
+    }
+    await storage.insert('tickets', { id: 't1', guild_id: 'g1', subject: 'Help' });
+    await storage.insert('tickets', { id: 't2', guild_id: 'g2', subject: 'Bug' });
+    await storage.insert('settings', { key: 'mode', value: 'strict' });
+  });
+
+  it('should export variables with their scope, TTL and timestamps, then tables', async () => {
+    const records = await collect(exportState(storage, { tables }));
+
+    expect(records[0]).toMatchObject({ type: 'header', version: 1 });
+    expect(records.filter((r) => r.type === 'variable')).toEqual([
+      { type: 'variable', name: 'motd', scope: 'guild', guildId: 'g1', value: 'hi', valueType: 'string', expiresAt: undefined, createdAt: 1, updatedAt: 2 },
+      { type: 'variable', name: 'xp', scope: 'member', guildId: 'g1', userId: 'u1', value: 40, valueType: 'number', expiresAt, createdAt: 3, updatedAt: 4 },
+      { type: 'variable', name: 'xp', scope: 'member', guildId: 'g2', userId: 'u1', value: 7, valueType: 'number', expiresAt: undefined, createdAt: 5, updatedAt: 6 },
+      { type: 'variable', name: 'tz', scope: 'user', userId: 'u1', value: 'Europe/Berlin', valueType: 'string', expiresAt: undefined, createdAt: 7, updatedAt: 8 },
+    ]);
+    expect(records.filter((r) => r.type !== 'variable' && r.type !== 'header')).toEqual([
+      { type: 'table', name: 'tickets', definition: tables.tickets },
+      { type: 'row', table: 'tickets', data: { id: 't1', guild_id: 'g1', subject: 'Help' } },
+      { type: 'row', table: 'tickets', data: { id: 't2', guild_id: 'g2', subject: 'Bug' } },
+      { type: 'table', name: 'settings', definition: tables.settings },
+      { type: 'row', table: 'settings', data: { key: 'mode', value: 'strict' } },
+    ]);
+  });
+
+  it('should filter by guild and scope', async () => {
+    const guild = await collect(exportState(storage, { tables, guildId: 'g1' }));
+    expect(guild.map((r) => (r.type === 'variable' ? `${r.scope}:${r.name}` : r.type))).toEqual([
+      'header',
+      'guild:motd',
+      'member:xp',
+      'table',
+      'row',
+    ]);
+
+    const members = await collect(exportState(storage, { scopes: ['member'] }));
+    expect(members.filter((r) => r.type === 'variable')).toHaveLength(2);
+  });
+
+  it('should import into another kind of storage', async () => {
+    const target = createSQLiteAdapter({ memory: true });
+    await target.createTable('tickets', tables.tickets!);
+    await target.insert('tickets', { id: 't1', guild_id: 'g1', subject: 'Old subject' });
+
+    const summary = await importState(target, exportState(storage, { tables }));
+
+    expect(summary).toEqual({ variables: 4, tables: 2, rows: 3, skipped: 0 });
+    expect(await target.get('member:xp:g1:u1')).toEqual({ value: 40, type: 'number', createdAt: 3, updatedAt: 4, expiresAt });
+    expect(await target.query('tickets', { orderBy: 'id' })).toEqual([
+      { id: 't1', guild_id: 'g1', subject: 'Help' },
+      { id: 't2', guild_id: 'g2', subject: 'Bug' },
+    ]);
+    expect(await target.has('idempotency:cmd:abc')).toBe(false);
+    await target.close();
+  });
+
+  it('should restore rows with the types their columns declare', async () => {
+    const members: Record<string, TableDefinition> = {
+      members: {
+        columns: {
+          id: { type: 'string', primary: true },
+          active: { type: 'boolean' },
+          profile: { type: 'json', nullable: true },
+          joined_at: { type: 'timestamp', nullable: true },
+          score: { type: 'number' },
+        },
+      },
+    };
+    const row = { id: 'u1', active: true, profile: { theme: 'dark', tags: ['a'] }, joined_at: 1700000000000, score: 2.5 };
+    const source = createSQLiteAdapter({ memory: true });
+    await source.createTable('members', members.members!);
+    await source.insert('members', row);
+    await source.insert('members', { id: 'u2', active: false, profile: null, joined_at: null, score: 0 });
+    const target = new MemoryAdapter();
+
+    await importState(target, exportState(source, { tables: members }));
+
+    expect(await target.query('members', { orderBy: 'id' })).toEqual([
+      row,
+      { id: 'u2', active: false, profile: null, joined_at: null, score: 0 },
+    ]);
+    await source.close();
+  });
+
+  it('should normalize rows from archives that hold them as storage returned them', async () => {
+    const target = new MemoryAdapter();
+    const records: ArchiveRecord[] = [
+      { type: 'header', version: 1, createdAt: 0 },
+      { type: 'table', name: 'events', definition: { columns: { id: { type: 'number', primary: true }, at: { type: 'timestamp' }, done: { type: 'boolean' } } } },
+      { type: 'row', table: 'events', data: { id: '1', at: '1700000000000', done: 't' } },
+    ];
+
+    await importState(target, records);
+
+    expect(await target.query('events', {})).toEqual([{ id: 1, at: 1700000000000, done: true }]);
+  });
+
+  it('should apply the filter and skip expired variables on import', async () => {
+    const records = await collect(exportState(storage, { tables }));
+    records.push({ type: 'variable', name: 'old', scope: 'guild', guildId: 'g1', value: 1, valueType: 'number', expiresAt: 1, createdAt: 1, updatedAt: 1 });
+    const target = new MemoryAdapter();
+
+    const summary = await importState(target, records, { guildId: 'g1' });
+
+    expect(summary).toEqual({ variables: 2, tables: 1, rows: 1, skipped: 6 });
+    expect(await target.keys()).toEqual(['guild:motd:g1', 'member:xp:g1:u1']);
+  });
+
+  it('should reject invalid archives and leave storage unchanged', async () => {
+    const target = new MemoryAdapter();
+
+    await expect(importState(target, [])).rejects.toThrow('it is empty');
+    await expect(
+      importState(target, [{ type: 'table', name: 'x', definition: { columns: {} } }])
+    ).rejects.toThrow('the first record must be a header');
+    await expect(importState(target, [{ type: 'header', version: 2, createdAt: 0 }])).rejects.toThrow(
+      'Unsupported archive version 2'
+    );
+    await expect(
+      importState(target, [
+        { type: 'header', version: 1, createdAt: 0 },
+        { type: 'variable', name: 'motd', scope: 'guild', guildId: 'g1', value: 'hi', valueType: 'string', createdAt: 1, updatedAt: 1 },
+        { type: 'header', version: 1, createdAt: 0 },
+      ])
+    ).rejects.toThrow('more than one header');
+    expect(await target.keys()).toEqual([]);
+  });
+
+  it('should let transactions run between the reads of an export', async () => {
+    const manager = createStateManager(storage);
+    const records = exportState(manager.storageReader(), { tables });
+    await records.next();
+    await records.next();
+
+    // A transaction no longer waits for the whole export to finish
+    await manager.transaction(() => manager.set('motd', 'changed', { guildId: 'g1' }));
+
+    expect((await collect(records)).filter((r) => r.type === 'row')).toHaveLength(3);
+  });
+
+  describe('files', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = path.join(tmpdir(), `furlow-archive-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      await fs.mkdir(dir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should write and read one record per line', async () => {
+      const file = path.join(dir, 'state.jsonl');
+
+      expect(await writeArchive(exportState(storage, { tables }), file)).toBe(10);
+      const lines = (await fs.readFile(file, 'utf-8')).trim().split('\n');
+      expect(JSON.parse(lines[1]!)).toMatchObject({ type: 'variable', name: 'motd' });
+      expect(await collect(readArchive(file))).toEqual(JSON.parse(JSON.stringify(await collect(exportState(storage, { tables })))).map(
+        (record: ArchiveRecord) => (record.type === 'header' ? expect.objectContaining({ type: 'header' }) : record)
+      ));
+
+      await fs.writeFile(file, '{"type":"header","version":1,"createdAt":0}\nnot json\n');
+      await expect(collect(readArchive(file))).rejects.toThrow('Invalid archive line 2');
+    });
+
+    it('should leave no file behind when writing fails', async () => {
+      const missing = path.join(dir, 'missing', 'state.jsonl');
+      await expect(writeArchive(exportState(storage, { tables }), missing)).rejects.toThrow('ENOENT');
+
+      async function* failing(): AsyncGenerator<ArchiveRecord> {
+        yield* exportState(storage);
+        throw new Error('storage went away');
+      }
+      const file = path.join(dir, 'state.jsonl');
+      await expect(writeArchive(failing(), file)).rejects.toThrow('storage went away');
+      expect(await fs.readdir(dir)).toEqual([]);
+    });
+
+    it('should keep only the newest backups', async () => {
+      const written: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        written.push(await writeBackup(storage, { dir, keep: 2, tables }));
+        await new Promise((resolve) => setTimeout(resolve, 2));
+      }
+
+      expect((await fs.readdir(dir)).sort()).toEqual(written.slice(1).map((file) => path.basename(file)));
+      expect(path.basename(written[0]!)).toMatch(/^furlow-state-\d{4}-\d{2}-\d{2}T[\d-]+Z\.jsonl$/);
+    });
+
+    it('should back up on a schedule', async () => {
+      const manager = createStateManager(storage);
+      const backup = new Promise<string>((resolve, reject) => {
+        const stop = scheduleBackups(manager, {
+          dir,
+          every: 10,
+          onBackup: (file) => {
+            stop();
+            resolve(file);
+          },
+          onError: reject,
+        });
+      });
+
+      const file = await backup;
+      const records = await collect(readArchive(file));
+      expect(records.filter((r) => r.type === 'variable')).toHaveLength(4);
+      expect(() => scheduleBackups(manager, { dir, every: 0 })).toThrow('Invalid backup interval');
+    });
+  });
+});
@@ -12,7 +12,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { StateManager, createStateManager } from '../manager.js';
-import { MemoryAdapter } from '@furlow/storage';
+import { MemoryAdapter, createSQLiteAdapter, type StoredValue } from '@furlow/storage';
 import type { VariableDefinition, TableDefinition } from '@furlow/schema';
 
 describe('StateManager with Real MemoryAdapter', () => {
@@ -470,6 +470,246 @@ describe('StateManager with Real MemoryAdapter', () => {
     });
   });
 
+  describe('Transactions', () => {
+    const alice = { guildId: 'guild-1', userId: 'alice' };
+    const bob = { guildId: 'guild-1', userId: 'bob' };
+
+    beforeEach(async () => {
+      manager.registerVariables({ balance: { type: 'number', scope: 'member', default: 0 } });
+      await manager.registerTables({
+        claims: { columns: { ticket: { type: 'string', primary: true }, user: { type: 'string' } } },
+      });
+      await manager.set('balance', 100, alice);
+    });
+
+    it('should commit writes to several keys and tables together', async () => {
+      await manager.transaction(async () => {
+        await manager.decrement('balance', 30, alice);
+        await manager.increment('balance', 30, bob);
+        await manager.insert('claims', { ticket: 't1', user: 'bob' });
+      });
+
+      expect(await manager.get('balance', alice)).toBe(70);
+      expect(await manager.get('balance', bob)).toBe(30);
+      expect(await manager.query('claims')).toEqual([{ ticket: 't1', user: 'bob' }]);
+    });
+
+    it('should roll back storage and cache when the function throws', async () => {
+      await expect(
+        manager.transaction(async () => {
+          await manager.decrement('balance', 30, alice);
+          await manager.increment('balance', 30, bob);
+          await manager.insert('claims', { ticket: 't1', user: 'bob' });
+          throw new Error('crash mid-transfer');
+        })
+      ).rejects.toThrow('crash mid-transfer');
+
+      expect(await manager.get('balance', alice)).toBe(100);
+      expect(await manager.get('balance', bob)).toBe(0);
+      expect(await manager.query('claims')).toEqual([]);
+      expect(await storage.keys('member:balance:*')).toEqual(['member:balance:guild-1:alice']);
+    });
+
+    it('should join an open transaction when nested', async () => {
+      await expect(
+        manager.transaction(async () => {
+          await manager.transaction(() => manager.increment('balance', 5, alice));
+          throw new Error('outer failed');
+        })
+      ).rejects.toThrow('outer failed');
+
+      expect(await manager.get('balance', alice)).toBe(100);
+    });
+
+    it('should make operations on keys the transaction touched wait until it finishes', async () => {
+      let proceed!: () => void;
+      const paused = new Promise<void>((resolve) => {
+        proceed = resolve;
+      });
+
+      const transfer = manager.transaction(async () => {
+        await manager.decrement('balance', 30, alice);
+        await paused;
+        await manager.increment('balance', 30, bob);
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const outside = manager.get('balance', alice);
+      // Bob's balance is not touched yet, so this does not wait
+      expect(await manager.increment('balance', 1, bob)).toBe(1);
+      proceed();
+      await transfer;
+
+      expect(await outside).toBe(70);
+      expect(await manager.get('balance', bob)).toBe(31);
+    });
+
+    it('should let work on other keys and tables run while a transaction waits', async () => {
+      let proceed!: () => void;
+      const paused = new Promise<void>((resolve) => {
+        proceed = resolve;
+      });
+
+      const slow = manager.transaction(async () => {
+        await manager.decrement('balance', 30, alice);
+        // Stands in for a slow Discord API call
+        await paused;
+        throw new Error('call failed');
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      await manager.transaction(() => manager.insert('claims', { ticket: 't1', user: 'bob' }));
+      await manager.set('balance', 5, bob);
+      proceed();
+      await expect(slow).rejects.toThrow('call failed');
+
+      expect(await manager.get('balance', alice)).toBe(100);
+      expect(await manager.get('balance', bob)).toBe(5);
+      expect(await manager.query('claims')).toEqual([{ ticket: 't1', user: 'bob' }]);
+    });
+
+    it('should fail a transaction that would wait on one waiting for it', async () => {
+      let proceed!: () => void;
+      const paused = new Promise<void>((resolve) => {
+        proceed = resolve;
+      });
+
+      const first = manager.transaction(async () => {
+        await manager.increment('balance', 1, alice);
+        await paused;
+        await manager.increment('balance', 1, bob);
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const second = manager.transaction(async () => {
+        await manager.increment('balance', 1, bob);
+        await manager.increment('balance', 1, alice);
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      proceed();
+
+      const results = await Promise.allSettled([first, second]);
+      expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(await manager.get('balance', alice)).toBe(101);
+      expect(await manager.get('balance', bob)).toBe(1);
+    });
+
+    it('should make all other work wait when storage runs one transaction at a time', async () => {
+      const single = createStateManager(createSQLiteAdapter({ memory: true }));
+      single.registerVariables({ balance: { type: 'number', scope: 'member', default: 0 } });
+      let proceed!: () => void;
+      const paused = new Promise<void>((resolve) => {
+        proceed = resolve;
+      });
+
+      const transfer = single.transaction(async () => {
+        await single.increment('balance', 30, alice);
+        await paused;
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      let done = false;
+      const outside = single.increment('balance', 1, bob).then((value) => {
+        done = true;
+        return value;
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(done).toBe(false);
+      proceed();
+      await transfer;
+
+      expect(await outside).toBe(1);
+      await single.close();
+    });
+
+    it('should refuse storage without transaction support', async () => {
+      const bare = createStateManager({ close: async () => {} } as unknown as MemoryAdapter);
+
+      expect(bare.supportsTransactions()).toBe(false);
+      await expect(bare.transaction(async () => 1)).rejects.toThrow(
+        'State storage does not support transactions'
+      );
+    });
+  });
+
+  describe('Shared Cache Invalidation', () => {
+    it('should drop cached values that another process changed', async () => {
+      let invalidate!: (key: string | null) => void;
+      const stop = vi.fn();
+      const shared = Object.assign(new MemoryAdapter(), {
+        onInvalidate: (listener: (key: string | null) => void) => {
+          invalidate = listener;
+          return stop;
+        },
+      });
+      const local = createStateManager(shared);
+      const ctx = { guildId: 'guild-1' };
+
+      await local.set('motd', 'hello', ctx);
+      await shared.set('guild:motd:guild-1', { value: 'changed', type: 'string', createdAt: 1, updatedAt: 1 });
+      expect(await local.get('motd', ctx)).toBe('hello');
+
+      invalidate('guild:motd:guild-1');
+      expect(await local.get('motd', ctx)).toBe('changed');
+
+      local.cacheSet('scratch', 1);
+      invalidate(null);
+      expect(local.cacheGet('scratch')).toBeUndefined();
+
+      await local.close();
+      expect(stop).toHaveBeenCalled();
+    });
+  });
+
+  describe('Atomic Storage Writes', () => {
+    function atomicStorage() {
+      const shared = new MemoryAdapter();
+      const modify = vi.fn(async (key: string, fn: (current: StoredValue | null) => StoredValue) => {
+        const next = fn(await shared.get(key));
+        await shared.set(key, next);
+        return next;
+      });
+      const setIfAbsent = vi.fn(async (key: string, value: StoredValue) => {
+        if (await shared.has(key)) return false;
+        await shared.set(key, value);
+        return true;
+      });
+      return Object.assign(shared, { modify, setIfAbsent });
+    }
+
+    it('should increment in one step when storage can', async () => {
+      const shared = atomicStorage();
+      const local = createStateManager(shared);
+      local.registerVariables({
+        counter: { type: 'number', scope: 'guild', default: 5, ttl: 60000 },
+        scratch: { type: 'number', scope: 'guild', persist: false },
+      });
+      const ctx = { guildId: 'guild-1' };
+
+      expect(await local.increment('counter', 2, ctx)).toBe(7);
+      expect(await local.increment('counter', 1, ctx)).toBe(8);
+      expect(await local.get('counter', ctx)).toBe(8);
+      expect((await shared.get('guild:counter:guild-1'))?.expiresAt).toBeGreaterThan(Date.now());
+      expect(shared.modify).toHaveBeenCalledTimes(2);
+
+      // Values kept only in the cache never reach storage
+      expect(await local.increment('scratch', 1, ctx)).toBe(1);
+      expect(shared.modify).toHaveBeenCalledTimes(2);
+
+      await local.close();
+    });
+
+    it('should claim idempotency keys in one step when storage can', async () => {
+      const shared = atomicStorage();
+      const local = createStateManager(shared);
+
+      expect(await local.claimIdempotencyKey('run-1', 60000)).toBe(true);
+      expect(await local.claimIdempotencyKey('run-1', 60000)).toBe(false);
+      expect(shared.setIfAbsent).toHaveBeenCalledTimes(2);
+
+      await local.close();
+    });
+  });
+
   describe('Close and Cleanup', () => {
     it('should clear cache on close', async () => {
       manager.cacheSet('key', 'value');
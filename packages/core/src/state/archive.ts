@@ -0,0 +1,337 @@
+/**
+ * State archives - portable dumps of state variables and table rows
+ *
+ * An archive is a list of records stored one JSON object per line: a
+ * header, every variable, then each table's definition followed by its
+ * rows. Archives are written from one storage adapter and read into any
+ * other, so they also move state between kinds of storage.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { rename, rm } from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createInterface } from 'node:readline';
+import type { StateScope, TableColumn, TableDefinition } from '@furlow/schema';
+import type { StateKey, StorageAdapter } from './types.js';
+import { buildStorageKey, parseStorageKey } from './scopes.js';
+
+/** Version of the archive format written by exportState */
+export const ARCHIVE_VERSION = 1;
+
+/** Column that ties a table row to a guild */
+const GUILD_COLUMN = 'guild_id';
+
+export interface ArchiveHeader {
+  type: 'header';
+  version: number;
+  createdAt: number;
+  /** Filter the archive was exported with */
+  guildId?: string;
+  scopes?: StateScope[];
+}
+
+export interface ArchiveVariable extends StateKey {
+  type: 'variable';
+  value: unknown;
+  /** Type recorded with the stored value */
+  valueType: string;
+  expiresAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ArchiveTable {
+  type: 'table';
+  name: string;
+  definition: TableDefinition;
+}
+
+export interface ArchiveRow {
+  type: 'row';
+  table: string;
+  data: Record<string, unknown>;
+}
+
+export type ArchiveRecord = ArchiveHeader | ArchiveVariable | ArchiveTable | ArchiveRow;
+
+export interface ArchiveFilter {
+  /**
+   * Keep one guild: its guild and member variables, and the rows of tables
+   * with a guild_id column that belong to it
+   */
+  guildId?: string;
+  /** Keep variables of these scopes */
+  scopes?: StateScope[];
+}
+
+export interface ExportOptions extends ArchiveFilter {
+  /** Tables to export with their rows */
+  tables?: Record<string, TableDefinition>;
+}
+
+/** The reads exportState needs, so it can read through a state manager's gate */
+export type StorageReader = Pick<StorageAdapter, 'keys' | 'get' | 'query'>;
+
+export interface ImportSummary {
+  variables: number;
+  tables: number;
+  rows: number;
+  /** Records left out by the filter, expired variables and rows of skipped tables */
+  skipped: number;
+}
+
+/**
+ * Parse a storage key that holds a state variable. Other keys, such as
+ * idempotency keys and workflow checkpoints, give null.
+ */
+function parseVariableKey(storageKey: string): StateKey | null {
+  const key = parseStorageKey(storageKey);
+  try {
+    return buildStorageKey(key) === storageKey ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+function keepVariable(key: StateKey, filter: ArchiveFilter): boolean {
+  if (filter.scopes && !filter.scopes.includes(key.scope)) return false;
+  if (filter.guildId !== undefined && key.guildId !== filter.guildId) return false;
+  return true;
+}
+
+function keepTable(definition: TableDefinition, filter: ArchiveFilter): boolean {
+  return filter.guildId === undefined || GUILD_COLUMN in definition.columns;
+}
+
+/**
+ * Give a value the JavaScript type its column declares
+ */
+function normalizeValue(type: TableColumn['type'], value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+
+  switch (type) {
+    case 'boolean':
+      if (typeof value === 'number') return value !== 0;
+      if (typeof value === 'string') return value === '1' || value === 'true' || value === 't';
+      return value;
+    case 'number':
+    case 'timestamp':
+      if (value instanceof Date) return value.getTime();
+      if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+        return Number(value);
+      }
+      return value;
+    case 'json':
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        // Plain text stored in a json column
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Give each column of a row the type its definition declares. Adapters
+ * return some columns in their storage form, such as SQLite booleans as
+ * 0 or 1 and json as text, or Postgres BIGINT timestamps as strings, so
+ * without this a row restored into other storage would change.
+ */
+function normalizeRow(definition: TableDefinition, data: Record<string, unknown>): Record<string, unknown> {
+  const row: Record<string, unknown> = { ...data };
+  for (const [name, column] of Object.entries(definition.columns)) {
+    if (name in row) row[name] = normalizeValue(column.type, row[name]);
+  }
+  return row;
+}
+
+/**
+ * Read variables and table rows from storage as archive records
+ */
+export async function* exportState(
+  storage: StorageReader,
+  options: ExportOptions = {}
+): AsyncGenerator<ArchiveRecord> {
+  const { tables = {}, ...filter } = options;
+  yield { type: 'header', version: ARCHIVE_VERSION, createdAt: Date.now(), ...filter };
+
+  for (const storageKey of (await storage.keys()).sort()) {
+    const key = parseVariableKey(storageKey);
+    if (!key || !keepVariable(key, filter)) continue;
+
+    // The key may have expired since it was listed
+    const stored = await storage.get(storageKey);
+    if (!stored) continue;
+
+    yield {
+      type: 'variable',
+      ...key,
+      value: stored.value,
+      valueType: stored.type,
+      expiresAt: stored.expiresAt,
+      createdAt: stored.createdAt,
+      updatedAt: stored.updatedAt,
+    };
+  }
+
+  for (const [name, definition] of Object.entries(tables)) {
+    if (!keepTable(definition, filter)) continue;
+
+    yield { type: 'table', name, definition };
+    const where = filter.guildId === undefined ? {} : { [GUILD_COLUMN]: filter.guildId };
+    for (const data of await storage.query(name, { where })) {
+      yield { type: 'row', table: name, data: normalizeRow(definition, data) };
+    }
+  }
+}
+
+/**
+ * Write archive records into storage. Variables overwrite the stored
+ * value; rows replace the row with the same primary key. When the storage
+ * supports transactions, a failing import leaves it unchanged.
+ */
+export async function importState(
+  storage: StorageAdapter,
+  records: AsyncIterable<ArchiveRecord> | Iterable<ArchiveRecord>,
+  filter: ArchiveFilter = {}
+): Promise<ImportSummary> {
+  const run = async (target: StorageAdapter): Promise<ImportSummary> => {
+    const summary: ImportSummary = { variables: 0, tables: 0, rows: 0, skipped: 0 };
+    /** Definition of each imported table */
+    const definitions = new Map<string, TableDefinition>();
+    let header = false;
+
+    for await (const record of records) {
+      if (!header) {
+        if (record.type !== 'header') {
+          throw new Error('Not a state archive: the first record must be a header');
+        }
+        if (record.version > ARCHIVE_VERSION) {
+          throw new Error(`Unsupported archive version ${record.version} (newest supported: ${ARCHIVE_VERSION})`);
+        }
+        header = true;
+        continue;
+      }
+
+      switch (record.type) {
+        case 'variable': {
+          const { value, valueType, expiresAt, createdAt, updatedAt } = record;
+          const key: StateKey = {
+            name: record.name,
+            scope: record.scope,
+            guildId: record.guildId,
+            channelId: record.channelId,
+            userId: record.userId,
+          };
+          if (!keepVariable(key, filter) || (expiresAt != null && expiresAt <= Date.now())) {
+            summary.skipped++;
+            break;
+          }
+          await target.set(buildStorageKey(key), {
+            value,
+            type: valueType,
+            expiresAt: expiresAt ?? undefined,
+            createdAt,
+            updatedAt,
+          });
+          summary.variables++;
+          break;
+        }
+
+        case 'table': {
+          if (!keepTable(record.definition, filter)) {
+            summary.skipped++;
+            break;
+          }
+          await target.createTable(record.name, record.definition);
+          definitions.set(record.name, record.definition);
+          summary.tables++;
+          break;
+        }
+
+        case 'row': {
+          const definition = definitions.get(record.table);
+          if (!definition || (filter.guildId !== undefined && record.data[GUILD_COLUMN] !== filter.guildId)) {
+            summary.skipped++;
+            break;
+          }
+          // Archives from older releases hold rows as the storage returned them
+          const data = normalizeRow(definition, record.data);
+          const primary = Object.entries(definition.columns)
+            .filter(([, column]) => column.primary)
+            .map(([column]) => column);
+          if (primary.length > 0) {
+            await target.deleteRows(record.table, Object.fromEntries(primary.map((column) => [column, data[column]])));
+          }
+          await target.insert(record.table, data);
+          summary.rows++;
+          break;
+        }
+
+        case 'header':
+          throw new Error('Archive has more than one header');
+      }
+    }
+
+    if (!header) {
+      throw new Error('Not a state archive: it is empty');
+    }
+    return summary;
+  };
+
+  return storage.transaction ? storage.transaction(run) : run(storage);
+}
+
+/**
+ * Write archive records to a file, one JSON object per line. The records
+ * go to a temporary file first, so the file only appears once complete.
+ */
+export async function writeArchive(
+  records: AsyncIterable<ArchiveRecord>,
+  path: string
+): Promise<number> {
+  const partial = `${path}.partial`;
+  let count = 0;
+
+  async function* lines(): AsyncGenerator<string> {
+    for await (const record of records) {
+      count++;
+      yield JSON.stringify(record) + '\n';
+    }
+  }
+
+  try {
+    await pipeline(Readable.from(lines()), createWriteStream(partial));
+  } catch (error) {
+    await rm(partial, { force: true });
+    throw error;
+  }
+
+  await rename(partial, path);
+  return count;
+}
+
+/**
+ * Read archive records from a file written by writeArchive
+ */
+export async function* readArchive(path: string): AsyncGenerator<ArchiveRecord> {
+  const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+  let number = 0;
+
+  for await (const line of lines) {
+    number++;
+    if (line.trim() === '') continue;
+
+    let record: ArchiveRecord;
+    try {
+      record = JSON.parse(line) as ArchiveRecord;
+    } catch (err) {
+      throw new Error(`Invalid archive line ${number}: ${(err as Error).message}`);
+    }
+    yield record;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Scheduled state backups
+ */
+
+import { mkdir, readdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { TableDefinition } from '@furlow/schema';
+import type { StateManager } from './manager.js';
+import { exportState, writeArchive, type StorageReader } from './archive.js';
+
+/** Backup files are named with this prefix and the time they were taken */
+const BACKUP_PREFIX = 'furlow-state-';
+const BACKUP_EXTENSION = '.jsonl';
+
+const DEFAULT_KEEP = 7;
+
+/** Longest interval setInterval accepts */
+const MAX_INTERVAL = 2 ** 31 - 1;
+
+export interface BackupOptions {
+  /** Directory the backups are written to */
+  dir: string;
+  /** Number of backups to keep; older ones are deleted (default: 7) */
+  keep?: number;
+  /** Tables to back up with their rows */
+  tables?: Record<string, TableDefinition>;
+}
+
+export interface BackupSchedule extends BackupOptions {
+  /** Time between backups in ms */
+  every: number;
+  /** Called with the path of each backup written */
+  onBackup?: (path: string) => void;
+  /** Called when a backup fails; later backups still run */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Write an archive of storage to a new file in the backup directory, then
+ * delete the oldest backups beyond the number to keep
+ */
+export async function writeBackup(storage: StorageReader, options: BackupOptions): Promise<string> {
+  await mkdir(options.dir, { recursive: true });
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const path = join(options.dir, `${BACKUP_PREFIX}${stamp}${BACKUP_EXTENSION}`);
+  await writeArchive(exportState(storage, { tables: options.tables }), path);
+
+  // Timestamps in the names sort oldest first
+  const backups = (await readdir(options.dir))
+    .filter((name) => name.startsWith(BACKUP_PREFIX) && name.endsWith(BACKUP_EXTENSION))
+    .sort();
+  const keep = Math.max(1, options.keep ?? DEFAULT_KEEP);
+  for (const name of backups.slice(0, -keep)) {
+    await rm(join(options.dir, name), { force: true });
+  }
+
+  return path;
+}
+
+/**
+ * Back up a state manager's storage at a fixed interval. Each read of a
+ * backup waits for an open transaction to finish, but a transaction does
+ * not wait for the whole backup. An interval that comes round while the
+ * previous backup is still running is skipped. Returns a function that
+ * stops the schedule.
+ */
+export function scheduleBackups(stateManager: StateManager, schedule: BackupSchedule): () => void {
+  if (!(schedule.every > 0) || schedule.every > MAX_INTERVAL) {
+    throw new Error(`Invalid backup interval: ${schedule.every}ms`);
+  }
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+
+    writeBackup(stateManager.storageReader(), schedule)
+      .then(
+        (path) => schedule.onBackup?.(path),
+        (err) => schedule.onError?.(err instanceof Error ? err : new Error(String(err)))
+      )
+      .finally(() => {
+        running = false;
+      });
+  }, schedule.every);
+
+  // Backups alone do not keep the process running
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,102 @@
+/**
+ * Transaction gate - keeps work outside a transaction off the keys and
+ * tables the transaction has touched until it finishes
+ */
+
+/** A transaction's hold on the resources it has touched */
+export interface GateHolder {
+  resources: Set<string>;
+  /** Settles when the transaction finishes */
+  done: Promise<void>;
+  finish: () => void;
+  /** Holder this one is waiting for, to find transactions waiting on each other */
+  waitingFor?: GateHolder;
+}
+
+export class ResourceGate {
+  /** Transaction holding each resource */
+  private holders: Map<string, GateHolder> = new Map();
+  /** Operations in flight outside any transaction, per resource */
+  private inFlight: Map<string, number> = new Map();
+  /** Transactions waiting for a resource's operations in flight to finish */
+  private drained: Map<string, () => void> = new Map();
+
+  /**
+   * Run fn as an operation on a resource outside any transaction. It waits
+   * while a transaction holds the resource.
+   */
+  async use<T>(resource: string, fn: () => Promise<T>): Promise<T> {
+    let holder: GateHolder | undefined;
+    while ((holder = this.holders.get(resource))) {
+      await holder.done;
+    }
+
+    this.inFlight.set(resource, (this.inFlight.get(resource) ?? 0) + 1);
+    try {
+      return await fn();
+    } finally {
+      const left = this.inFlight.get(resource)! - 1;
+      if (left > 0) {
+        this.inFlight.set(resource, left);
+      } else {
+        this.inFlight.delete(resource);
+        this.drained.get(resource)?.();
+      }
+    }
+  }
+
+  /**
+   * Start holding resources for a transaction
+   */
+  open(): GateHolder {
+    let finish!: () => void;
+    const done = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    return { resources: new Set(), done, finish };
+  }
+
+  /**
+   * Hold a resource until the transaction finishes. Waits for another
+   * transaction holding it, then for operations already in flight on it.
+   */
+  async take(holder: GateHolder, resource: string): Promise<void> {
+    if (holder.resources.has(resource)) return;
+
+    let other: GateHolder | undefined;
+    while ((other = this.holders.get(resource))) {
+      for (let waiting: GateHolder | undefined = other; waiting; waiting = waiting.waitingFor) {
+        if (waiting === holder) {
+          throw new Error(`Transactions are waiting on each other for "${resource}"`);
+        }
+      }
+      holder.waitingFor = other;
+      try {
+        await other.done;
+      } finally {
+        holder.waitingFor = undefined;
+      }
+    }
+
+    this.holders.set(resource, holder);
+    holder.resources.add(resource);
+
+    if (this.inFlight.has(resource)) {
+      await new Promise<void>((resolve) => {
+        this.drained.set(resource, resolve);
+      });
+      this.drained.delete(resource);
+    }
+  }
+
+  /**
+   * Let go of every resource a transaction holds
+   */
+  release(holder: GateHolder): void {
+    for (const resource of holder.resources) {
+      this.holders.delete(resource);
+    }
+    holder.resources.clear();
+    holder.finish();
+  }
+}
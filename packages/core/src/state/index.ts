@@ -5,3 +5,5 @@
 export * from './manager.js';
 export * from './types.js';
 export * from './scopes.js';
+export * from './archive.js';
+export * from './backup.js';
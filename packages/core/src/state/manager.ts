@@ -2,10 +2,13 @@
  * State manager - manages variables, tables, and caches
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import type { StateScope, VariableDefinition, TableDefinition } from '@furlow/schema';
-import type { StateKey, StoredValue, StorageAdapter, CacheEntry } from './types.js';
+import type { StateKey, StoredValue, StorageAdapter, CacheEntry, QueryOptions } from './types.js';
 import { buildStorageKey, validateScopeContext } from './scopes.js';
 import { StateVariableNotFoundError } from '../errors/index.js';
+import type { StorageReader } from './archive.js';
+import { ResourceGate, type GateHolder } from './gate.js';
 
 export interface StateManagerOptions {
   /** Default TTL for cache entries in ms */
@@ -14,6 +17,21 @@ export interface StateManagerOptions {
   maxCacheSize?: number;
 }
 
+/**
+ * The storage an async context reads and writes through. Inside a
+ * transaction it carries the transaction's view of storage, the cache
+ * entries to restore if it rolls back and, when other work may run beside
+ * it, its hold on the keys and tables it touched. Work started from the
+ * scope that outlives it, such as a timer, goes back through the manager's
+ * own storage.
+ */
+interface StorageScope {
+  storage: StorageAdapter;
+  active: boolean;
+  cacheBefore?: Map<string, CacheEntry | undefined>;
+  holder?: GateHolder;
+}
+
 const DEFAULT_OPTIONS: Required<StateManagerOptions> = {
   defaultCacheTTL: 300000, // 5 minutes
   maxCacheSize: 10000,
@@ -27,10 +45,29 @@ export class StateManager {
   private options: Required<StateManagerOptions>;
   private locks: Map<string, Promise<void>> = new Map();
   private closed = false;
+  private scope = new AsyncLocalStorage<StorageScope>();
+  /**
+   * Keeps other work off the keys and tables an open transaction touched,
+   * for storage whose transactions run beside other work
+   */
+  private gate = new ResourceGate();
+  /** Settles when the open transaction finishes, for storage that runs one at a time */
+  private transactionDone: Promise<void> | null = null;
+  /** Storage operations in flight outside any transaction */
+  private pending = 0;
+  private drained: (() => void) | null = null;
+  private stopInvalidation?: () => void;
 
   constructor(storage: StorageAdapter, options: StateManagerOptions = {}) {
     this.storage = storage;
     this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    // Storage shared between processes reports keys written elsewhere, so
+    // cached copies are dropped instead of served stale
+    this.stopInvalidation = storage.onInvalidate?.((key) => {
+      if (key === null) this.cache.clear();
+      else this.cache.delete(key);
+    });
   }
 
   /**
@@ -55,6 +92,157 @@ export class StateManager {
     };
   }
 
+  /**
+   * Run fn with the storage of the current async context, on resource: a
+   * variable's storage key, or "table:<name>". Inside a transaction, the
+   * transaction takes hold of the resource. Outside one, operations wait
+   * while an open transaction holds the resource, or for any open
+   * transaction when the storage runs transactions on its one connection.
+   */
+  private async withStorage<T>(
+    resource: string | undefined,
+    fn: (storage: StorageAdapter) => Promise<T>
+  ): Promise<T> {
+    const current = this.scope.getStore();
+    if (current?.active) {
+      if (current.holder && resource !== undefined) {
+        await this.gate.take(current.holder, resource);
+      }
+      return fn(current.storage);
+    }
+
+    if (this.storage.concurrentTransactions) {
+      const scope: StorageScope = { storage: this.storage, active: true };
+      const run = () => this.scope.run(scope, () => fn(this.storage));
+      try {
+        return await (resource === undefined ? run() : this.gate.use(resource, run));
+      } finally {
+        scope.active = false;
+      }
+    }
+
+    while (this.transactionDone) {
+      await this.transactionDone;
+    }
+
+    const scope: StorageScope = { storage: this.storage, active: true };
+    this.pending++;
+    try {
+      return await this.scope.run(scope, () => fn(this.storage));
+    } finally {
+      scope.active = false;
+      this.pending--;
+      if (this.pending === 0) this.drained?.();
+    }
+  }
+
+  /**
+   * Read storage as a whole, as backups do. Each read waits for an open
+   * transaction like the manager's own operations, so a long export holds
+   * transactions off for one read at a time rather than all of it.
+   */
+  storageReader(): StorageReader {
+    return {
+      keys: (pattern) => this.withStorage(undefined, (storage) => storage.keys(pattern)),
+      get: (key) => this.withStorage(key, (storage) => storage.get(key)),
+      query: (table, options) =>
+        this.withStorage(`table:${table}`, (storage) => storage.query(table, options)),
+    };
+  }
+
+  /**
+   * Remember a cache entry before a transaction changes it
+   */
+  private rememberCache(key: string): void {
+    const scope = this.scope.getStore();
+    const before = scope?.active ? scope.cacheBefore : undefined;
+    if (before && !before.has(key)) {
+      before.set(key, this.cache.get(key));
+    }
+  }
+
+  /**
+   * Run fn so that every state and table write it makes commits together
+   * when it resolves, or rolls back together when it throws. Calls into
+   * this manager from fn, including lookups in expressions, join the
+   * transaction. Other work on a key or table the transaction touched
+   * waits until it finishes; when the storage runs transactions on its one
+   * connection, all other work waits.
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const current = this.scope.getStore();
+    if (current?.active && current.cacheBefore) return fn();
+
+    const storage = this.storage;
+    if (!storage.transaction) {
+      throw new Error('State storage does not support transactions');
+    }
+
+    if (storage.concurrentTransactions) {
+      const holder = this.gate.open();
+      try {
+        return await this.runTransaction(storage, fn, holder);
+      } finally {
+        this.gate.release(holder);
+      }
+    }
+
+    while (this.transactionDone) {
+      await this.transactionDone;
+    }
+    let finish!: () => void;
+    this.transactionDone = new Promise((resolve) => {
+      finish = resolve;
+    });
+
+    try {
+      // Let operations that started before the transaction finish first
+      if (this.pending > 0) {
+        await new Promise<void>((resolve) => {
+          this.drained = resolve;
+        });
+        this.drained = null;
+      }
+
+      return await this.runTransaction(storage, fn);
+    } finally {
+      this.transactionDone = null;
+      finish();
+    }
+  }
+
+  /**
+   * Run fn in a storage transaction, restoring the cache if it rolls back
+   */
+  private async runTransaction<T>(
+    storage: StorageAdapter,
+    fn: () => Promise<T>,
+    holder?: GateHolder
+  ): Promise<T> {
+    const scope: StorageScope = { storage, active: true, cacheBefore: new Map(), holder };
+    try {
+      return await storage.transaction!((tx) => {
+        scope.storage = tx;
+        return this.scope.run(scope, fn);
+      });
+    } catch (error) {
+      for (const [key, entry] of scope.cacheBefore!) {
+        if (entry) this.cache.set(key, entry);
+        else this.cache.delete(key);
+      }
+      throw error;
+    } finally {
+      scope.active = false;
+    }
+  }
+
+  /**
+   * Whether the storage adapter can run transactions
+   */
+  supportsTransactions(): boolean {
+    return typeof this.storage.transaction === 'function';
+  }
+
   /**
    * Register variable definitions
    */
@@ -96,27 +284,29 @@ export class StateManager {
       userId: context.userId,
     });
 
-    // Check cache first
-    const cached = this.cache.get(key);
-    if (cached && cached.expiresAt > Date.now()) {
-      return cached.value as T;
-    }
+    return this.withStorage(key, async (storage) => {
+      // Check cache first
+      const cached = this.cache.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.value as T;
+      }
 
-    // Get from storage
-    const stored = await this.storage.get(key);
+      // Get from storage
+      const stored = await storage.get(key);
 
-    if (!stored) {
-      // Return default if defined
-      return def?.default as T | undefined;
-    }
+      if (!stored) {
+        // Return default if defined
+        return def?.default as T | undefined;
+      }
 
-    // Check expiration
-    if (stored.expiresAt && stored.expiresAt < Date.now()) {
-      await this.storage.delete(key);
-      return def?.default as T | undefined;
-    }
+      // Check expiration
+      if (stored.expiresAt && stored.expiresAt < Date.now()) {
+        await storage.delete(key);
+        return def?.default as T | undefined;
+      }
 
-    return stored.value as T;
+      return stored.value as T;
+    });
   }
 
   /**
@@ -142,6 +332,24 @@ export class StateManager {
       userId: context.userId,
     });
 
+    const stored = this.toStored(value, def);
+
+    await this.withStorage(key, async (storage) => {
+      // Save to storage if persistent
+      if (def?.persist !== false) {
+        await storage.set(key, stored);
+      }
+
+      // Update cache
+      this.rememberCache(key);
+      this.updateCache(key, value);
+    });
+  }
+
+  /**
+   * Wrap a variable's value for storage, expiring after the variable's TTL
+   */
+  private toStored(value: unknown, def: VariableDefinition | undefined): StoredValue {
     const now = Date.now();
     const stored: StoredValue = {
       value,
@@ -156,13 +364,7 @@ export class StateManager {
       stored.expiresAt = now + ttlMs;
     }
 
-    // Save to storage if persistent
-    if (def?.persist !== false) {
-      await this.storage.set(key, stored);
-    }
-
-    // Update cache
-    this.updateCache(key, value);
+    return stored;
   }
 
   /**
@@ -183,8 +385,11 @@ export class StateManager {
       userId: context.userId,
     });
 
-    this.cache.delete(key);
-    return this.storage.delete(key);
+    return this.withStorage(key, async (storage) => {
+      this.rememberCache(key);
+      this.cache.delete(key);
+      return storage.delete(key);
+    });
   }
 
   /**
@@ -198,6 +403,10 @@ export class StateManager {
     const def = this.variables.get(name);
     const scope = def?.scope ?? 'guild';
 
+    if (!validateScopeContext(scope, context)) {
+      throw new Error(`Invalid context for scope "${scope}"`);
+    }
+
     const key = buildStorageKey({
       name,
       scope,
@@ -206,16 +415,35 @@ export class StateManager {
       userId: context.userId,
     });
 
-    // Acquire lock to prevent race conditions
-    const releaseLock = await this.acquireLock(key);
-    try {
-      const current = await this.get<number>(name, context);
-      const newValue = (current ?? 0) + by;
-      await this.set(name, newValue, context);
-      return newValue;
-    } finally {
-      releaseLock();
-    }
+    // A transaction waits for the whole read and write, not just one half
+    return this.withStorage(key, async (storage) => {
+      // Storage that changes a value in one step keeps increments made by
+      // other processes sharing it from being lost
+      if (storage.modify && def?.persist !== false) {
+        const stored = await storage.modify(key, (current) => {
+          const live =
+            current && (!current.expiresAt || current.expiresAt > Date.now())
+              ? (current.value as number)
+              : (def?.default as number | undefined);
+          return this.toStored((live ?? 0) + by, def);
+        });
+
+        this.rememberCache(key);
+        this.updateCache(key, stored.value);
+        return stored.value as number;
+      }
+
+      // Acquire lock to prevent race conditions
+      const releaseLock = await this.acquireLock(key);
+      try {
+        const current = await this.get<number>(name, context);
+        const newValue = (current ?? 0) + by;
+        await this.set(name, newValue, context);
+        return newValue;
+      } finally {
+        releaseLock();
+      }
+    });
   }
 
   /**
@@ -238,7 +466,7 @@ export class StateManager {
     if (!this.tables.has(table)) {
       throw new Error(`Table not found: ${table}`);
     }
-    await this.storage.insert(table, data);
+    await this.withStorage(`table:${table}`, (storage) => storage.insert(table, data));
   }
 
   /**
@@ -252,7 +480,7 @@ export class StateManager {
     if (!this.tables.has(table)) {
       throw new Error(`Table not found: ${table}`);
     }
-    return this.storage.update(table, where, data);
+    return this.withStorage(`table:${table}`, (storage) => storage.update(table, where, data));
   }
 
   /**
@@ -265,7 +493,7 @@ export class StateManager {
     if (!this.tables.has(table)) {
       throw new Error(`Table not found: ${table}`);
     }
-    return this.storage.deleteRows(table, where);
+    return this.withStorage(`table:${table}`, (storage) => storage.deleteRows(table, where));
   }
 
   /**
@@ -273,18 +501,12 @@ export class StateManager {
    */
   async query(
     table: string,
-    options: {
-      where?: Record<string, unknown>;
-      select?: string[];
-      orderBy?: string;
-      limit?: number;
-      offset?: number;
-    } = {}
+    options: QueryOptions = {}
   ): Promise<Record<string, unknown>[]> {
     if (!this.tables.has(table)) {
       throw new Error(`Table not found: ${table}`);
     }
-    return this.storage.query(table, options);
+    return this.withStorage(`table:${table}`, (storage) => storage.query(table, options));
   }
 
   // Cache operations
@@ -344,6 +566,60 @@ export class StateManager {
     });
   }
 
+  /**
+   * Record an idempotency key for ttl milliseconds. Returns false when the
+   * key is already recorded and has not expired.
+   */
+  async claimIdempotencyKey(key: string, ttl: number): Promise<boolean> {
+    const storageKey = `idempotency:${key}`;
+
+    return this.withStorage(storageKey, async (storage) => {
+      const now = Date.now();
+      const claim: StoredValue = {
+        value: true,
+        type: 'boolean',
+        expiresAt: now + ttl,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      // Storage that checks and writes in one step settles claims made by
+      // other processes sharing it
+      if (storage.setIfAbsent) {
+        return storage.setIfAbsent(storageKey, claim);
+      }
+
+      const release = await this.acquireLock(storageKey);
+
+      try {
+        const stored = await storage.get(storageKey);
+        if (stored && (!stored.expiresAt || stored.expiresAt > now)) {
+          return false;
+        }
+
+        await storage.set(storageKey, claim);
+        return true;
+      } finally {
+        release();
+      }
+    });
+  }
+
+  /**
+   * Forget an idempotency key
+   */
+  async releaseIdempotencyKey(key: string): Promise<boolean> {
+    const storageKey = `idempotency:${key}`;
+    return this.withStorage(storageKey, (storage) => storage.delete(storageKey));
+  }
+
+  /**
+   * Get the definition of a registered variable
+   */
+  getVariableDefinition(name: string): VariableDefinition | undefined {
+    return this.variables.get(name);
+  }
+
   /**
    * Get all variable names for a scope
    */
@@ -369,6 +645,7 @@ export class StateManager {
   async close(): Promise<void> {
     if (this.closed) return;
     this.closed = true;
+    this.stopInvalidation?.();
     this.cache.clear();
     this.locks.clear();
     await this.storage.close();
@@ -48,21 +48,40 @@ export interface StorageAdapter {
   /** Delete rows */
   deleteRows(table: string, where: Record<string, unknown>): Promise<number>;
   /** Query rows */
-  query(
-    table: string,
-    options: {
-      where?: Record<string, unknown>;
-      select?: string[];
-      orderBy?: string;
-      limit?: number;
-      offset?: number;
-    }
-  ): Promise<Record<string, unknown>[]>;
+  query(table: string, options: QueryOptions): Promise<Record<string, unknown>[]>;
+  /** Run fn so that its writes through tx commit or roll back together */
+  transaction?<T>(fn: (tx: StorageAdapter) => Promise<T>): Promise<T>;
+  /** Whether other work can use storage while a transaction is open */
+  readonly concurrentTransactions?: boolean;
+  /** Store a value only when the key holds no live value, in one step; resolves whether it was stored */
+  setIfAbsent?(key: string, value: StoredValue): Promise<boolean>;
+  /** Replace a key's value with fn's result in one step, rerunning fn when another write got there first */
+  modify?(key: string, fn: (current: StoredValue | null) => StoredValue): Promise<StoredValue>;
+  /** Listen for keys other processes write; null means every key. Returns a function that stops listening */
+  onInvalidate?(listener: (key: string | null) => void): () => void;
 
   /** Close the connection */
   close(): Promise<void>;
 }
 
+/**
+ * A table query. `where` maps columns to values or to operators
+ * (`$eq`, `$ne`, `$gt`, `$gte`, `$lt`, `$lte`, `$in`, `$nin`, `$like`), with
+ * `$and` and `$or` lists for nested clauses; see @furlow/storage.
+ */
+export interface QueryOptions {
+  where?: Record<string, unknown>;
+  select?: string[];
+  /** Columns to sort by, each with optional ASC or DESC, as a list or comma-separated */
+  orderBy?: string | string[];
+  /** Columns to group rows by; each group becomes one row */
+  groupBy?: string | string[];
+  /** Aggregate columns by name, e.g. `{ total: 'sum(xp)', members: 'count(*)' }` */
+  aggregate?: Record<string, string>;
+  limit?: number;
+  offset?: number;
+}
+
 export interface CacheEntry<T = unknown> {
   value: T;
   expiresAt: number;
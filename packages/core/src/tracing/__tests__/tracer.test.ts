@@ -0,0 +1,314 @@
+/**
+ * Tracer tests
+ *
+ * Covers:
+ * - Span nesting and trace completion
+ * - ActionExecutor spans (resolved config, when, result, errors)
+ * - FlowEngine flow and control spans
+ * - EventRouter root spans
+ * - OTLP export
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Tracer, createTracer } from '../tracer.js';
+import { toOtlp } from '../otlp.js';
+import { createActionExecutor } from '../../actions/executor.js';
+import { createActionRegistry, type ActionRegistry } from '../../actions/registry.js';
+import { createFlowEngine } from '../../flows/engine.js';
+import { createEventRouter } from '../../events/router.js';
+import { createEvaluator } from '../../expression/evaluator.js';
+import type { Action } from '@furlow/schema';
+import type { ActionContext } from '../../actions/types.js';
+
+function createTestContext(overrides: Record<string, unknown> = {}): ActionContext {
+  return {
+    client: {},
+    stateManager: undefined,
+    evaluator: {},
+    flowExecutor: {},
+    user: { id: 'u1', username: 'tester' },
+    ...overrides,
+  } as unknown as ActionContext;
+}
+
+describe('Tracer', () => {
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    tracer = createTracer();
+  });
+
+  describe('spans', () => {
+    it('should nest spans and complete a trace when the root ends', async () => {
+      await tracer.span('root', 'event', async () => {
+        await tracer.span('child', 'action', async () => {
+          await tracer.span('grandchild', 'action', async () => undefined);
+        });
+      });
+
+      const traces = tracer.getTraces();
+      expect(traces).toHaveLength(1);
+
+      const root = traces[0]!.root;
+      expect(root.name).toBe('root');
+      expect(root.status).toBe('ok');
+      expect(root.children[0]!.name).toBe('child');
+      expect(root.children[0]!.parentId).toBe(root.id);
+      expect(root.children[0]!.children[0]!.name).toBe('grandchild');
+      expect(root.children[0]!.traceId).toBe(root.traceId);
+      expect(root.duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should keep parallel children under the correct parent', async () => {
+      await tracer.span('root', 'event', async () => {
+        await Promise.all(
+          ['a', 'b'].map((name) =>
+            tracer.span(name, 'action', async () => {
+              await new Promise((r) => setTimeout(r, 5));
+              await tracer.span(`${name}.inner`, 'action', async () => undefined);
+            })
+          )
+        );
+      });
+
+      const root = tracer.getTraces()[0]!.root;
+      expect(root.children.map((c) => c.name)).toEqual(['a', 'b']);
+      expect(root.children[0]!.children[0]!.name).toBe('a.inner');
+      expect(root.children[1]!.children[0]!.name).toBe('b.inner');
+    });
+
+    it('should record thrown errors and rethrow them', async () => {
+      await expect(
+        tracer.span('root', 'event', async () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      const root = tracer.getTraces()[0]!.root;
+      expect(root.status).toBe('error');
+      expect(root.error).toEqual({ name: 'Error', message: 'boom' });
+    });
+
+    it('should cap the number of stored traces', async () => {
+      const small = createTracer({ maxTraces: 2 });
+      for (const name of ['one', 'two', 'three']) {
+        await small.span(name, 'event', async () => undefined);
+      }
+
+      expect(small.getTraces().map((t) => t.name)).toEqual(['two', 'three']);
+    });
+
+    it('should call onTrace for each completed trace', async () => {
+      const onTrace = vi.fn();
+      const listening = createTracer({ onTrace });
+
+      await listening.span('root', 'event', async () => undefined);
+
+      expect(onTrace).toHaveBeenCalledTimes(1);
+      expect(onTrace.mock.calls[0]![0].name).toBe('root');
+    });
+  });
+
+  describe('serialize', () => {
+    it('should handle circular references, buffers and internal keys', () => {
+      const obj: Record<string, unknown> = { name: 'x', _deps: { secret: true } };
+      obj.self = obj;
+      obj.file = Buffer.from('abc');
+
+      expect(tracer.serialize(obj)).toEqual({
+        name: 'x',
+        self: '[Circular]',
+        file: '<Buffer 3 bytes>',
+      });
+    });
+
+    it('should limit depth', () => {
+      const deep = createTracer({ maxDepth: 1 });
+      expect(deep.serialize({ a: { b: 1 }, list: [1, 2] })).toEqual({
+        a: '[Object]',
+        list: '[Array(2)]',
+      });
+    });
+  });
+
+  describe('ActionExecutor integration', () => {
+    let registry: ActionRegistry;
+
+    beforeEach(() => {
+      registry = createActionRegistry();
+      registry.register({
+        name: 'echo',
+        execute: async (config) => ({ success: true, data: { echoed: (config as any).text } }),
+      });
+      registry.register({
+        name: 'fail',
+        execute: async () => {
+          throw new Error('nope');
+        },
+      });
+    });
+
+    it('should record resolved config, result data and duration', async () => {
+      const executor = createActionExecutor(registry, createEvaluator(), { tracer });
+
+      await executor.executeOne(
+        { action: 'echo', text: 'hi ${user.username}' } as unknown as Action,
+        createTestContext()
+      );
+
+      const span = tracer.getTraces()[0]!.root;
+      expect(span.kind).toBe('action');
+      expect(span.name).toBe('echo');
+      expect(span.status).toBe('ok');
+      expect(span.config).toEqual({ text: 'hi tester' });
+      expect(span.data).toEqual({ echoed: 'hi ${user.username}' });
+      expect(span.duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should leave config unresolved when resolveConfig is false', async () => {
+      const raw = createTracer({ resolveConfig: false });
+      const executor = createActionExecutor(registry, createEvaluator(), { tracer: raw });
+
+      await executor.executeOne(
+        { action: 'echo', text: '${user.username}' } as unknown as Action,
+        createTestContext()
+      );
+
+      expect(raw.getTraces()[0]!.root.config).toEqual({ text: '${user.username}' });
+    });
+
+    it('should record when results and mark skipped actions', async () => {
+      const executor = createActionExecutor(registry, createEvaluator(), { tracer });
+
+      await executor.executeOne(
+        { action: 'echo', text: 'x', when: 'false' } as unknown as Action,
+        createTestContext()
+      );
+
+      const span = tracer.getTraces()[0]!.root;
+      expect(span.when).toBe(false);
+      expect(span.status).toBe('skipped');
+      expect(span.config).toBeUndefined();
+    });
+
+    it('should record errors with their codes', async () => {
+      const executor = createActionExecutor(registry, createEvaluator(), { tracer });
+
+      await executor.executeOne({ action: 'fail' } as unknown as Action, createTestContext());
+
+      const span = tracer.getTraces()[0]!.root;
+      expect(span.status).toBe('error');
+      expect(span.error?.code).toBe('E3003');
+      expect(span.error?.message).toContain('nope');
+    });
+
+    it('should record retry attempts', async () => {
+      const executor = createActionExecutor(registry, createEvaluator(), { tracer });
+
+      await executor.executeOne(
+        { action: 'fail', retry: { attempts: 2, delay: 1 } } as unknown as Action,
+        createTestContext()
+      );
+
+      const span = tracer.getTraces()[0]!.root;
+      expect(span.attributes.attempts).toBe(2);
+      expect(span.config).toEqual({ retry: { attempts: 2, delay: 1 } });
+    });
+  });
+
+  describe('FlowEngine integration', () => {
+    it('should record flow and control spans with their children', async () => {
+      const registry = createActionRegistry();
+      registry.register({ name: 'echo', execute: async () => ({ success: true }) });
+      const evaluator = createEvaluator();
+      const executor = createActionExecutor(registry, evaluator, { tracer });
+      const engine = createFlowEngine({ tracer });
+
+      engine.register({
+        name: 'greet',
+        parameters: [{ name: 'loud', type: 'boolean' }],
+        actions: [
+          {
+            action: 'flow_if',
+            if: 'args.loud',
+            then: [{ action: 'echo' }],
+            else: [{ action: 'echo' }, { action: 'echo' }],
+          },
+        ] as unknown as Action[],
+      });
+
+      await engine.execute('greet', { loud: true }, createTestContext(), executor, evaluator);
+
+      const flow = tracer.getTraces()[0]!.root;
+      expect(flow.kind).toBe('flow');
+      expect(flow.name).toBe('greet');
+      expect(flow.attributes.args).toEqual({ loud: true });
+
+      const branch = flow.children[0]!;
+      expect(branch.kind).toBe('control');
+      expect(branch.name).toBe('flow_if');
+      expect(branch.attributes).toEqual({ condition: true, branch: 'then' });
+      expect(branch.children).toHaveLength(1);
+      expect(branch.children[0]!.name).toBe('echo');
+    });
+  });
+
+  describe('EventRouter integration', () => {
+    it('should create one trace per handler run', async () => {
+      const registry = createActionRegistry();
+      registry.register({ name: 'echo', execute: async () => ({ success: true }) });
+      const evaluator = createEvaluator();
+      const executor = createActionExecutor(registry, evaluator, { tracer });
+      const router = createEventRouter({ tracer });
+
+      router.register({
+        event: 'message_create',
+        actions: [{ action: 'echo' }, { action: 'echo' }] as unknown as Action[],
+      });
+      router.register({
+        event: 'message_create',
+        when: 'false',
+        actions: [{ action: 'echo' }] as unknown as Action[],
+      });
+
+      await router.emit('message_create', createTestContext(), executor, evaluator);
+
+      const traces = tracer.getTraces();
+      expect(traces).toHaveLength(2);
+      expect(traces[0]!.root.kind).toBe('event');
+      expect(traces[0]!.root.children).toHaveLength(2);
+      expect(traces[1]!.root.when).toBe(false);
+      expect(traces[1]!.root.status).toBe('skipped');
+    });
+  });
+
+  describe('toOtlp', () => {
+    it('should flatten traces into OTLP spans', async () => {
+      await tracer.span('root', 'event', async () => {
+        await tracer.span('child', 'action', async (span) => {
+          tracer.recordResult(span, { success: false, error: new Error('bad') });
+        });
+      }, { handlerId: 'handler_1' });
+
+      const exported = toOtlp(tracer.getTraces(), 'my-bot');
+      const resource = exported.resourceSpans[0]!;
+      const spans = resource.scopeSpans[0]!.spans;
+
+      expect(resource.resource.attributes).toEqual([
+        { key: 'service.name', value: { stringValue: 'my-bot' } },
+      ]);
+      expect(spans).toHaveLength(2);
+      expect(spans[0]!.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(spans[0]!.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(spans[1]!.parentSpanId).toBe(spans[0]!.spanId);
+      expect(spans[1]!.status).toEqual({ code: 2, message: 'bad' });
+      expect(spans[0]!.attributes).toContainEqual({
+        key: 'furlow.handlerId',
+        value: { stringValue: 'handler_1' },
+      });
+      expect(BigInt(spans[0]!.endTimeUnixNano)).toBeGreaterThanOrEqual(
+        BigInt(spans[0]!.startTimeUnixNano)
+      );
+    });
+  });
+});
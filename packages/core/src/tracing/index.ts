@@ -0,0 +1,7 @@
+/**
+ * Tracing module
+ */
+
+export * from './tracer.js';
+export * from './otlp.js';
+export * from './types.js';
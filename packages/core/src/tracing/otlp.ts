@@ -0,0 +1,144 @@
+/**
+ * OpenTelemetry (OTLP/JSON) export for traces
+ */
+
+import type { Trace, TraceSpan } from './types.js';
+
+/** OTLP attribute value */
+export type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** SPAN_KIND_INTERNAL */
+  kind: 1;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  /** 0 = UNSET, 1 = OK, 2 = ERROR */
+  status: { code: 0 | 1 | 2; message?: string };
+}
+
+/** Body of an OTLP/JSON trace export request */
+export interface OtlpTraceExport {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: Array<{
+      scope: { name: string };
+      spans: OtlpSpan[];
+    }>;
+  }>;
+}
+
+/**
+ * Convert traces into an OTLP/JSON export body, suitable for POSTing
+ * to a collector's /v1/traces endpoint
+ */
+export function toOtlp(traces: Trace[], serviceName = 'furlow'): OtlpTraceExport {
+  const spans: OtlpSpan[] = [];
+  for (const trace of traces) {
+    collectSpans(trace.root, spans);
+  }
+
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: [{ key: 'service.name', value: { stringValue: serviceName } }],
+        },
+        scopeSpans: [{ scope: { name: '@furlow/core' }, spans }],
+      },
+    ],
+  };
+}
+
+/**
+ * Flatten a span tree into OTLP spans
+ */
+function collectSpans(span: TraceSpan, out: OtlpSpan[]): void {
+  const attributes: Record<string, unknown> = {
+    'furlow.kind': span.kind,
+    'furlow.status': span.status,
+  };
+  if (span.when !== undefined) {
+    attributes['furlow.when'] = span.when;
+  }
+  if (span.config !== undefined) {
+    attributes['furlow.config'] = span.config;
+  }
+  if (span.data !== undefined) {
+    attributes['furlow.data'] = span.data;
+  }
+  if (span.error?.code) {
+    attributes['furlow.error.code'] = span.error.code;
+  }
+  for (const [key, value] of Object.entries(span.attributes)) {
+    attributes[`furlow.${key}`] = value;
+  }
+
+  const otlpSpan: OtlpSpan = {
+    traceId: span.traceId,
+    spanId: span.id,
+    name: span.name,
+    kind: 1,
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+    attributes: toKeyValues(attributes),
+    status:
+      span.status === 'error'
+        ? { code: 2, message: span.error?.message }
+        : span.status === 'ok'
+          ? { code: 1 }
+          : { code: 0 },
+  };
+  if (span.parentId) {
+    otlpSpan.parentSpanId = span.parentId;
+  }
+
+  out.push(otlpSpan);
+  for (const child of span.children) {
+    collectSpans(child, out);
+  }
+}
+
+/**
+ * Convert epoch milliseconds to a nanosecond string
+ */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+/**
+ * Convert attributes to OTLP key/values; objects are JSON-encoded
+ */
+function toKeyValues(attributes: Record<string, unknown>): OtlpKeyValue[] {
+  const result: OtlpKeyValue[] = [];
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined || value === null) continue;
+
+    if (typeof value === 'string') {
+      result.push({ key, value: { stringValue: value } });
+    } else if (typeof value === 'boolean') {
+      result.push({ key, value: { boolValue: value } });
+    } else if (typeof value === 'number') {
+      result.push({
+        key,
+        value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value },
+      });
+    } else {
+      result.push({ key, value: { stringValue: JSON.stringify(value) } });
+    }
+  }
+  return result;
+}
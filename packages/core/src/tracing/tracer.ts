@@ -0,0 +1,312 @@
+/**
+ * Execution tracer - records action, flow and event spans as a tree
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import type {
+  SpanError,
+  SpanKind,
+  Trace,
+  TraceSpan,
+  TracerOptions,
+} from './types.js';
+
+const DEFAULT_OPTIONS: Required<Omit<TracerOptions, 'onTrace'>> = {
+  maxTraces: 100,
+  resolveConfig: true,
+  maxDepth: 4,
+};
+
+/** Longest string kept in recorded data */
+const MAX_STRING_LENGTH = 1000;
+
+/** Most array items kept in recorded data */
+const MAX_ARRAY_ITEMS = 50;
+
+export class Tracer {
+  private options: Required<Omit<TracerOptions, 'onTrace'>>;
+  private onTrace?: (trace: Trace) => void;
+  private storage = new AsyncLocalStorage<TraceSpan>();
+  private traces: Trace[] = [];
+
+  constructor(options: TracerOptions = {}) {
+    const { onTrace, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.onTrace = onTrace;
+  }
+
+  /**
+   * Whether recorded action configs should have expressions resolved
+   */
+  get resolveConfig(): boolean {
+    return this.options.resolveConfig;
+  }
+
+  /**
+   * Run a function inside a new span.
+   * The span becomes a child of the active span, or the root of a new
+   * trace when none is active. It is ended when the function settles.
+   */
+  async span<T>(
+    name: string,
+    kind: SpanKind,
+    fn: (span: TraceSpan) => Promise<T>,
+    attributes: Record<string, unknown> = {}
+  ): Promise<T> {
+    const parent = this.storage.getStore();
+    const span: TraceSpan = {
+      id: randomBytes(8).toString('hex'),
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      name,
+      kind,
+      startTime: Date.now(),
+      status: 'pending',
+      attributes: this.serialize(attributes) as Record<string, unknown>,
+      children: [],
+    };
+
+    if (parent) {
+      span.parentId = parent.id;
+      parent.children.push(span);
+    }
+
+    try {
+      const result = await this.storage.run(span, () => fn(span));
+      if (span.status === 'pending') {
+        span.status = 'ok';
+      }
+      return result;
+    } catch (err) {
+      this.recordError(span, err);
+      throw err;
+    } finally {
+      span.endTime = Date.now();
+      span.duration = span.endTime - span.startTime;
+      if (!parent) {
+        this.complete(span);
+      }
+    }
+  }
+
+  /**
+   * Get the active span, if any
+   */
+  current(): TraceSpan | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Merge attributes into the active span
+   */
+  annotate(attributes: Record<string, unknown>): void {
+    const span = this.storage.getStore();
+    if (span) {
+      Object.assign(span.attributes, this.serialize(attributes));
+    }
+  }
+
+  /**
+   * Record an action result on a span
+   */
+  recordResult(
+    span: TraceSpan,
+    result: { success: boolean; data?: unknown; error?: Error; attempts?: number; timedOut?: boolean }
+  ): void {
+    span.status = result.success ? 'ok' : 'error';
+    if (result.data !== undefined) {
+      span.data = this.serialize(result.data);
+    }
+    if (result.error) {
+      span.error = toSpanError(result.error);
+    }
+    if (result.attempts !== undefined) {
+      span.attributes.attempts = result.attempts;
+    }
+    if (result.timedOut) {
+      span.attributes.timedOut = true;
+    }
+  }
+
+  /**
+   * Record a thrown error on a span
+   */
+  recordError(span: TraceSpan, err: unknown): void {
+    span.status = 'error';
+    span.error = toSpanError(err instanceof Error ? err : new Error(String(err)));
+  }
+
+  /**
+   * Convert a value into JSON-safe data, bounded in depth and size
+   */
+  serialize(value: unknown): unknown {
+    return toPlainData(value, this.options.maxDepth);
+  }
+
+  /**
+   * Get completed traces, oldest first
+   */
+  getTraces(): Trace[] {
+    return [...this.traces];
+  }
+
+  /**
+   * Get a completed trace by ID
+   */
+  getTrace(id: string): Trace | undefined {
+    return this.traces.find((trace) => trace.id === id);
+  }
+
+  /**
+   * Drop all completed traces
+   */
+  clear(): void {
+    this.traces = [];
+  }
+
+  /**
+   * Export completed traces as JSON
+   */
+  toJSON(): Trace[] {
+    return this.getTraces();
+  }
+
+  /**
+   * Store a finished root span as a trace
+   */
+  private complete(root: TraceSpan): void {
+    const trace: Trace = {
+      id: root.traceId,
+      name: root.name,
+      startTime: root.startTime,
+      endTime: root.endTime,
+      duration: root.duration,
+      root,
+    };
+
+    this.traces.push(trace);
+    if (this.traces.length > this.options.maxTraces) {
+      this.traces.splice(0, this.traces.length - this.options.maxTraces);
+    }
+
+    if (this.onTrace) {
+      try {
+        this.onTrace(trace);
+      } catch (err) {
+        console.error('Trace listener failed:', err);
+      }
+    }
+  }
+}
+
+/**
+ * Convert an error into span error data
+ */
+function toSpanError(error: Error): SpanError {
+  const spanError: SpanError = { name: error.name, message: error.message };
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === 'string' || typeof code === 'number') {
+    spanError.code = String(code);
+  }
+  return spanError;
+}
+
+/**
+ * Recursively copy a value into plain JSON data
+ */
+function serializeValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return value.length > MAX_STRING_LENGTH
+        ? value.slice(0, MAX_STRING_LENGTH) + '... (truncated)'
+        : value;
+    case 'number':
+      return Number.isFinite(value) ? value : String(value);
+    case 'boolean':
+      return value;
+    case 'bigint':
+      return value.toString();
+    case 'function':
+    case 'symbol':
+      return undefined;
+  }
+
+  const obj = value as object;
+
+  if (Buffer.isBuffer(obj)) {
+    return `<Buffer ${obj.length} bytes>`;
+  }
+  if (obj instanceof Date) {
+    return obj.toISOString();
+  }
+  if (obj instanceof Error) {
+    return toSpanError(obj);
+  }
+  if (seen.has(obj)) {
+    return '[Circular]';
+  }
+  if (depth <= 0) {
+    return Array.isArray(obj) ? `[Array(${obj.length})]` : '[Object]';
+  }
+
+  seen.add(obj);
+  try {
+    if (Array.isArray(obj)) {
+      const items = obj
+        .slice(0, MAX_ARRAY_ITEMS)
+        .map((item) => serializeValue(item, depth - 1, seen));
+      if (obj.length > MAX_ARRAY_ITEMS) {
+        items.push(`... ${obj.length - MAX_ARRAY_ITEMS} more`);
+      }
+      return items;
+    }
+    if (obj instanceof Map) {
+      return serializeValue(Object.fromEntries(obj), depth, seen);
+    }
+    if (obj instanceof Set) {
+      return serializeValue([...obj], depth, seen);
+    }
+
+    // Discord.js structures expose a safe toJSON()
+    const toJSON = (obj as { toJSON?: unknown }).toJSON;
+    if (typeof toJSON === 'function' && Object.getPrototypeOf(obj) !== Object.prototype) {
+      try {
+        return serializeValue(toJSON.call(obj), depth, seen);
+      } catch {
+        return '[Unserializable]';
+      }
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, val] of Object.entries(obj)) {
+      // Internal runtime references (_deps, _actionExecutor, ...)
+      if (key.startsWith('_')) continue;
+      const serialized = serializeValue(val, depth - 1, seen);
+      if (serialized !== undefined) {
+        result[key] = serialized;
+      }
+    }
+    return result;
+  } finally {
+    seen.delete(obj);
+  }
+}
+
+/**
+ * Convert a value into JSON-safe data, bounded in depth and size.
+ * Circular references, buffers and internal `_` keys are replaced or dropped.
+ */
+export function toPlainData(value: unknown, maxDepth = DEFAULT_OPTIONS.maxDepth): unknown {
+  return serializeValue(value, maxDepth, new WeakSet());
+}
+
+/**
+ * Create a tracer
+ */
+export function createTracer(options?: TracerOptions): Tracer {
+  return new Tracer(options);
+}
@@ -0,0 +1,67 @@
+/**
+ * Tracing types
+ */
+
+/** What a span represents */
+export type SpanKind = 'event' | 'command' | 'flow' | 'action' | 'control';
+
+/** Outcome of a span */
+export type SpanStatus = 'pending' | 'ok' | 'error' | 'skipped';
+
+/** Serialized error recorded on a span */
+export interface SpanError {
+  name: string;
+  message: string;
+  code?: string;
+}
+
+export interface TraceSpan {
+  /** Span ID (16 hex characters) */
+  id: string;
+  /** Trace ID (32 hex characters) */
+  traceId: string;
+  /** Parent span ID, absent for the root span */
+  parentId?: string;
+  /** Action, flow or event name */
+  name: string;
+  kind: SpanKind;
+  /** Start time (epoch milliseconds) */
+  startTime: number;
+  /** End time (epoch milliseconds) */
+  endTime?: number;
+  /** Duration in milliseconds */
+  duration?: number;
+  status: SpanStatus;
+  /** Action configuration with ${} expressions resolved */
+  config?: Record<string, unknown>;
+  /** Result of the `when` condition, if the action had one */
+  when?: boolean;
+  /** Result data */
+  data?: unknown;
+  error?: SpanError;
+  /** Additional attributes (attempts, branch taken, iterations, ...) */
+  attributes: Record<string, unknown>;
+  children: TraceSpan[];
+}
+
+export interface Trace {
+  /** Trace ID (32 hex characters) */
+  id: string;
+  /** Root span name (e.g. "message_create" or "/ping") */
+  name: string;
+  startTime: number;
+  endTime?: number;
+  duration?: number;
+  root: TraceSpan;
+}
+
+export interface TracerOptions {
+  /** Maximum number of completed traces kept in memory (default: 100) */
+  maxTraces?: number;
+  /** Resolve ${} expressions in recorded action configs (default: true) */
+  resolveConfig?: boolean;
+  /** Maximum depth when serializing configs and result data (default: 4) */
+  maxDepth?: number;
+  /** Called whenever a trace completes */
+  onTrace?: (trace: Trace) => void;
+}
@@ -1,24 +1,40 @@
 /**
- * Type declarations for jexl
+ * Type declarations for jexl. Members starting with an underscore and
+ * createExpression are private to jexl and only used through
+ * expression/jexl-internals.ts.
  */
 declare module 'jexl' {
   namespace Jexl {
+    /** Parsed expression tree node */
+    interface AstNode {
+      type: string;
+      [key: string]: unknown;
+    }
+
     interface Expression {
+      _ast: AstNode | null;
       eval(context?: Record<string, unknown>): Promise<unknown>;
       evalSync(context?: Record<string, unknown>): unknown;
+      _getAst(): AstNode | undefined;
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    type JexlFunction = (...args: any[]) => any;
+    type JexlFunction = (...args: unknown[]) => unknown;
 
     class Jexl {
+      _grammar: {
+        functions: Record<string, JexlFunction>;
+        transforms: Record<string, JexlFunction>;
+      };
       eval(expression: string, context?: Record<string, unknown>): Promise<unknown>;
       evalSync(expression: string, context?: Record<string, unknown>): unknown;
       compile(expression: string): Expression;
+      createExpression(expression: string): Expression;
       addTransform(name: string, fn: JexlFunction): void;
       addFunction(name: string, fn: JexlFunction): void;
       addBinaryOp(operator: string, precedence: number, fn: JexlFunction): void;
       addUnaryOp(operator: string, fn: JexlFunction): void;
+      getFunction(name: string): JexlFunction | undefined;
+      getTransform(name: string): JexlFunction | undefined;
     }
   }
 
@@ -18,6 +18,8 @@ export default defineConfig({
     'src/canvas/index.ts',
     'src/analytics/index.ts',
     'src/errors/index.ts',
+    'src/tracing/index.ts',
+    'src/plugins/index.ts',
   ],
   format: ['esm'],
   dts: true,
@@ -42,6 +42,23 @@ export const furlowSchema = {
       },
       description: 'Builtin modules to include',
     },
+    plugins: {
+      type: 'array',
+      items: {
+        oneOf: [
+          { type: 'string' },
+          {
+            type: 'object',
+            properties: {
+              module: { type: 'string' },
+              config: { type: 'object' },
+            },
+            required: ['module'],
+          },
+        ],
+      },
+      description: 'Plugin modules (npm packages or local files)',
+    },
     identity: {
       $ref: '#/$defs/identity',
     },
@@ -76,6 +93,11 @@ export const furlowSchema = {
       type: 'array',
       items: { $ref: '#/$defs/flow' },
     },
+    functions: {
+      type: 'object',
+      propertyNames: { pattern: '^[A-Za-z_][A-Za-z0-9_]*$' },
+      additionalProperties: { $ref: '#/$defs/function' },
+    },
     components: {
       $ref: '#/$defs/components',
     },
@@ -116,6 +138,9 @@ export const furlowSchema = {
     errors: {
       $ref: '#/$defs/errors',
     },
+    limits: {
+      $ref: '#/$defs/limits',
+    },
   },
   $defs: {
     identity: {
@@ -294,6 +319,7 @@ export const furlowSchema = {
                     default: {},
                     unique: { type: 'boolean' },
                     index: { type: 'boolean' },
+                    renamed_from: { type: 'string' },
                   },
                 },
               },
@@ -312,11 +338,30 @@ export const furlowSchema = {
         storage: {
           type: 'object',
           properties: {
-            type: { type: 'string', enum: ['sqlite', 'postgres', 'memory'] },
+            type: { type: 'string', enum: ['sqlite', 'postgres', 'redis', 'memory'] },
             path: { type: 'string' },
             url: { type: 'string' },
+            prefix: { type: 'string' },
           },
         },
+        timezone: {
+          type: 'object',
+          properties: {
+            variables: { type: 'array', items: { type: 'string' } },
+            default: { type: 'string' },
+          },
+          additionalProperties: false,
+        },
+        backup: {
+          type: 'object',
+          properties: {
+            every: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+            path: { type: 'string' },
+            keep: { type: 'number', minimum: 1 },
+          },
+          required: ['every'],
+          additionalProperties: false,
+        },
       },
     },
     command: {
@@ -400,11 +445,14 @@ export const furlowSchema = {
       type: 'object',
       properties: {
         event: { type: 'string' },
+        id: { type: 'string' },
         when: { $ref: '#/$defs/condition' },
         actions: { type: 'array', items: { $ref: '#/$defs/action' } },
         debounce: { type: 'string' },
         throttle: { type: 'string' },
         once: { type: 'boolean' },
+        idempotency_key: { type: 'string' },
+        idempotency_ttl: { oneOf: [{ type: 'string' }, { type: 'number' }] },
       },
       required: ['event', 'actions'],
     },
@@ -427,6 +475,7 @@ export const furlowSchema = {
         },
         actions: { type: 'array', items: { $ref: '#/$defs/action' } },
         returns: { type: 'string' },
+        durable: { type: 'boolean' },
       },
       required: ['name', 'actions'],
     },
@@ -436,10 +485,30 @@ export const furlowSchema = {
         action: { type: 'string' },
         when: { $ref: '#/$defs/condition' },
         error_handler: { type: 'string' },
+        retry: { $ref: '#/$defs/retryPolicy' },
+        timeout: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        compensate: { type: 'array', items: { $ref: '#/$defs/action' } },
+        as: { type: 'string', pattern: '^[a-zA-Z_][a-zA-Z0-9_]*$' },
+        idempotency_key: { type: 'string' },
+        idempotency_ttl: { oneOf: [{ type: 'string' }, { type: 'number' }] },
       },
       required: ['action'],
       additionalProperties: true,
     },
+    retryPolicy: {
+      type: 'object',
+      properties: {
+        attempts: { type: 'number', minimum: 1 },
+        backoff: { type: 'string', enum: ['exponential', 'linear', 'fixed'] },
+        delay: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        max_delay: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        on: {
+          type: 'array',
+          items: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        },
+      },
+      required: ['attempts'],
+    },
     components: {
       type: 'object',
       properties: {
@@ -578,5 +647,38 @@ export const furlowSchema = {
         log_errors: { type: 'boolean' },
       },
     },
+    limits: {
+      type: 'object',
+      properties: {
+        handler_timeout: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        function_depth: { type: 'integer', minimum: 1 },
+        expressions: {
+          type: 'object',
+          properties: {
+            timeout: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+            max_array_length: { type: 'integer', minimum: 1 },
+            max_string_length: { type: 'integer', minimum: 1 },
+            max_call_depth: { type: 'integer', minimum: 1 },
+            max_lookups: { type: 'integer', minimum: 0 },
+          },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    function: {
+      type: 'object',
+      properties: {
+        params: {
+          type: 'array',
+          items: { type: 'string', pattern: '^[A-Za-z_][A-Za-z0-9_]*$' },
+        },
+        body: { type: 'string' },
+        cache: { type: 'boolean' },
+        description: { type: 'string' },
+      },
+      required: ['body'],
+      additionalProperties: false,
+    },
   },
 };
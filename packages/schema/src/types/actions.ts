@@ -5,12 +5,39 @@
 import type { Expression, ExpressionValue, Duration, Snowflake, Color, SimpleCondition } from './common.js';
 import type { EmbedDefinition } from './embeds.js';
 import type { ComponentDefinition } from './components.js';
+import type { BackoffStrategy } from './intents.js';
+
+/** Retry policy for a single action */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first */
+  attempts: number;
+  /** Delay growth between attempts */
+  backoff?: BackoffStrategy;
+  /** Delay before the first retry */
+  delay?: Duration;
+  /** Upper bound for the delay between attempts */
+  max_delay?: Duration;
+  /** Only retry errors matching these codes or HTTP statuses (e.g. "E6001", 503, "5xx") */
+  on?: (string | number)[];
+}
 
 /** Base action interface */
 export interface BaseAction {
   action: string;
   when?: SimpleCondition;
   error_handler?: string;
+  /** Retry the action when it fails */
+  retry?: RetryPolicy;
+  /** Maximum time a single attempt may take */
+  timeout?: Duration;
+  /** Actions that undo this one if a later step in the sequence fails */
+  compensate?: Action[];
+  /** Variable the action's result data is stored in (see ActionResultMap) */
+  as?: string;
+  /** Skip the action if it already ran for this key */
+  idempotency_key?: Expression;
+  /** How long idempotency keys are remembered (default 24h) */
+  idempotency_ttl?: Duration;
 }
 
 /** Send message action */
@@ -444,9 +471,15 @@ export interface DbDeleteAction extends BaseAction {
 export interface DbQueryAction extends BaseAction {
   action: 'db_query';
   table: string;
+  /** Column values or operators such as `{ $gt: 10 }`, with `$and`/`$or` lists */
   where?: Record<string, ExpressionValue>;
   select?: string[];
-  order_by?: string;
+  /** Sort columns, e.g. "level DESC, xp DESC" */
+  order_by?: string | string[];
+  /** Columns to group rows by; each group becomes one row */
+  group_by?: string | string[];
+  /** Aggregate columns by name, e.g. `{ total: "sum(xp)" }` */
+  aggregate?: Record<string, string>;
   limit?: number | Expression;
   offset?: number | Expression;
   as: string;
@@ -504,7 +537,16 @@ export interface BatchAction extends BaseAction {
   items: Expression;
   each: Action | Action[];
   as?: string;
+  /** Number of items processed at once (at most 50) */
   concurrency?: number;
+  /** Rate limit on item starts, e.g. "20/10s" */
+  pace?: string;
+  /** Identifier included in batch_progress events */
+  id?: string;
+  /** State variable holding the resume cursor */
+  cursor?: string;
+  /** Emit batch_progress every N items (defaults to every 10%) */
+  progress_every?: number;
 }
 
 /** Repeat action */
@@ -550,6 +592,12 @@ export interface TryAction extends BaseAction {
   finally?: Action[];
 }
 
+/** Transaction action - rolls back completed steps when one fails */
+export interface TransactionAction extends BaseAction {
+  action: 'transaction';
+  actions: Action[];
+}
+
 /** Show modal action */
 export interface ShowModalAction extends BaseAction {
   action: 'show_modal';
@@ -687,7 +735,7 @@ export interface PipeRequestAction extends BaseAction {
   pipe: string;
   method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   path?: string;
-  body?: Record<string, Expression>;
+  body?: Record<string, ExpressionValue> | Expression;
   headers?: Record<string, Expression>;
   as?: string;
 }
@@ -696,7 +744,7 @@ export interface PipeRequestAction extends BaseAction {
 export interface PipeSendAction extends BaseAction {
   action: 'pipe_send';
   pipe: string;
-  data: Record<string, Expression>;
+  data: Record<string, ExpressionValue> | Expression;
 }
 
 /** Webhook send action */
@@ -820,6 +868,7 @@ export type Action =
   | FlowIfAction
   | FlowSwitchAction
   | TryAction
+  | TransactionAction
   | ShowModalAction
   | UpdateMessageAction
   | VoiceJoinAction
@@ -2,7 +2,7 @@
  * Event types
  */
 
-import type { SimpleCondition } from './common.js';
+import type { Duration, Expression, SimpleCondition } from './common.js';
 import type { Action } from './actions.js';
 
 /** Discord gateway events */
@@ -114,6 +114,8 @@ export type FurlowEvent =
 /** Event handler definition */
 export interface EventHandler {
   event: DiscordEvent | FurlowEvent | string;
+  /** Stable name, so idempotency keys survive adding or reordering handlers */
+  id?: string;
   /** Condition expression - alias for 'when' */
   condition?: SimpleCondition;
   /** Condition expression - alias for 'condition' */
@@ -122,6 +124,10 @@ export interface EventHandler {
   debounce?: string;
   throttle?: string;
   once?: boolean;
+  /** Skip the handler if it already ran for this key */
+  idempotency_key?: Expression;
+  /** How long idempotency keys are remembered (default 24h) */
+  idempotency_ttl?: Duration;
 }
 
 /** Events configuration */
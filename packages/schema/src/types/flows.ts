@@ -20,6 +20,8 @@ export interface FlowDefinition {
   parameters?: FlowParameter[];
   actions: Action[];
   returns?: Expression;
+  /** Checkpoint the flow to storage so it survives restarts */
+  durable?: boolean;
 }
 
 /** Flows configuration */
@@ -20,4 +20,5 @@ export * from './automod.js';
 export * from './scheduler.js';
 export * from './locale.js';
 export * from './canvas.js';
+export * from './results.js';
 export * from './spec.js';
@@ -0,0 +1,105 @@
+/**
+ * Action result types - the data an action stores under its `as` variable
+ */
+
+import type { Snowflake } from './common.js';
+
+/** A sent or edited message */
+export interface MessageResult {
+  id: Snowflake;
+  channel_id: Snowflake;
+  guild_id: Snowflake | null;
+  content: string;
+  /** Link to the message */
+  url: string;
+}
+
+/** A created or edited channel or thread */
+export interface ChannelResult {
+  id: Snowflake;
+  name: string;
+  /** Channel type as used in create_channel (text, voice, category, ...) */
+  type: string;
+  guild_id: Snowflake | null;
+  parent_id: Snowflake | null;
+  /** Channel mention, e.g. <#123> */
+  mention: string;
+  /** Link to the channel */
+  url: string;
+}
+
+/** A created or edited role */
+export interface RoleResult {
+  id: Snowflake;
+  name: string;
+  color: number;
+  position: number;
+  /** Role mention, e.g. <@&123> */
+  mention: string;
+}
+
+/** The response to a pipe_request */
+export interface PipeRequestResult {
+  /** HTTP status code */
+  status: number;
+  /** Whether the status is 2xx */
+  ok: boolean;
+  /** Parsed JSON body, or the body text */
+  data: unknown;
+}
+
+/** Outcome of a `transaction` */
+export interface TransactionResult {
+  committed: boolean;
+  /** Number of steps that ran */
+  steps: number;
+  /** Steps rolled back after a failure */
+  compensated?: string[];
+  /** Compensations that failed themselves */
+  failed?: { action: string; error: string }[];
+}
+
+/** Snapshot of a guild's voice queue */
+export interface QueueResult {
+  queue: unknown[];
+  currentTrack: unknown;
+  length: number;
+}
+
+/** A voice_search hit */
+export interface VoiceSearchResult {
+  url: string;
+  title: string;
+  duration: number;
+  thumbnail: string | null;
+}
+
+/**
+ * Data each action stores under `as`. Actions not listed here store
+ * whatever their handler returns, or nothing.
+ */
+export interface ActionResultMap {
+  send_message: MessageResult;
+  reply: MessageResult;
+  send_dm: MessageResult;
+  edit_message: MessageResult;
+  create_channel: ChannelResult;
+  edit_channel: ChannelResult;
+  create_thread: ChannelResult;
+  create_role: RoleResult;
+  edit_role: RoleResult;
+  pipe_request: PipeRequestResult;
+  set: unknown;
+  increment: number;
+  decrement: number;
+  db_insert: Record<string, unknown>;
+  db_update: number;
+  db_delete: number;
+  db_query: Record<string, unknown>[];
+  call_flow: unknown;
+  transaction: TransactionResult;
+  canvas_render: Uint8Array;
+  render_layers: Uint8Array;
+  voice_search: VoiceSearchResult[];
+  queue_get: QueueResult;
+}
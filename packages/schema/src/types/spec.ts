@@ -2,7 +2,7 @@
  * Full FURLOW specification type
  */
 
-import type { Import } from './common.js';
+import type { Duration, Expression, Import } from './common.js';
 import type { Identity, Presence } from './identity.js';
 import type { IntentsConfig, GatewayConfig } from './intents.js';
 import type { PermissionsConfig } from './permissions.js';
@@ -65,12 +65,55 @@ export interface ErrorConfig {
   log_errors?: boolean;
 }
 
+/** Runtime limits */
+export interface LimitsConfig {
+  /** Deadline for each command, event or component handler run (e.g. "30s") */
+  handler_timeout?: Duration;
+  /** Maximum nesting of user-defined function calls (default: 32) */
+  function_depth?: number;
+  /** Resource limits for each expression evaluation */
+  expressions?: ExpressionLimitsConfig;
+}
+
+/** Expression sandbox limits */
+export interface ExpressionLimitsConfig {
+  /** Maximum evaluation time (default: "5s") */
+  timeout?: Duration;
+  /** Maximum length of an array built by a function or transform (default: 10000) */
+  max_array_length?: number;
+  /** Maximum length of a string built by a function or transform (default: 100000) */
+  max_string_length?: number;
+  /** Maximum nesting of function calls and transforms in one expression (default: 32) */
+  max_call_depth?: number;
+  /** Maximum lookup calls per evaluation, cached results excluded (default: 10) */
+  max_lookups?: number;
+}
+
+/** User-defined expression function */
+export interface FunctionDefinition {
+  /** Parameter names, bound as variables in the body */
+  params?: string[];
+  /** Expression computing the result, bare or wrapped in ${} */
+  body: Expression;
+  /** Reuse results for repeated arguments (default: true) */
+  cache?: boolean;
+  description?: string;
+}
+
 /** Builtin module reference */
 export interface BuiltinReference {
   module: string;
   config?: Record<string, unknown>;
 }
 
+/** Plugin reference */
+export interface PluginReference {
+  /** npm package name, or a path to a local module relative to the spec file */
+  module: string;
+  /** Options passed to the plugin when it exports a factory */
+  config?: Record<string, unknown>;
+}
+
 /** Full FURLOW specification */
 export interface FurlowSpec {
   /** Specification version */
@@ -82,6 +125,9 @@ export interface FurlowSpec {
   /** Builtin modules */
   builtins?: BuiltinReference[];
 
+  /** Plugin modules providing actions, expression functions, canvas generators and event sources */
+  plugins?: (string | PluginReference)[];
+
   /** Bot identity */
   identity?: Identity;
 
@@ -112,6 +158,9 @@ export interface FurlowSpec {
   /** Reusable flows */
   flows?: FlowDefinition[];
 
+  /** Expression functions written in the expression language, keyed by name */
+  functions?: Record<string, FunctionDefinition>;
+
   /** UI components */
   components?: ComponentsConfig;
 
@@ -150,4 +199,7 @@ export interface FurlowSpec {
 
   /** Error handling */
   errors?: ErrorConfig;
+
+  /** Runtime limits */
+  limits?: LimitsConfig;
 }
@@ -21,6 +21,8 @@ export interface TableColumn {
   default?: unknown;
   unique?: boolean;
   index?: boolean;
+  /** Previous name of the column; `furlow migrate` renames it instead of adding a new one */
+  renamed_from?: string;
 }
 
 /** Table definition */
@@ -38,19 +40,41 @@ export interface CacheConfig {
 
 /** Storage backend configuration */
 export interface StorageConfig {
-  type: 'sqlite' | 'postgres' | 'memory';
+  type: 'sqlite' | 'postgres' | 'redis' | 'memory';
   path?: string;
   url?: string;
+  /** Prefix for Redis keys (default: "furlow:") */
+  prefix?: string;
   pool?: {
     min?: number;
     max?: number;
   };
 }
 
+/** Where the timezone() expression function looks up timezones */
+export interface TimezoneConfig {
+  /** State variables holding IANA timezone names, checked in order (default: ["timezone"]) */
+  variables?: string[];
+  /** Timezone used when none of the variables is set (default: "UTC") */
+  default?: string;
+}
+
+/** Scheduled state backups, written as archives `furlow state import` restores */
+export interface BackupConfig {
+  /** Time between backups, e.g. "6h" */
+  every: Duration;
+  /** Directory the backups are written to (default: "./backups") */
+  path?: string;
+  /** Number of backups to keep; older ones are deleted (default: 7) */
+  keep?: number;
+}
+
 /** State configuration */
 export interface StateConfig {
   variables?: Record<string, VariableDefinition>;
   tables?: Record<string, TableDefinition>;
   cache?: CacheConfig;
   storage?: StorageConfig;
+  timezone?: TimezoneConfig;
+  backup?: BackupConfig;
 }
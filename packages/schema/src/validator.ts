@@ -43,6 +43,33 @@ export function validateFurlowSpec(data: unknown): ValidationResult {
   return { valid: false, errors };
 }
 
+const compiledSchemas = new WeakMap<object, ReturnType<typeof ajv.compile>>();
+
+/**
+ * Validate data against an arbitrary JSON Schema, such as the schema an
+ * action handler declares for its configuration
+ */
+export function validateAgainstSchema(schema: object, data: unknown): ValidationResult {
+  let validateData = compiledSchemas.get(schema);
+  if (!validateData) {
+    validateData = ajv.compile(schema);
+    compiledSchemas.set(schema, validateData);
+  }
+
+  if (validateData(data)) {
+    return { valid: true, errors: [] };
+  }
+
+  const errors: ValidationError[] = (validateData.errors ?? []).map((err) => ({
+    path: err.instancePath || '/',
+    message: err.message ?? 'Unknown validation error',
+    keyword: err.keyword,
+    params: err.params as Record<string, unknown>,
+  }));
+
+  return { valid: false, errors };
+}
+
 export function formatValidationErrors(errors: ValidationError[]): string {
   return errors
     .map((err) => `  - ${err.path}: ${err.message}`)
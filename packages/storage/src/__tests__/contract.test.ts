@@ -398,6 +398,82 @@ function runContractTests(
       });
     });
 
+    // ==========================================
+    // Transaction Contract
+    // ==========================================
+
+    describe('Transaction Contract', () => {
+      const accounts: TableDefinition = {
+        columns: {
+          id: { type: 'string', primary: true },
+          balance: { type: 'number' },
+        },
+      };
+      const stored = (value: unknown): StoredValue => ({
+        value,
+        type: typeof value,
+        createdAt: 1,
+        updatedAt: 1,
+      });
+
+      beforeEach(async () => {
+        await adapter.createTable('accounts', accounts);
+        await adapter.insert('accounts', { id: 'a', balance: 100 });
+        await adapter.insert('accounts', { id: 'b', balance: 0 });
+        await adapter.set('kept', stored('before'));
+      });
+
+      it('should commit every write when fn resolves', async () => {
+        const result = await adapter.transaction!(async (tx) => {
+          await tx.update('accounts', { id: 'a' }, { balance: 60 });
+          await tx.update('accounts', { id: 'b' }, { balance: 40 });
+          await tx.set('kept', stored('after'));
+          return 'done';
+        });
+
+        expect(result).toBe('done');
+        expect(await adapter.query('accounts', { orderBy: 'id' })).toEqual([
+          { id: 'a', balance: 60 },
+          { id: 'b', balance: 40 },
+        ]);
+        expect((await adapter.get('kept'))?.value).toBe('after');
+      });
+
+      it('should roll back every write when fn throws', async () => {
+        await expect(
+          adapter.transaction!(async (tx) => {
+            await tx.update('accounts', { id: 'a' }, { balance: 60 });
+            await tx.insert('accounts', { id: 'c', balance: 5 });
+            await tx.deleteRows('accounts', { id: 'b' });
+            await tx.set('kept', stored('after'));
+            await tx.set('added', stored(1));
+            await tx.delete('kept');
+            throw new Error('transfer failed');
+          })
+        ).rejects.toThrow('transfer failed');
+
+        expect(await adapter.query('accounts', { orderBy: 'id' })).toEqual([
+          { id: 'a', balance: 100 },
+          { id: 'b', balance: 0 },
+        ]);
+        expect((await adapter.get('kept'))?.value).toBe('before');
+        expect(await adapter.has('added')).toBe(false);
+      });
+
+      it('should join an open transaction', async () => {
+        await expect(
+          adapter.transaction!(async (tx) => {
+            await tx.transaction!(async (inner) => {
+              await inner.update('accounts', { id: 'a' }, { balance: 0 });
+            });
+            throw new Error('outer failed');
+          })
+        ).rejects.toThrow('outer failed');
+
+        expect(await adapter.query('accounts', { where: { id: 'a' } })).toEqual([{ id: 'a', balance: 100 }]);
+      });
+    });
+
     // ==========================================
     // Close Contract
     // ==========================================
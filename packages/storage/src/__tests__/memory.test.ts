@@ -448,6 +448,67 @@ describe('MemoryAdapter', () => {
   // Utility Methods
   // ==========================================
 
+  describe('transaction', () => {
+    it('should record one undo step per key and table however often they are written', async () => {
+      const now = Date.now();
+      await adapter.createTable('scores', { columns: { id: { type: 'number' }, points: { type: 'number' } } });
+      await adapter.insert('scores', { id: 1, points: 0 });
+      await adapter.set('total', { value: 0, type: 'number', createdAt: now, updatedAt: now });
+
+      let steps = 0;
+      await expect(
+        adapter.transaction(async (tx) => {
+          for (let i = 1; i <= 50; i++) {
+            await tx.update('scores', { id: 1 }, { points: i });
+            await tx.set('total', { value: i, type: 'number', createdAt: now, updatedAt: now });
+          }
+          steps = (tx as unknown as { undoLog: unknown[] }).undoLog.length;
+          throw new Error('rolled back');
+        })
+      ).rejects.toThrow('rolled back');
+
+      expect(steps).toBe(2);
+      expect(await adapter.query('scores', {})).toEqual([{ id: 1, points: 0 }]);
+      expect((await adapter.get('total'))?.value).toBe(0);
+    });
+
+    it('should restore every key when a transaction that cleared them rolls back', async () => {
+      const now = Date.now();
+      await adapter.set('kept', { value: 1, type: 'number', createdAt: now, updatedAt: now });
+
+      await expect(
+        adapter.transaction(async (tx) => {
+          await tx.clear();
+          await tx.set('added', { value: 2, type: 'number', createdAt: now, updatedAt: now });
+          throw new Error('rolled back');
+        })
+      ).rejects.toThrow('rolled back');
+
+      expect(await adapter.keys()).toEqual(['kept']);
+      expect((await adapter.get('kept'))?.value).toBe(1);
+    });
+
+    it('should not undo writes made beside the transaction', async () => {
+      const now = Date.now();
+      let proceed!: () => void;
+      const paused = new Promise<void>((resolve) => {
+        proceed = resolve;
+      });
+
+      const failing = adapter.transaction(async (tx) => {
+        await tx.set('inside', { value: 1, type: 'number', createdAt: now, updatedAt: now });
+        await paused;
+        throw new Error('rolled back');
+      });
+      await adapter.set('beside', { value: 2, type: 'number', createdAt: now, updatedAt: now });
+      proceed();
+
+      await expect(failing).rejects.toThrow('rolled back');
+      expect(await adapter.has('inside')).toBe(false);
+      expect((await adapter.get('beside'))?.value).toBe(2);
+    });
+  });
+
   describe('Utility Methods', () => {
     describe('close', () => {
       it('should clear all data on close', async () => {
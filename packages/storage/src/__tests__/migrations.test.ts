@@ -0,0 +1,244 @@
+/**
+ * Schema Migration Tests
+ *
+ * Covers:
+ * - Planning column and index steps from a declared table and a live schema
+ * - Renames declared with renamed_from
+ * - Applying plans to SQLite, with versions recorded per table
+ * - Rolling back a plan whose step fails
+ * - Existing tables left alone by createTable
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SQLiteAdapter } from '../sqlite/index.js';
+import { describeStep, diffTables, isDestructiveStep, recordMigrations } from '../migrations.js';
+import type { TableColumn, TableDefinition, TableSchema } from '../types.js';
+
+const sqlType = (column: TableColumn): string => (column.type === 'number' ? 'REAL' : 'TEXT');
+
+const live: TableSchema = {
+  columns: {
+    id: { sqlType: 'REAL', nullable: false, primary: true },
+    user_id: { sqlType: 'TEXT', nullable: false, primary: false },
+    note: { sqlType: 'TEXT', nullable: true, primary: false },
+    legacy: { sqlType: 'TEXT', nullable: true, primary: false },
+  },
+  indexes: {
+    idx_warnings_user_id: ['user_id'],
+    idx_warnings_legacy: ['legacy'],
+    manual_index: ['note'],
+  },
+};
+
+describe('diffTables', () => {
+  it('should plan column and index steps in a safe order', () => {
+    const plan = diffTables(
+      {
+        warnings: {
+          columns: {
+            id: { type: 'number', primary: true },
+            user_id: { type: 'string', index: true },
+            reason: { type: 'string', nullable: true, renamed_from: 'note' },
+            severity: { type: 'number', default: 1 },
+          },
+          indexes: [['user_id', 'severity']],
+        },
+      },
+      { warnings: live },
+      sqlType
+    );
+
+    expect(plan.steps.map(describeStep)).toEqual([
+      'rename column warnings.note to reason',
+      'add column warnings.severity (number)',
+      'drop index idx_warnings_legacy',
+      'drop column warnings.legacy',
+      'create index idx_warnings_user_id_severity on warnings (user_id, severity)',
+    ]);
+    expect(plan.warnings).toEqual([]);
+    expect(plan.steps.filter(isDestructiveStep)).toHaveLength(1);
+  });
+
+  it('should create missing tables and plan nothing for matching ones', () => {
+    const definition: TableDefinition = {
+      columns: {
+        id: { type: 'number', primary: true },
+        user_id: { type: 'string', index: true },
+        note: { type: 'string', nullable: true },
+        legacy: { type: 'string', nullable: true },
+      },
+      indexes: [['legacy']],
+    };
+
+    const plan = diffTables({ warnings: definition, levels: definition }, { warnings: live, levels: null }, sqlType);
+
+    expect(plan.steps).toEqual([{ type: 'create_table', table: 'levels', definition }]);
+  });
+
+  it('should warn about changes it cannot make', () => {
+    const plan = diffTables(
+      {
+        warnings: {
+          columns: {
+            id: { type: 'number', primary: true },
+            user_id: { type: 'number' },
+            note: { type: 'string' },
+            legacy: { type: 'string', nullable: true },
+            key: { type: 'string', primary: true },
+            count: { type: 'number' },
+          },
+        },
+      },
+      { warnings: live },
+      sqlType
+    );
+
+    expect(plan.warnings).toEqual([
+      'warnings.user_id: column is TEXT but declared as REAL; change it by hand',
+      'warnings.note: nullable differs from the declaration; change it by hand',
+      'warnings.key: a primary key cannot be added to an existing table',
+      'warnings.count: not nullable and has no default, so adding it fails if the table has rows',
+    ]);
+    expect(plan.steps.map((step) => step.type)).toEqual(['add_column', 'drop_index', 'drop_index']);
+  });
+
+  it('should number versions per table', () => {
+    const plan = diffTables({ a: { columns: {} }, b: { columns: {} } }, { a: null, b: null }, sqlType);
+    const records = recordMigrations(plan, [{ table: 'a', version: 2, steps: [], appliedAt: 0 }], 5);
+
+    expect(records.map(({ table, version, appliedAt }) => ({ table, version, appliedAt }))).toEqual([
+      { table: 'a', version: 3, appliedAt: 5 },
+      { table: 'b', version: 1, appliedAt: 5 },
+    ]);
+  });
+});
+
+describe('SQLiteAdapter migrations', () => {
+  let adapter: SQLiteAdapter;
+
+  const v1: TableDefinition = {
+    columns: {
+      id: { type: 'number', primary: true },
+      user_id: { type: 'string', index: true },
+      note: { type: 'string', nullable: true },
+    },
+  };
+
+  beforeEach(async () => {
+    adapter = new SQLiteAdapter({ memory: true });
+    await adapter.createTable('warnings', v1);
+    await adapter.insert('warnings', { id: 1, user_id: 'u1', note: 'spam' });
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+  });
+
+  it('should read the live schema', async () => {
+    expect(await adapter.getTableSchema('warnings')).toEqual({
+      columns: {
+        id: { sqlType: 'REAL', nullable: false, primary: true },
+        user_id: { sqlType: 'TEXT', nullable: false, primary: false },
+        note: { sqlType: 'TEXT', nullable: true, primary: false },
+      },
+      indexes: { idx_warnings_user_id: ['user_id'] },
+    });
+    expect(await adapter.getTableSchema('missing')).toBeNull();
+    expect((await adapter.planMigration({ warnings: v1 })).steps).toEqual([]);
+  });
+
+  it('should apply a plan and keep existing rows', async () => {
+    const v2: TableDefinition = {
+      columns: {
+        id: { type: 'number', primary: true },
+        user_id: { type: 'string' },
+        reason: { type: 'string', nullable: true, renamed_from: 'note' },
+        severity: { type: 'number', default: 1, index: true },
+        code: { type: 'string', nullable: true, unique: true },
+      },
+    };
+
+    const plan = await adapter.planMigration({ warnings: v2, bans: { columns: { id: { type: 'string', primary: true } } } });
+    const records = await adapter.applyMigration(plan);
+
+    expect(records.map(({ table, version }) => `${table}@${version}`)).toEqual(['warnings@1', 'bans@1']);
+    expect(await adapter.query('warnings', {})).toEqual([
+      { id: 1, user_id: 'u1', reason: 'spam', severity: 1, code: null },
+    ]);
+    expect((await adapter.getTableSchema('warnings'))!.indexes).toEqual({ idx_warnings_severity: ['severity'] });
+    await expect(adapter.insert('warnings', { id: 2, user_id: 'u2', code: null })).resolves.toBeUndefined();
+    await adapter.update('warnings', { id: 1 }, { code: 'A' });
+    await expect(adapter.insert('warnings', { id: 3, user_id: 'u3', code: 'A' })).rejects.toThrow(/UNIQUE/);
+    await adapter.insert('bans', { id: 'u1' });
+
+    expect((await adapter.planMigration({ warnings: v2 })).steps).toEqual([]);
+    expect(await adapter.getMigrations()).toEqual(records);
+  });
+
+  it('should roll back every step when one fails', async () => {
+    const plan = await adapter.planMigration({
+      warnings: { columns: { ...v1.columns, other: { type: 'string', default: 'x' }, extra: { type: 'string' } } },
+    });
+
+    // extra is NOT NULL without a default, which SQLite refuses after other was added
+    expect(plan.warnings).toHaveLength(1);
+    await expect(adapter.applyMigration(plan)).rejects.toThrow();
+
+    expect(Object.keys((await adapter.getTableSchema('warnings'))!.columns)).toEqual(['id', 'user_id', 'note']);
+    expect(await adapter.getMigrations()).toEqual([]);
+  });
+});
+
+describe('SQLiteAdapter.createTable on an existing table', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'furlow-migrations-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should leave changes to migrations', async () => {
+    const path = join(dir, 'bot.db');
+    const v1: TableDefinition = { columns: { id: { type: 'number', primary: true } } };
+    const v2: TableDefinition = {
+      columns: { ...v1.columns, added: { type: 'string', nullable: true, index: true } },
+    };
+
+    const first = new SQLiteAdapter({ path });
+    await first.createTable('warnings', v1);
+    await first.close();
+
+    // A restart with a changed definition must not index the missing column
+    const second = new SQLiteAdapter({ path });
+    await expect(second.createTable('warnings', v2)).resolves.toBeUndefined();
+    expect((await second.planMigration({ warnings: v2 })).steps.map(describeStep)).toEqual([
+      'add column warnings.added (string)',
+      'create index idx_warnings_added on warnings (added)',
+    ]);
+    await second.close();
+  });
+
+  it('should create declared indexes the table is missing', async () => {
+    const path = join(dir, 'bot.db');
+    const v1: TableDefinition = {
+      columns: { id: { type: 'number', primary: true }, user_id: { type: 'string' } },
+    };
+    const v2: TableDefinition = { ...v1, indexes: [['user_id']] };
+
+    const first = new SQLiteAdapter({ path });
+    await first.createTable('warnings', v1);
+    await first.close();
+
+    const second = new SQLiteAdapter({ path });
+    await second.createTable('warnings', v2);
+    expect((await second.getTableSchema('warnings'))!.indexes).toEqual({ idx_warnings_user_id: ['user_id'] });
+    expect((await second.planMigration({ warnings: v2 })).steps).toEqual([]);
+    await second.close();
+  });
+});
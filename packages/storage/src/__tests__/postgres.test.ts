@@ -626,6 +626,204 @@ describe('PostgresAdapter', () => {
         expect(queryText).toContain('OFFSET 5');
         expect(queryParams).toEqual([true]);
       });
+
+      it('should number operator parameters in order', async () => {
+        let queryText = '';
+        let queryParams: unknown[] = [];
+        (mockPool.query as ReturnType<typeof vi.fn>).mockImplementation(async (query: string, params?: unknown[]) => {
+          queryText = query;
+          queryParams = params ?? [];
+          return { rows: [] };
+        });
+
+        await adapter.query('users', {
+          where: { name: { $like: 'a%' }, $or: [{ id: { $in: [1, 2] } }, { email: { $ne: 'x' } }] },
+        });
+
+        expect(queryText).toBe(
+          'SELECT * FROM "users" WHERE (CAST("name" AS TEXT) ILIKE $1 ESCAPE \'\\\' AND ' +
+            '("id" IN ($2, $3) OR ("email" IS NULL OR "email" <> $4)))'
+        );
+        expect(queryParams).toEqual(['a%', 1, 2, 'x']);
+      });
+
+      it('should group and convert counts to numbers', async () => {
+        let queryText = '';
+        (mockPool.query as ReturnType<typeof vi.fn>).mockImplementation(async (query: string) => {
+          queryText = query;
+          return { rows: [{ active: true, users: '12', newest: 'Zoe' }] };
+        });
+
+        const rows = await adapter.query('users', {
+          groupBy: 'active',
+          aggregate: { users: 'count(*)', newest: 'max(name)' },
+          orderBy: 'users DESC',
+        });
+
+        expect(queryText).toBe(
+          'SELECT "active", COUNT(*) AS "users", MAX("name") AS "newest" FROM "users" ' +
+            'GROUP BY "active" ORDER BY "users" DESC NULLS FIRST'
+        );
+        expect(rows).toEqual([{ active: true, users: 12, newest: 'Zoe' }]);
+      });
+
+      it('should update with the where parameters after the data', async () => {
+        let queryText = '';
+        let queryParams: unknown[] = [];
+        (mockPool.query as ReturnType<typeof vi.fn>).mockImplementation(async (query: string, params?: unknown[]) => {
+          queryText = query;
+          queryParams = params ?? [];
+          return { rowCount: 3 };
+        });
+
+        await adapter.update('users', { id: { $gte: 10 } }, { active: false });
+
+        expect(queryText).toBe('UPDATE "users" SET "active" = $1 WHERE "id" >= $2');
+        expect(queryParams).toEqual([false, 10]);
+      });
+    });
+  });
+
+  // ==========================================
+  // Migrations
+  // ==========================================
+
+  describe('Migrations', () => {
+    const mockLiveTable = () => {
+      (mockPool.query as ReturnType<typeof vi.fn>).mockImplementation(async (query: string) => {
+        if (query.includes('information_schema.columns')) {
+          return {
+            rows: [
+              { column_name: 'id', data_type: 'text', is_nullable: 'NO' },
+              { column_name: 'note', data_type: 'text', is_nullable: 'YES' },
+            ],
+          };
+        }
+        if (query.includes('array_agg')) {
+          return { rows: [{ name: 'idx_warnings_note', columns: ['note'] }] };
+        }
+        if (query.includes('indisprimary')) {
+          return { rows: [{ column_name: 'id' }] };
+        }
+        if (query.includes('SELECT table_name, version')) {
+          return { rows: [{ table_name: 'warnings', version: 1, steps: [], applied_at: '100' }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+    };
+
+    it('should read the live schema', async () => {
+      mockLiveTable();
+
+      expect(await adapter.getTableSchema('warnings')).toEqual({
+        columns: {
+          id: { sqlType: 'TEXT', nullable: false, primary: true },
+          note: { sqlType: 'TEXT', nullable: true, primary: false },
+        },
+        indexes: { idx_warnings_note: ['note'] },
+      });
+    });
+
+    it('should not create a table that already exists', async () => {
+      mockLiveTable();
+
+      await adapter.createTable('warnings', { columns: { id: { type: 'string', primary: true } } });
+
+      const queries = (mockPool.query as ReturnType<typeof vi.fn>).mock.calls.map(([query]) => query as string);
+      expect(queries.some((query) => query.includes('CREATE TABLE'))).toBe(false);
+    });
+
+    it('should apply steps in a transaction and record the next version', async () => {
+      mockLiveTable();
+      const client = await mockPool.connect();
+      (client.query as ReturnType<typeof vi.fn>).mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const plan = await adapter.planMigration({
+        warnings: {
+          columns: {
+            id: { type: 'string', primary: true },
+            reason: { type: 'string', nullable: true, renamed_from: 'note' },
+            flagged: { type: 'boolean', default: false },
+          },
+        },
+      });
+      const records = await adapter.applyMigration(plan);
+
+      const statements = (client.query as ReturnType<typeof vi.fn>).mock.calls.map(([query]) => query as string);
+      expect(statements).toEqual([
+        'BEGIN',
+        'ALTER TABLE "warnings" RENAME COLUMN "note" TO "reason"',
+        'ALTER TABLE "warnings" ADD COLUMN "flagged" BOOLEAN NOT NULL DEFAULT FALSE',
+        'DROP INDEX IF EXISTS "idx_warnings_note"',
+        expect.stringContaining('INSERT INTO furlow_migrations'),
+        'COMMIT',
+      ]);
+      expect(records).toMatchObject([{ table: 'warnings', version: 2 }]);
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should roll back when a step fails', async () => {
+      mockLiveTable();
+      const client = await mockPool.connect();
+      (client.query as ReturnType<typeof vi.fn>).mockImplementation(async (query: string) => {
+        if (query.startsWith('ALTER')) throw new Error('column exists');
+        return { rows: [], rowCount: 0 };
+      });
+
+      await expect(
+        adapter.applyMigration({ steps: [{ type: 'drop_column', table: 'warnings', column: 'note' }], warnings: [] })
+      ).rejects.toThrow('column exists');
+
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================
+  // Transactions
+  // ==========================================
+
+  describe('Transactions', () => {
+    it('should send the transaction\'s queries to one client and commit', async () => {
+      const client = await mockPool.connect();
+      (client.query as ReturnType<typeof vi.fn>).mockResolvedValue({ rows: [], rowCount: 1 });
+      (mockPool.query as ReturnType<typeof vi.fn>).mockClear();
+
+      const result = await adapter.transaction(async (tx) => {
+        await tx.update('accounts', { id: 'a' }, { balance: 60 });
+        await tx.transaction!(async (inner) => inner.update('accounts', { id: 'b' }, { balance: 40 }));
+        return 'done';
+      });
+
+      const statements = (client.query as ReturnType<typeof vi.fn>).mock.calls.map(([query]) => query as string);
+      expect(result).toBe('done');
+      expect(statements).toEqual([
+        'BEGIN',
+        expect.stringContaining('UPDATE "accounts"'),
+        expect.stringContaining('UPDATE "accounts"'),
+        'COMMIT',
+      ]);
+      expect(mockPool.query).not.toHaveBeenCalledWith(expect.stringContaining('UPDATE'), expect.anything());
+      expect(client.release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll back when fn throws', async () => {
+      const client = await mockPool.connect();
+      (client.query as ReturnType<typeof vi.fn>).mockResolvedValue({ rows: [], rowCount: 1 });
+
+      await expect(
+        adapter.transaction(async (tx) => {
+          await tx.update('accounts', { id: 'a' }, { balance: 60 });
+          throw new Error('transfer failed');
+        })
+      ).rejects.toThrow('transfer failed');
+
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+
+      // The adapter itself still uses the pool
+      await adapter.update('accounts', { id: 'a' }, { balance: 60 });
+      expect(mockPool.query).toHaveBeenLastCalledWith(expect.stringContaining('UPDATE'), expect.anything());
     });
   });
 
@@ -0,0 +1,209 @@
+/**
+ * Query Language Tests
+ *
+ * The same suite runs against every adapter, so operators, null handling,
+ * ordering and aggregates behave the same wherever a bot stores its tables.
+ *
+ * Redis runs against ioredis-mock. PostgreSQL runs only with
+ * INTEGRATION_TESTS=true (needs Docker).
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createMemoryAdapter } from '../memory/index.js';
+import { createSQLiteAdapter } from '../sqlite/index.js';
+import { createRedisAdapter } from '../redis/index.js';
+import type { QueryOptions, StorageAdapter, TableDefinition, Where } from '../types.js';
+
+vi.mock('ioredis', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  return { Redis: RedisMock, default: RedisMock };
+});
+
+const SKIP_INTEGRATION = process.env.INTEGRATION_TESTS !== 'true';
+
+const membersTable: TableDefinition = {
+  columns: {
+    id: { type: 'number', primary: true },
+    name: { type: 'string' },
+    points: { type: 'number', nullable: true },
+    guild: { type: 'string' },
+  },
+};
+
+const members = [
+  { id: 1, name: 'Alice', points: 120, guild: 'g1' },
+  { id: 2, name: 'bob', points: 40, guild: 'g1' },
+  { id: 3, name: 'Carol', points: null, guild: 'g2' },
+  { id: 4, name: 'dave', points: 300, guild: 'g2' },
+  { id: 5, name: 'Eve', points: 40, guild: 'g1' },
+];
+
+function runQueryTests(name: string, getAdapter: () => StorageAdapter) {
+  describe(`${name} queries`, () => {
+    let adapter: StorageAdapter;
+
+    const ids = async (where: Where, options: QueryOptions = {}) => {
+      const rows = await adapter.query('members', { where, select: ['id'], orderBy: 'id', ...options });
+      return rows.map((row) => row.id);
+    };
+
+    beforeEach(async () => {
+      adapter = getAdapter();
+      await adapter.createTable('members', membersTable);
+      await adapter.deleteRows('members', {});
+      for (const member of members) {
+        await adapter.insert('members', member);
+      }
+    });
+
+    it('should compare with $gt, $gte, $lt and $lte', async () => {
+      expect(await ids({ points: { $gt: 40 } })).toEqual([1, 4]);
+      expect(await ids({ points: { $gte: 40 } })).toEqual([1, 2, 4, 5]);
+      expect(await ids({ points: { $lt: 100 } })).toEqual([2, 5]);
+      expect(await ids({ points: { $gte: 40, $lte: 120 } })).toEqual([1, 2, 5]);
+      // Dates compare as millisecond timestamps
+      expect(await ids({ points: { $lt: new Date(100) } })).toEqual([2, 5]);
+    });
+
+    it('should handle nulls the same way', async () => {
+      expect(await ids({ points: null })).toEqual([3]);
+      expect(await ids({ points: { $ne: 40 } })).toEqual([1, 3, 4]);
+      expect(await ids({ points: { $ne: null } })).toEqual([1, 2, 4, 5]);
+      expect(await ids({ points: { $nin: [40] } })).toEqual([1, 3, 4]);
+      expect(await ids({ points: { $nin: [40, null] } })).toEqual([1, 4]);
+      expect(await ids({ points: { $in: [null, 300] } })).toEqual([3, 4]);
+    });
+
+    it('should match lists with $in and $nin', async () => {
+      expect(await ids({ name: { $in: ['bob', 'Eve'] } })).toEqual([2, 5]);
+      expect(await ids({ name: { $in: [] } })).toEqual([]);
+      expect(await ids({ name: { $nin: [] } })).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should match patterns with $like, ignoring case', async () => {
+      expect(await ids({ name: { $like: 'a%' } })).toEqual([1]);
+      expect(await ids({ name: { $like: '%A%' } })).toEqual([1, 3, 4]);
+      expect(await ids({ name: { $like: '_ve' } })).toEqual([5]);
+      expect(await ids({ name: { $like: '\\%' } })).toEqual([]);
+    });
+
+    it('should combine $and and $or groups', async () => {
+      expect(await ids({ guild: 'g1', $or: [{ points: { $gt: 100 } }, { name: 'Eve' }] })).toEqual([1, 5]);
+      expect(await ids({ $and: [{ points: { $gte: 40 } }, { points: { $lt: 300 } }] })).toEqual([1, 2, 5]);
+      expect(await ids({ $or: [] })).toEqual([]);
+    });
+
+    it('should order by several columns with nulls last', async () => {
+      expect(await ids({}, { orderBy: 'points DESC, id' })).toEqual([3, 4, 1, 2, 5]);
+      expect(await ids({}, { orderBy: ['points', 'id desc'] })).toEqual([5, 2, 1, 4, 3]);
+      expect(await ids({}, { orderBy: 'id', offset: 3 })).toEqual([4, 5]);
+    });
+
+    it('should aggregate the matching rows', async () => {
+      const aggregate = {
+        members: 'count(*)',
+        scored: 'count(points)',
+        total: 'sum(points)',
+        mean: 'avg(points)',
+        low: 'min(points)',
+        high: 'max(points)',
+      };
+
+      expect(await adapter.query('members', { aggregate })).toEqual([
+        { members: 5, scored: 4, total: 500, mean: 125, low: 40, high: 300 },
+      ]);
+      expect(await adapter.query('members', { where: { guild: 'none' }, aggregate })).toEqual([
+        { members: 0, scored: 0, total: null, mean: null, low: null, high: null },
+      ]);
+    });
+
+    it('should group rows', async () => {
+      const rows = await adapter.query('members', {
+        groupBy: 'guild',
+        aggregate: { members: 'count(*)', total: 'sum(points)' },
+        orderBy: 'total DESC',
+      });
+
+      expect(rows).toEqual([
+        { guild: 'g2', members: 2, total: 300 },
+        { guild: 'g1', members: 3, total: 200 },
+      ]);
+      expect(
+        await adapter.query('members', {
+          where: { points: { $ne: null } },
+          groupBy: ['points'],
+          aggregate: { members: 'count(*)' },
+          orderBy: 'members DESC, points',
+          limit: 1,
+        })
+      ).toEqual([{ points: 40, members: 2 }]);
+    });
+
+    it('should update and delete with operators', async () => {
+      expect(await adapter.update('members', { $or: [{ points: null }, { points: { $lt: 50 } }] }, { points: 50 })).toBe(3);
+      expect(await adapter.deleteRows('members', { points: { $lte: 50 }, guild: { $ne: 'g2' } })).toBe(2);
+      expect(await ids({})).toEqual([1, 3, 4]);
+    });
+
+    it('should reject invalid queries', async () => {
+      await expect(adapter.query('members', { where: { points: { $regex: '.*' } } })).rejects.toThrow(
+        'Unknown where operator "$regex"'
+      );
+      await expect(adapter.query('members', { where: { $not: {} } })).rejects.toThrow('Unknown where operator');
+      await expect(adapter.query('members', { where: { id: { $in: 1 } } })).rejects.toThrow('must be a list');
+      await expect(adapter.query('members', { orderBy: 'points; DROP TABLE members' })).rejects.toThrow(
+        'Invalid order by'
+      );
+      await expect(adapter.query('members', { aggregate: { total: 'sum(*)' } })).rejects.toThrow('only count');
+      await expect(
+        adapter.query('members', { groupBy: 'guild', aggregate: { n: 'count(*)' }, orderBy: 'points' })
+      ).rejects.toThrow('Cannot order by points');
+      await expect(adapter.query('members', { groupBy: 'guild', select: ['name'] })).rejects.toThrow(
+        'must be in group by'
+      );
+    });
+  });
+}
+
+describe('storage query language', () => {
+  const memory = createMemoryAdapter();
+  runQueryTests('MemoryAdapter', () => memory);
+
+  const sqlite = createSQLiteAdapter({ memory: true });
+  runQueryTests('SQLiteAdapter', () => sqlite);
+
+  const redis = createRedisAdapter({ prefix: 'query-test:' });
+  runQueryTests('RedisAdapter', () => redis);
+
+  afterAll(async () => {
+    await memory.close();
+    await sqlite.close();
+    await redis.close();
+  });
+});
+
+describe.skipIf(SKIP_INTEGRATION)('storage query language on PostgreSQL', async () => {
+  const { PostgreSqlContainer } = await import('@testcontainers/postgresql');
+  const { createPostgresAdapter } = await import('../postgres/index.js');
+
+  let container: Awaited<ReturnType<InstanceType<typeof PostgreSqlContainer>['start']>>;
+  let postgres: StorageAdapter;
+
+  beforeAll(async () => {
+    container = await new PostgreSqlContainer('postgres:15-alpine').start();
+    postgres = createPostgresAdapter({
+      host: container.getHost(),
+      port: container.getPort(),
+      database: container.getDatabase(),
+      user: container.getUsername(),
+      password: container.getPassword(),
+    });
+  }, 70000);
+
+  afterAll(async () => {
+    await postgres?.close();
+    await container?.stop();
+  });
+
+  runQueryTests('PostgresAdapter', () => postgres);
+});
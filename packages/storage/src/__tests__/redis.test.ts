@@ -0,0 +1,283 @@
+/**
+ * Redis Storage Adapter Tests
+ *
+ * Uses ioredis-mock, an in-memory stand-in that shares data and pub/sub
+ * between clients the way one Redis server does.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { StoredValue, TableDefinition } from '../types.js';
+
+vi.mock('ioredis', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  return { Redis: RedisMock, default: RedisMock };
+});
+
+// Import after mocking
+import { RedisAdapter, createRedisAdapter } from '../redis/index.js';
+
+let prefixes = 0;
+
+/** Each test gets its own prefix, since mock clients share one keyspace */
+function uniquePrefix(): string {
+  return `test${++prefixes}:`;
+}
+
+function stored(value: unknown, expiresAt?: number): StoredValue {
+  return { value, type: typeof value, createdAt: 1, updatedAt: 1, expiresAt };
+}
+
+/** Let pub/sub messages arrive */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+describe('RedisAdapter', () => {
+  let prefix: string;
+  let adapter: RedisAdapter;
+
+  beforeEach(() => {
+    prefix = uniquePrefix();
+    adapter = createRedisAdapter({ prefix });
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+  });
+
+  describe('Key-Value Operations', () => {
+    it('should store values under the prefix', async () => {
+      await adapter.set('guild:count:1', stored(5));
+
+      expect(await adapter.get('guild:count:1')).toEqual(stored(5));
+      expect(await adapter.getClient().exists(`${prefix}kv:guild:count:1`)).toBe(1);
+    });
+
+    it('should map expiry to a native TTL', async () => {
+      await adapter.set('session', stored('x', Date.now() + 60000));
+      await adapter.set('expired', stored('x', Date.now() - 1));
+
+      const ttl = await adapter.getClient().pttl(`${prefix}kv:session`);
+      expect(ttl).toBeGreaterThan(59000);
+      expect(ttl).toBeLessThanOrEqual(60000);
+      expect(await adapter.has('expired')).toBe(false);
+    });
+
+    it('should list keys matching a pattern with SCAN', async () => {
+      const scan = vi.spyOn(adapter.getClient(), 'scan');
+      await adapter.set('user:xp:1', stored(1));
+      await adapter.set('user:xp:2', stored(2));
+      await adapter.set('guild:xp:1', stored(3));
+      await adapter.set('user[1]', stored(4));
+
+      expect((await adapter.keys('user:*')).sort()).toEqual(['user:xp:1', 'user:xp:2']);
+      expect(await adapter.keys('guild:xp:?')).toEqual(['guild:xp:1']);
+      expect(await adapter.keys()).toHaveLength(4);
+      expect(scan).toHaveBeenCalledWith('0', 'MATCH', `${prefix}kv:user:*`, 'COUNT', 250);
+
+      // Brackets are literal, not a character class
+      await adapter.keys('user[1]');
+      expect(scan).toHaveBeenLastCalledWith('0', 'MATCH', `${prefix}kv:user\\[1\\]`, 'COUNT', 250);
+    });
+
+    it('should only clear its own keys', async () => {
+      const other = createRedisAdapter({ prefix: uniquePrefix() });
+      await adapter.set('a', stored(1));
+      await other.set('a', stored(2));
+
+      await adapter.clear();
+
+      expect(await adapter.keys()).toEqual([]);
+      expect(await other.get('a')).toEqual(stored(2));
+      await other.close();
+    });
+
+    it('should set a value only when the key is absent', async () => {
+      expect(await adapter.setIfAbsent('claim', stored(true, Date.now() + 60000))).toBe(true);
+      expect(await adapter.setIfAbsent('claim', stored(false))).toBe(false);
+
+      expect(await adapter.get('claim')).toEqual(stored(true, expect.any(Number)));
+      expect(await adapter.getClient().pttl(`${prefix}kv:claim`)).toBeGreaterThan(0);
+    });
+
+    it('should modify a value from the one stored', async () => {
+      await adapter.set('count', stored(1));
+
+      expect(await adapter.modify('count', (current) => stored((current!.value as number) + 1))).toEqual(stored(2));
+      expect(await adapter.modify('fresh', (current) => stored(current === null ? 'new' : 'old'))).toEqual(
+        stored('new')
+      );
+      expect(await adapter.get('count')).toEqual(stored(2));
+    });
+
+    it('should modify again when another client wrote in between', async () => {
+      const other = createRedisAdapter({ prefix });
+      await adapter.set('count', stored(1));
+
+      let calls = 0;
+      const result = await adapter.modify('count', (current) => {
+        if (++calls === 1) void other.set('count', stored(10));
+        return stored((current!.value as number) + 1);
+      });
+
+      // The write queued by the first attempt ran before EXEC
+      expect(calls).toBe(2);
+      expect(result).toEqual(stored(11));
+      expect(await adapter.get('count')).toEqual(stored(11));
+      await other.close();
+    });
+
+    it('should report whether delete removed a key', async () => {
+      await adapter.set('a', stored(1));
+
+      expect(await adapter.delete('a')).toBe(true);
+      expect(await adapter.delete('a')).toBe(false);
+    });
+  });
+
+  describe('Table Operations', () => {
+    const tickets: TableDefinition = {
+      columns: {
+        id: { type: 'string', primary: true },
+        status: { type: 'string' },
+        claimed_by: { type: 'string', nullable: true },
+      },
+    };
+
+    beforeEach(async () => {
+      await adapter.createTable('tickets', tickets);
+      await adapter.insert('tickets', { id: 't1', status: 'open', claimed_by: null });
+      await adapter.insert('tickets', { id: 't2', status: 'open', claimed_by: null });
+    });
+
+    it('should query, update and delete rows', async () => {
+      expect(await adapter.update('tickets', { id: 't1' }, { status: 'claimed', claimed_by: 'u1' })).toBe(1);
+
+      expect(await adapter.query('tickets', { where: { status: 'open' }, select: ['id'] })).toEqual([{ id: 't2' }]);
+      expect(await adapter.deleteRows('tickets', { claimed_by: null })).toBe(1);
+      expect(await adapter.query('tickets', {})).toEqual([{ id: 't1', status: 'claimed', claimed_by: 'u1' }]);
+    });
+
+    it('should not lose a row another client writes while updating', async () => {
+      const other = createRedisAdapter({ prefix });
+      const client = adapter.getClient();
+      const hgetall = client.hgetall.bind(client) as (key: string) => Promise<Record<string, string>>;
+      vi.spyOn(client, 'hgetall').mockImplementationOnce((async (key: string) => {
+        const rows = await hgetall(key);
+        await other.insert('tickets', { id: 't3', status: 'open', claimed_by: null });
+        return rows;
+      }) as never);
+
+      expect(await adapter.update('tickets', { status: 'open' }, { status: 'closed' })).toBe(3);
+      expect(await adapter.query('tickets', { where: { status: 'closed' } })).toHaveLength(3);
+      await other.close();
+    });
+
+    it('should delete rows another client writes while deleting', async () => {
+      const other = createRedisAdapter({ prefix });
+      const client = adapter.getClient();
+      const hgetall = client.hgetall.bind(client) as (key: string) => Promise<Record<string, string>>;
+      vi.spyOn(client, 'hgetall').mockImplementationOnce((async (key: string) => {
+        const rows = await hgetall(key);
+        await other.update('tickets', { id: 't1' }, { status: 'closed' });
+        return rows;
+      }) as never);
+
+      expect(await adapter.deleteRows('tickets', { status: 'open' })).toBe(1);
+      expect(await adapter.query('tickets', { select: ['id'] })).toEqual([{ id: 't1' }]);
+      await other.close();
+    });
+
+    it('should refuse a duplicate primary key', async () => {
+      await expect(adapter.insert('tickets', { id: 't1', status: 'open' })).rejects.toThrow(
+        'Duplicate primary key in tickets'
+      );
+    });
+
+    it('should move a row whose primary key changes', async () => {
+      await adapter.update('tickets', { id: 't2' }, { id: 't3' });
+
+      await expect(adapter.insert('tickets', { id: 't2', status: 'open' })).resolves.toBeUndefined();
+      expect(await adapter.query('tickets', { orderBy: 'id', select: ['id'] })).toEqual([
+        { id: 't1' },
+        { id: 't2' },
+        { id: 't3' },
+      ]);
+    });
+
+    it('should keep rows of tables without a primary key apart', async () => {
+      await adapter.createTable('log', { columns: { message: { type: 'string' } } });
+      await adapter.insert('log', { message: 'hi' });
+      await adapter.insert('log', { message: 'hi' });
+
+      expect(await adapter.query('log', {})).toHaveLength(2);
+    });
+
+    it('should see tables created by another process', async () => {
+      const other = createRedisAdapter({ prefix });
+
+      expect(await other.query('tickets', { select: ['id'], orderBy: 'id' })).toEqual([{ id: 't1' }, { id: 't2' }]);
+      await expect(other.query('missing', {})).rejects.toThrow('Table not found: missing');
+      await other.close();
+    });
+  });
+
+  describe('Cache Invalidation', () => {
+    it('should tell other processes which keys changed', async () => {
+      const other = createRedisAdapter({ prefix });
+      const seen: (string | null)[] = [];
+      other.onInvalidate((key) => seen.push(key));
+      await flush();
+
+      await adapter.set('guild:motd:1', stored('hi'));
+      await adapter.delete('guild:motd:1');
+      await adapter.clear();
+      await flush();
+
+      expect(seen).toEqual(['guild:motd:1', 'guild:motd:1', null]);
+      await other.close();
+    });
+
+    it('should ignore its own writes and other prefixes', async () => {
+      const elsewhere = createRedisAdapter({ prefix: uniquePrefix() });
+      const listener = vi.fn();
+      adapter.onInvalidate(listener);
+      await flush();
+
+      await adapter.set('a', stored(1));
+      await elsewhere.set('a', stored(2));
+      await flush();
+
+      expect(listener).not.toHaveBeenCalled();
+      await elsewhere.close();
+    });
+
+    it('should ignore messages it cannot read', async () => {
+      const listener = vi.fn();
+      adapter.onInvalidate(listener);
+      await flush();
+
+      const channel = `${prefix}invalidate`;
+      await adapter.getClient().publish(channel, 'not json');
+      await adapter.getClient().publish(channel, '42');
+      await adapter.getClient().publish(channel, JSON.stringify({ from: 'elsewhere', key: 'a' }));
+      await flush();
+
+      expect(listener.mock.calls).toEqual([['a']]);
+    });
+
+    it('should stop notifying a removed listener', async () => {
+      const other = createRedisAdapter({ prefix });
+      const listener = vi.fn();
+      const stop = other.onInvalidate(listener);
+      await flush();
+
+      stop();
+      await adapter.set('a', stored(1));
+      await flush();
+
+      expect(listener).not.toHaveBeenCalled();
+      await other.close();
+    });
+  });
+});
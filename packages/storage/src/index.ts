@@ -3,6 +3,8 @@
  */
 
 export * from './types.js';
+export * from './migrations.js';
 export * from './sqlite/index.js';
 export * from './postgres/index.js';
 export * from './memory/index.js';
+export * from './redis/index.js';
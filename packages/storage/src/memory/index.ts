@@ -2,7 +2,8 @@
  * In-memory storage adapter (for testing)
  */
 
-import type { StorageAdapter, StoredValue, QueryOptions, TableDefinition } from '../types.js';
+import type { StorageAdapter, StoredValue, QueryOptions, TableDefinition, Where } from '../types.js';
+import { matchesCondition, parseWhere, planQuery, runQuery } from '../query.js';
 
 export class MemoryAdapter implements StorageAdapter {
   private store: Map<string, StoredValue> = new Map();
@@ -10,6 +11,12 @@ export class MemoryAdapter implements StorageAdapter {
     definition: TableDefinition;
     rows: Record<string, unknown>[];
   }> = new Map();
+  /** Steps that undo the writes of the open transaction, if any */
+  private undoLog: (() => void)[] | null = null;
+  /** Keys and tables the undo log already holds the first state of */
+  private remembered: Set<unknown> = new Set();
+  /** Writes outside a transaction do not go into its undo log */
+  readonly concurrentTransactions = true;
 
   async get(key: string): Promise<StoredValue | null> {
     const value = this.store.get(key);
@@ -25,10 +32,12 @@ export class MemoryAdapter implements StorageAdapter {
   }
 
   async set(key: string, value: StoredValue): Promise<void> {
+    this.rememberKey(key);
     this.store.set(key, value);
   }
 
   async delete(key: string): Promise<boolean> {
+    this.rememberKey(key);
     return this.store.delete(key);
   }
 
@@ -80,11 +89,22 @@ export class MemoryAdapter implements StorageAdapter {
   }
 
   async clear(): Promise<void> {
+    if (this.undoLog) {
+      // Refill the adapter's own map: inside a transaction `this` is the
+      // transaction's view of the adapter
+      const store = this.store;
+      const saved = new Map(store);
+      this.undoLog.push(() => {
+        store.clear();
+        for (const [key, value] of saved) store.set(key, value);
+      });
+    }
     this.store.clear();
   }
 
   async createTable(name: string, definition: TableDefinition): Promise<void> {
     if (!this.tables.has(name)) {
+      this.undoLog?.push(() => this.tables.delete(name));
       this.tables.set(name, { definition, rows: [] });
     }
   }
@@ -94,12 +114,13 @@ export class MemoryAdapter implements StorageAdapter {
     if (!t) {
       throw new Error(`Table not found: ${table}`);
     }
+    this.rememberRows(t);
     t.rows.push({ ...data });
   }
 
   async update(
     table: string,
-    where: Record<string, unknown>,
+    where: Where,
     data: Record<string, unknown>
   ): Promise<number> {
     const t = this.tables.get(table);
@@ -107,9 +128,11 @@ export class MemoryAdapter implements StorageAdapter {
       throw new Error(`Table not found: ${table}`);
     }
 
+    const condition = parseWhere(where);
+    this.rememberRows(t);
     let updated = 0;
     for (const row of t.rows) {
-      if (this.matchesWhere(row, where)) {
+      if (matchesCondition(row, condition)) {
         Object.assign(row, data);
         updated++;
       }
@@ -118,14 +141,16 @@ export class MemoryAdapter implements StorageAdapter {
     return updated;
   }
 
-  async deleteRows(table: string, where: Record<string, unknown>): Promise<number> {
+  async deleteRows(table: string, where: Where): Promise<number> {
     const t = this.tables.get(table);
     if (!t) {
       throw new Error(`Table not found: ${table}`);
     }
 
+    const condition = parseWhere(where);
+    this.rememberRows(t);
     const originalLength = t.rows.length;
-    t.rows = t.rows.filter((row) => !this.matchesWhere(row, where));
+    t.rows = t.rows.filter((row) => !matchesCondition(row, condition));
 
     return originalLength - t.rows.length;
   }
@@ -136,53 +161,31 @@ export class MemoryAdapter implements StorageAdapter {
       throw new Error(`Table not found: ${table}`);
     }
 
-    let results = [...t.rows];
-
-    // Filter by where
-    if (options.where) {
-      results = results.filter((row) => this.matchesWhere(row, options.where!));
-    }
-
-    // Sort
-    if (options.orderBy) {
-      const [field, dir] = options.orderBy.split(' ');
-      const descending = dir?.toLowerCase() === 'desc';
-      results.sort((a, b) => {
-        const aVal = a[field!] as string | number | boolean | null | undefined;
-        const bVal = b[field!] as string | number | boolean | null | undefined;
-        if (aVal == null && bVal == null) return 0;
-        if (aVal == null) return descending ? -1 : 1;
-        if (bVal == null) return descending ? 1 : -1;
-        if (aVal < bVal) return descending ? 1 : -1;
-        if (aVal > bVal) return descending ? -1 : 1;
-        return 0;
-      });
-    }
-
-    // Offset and limit (with caps to prevent resource exhaustion)
-    const MAX_OFFSET = 1000000;
-    const MAX_LIMIT = 10000;
-    if (options.offset) {
-      const offset = Math.min(MAX_OFFSET, Math.max(0, options.offset));
-      results = results.slice(offset);
-    }
-    if (options.limit) {
-      const limit = Math.min(MAX_LIMIT, Math.max(0, options.limit));
-      results = results.slice(0, limit);
-    }
+    return runQuery(t.rows, planQuery(options));
+  }
 
-    // Select specific columns
-    if (options.select) {
-      results = results.map((row) => {
-        const selected: Record<string, unknown> = {};
-        for (const col of options.select!) {
-          selected[col] = row[col];
-        }
-        return selected;
-      });
+  /**
+   * Run fn with an undo log of every write it makes through tx, replaying
+   * the log backwards if fn throws. tx is a view of this adapter with a log
+   * of its own, so writes made beside the transaction are not undone.
+   */
+  async transaction<T>(fn: (tx: StorageAdapter) => Promise<T>): Promise<T> {
+    if (this.undoLog) return fn(this);
+
+    const tx = Object.create(this) as MemoryAdapter;
+    const undoLog: (() => void)[] = [];
+    tx.undoLog = undoLog;
+    tx.remembered = new Set();
+    try {
+      return await fn(tx);
+    } catch (error) {
+      for (const undo of undoLog.reverse()) {
+        undo();
+      }
+      throw error;
+    } finally {
+      tx.undoLog = null;
     }
-
-    return results;
   }
 
   async close(): Promise<void> {
@@ -190,16 +193,23 @@ export class MemoryAdapter implements StorageAdapter {
     this.tables.clear();
   }
 
-  private matchesWhere(
-    row: Record<string, unknown>,
-    where: Record<string, unknown>
-  ): boolean {
-    for (const [key, value] of Object.entries(where)) {
-      if (row[key] !== value) {
-        return false;
-      }
-    }
-    return true;
+  private rememberKey(key: string): void {
+    if (!this.undoLog || this.remembered.has(key)) return;
+    this.remembered.add(key);
+    const previous = this.store.get(key);
+    this.undoLog.push(() => {
+      if (previous) this.store.set(key, previous);
+      else this.store.delete(key);
+    });
+  }
+
+  private rememberRows(t: { rows: Record<string, unknown>[] }): void {
+    if (!this.undoLog || this.remembered.has(t)) return;
+    this.remembered.add(t);
+    const rows = t.rows.map((row) => ({ ...row }));
+    this.undoLog.push(() => {
+      t.rows = rows;
+    });
   }
 
   /**
@@ -0,0 +1,203 @@
+/**
+ * Schema migrations - compare the tables a spec declares with the tables
+ * in the database and plan the steps between them. Adapters read the live
+ * schema and run the steps in their own SQL dialect.
+ */
+
+import type {
+  MigrationPlan,
+  MigrationRecord,
+  MigrationStep,
+  TableColumn,
+  TableDefinition,
+  TableSchema,
+} from './types.js';
+
+/** Table recording applied migrations */
+export const MIGRATIONS_TABLE = 'furlow_migrations';
+
+/**
+ * Indexes created for a table definition, by name. Primary and unique
+ * columns are indexed by their constraints instead.
+ */
+export function declaredIndexes(table: string, definition: TableDefinition): Record<string, string[]> {
+  const indexes: Record<string, string[]> = {};
+  for (const [column, col] of Object.entries(definition.columns)) {
+    if (col.index && !col.primary && !col.unique) {
+      indexes[`idx_${table}_${column}`] = [column];
+    }
+  }
+  for (const columns of definition.indexes ?? []) {
+    indexes[`idx_${table}_${columns.join('_')}`] = columns;
+  }
+  return indexes;
+}
+
+/**
+ * Declared indexes an existing table lacks. Only indexes on columns the
+ * table already has are returned, since new columns need a migration.
+ */
+export function missingIndexes(
+  table: string,
+  definition: TableDefinition,
+  schema: TableSchema
+): Record<string, string[]> {
+  const missing: Record<string, string[]> = {};
+  for (const [name, columns] of Object.entries(declaredIndexes(table, definition))) {
+    if (!schema.indexes[name] && columns.every((column) => column in schema.columns)) {
+      missing[name] = columns;
+    }
+  }
+  return missing;
+}
+
+/**
+ * Plan the steps that turn the live tables into the declared ones. Tables
+ * missing from `live` are created. `sqlType` gives the adapter's type for
+ * a declared column, to compare with the live one.
+ *
+ * Indexes are only dropped when they were created for a declared index
+ * (named `idx_<table>_...`), so indexes added by hand are kept.
+ */
+export function diffTables(
+  tables: Record<string, TableDefinition>,
+  live: Record<string, TableSchema | null>,
+  sqlType: (column: TableColumn) => string
+): MigrationPlan {
+  const steps: MigrationStep[] = [];
+  const warnings: string[] = [];
+
+  for (const [table, definition] of Object.entries(tables)) {
+    const schema = live[table];
+    if (!schema) {
+      steps.push({ type: 'create_table', table, definition });
+      continue;
+    }
+    steps.push(...diffTable(table, definition, schema, sqlType, warnings));
+  }
+
+  return { steps, warnings };
+}
+
+function diffTable(
+  table: string,
+  definition: TableDefinition,
+  schema: TableSchema,
+  sqlType: (column: TableColumn) => string,
+  warnings: string[]
+): MigrationStep[] {
+  const renames: MigrationStep[] = [];
+  const additions: MigrationStep[] = [];
+  const drops: MigrationStep[] = [];
+  const indexDrops: MigrationStep[] = [];
+  const indexCreates: MigrationStep[] = [];
+  const unmatched = new Set(Object.keys(schema.columns));
+
+  for (const [column, col] of Object.entries(definition.columns)) {
+    const from = col.renamed_from;
+    const liveName = column in schema.columns
+      ? column
+      : from && from in schema.columns && !(from in definition.columns)
+        ? from
+        : undefined;
+
+    if (liveName === undefined) {
+      if (col.primary) {
+        warnings.push(`${table}.${column}: a primary key cannot be added to an existing table`);
+        continue;
+      }
+      if (!col.nullable && col.default === undefined) {
+        warnings.push(`${table}.${column}: not nullable and has no default, so adding it fails if the table has rows`);
+      }
+      additions.push({ type: 'add_column', table, column, definition: col });
+      continue;
+    }
+
+    unmatched.delete(liveName);
+    if (liveName !== column) {
+      renames.push({ type: 'rename_column', table, from: liveName, to: column });
+    }
+
+    const current = schema.columns[liveName]!;
+    const declaredType = sqlType(col);
+    if (current.sqlType !== declaredType) {
+      warnings.push(`${table}.${column}: column is ${current.sqlType} but declared as ${declaredType}; change it by hand`);
+    }
+    if (current.primary !== Boolean(col.primary)) {
+      warnings.push(`${table}.${column}: primary key differs from the declaration; change it by hand`);
+    } else if (!col.primary && current.nullable !== Boolean(col.nullable)) {
+      warnings.push(`${table}.${column}: nullable differs from the declaration; change it by hand`);
+    }
+  }
+
+  for (const column of unmatched) {
+    drops.push({ type: 'drop_column', table, column });
+  }
+
+  const declared = declaredIndexes(table, definition);
+  for (const [name, columns] of Object.entries(schema.indexes)) {
+    if (!name.startsWith(`idx_${table}_`)) continue;
+    if (declared[name]?.join(',') !== columns.join(',')) {
+      indexDrops.push({ type: 'drop_index', table, name });
+    }
+  }
+  for (const [name, columns] of Object.entries(declared)) {
+    if (schema.indexes[name]?.join(',') !== columns.join(',')) {
+      indexCreates.push({ type: 'create_index', table, name, columns });
+    }
+  }
+
+  // Indexes go before the columns they cover and are rebuilt after
+  return [...renames, ...additions, ...indexDrops, ...drops, ...indexCreates];
+}
+
+/**
+ * The record of each table a plan changes, numbered after the versions
+ * already applied
+ */
+export function recordMigrations(
+  plan: MigrationPlan,
+  applied: MigrationRecord[],
+  appliedAt: number = Date.now()
+): MigrationRecord[] {
+  const byTable = new Map<string, MigrationStep[]>();
+  for (const step of plan.steps) {
+    const steps = byTable.get(step.table) ?? [];
+    steps.push(step);
+    byTable.set(step.table, steps);
+  }
+
+  return [...byTable].map(([table, steps]) => {
+    const previous = applied
+      .filter((record) => record.table === table)
+      .reduce((version, record) => Math.max(version, record.version), 0);
+    return { table, version: previous + 1, steps, appliedAt };
+  });
+}
+
+/**
+ * Whether a step deletes data
+ */
+export function isDestructiveStep(step: MigrationStep): boolean {
+  return step.type === 'drop_column';
+}
+
+/**
+ * Describe a step for people, e.g. "add column warnings.reason (string)"
+ */
+export function describeStep(step: MigrationStep): string {
+  switch (step.type) {
+    case 'create_table':
+      return `create table ${step.table}`;
+    case 'add_column':
+      return `add column ${step.table}.${step.column} (${step.definition.type})`;
+    case 'rename_column':
+      return `rename column ${step.table}.${step.from} to ${step.to}`;
+    case 'drop_column':
+      return `drop column ${step.table}.${step.column}`;
+    case 'create_index':
+      return `create index ${step.name} on ${step.table} (${step.columns.join(', ')})`;
+    case 'drop_index':
+      return `drop index ${step.name}`;
+  }
+}
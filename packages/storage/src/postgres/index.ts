@@ -2,8 +2,21 @@
  * PostgreSQL storage adapter
  */
 
-import { Pool, type PoolConfig } from 'pg';
-import type { StorageAdapter, StoredValue, QueryOptions, TableDefinition, TableColumn } from '../types.js';
+import { Pool, type PoolClient, type PoolConfig } from 'pg';
+import type {
+  StorageAdapter,
+  StoredValue,
+  QueryOptions,
+  TableDefinition,
+  TableColumn,
+  Where,
+  TableSchema,
+  MigrationPlan,
+  MigrationRecord,
+  MigrationStep,
+} from '../types.js';
+import { MIGRATIONS_TABLE, declaredIndexes, diffTables, missingIndexes, recordMigrations } from '../migrations.js';
+import { planQuery, selectSql, whereSql, type SqlDialect } from '../query.js';
 
 export interface PostgresOptions extends PoolConfig {
   url?: string;
@@ -20,11 +33,123 @@ function escapeIdentifier(name: string): string {
   return `"${name}"`;
 }
 
+/**
+ * Convert a value for binding: objects are sent as JSON
+ */
+function toSqlValue(value: unknown): unknown {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : value;
+}
+
+const dialect: SqlDialect = {
+  identifier: escapeIdentifier,
+  placeholder: (position) => `$${position}`,
+  bind: toSqlValue,
+  like: 'ILIKE',
+};
+
+/**
+ * PostgreSQL type of a declared column
+ */
+function columnType(col: TableColumn): string {
+  switch (col.type) {
+    case 'string':
+      return 'TEXT';
+    case 'number':
+      return 'DOUBLE PRECISION';
+    case 'boolean':
+      return 'BOOLEAN';
+    case 'json':
+      return 'JSONB';
+    case 'timestamp':
+      return 'BIGINT';
+    default:
+      return 'TEXT';
+  }
+}
+
+/**
+ * Column definition for CREATE TABLE and ADD COLUMN
+ */
+function columnSql(colName: string, col: TableColumn): string {
+  let colStr = `${escapeIdentifier(colName)} ${columnType(col)}`;
+
+  if (col.primary) {
+    colStr += ' PRIMARY KEY';
+  }
+
+  if (!col.nullable) {
+    colStr += ' NOT NULL';
+  }
+
+  if (col.unique) {
+    colStr += ' UNIQUE';
+  }
+
+  if (col.default !== undefined) {
+    // Only allow safe primitive types as defaults to prevent SQL injection
+    const defaultType = typeof col.default;
+    if (defaultType === 'string') {
+      // Use dollar quoting for strings to prevent injection
+      colStr += ` DEFAULT $str$${String(col.default)}$str$`;
+    } else if (defaultType === 'number' && Number.isFinite(col.default)) {
+      colStr += ` DEFAULT ${col.default}`;
+    } else if (defaultType === 'boolean') {
+      colStr += ` DEFAULT ${col.default ? 'TRUE' : 'FALSE'}`;
+    } else if (col.default === null) {
+      colStr += ` DEFAULT NULL`;
+    }
+    // Silently skip complex types (objects, functions) to prevent injection
+  }
+
+  return colStr;
+}
+
+/**
+ * CREATE TABLE and CREATE INDEX statements for a table definition
+ */
+function tableStatements(name: string, definition: TableDefinition): string[] {
+  const escapedTableName = escapeIdentifier(name);
+  const columns = Object.entries(definition.columns).map(([colName, col]) => columnSql(colName, col));
+  const indexes = Object.entries(declaredIndexes(name, definition)).map(([idxName, idx]) => indexSql(name, idxName, idx));
+
+  return [`CREATE TABLE IF NOT EXISTS ${escapedTableName} (${columns.join(', ')})`, ...indexes];
+}
+
+function indexSql(table: string, name: string, columns: string[]): string {
+  const escapedCols = columns.map(c => escapeIdentifier(c)).join(', ');
+  return `CREATE INDEX IF NOT EXISTS ${escapeIdentifier(name)} ON ${escapeIdentifier(table)}(${escapedCols})`;
+}
+
+/**
+ * Statements for one migration step
+ */
+function stepStatements(step: MigrationStep): string[] {
+  const table = escapeIdentifier(step.table);
+  switch (step.type) {
+    case 'create_table':
+      return tableStatements(step.table, step.definition);
+    case 'add_column':
+      return [`ALTER TABLE ${table} ADD COLUMN ${columnSql(step.column, step.definition)}`];
+    case 'rename_column':
+      return [`ALTER TABLE ${table} RENAME COLUMN ${escapeIdentifier(step.from)} TO ${escapeIdentifier(step.to)}`];
+    case 'drop_column':
+      return [`ALTER TABLE ${table} DROP COLUMN ${escapeIdentifier(step.column)}`];
+    case 'create_index':
+      return [indexSql(step.table, step.name, step.columns)];
+    case 'drop_index':
+      return [`DROP INDEX IF EXISTS ${escapeIdentifier(step.name)}`];
+  }
+}
+
 export class PostgresAdapter implements StorageAdapter {
   private pool: Pool;
+  /** Where queries go: the pool, or the client of an open transaction */
+  private db: Pool | PoolClient;
   private tables: Set<string> = new Set();
   private initialized = false;
   private initPromise: Promise<void> | null = null;
+  /** Transactions run on a client of their own */
+  readonly concurrentTransactions = true;
 
   constructor(options: PostgresOptions = {}) {
     if (options.url) {
@@ -32,6 +157,7 @@ export class PostgresAdapter implements StorageAdapter {
     } else {
       this.pool = new Pool(options);
     }
+    this.db = this.pool;
   }
 
   private async init(): Promise<void> {
@@ -43,7 +169,7 @@ export class PostgresAdapter implements StorageAdapter {
     }
 
     this.initPromise = (async () => {
-      await this.pool.query(`
+      await this.db.query(`
         CREATE TABLE IF NOT EXISTS furlow_kv (
           key TEXT PRIMARY KEY,
           value JSONB NOT NULL,
@@ -54,7 +180,7 @@ export class PostgresAdapter implements StorageAdapter {
         )
       `);
 
-      await this.pool.query(`
+      await this.db.query(`
         CREATE INDEX IF NOT EXISTS idx_furlow_kv_expires
         ON furlow_kv(expires_at)
         WHERE expires_at IS NOT NULL
@@ -69,7 +195,7 @@ export class PostgresAdapter implements StorageAdapter {
   async get(key: string): Promise<StoredValue | null> {
     await this.init();
 
-    const result = await this.pool.query(
+    const result = await this.db.query(
       'SELECT * FROM furlow_kv WHERE key = $1',
       [key]
     );
@@ -80,7 +206,7 @@ export class PostgresAdapter implements StorageAdapter {
 
     // Check expiration
     if (row.expires_at && row.expires_at < Date.now()) {
-      await this.pool.query('DELETE FROM furlow_kv WHERE key = $1', [key]);
+      await this.db.query('DELETE FROM furlow_kv WHERE key = $1', [key]);
       return null;
     }
 
@@ -96,7 +222,7 @@ export class PostgresAdapter implements StorageAdapter {
   async set(key: string, value: StoredValue): Promise<void> {
     await this.init();
 
-    await this.pool.query(
+    await this.db.query(
       `
       INSERT INTO furlow_kv (key, value, type, expires_at, created_at, updated_at)
       VALUES ($1, $2, $3, $4, $5, $6)
@@ -120,7 +246,7 @@ export class PostgresAdapter implements StorageAdapter {
   async delete(key: string): Promise<boolean> {
     await this.init();
 
-    const result = await this.pool.query(
+    const result = await this.db.query(
       'DELETE FROM furlow_kv WHERE key = $1',
       [key]
     );
@@ -130,7 +256,7 @@ export class PostgresAdapter implements StorageAdapter {
   async has(key: string): Promise<boolean> {
     await this.init();
 
-    const result = await this.pool.query(
+    const result = await this.db.query(
       'SELECT 1 FROM furlow_kv WHERE key = $1 AND (expires_at IS NULL OR expires_at > $2)',
       [key, Date.now()]
     );
@@ -150,100 +276,141 @@ export class PostgresAdapter implements StorageAdapter {
       params.push(sqlPattern);
     }
 
-    const result = await this.pool.query(query, params);
+    const result = await this.db.query(query, params);
     return result.rows.map((r) => r.key);
   }
 
   async clear(): Promise<void> {
     await this.init();
-    await this.pool.query('DELETE FROM furlow_kv');
+    await this.db.query('DELETE FROM furlow_kv');
   }
 
   async createTable(name: string, definition: TableDefinition): Promise<void> {
     if (this.tables.has(name)) return;
 
-    const columns: string[] = [];
-    const indexes: string[] = [];
-
-    for (const [colName, columnDef] of Object.entries(definition.columns)) {
-      const col = columnDef as TableColumn;
-      let sqlType: string;
-      switch (col.type) {
-        case 'string':
-          sqlType = 'TEXT';
-          break;
-        case 'number':
-          sqlType = 'DOUBLE PRECISION';
-          break;
-        case 'boolean':
-          sqlType = 'BOOLEAN';
-          break;
-        case 'json':
-          sqlType = 'JSONB';
-          break;
-        case 'timestamp':
-          sqlType = 'BIGINT';
-          break;
-        default:
-          sqlType = 'TEXT';
-      }
-
-      const escapedColName = escapeIdentifier(colName);
-      let colStr = `${escapedColName} ${sqlType}`;
+    // Existing tables get missing indexes; other changes go through
+    // migrations (see planMigration)
+    const schema = await this.getTableSchema(name);
+    const statements = schema
+      ? Object.entries(missingIndexes(name, definition, schema)).map(([indexName, columns]) =>
+          indexSql(name, indexName, columns)
+        )
+      : tableStatements(name, definition);
+    for (const statement of statements) {
+      await this.db.query(statement);
+    }
 
-      if (col.primary) {
-        colStr += ' PRIMARY KEY';
-      }
+    this.tables.add(name);
+  }
 
-      if (!col.nullable) {
-        colStr += ' NOT NULL';
-      }
+  /**
+   * Read a table's columns and indexes, or null if it does not exist
+   */
+  async getTableSchema(name: string): Promise<TableSchema | null> {
+    const columns = await this.db.query(
+      `SELECT column_name, data_type, is_nullable FROM information_schema.columns
+       WHERE table_schema = current_schema() AND table_name = $1
+       ORDER BY ordinal_position`,
+      [name]
+    );
+    if (columns.rows.length === 0) return null;
 
-      if (col.unique) {
-        colStr += ' UNIQUE';
-      }
+    const primary = await this.db.query(
+      `SELECT a.attname AS column_name FROM pg_index x
+       JOIN pg_attribute a ON a.attrelid = x.indrelid AND a.attnum = ANY(x.indkey)
+       WHERE x.indrelid = to_regclass(quote_ident($1)) AND x.indisprimary`,
+      [name]
+    );
+    const primaryColumns = new Set(primary.rows.map((row) => row.column_name as string));
+
+    const schema: TableSchema = { columns: {}, indexes: {} };
+    for (const row of columns.rows) {
+      schema.columns[row.column_name] = {
+        sqlType: String(row.data_type).toUpperCase(),
+        nullable: row.is_nullable === 'YES',
+        primary: primaryColumns.has(row.column_name),
+      };
+    }
 
-      if (col.default !== undefined) {
-        // Only allow safe primitive types as defaults to prevent SQL injection
-        const defaultType = typeof col.default;
-        if (defaultType === 'string') {
-          // Use dollar quoting for strings to prevent injection
-          colStr += ` DEFAULT $str$${String(col.default)}$str$`;
-        } else if (defaultType === 'number' && Number.isFinite(col.default)) {
-          colStr += ` DEFAULT ${col.default}`;
-        } else if (defaultType === 'boolean') {
-          colStr += ` DEFAULT ${col.default ? 'TRUE' : 'FALSE'}`;
-        } else if (col.default === null) {
-          colStr += ` DEFAULT NULL`;
-        }
-        // Silently skip complex types (objects, functions) to prevent injection
-      }
+    // Only plain indexes; primary keys and unique constraints index themselves
+    const indexes = await this.db.query(
+      `SELECT i.relname AS name, array_agg(a.attname::text ORDER BY k.ord) AS columns
+       FROM pg_index x
+       JOIN pg_class i ON i.oid = x.indexrelid
+       CROSS JOIN LATERAL unnest(x.indkey) WITH ORDINALITY AS k(attnum, ord)
+       JOIN pg_attribute a ON a.attrelid = x.indrelid AND a.attnum = k.attnum
+       WHERE x.indrelid = to_regclass(quote_ident($1)) AND NOT x.indisunique AND NOT x.indisprimary
+       GROUP BY i.relname`,
+      [name]
+    );
+    for (const row of indexes.rows) {
+      schema.indexes[row.name] = row.columns;
+    }
 
-      columns.push(colStr);
+    return schema;
+  }
 
-      if (col.index && !col.primary && !col.unique) {
-        const escapedTableName = escapeIdentifier(name);
-        indexes.push(`CREATE INDEX IF NOT EXISTS "idx_${name}_${colName}" ON ${escapedTableName}(${escapedColName})`);
-      }
+  async planMigration(tables: Record<string, TableDefinition>): Promise<MigrationPlan> {
+    const live: Record<string, TableSchema | null> = {};
+    for (const name of Object.keys(tables)) {
+      live[name] = await this.getTableSchema(name);
     }
+    return diffTables(tables, live, columnType);
+  }
+
+  async applyMigration(plan: MigrationPlan): Promise<MigrationRecord[]> {
+    const records = recordMigrations(plan, await this.getMigrations());
 
-    if (definition.indexes) {
-      for (const idx of definition.indexes) {
-        const idxName = `idx_${name}_${idx.join('_')}`;
-        const escapedTableName = escapeIdentifier(name);
-        const escapedCols = idx.map(c => escapeIdentifier(c)).join(', ');
-        indexes.push(`CREATE INDEX IF NOT EXISTS "${idxName}" ON ${escapedTableName}(${escapedCols})`);
+    // DDL is transactional in PostgreSQL, so a failed step leaves no changes
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const step of plan.steps) {
+        for (const statement of stepStatements(step)) {
+          await client.query(statement);
+        }
+      }
+      for (const { table, version, steps, appliedAt } of records) {
+        await client.query(
+          `INSERT INTO ${MIGRATIONS_TABLE} (table_name, version, steps, applied_at) VALUES ($1, $2, $3, $4)`,
+          [table, version, JSON.stringify(steps), appliedAt]
+        );
       }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
     }
 
-    const escapedTableName = escapeIdentifier(name);
-    await this.pool.query(`CREATE TABLE IF NOT EXISTS ${escapedTableName} (${columns.join(', ')})`);
-
-    for (const idx of indexes) {
-      await this.pool.query(idx);
+    for (const step of plan.steps) {
+      if (step.type === 'create_table') this.tables.add(step.table);
     }
+    return records;
+  }
 
-    this.tables.add(name);
+  async getMigrations(): Promise<MigrationRecord[]> {
+    await this.db.query(`
+      CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+        id SERIAL PRIMARY KEY,
+        table_name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        steps JSONB NOT NULL,
+        applied_at BIGINT NOT NULL
+      )
+    `);
+
+    const result = await this.db.query(
+      `SELECT table_name, version, steps, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY id`
+    );
+    return result.rows.map((row) => ({
+      table: row.table_name,
+      version: row.version,
+      steps: row.steps,
+      // BIGINT comes back as a string
+      appliedAt: Number(row.applied_at),
+    }));
   }
 
   async insert(table: string, data: Record<string, unknown>): Promise<void> {
@@ -251,11 +418,9 @@ export class PostgresAdapter implements StorageAdapter {
     const columns = Object.keys(data);
     const escapedColumns = columns.map(c => escapeIdentifier(c)).join(', ');
     const placeholders = columns.map((_, i) => `$${i + 1}`).join(', ');
-    const values = Object.values(data).map((v) =>
-      typeof v === 'object' && v !== null ? JSON.stringify(v) : v
-    );
+    const values = Object.values(data).map(toSqlValue);
 
-    await this.pool.query(
+    await this.db.query(
       `INSERT INTO ${escapedTable} (${escapedColumns}) VALUES (${placeholders})`,
       values
     );
@@ -263,88 +428,82 @@ export class PostgresAdapter implements StorageAdapter {
 
   async update(
     table: string,
-    where: Record<string, unknown>,
+    where: Where,
     data: Record<string, unknown>
   ): Promise<number> {
     const escapedTable = escapeIdentifier(table);
     const dataEntries = Object.entries(data);
-    const whereEntries = Object.entries(where);
 
     const setClauses = dataEntries.map(([col], i) => `${escapeIdentifier(col)} = $${i + 1}`);
-    const whereClauses = whereEntries.map(
-      ([col], i) => `${escapeIdentifier(col)} = $${dataEntries.length + i + 1}`
-    );
+    const params = dataEntries.map(([, v]) => toSqlValue(v));
+    const whereClause = whereSql(where, dialect, params);
 
-    const values = [
-      ...dataEntries.map(([, v]) =>
-        typeof v === 'object' && v !== null ? JSON.stringify(v) : v
-      ),
-      ...whereEntries.map(([, v]) => v),
-    ];
-
-    const result = await this.pool.query(
-      `UPDATE ${escapedTable} SET ${setClauses.join(', ')} WHERE ${whereClauses.join(' AND ')}`,
-      values
+    const result = await this.db.query(
+      `UPDATE ${escapedTable} SET ${setClauses.join(', ')}${whereClause}`,
+      params
     );
 
     return result.rowCount ?? 0;
   }
 
-  async deleteRows(table: string, where: Record<string, unknown>): Promise<number> {
+  async deleteRows(table: string, where: Where): Promise<number> {
     const escapedTable = escapeIdentifier(table);
-    const whereEntries = Object.entries(where);
-    const whereClauses = whereEntries.map(([col], i) => `${escapeIdentifier(col)} = $${i + 1}`);
-    const values = whereEntries.map(([, v]) => v);
+    const params: unknown[] = [];
+    const whereClause = whereSql(where, dialect, params);
 
-    const result = await this.pool.query(
-      `DELETE FROM ${escapedTable} WHERE ${whereClauses.join(' AND ')}`,
-      values
-    );
+    const result = await this.db.query(`DELETE FROM ${escapedTable}${whereClause}`, params);
 
     return result.rowCount ?? 0;
   }
 
   async query(table: string, options: QueryOptions): Promise<Record<string, unknown>[]> {
-    const escapedTable = escapeIdentifier(table);
-    const columns = options.select
-      ? options.select.map(c => escapeIdentifier(c)).join(', ')
-      : '*';
-    let query = `SELECT ${columns} FROM ${escapedTable}`;
+    const plan = planQuery(options);
     const params: unknown[] = [];
-    let paramIndex = 1;
-
-    if (options.where && Object.keys(options.where).length > 0) {
-      const whereClauses = Object.keys(options.where).map(
-        (col) => `${escapeIdentifier(col)} = $${paramIndex++}`
-      );
-      query += ` WHERE ${whereClauses.join(' AND ')}`;
-      params.push(...Object.values(options.where));
+    let query = selectSql(table, plan, dialect, params);
+
+    if (plan.limit !== null) {
+      query += ` LIMIT ${plan.limit}`;
     }
+    if (plan.offset !== null) {
+      query += ` OFFSET ${plan.offset}`;
+    }
+
+    const result = await this.db.query(query, params);
 
-    if (options.orderBy) {
-      // Validate and escape orderBy to prevent SQL injection
-      const orderMatch = options.orderBy.match(/^([a-zA-Z_][a-zA-Z0-9_]*)(\s+(ASC|DESC))?$/i);
-      if (orderMatch) {
-        query += ` ORDER BY ${escapeIdentifier(orderMatch[1]!)}${orderMatch[2] ?? ''}`;
+    // COUNT comes back as a string (BIGINT), as do SUM and AVG of BIGINT columns
+    const numeric = plan.aggregates.filter((term) => term.fn === 'count' || term.fn === 'sum' || term.fn === 'avg');
+    for (const row of result.rows) {
+      for (const term of numeric) {
+        if (typeof row[term.name] === 'string') row[term.name] = Number(row[term.name]);
       }
     }
+    return result.rows;
+  }
 
-    if (options.limit) {
-      // Cap limit to prevent resource exhaustion (max 10000 rows)
-      const MAX_LIMIT = 10000;
-      const limit = Math.min(MAX_LIMIT, Math.max(0, Math.floor(Number(options.limit))));
-      query += ` LIMIT ${limit}`;
-    }
+  /**
+   * Run fn in a transaction on a client of its own. tx is a view of this
+   * adapter that sends every query to that client.
+   */
+  async transaction<T>(fn: (tx: StorageAdapter) => Promise<T>): Promise<T> {
+    if (this.db !== this.pool) return fn(this);
 
-    if (options.offset) {
-      // Cap offset to prevent extreme pagination (max 1 million)
-      const MAX_OFFSET = 1000000;
-      const offset = Math.min(MAX_OFFSET, Math.max(0, Math.floor(Number(options.offset))));
-      query += ` OFFSET ${offset}`;
+    await this.init();
+    const client = await this.pool.connect();
+    const tx = Object.create(this) as PostgresAdapter;
+    tx.db = client;
+    try {
+      await client.query('BEGIN');
+      const result = await fn(tx);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      // Tables created inside the transaction are gone again
+      this.tables.clear();
+      throw error;
+    } finally {
+      client.release();
     }
-
-    const result = await this.pool.query(query, params);
-    return result.rows;
   }
 
   async close(): Promise<void> {
@@ -0,0 +1,456 @@
+/**
+ * Table queries - check the where, order, group and aggregate options of a
+ * query once, then match them in memory or compile them to SQL, so every
+ * adapter returns the same rows.
+ *
+ * Null handling follows SQL: comparisons with null never match, except
+ * that `{ column: null }` matches null and `$ne`/`$nin` match null unless
+ * null is one of their values. Sorting puts nulls last, or first when
+ * descending. Dates compare as millisecond timestamps, the way timestamp
+ * columns store them.
+ */
+
+import type { QueryOptions, Where, WhereOperators } from './types.js';
+
+/** Most rows a query returns */
+export const MAX_LIMIT = 10000;
+
+/** Furthest a query can page into a table */
+export const MAX_OFFSET = 1000000;
+
+const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const ORDER_TERM = /^([a-zA-Z_][a-zA-Z0-9_]*)(?:\s+(asc|desc))?$/i;
+const AGGREGATE = /^(count|sum|avg|min|max)\s*\(\s*(\*|[a-zA-Z_][a-zA-Z0-9_]*)\s*\)$/i;
+
+const OPERATORS = new Set<keyof WhereOperators>(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$like']);
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/** A where clause with its operators checked */
+export type Condition =
+  | { type: 'and' | 'or'; conditions: Condition[] }
+  | { type: 'compare'; column: string; operator: keyof WhereOperators; value: unknown };
+
+export interface OrderTerm {
+  column: string;
+  descending: boolean;
+}
+
+export interface AggregateTerm {
+  name: string;
+  fn: AggregateFunction;
+  /** null for count(*) */
+  column: string | null;
+}
+
+/** QueryOptions with every option checked */
+export interface QueryPlan {
+  where: Condition | null;
+  /** Columns returned, or null for all of them */
+  select: string[] | null;
+  orderBy: OrderTerm[];
+  groupBy: string[];
+  aggregates: AggregateTerm[];
+  /** Whether rows are grouped, by groupBy or into one row of aggregates */
+  grouped: boolean;
+  limit: number | null;
+  offset: number | null;
+}
+
+function column(name: unknown, option: string): string {
+  if (typeof name !== 'string' || !IDENTIFIER.test(name)) {
+    throw new Error(`Invalid column name in ${option}: ${String(name)}`);
+  }
+  return name;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  return value ?? null;
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return isPlainObject(value) && Object.keys(value).length > 0 && Object.keys(value).every((key) => key.startsWith('$'));
+}
+
+/**
+ * Check a where clause. Throws on unknown operators and invalid columns.
+ */
+export function parseWhere(where: Where): Condition {
+  const conditions: Condition[] = [];
+
+  for (const [key, value] of Object.entries(where)) {
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(value) || !value.every(isPlainObject)) {
+        throw new Error(`${key} must be a list of where clauses`);
+      }
+      conditions.push({ type: key === '$and' ? 'and' : 'or', conditions: value.map(parseWhere) });
+      continue;
+    }
+    if (key.startsWith('$')) {
+      throw new Error(`Unknown where operator "${key}"`);
+    }
+
+    const name = column(key, 'where');
+    if (!isOperatorObject(value)) {
+      conditions.push({ type: 'compare', column: name, operator: '$eq', value: normalize(value) });
+      continue;
+    }
+
+    for (const [operator, operand] of Object.entries(value)) {
+      if (!OPERATORS.has(operator as keyof WhereOperators)) {
+        throw new Error(`Unknown where operator "${operator}" for ${name}`);
+      }
+      if ((operator === '$in' || operator === '$nin') && !Array.isArray(operand)) {
+        throw new Error(`${operator} for ${name} must be a list`);
+      }
+      if (operator === '$like' && typeof operand !== 'string') {
+        throw new Error(`$like for ${name} must be a string`);
+      }
+      conditions.push({
+        type: 'compare',
+        column: name,
+        operator: operator as keyof WhereOperators,
+        value: Array.isArray(operand) ? operand.map(normalize) : normalize(operand),
+      });
+    }
+  }
+
+  return conditions.length === 1 ? conditions[0]! : { type: 'and', conditions };
+}
+
+function columnList(value: string | string[] | undefined, option: string): string[] {
+  if (value === undefined) return [];
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter((item) => item !== '')
+    .map((item) => column(item, option));
+}
+
+/**
+ * Check a sort order such as "level DESC, xp DESC"
+ */
+export function parseOrderBy(orderBy: string | string[] | undefined): OrderTerm[] {
+  if (orderBy === undefined) return [];
+  const items = Array.isArray(orderBy) ? orderBy : [orderBy];
+  return items
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter((item) => item !== '')
+    .map((item) => {
+      const match = item.match(ORDER_TERM);
+      if (!match) {
+        throw new Error(`Invalid order by "${item}", expected a column and optional ASC or DESC`);
+      }
+      return { column: match[1]!, descending: match[2]?.toLowerCase() === 'desc' };
+    });
+}
+
+/**
+ * Check aggregates such as `{ total: 'sum(xp)' }`
+ */
+export function parseAggregates(aggregate: Record<string, string> | undefined): AggregateTerm[] {
+  return Object.entries(aggregate ?? {}).map(([name, expression]) => {
+    column(name, 'aggregate');
+    const match = String(expression).trim().match(AGGREGATE);
+    if (!match) {
+      throw new Error(`Invalid aggregate "${expression}", expected count, sum, avg, min or max of a column`);
+    }
+    const fn = match[1]!.toLowerCase() as AggregateFunction;
+    if (match[2] === '*' && fn !== 'count') {
+      throw new Error(`Invalid aggregate "${expression}", only count can take *`);
+    }
+    return { name, fn, column: match[2] === '*' ? null : match[2]! };
+  });
+}
+
+function clamp(value: number | undefined, max: number): number | null {
+  if (!value) return null;
+  return Math.min(max, Math.max(0, Math.floor(Number(value)))) || null;
+}
+
+/**
+ * Check every option of a query
+ */
+export function planQuery(options: QueryOptions): QueryPlan {
+  const where = options.where && Object.keys(options.where).length > 0 ? parseWhere(options.where) : null;
+  const orderBy = parseOrderBy(options.orderBy);
+  const groupBy = columnList(options.groupBy, 'group by');
+  const aggregates = parseAggregates(options.aggregate);
+  const grouped = groupBy.length > 0 || aggregates.length > 0;
+  let select = options.select ? options.select.map((name) => column(name, 'select')) : null;
+
+  if (grouped) {
+    for (const name of select ?? []) {
+      if (!groupBy.includes(name)) {
+        throw new Error(`Selected column ${name} must be in group by when grouping`);
+      }
+    }
+    select = [...(select ?? groupBy), ...aggregates.map((term) => term.name)];
+
+    for (const term of orderBy) {
+      if (!select.includes(term.column)) {
+        throw new Error(`Cannot order by ${term.column}, which is not a group by column or aggregate`);
+      }
+    }
+  }
+
+  return {
+    where,
+    select,
+    orderBy,
+    groupBy,
+    aggregates,
+    grouped,
+    limit: clamp(options.limit, MAX_LIMIT),
+    offset: clamp(options.offset, MAX_OFFSET),
+  };
+}
+
+// In-memory evaluation
+
+function valueOf(row: Record<string, unknown>, name: string): unknown {
+  return normalize(row[name]);
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+/**
+ * Order two values: nulls after everything else, numbers before strings,
+ * then by value
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+  const rank = (value: unknown) => (typeof value === 'number' || typeof value === 'boolean' ? 0 : 1);
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+  const x = typeof a === 'boolean' ? Number(a) : (a as string | number);
+  const y = typeof b === 'boolean' ? Number(b) : (b as string | number);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function likePattern(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i]!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '%') {
+      source += '[\\s\\S]*';
+    } else if (char === '_') {
+      source += '[\\s\\S]';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function comparable(a: unknown, b: unknown): boolean {
+  return a !== null && b !== null && (typeof a === 'string') === (typeof b === 'string');
+}
+
+/**
+ * Whether a row meets a condition
+ */
+export function matchesCondition(row: Record<string, unknown>, condition: Condition): boolean {
+  if (condition.type !== 'compare') {
+    const matches = (item: Condition) => matchesCondition(row, item);
+    return condition.type === 'and' ? condition.conditions.every(matches) : condition.conditions.some(matches);
+  }
+
+  const actual = valueOf(row, condition.column);
+  const expected = condition.value;
+  switch (condition.operator) {
+    case '$eq':
+      return equals(actual, expected);
+    case '$ne':
+      return !equals(actual, expected);
+    case '$gt':
+      return comparable(actual, expected) && compareValues(actual, expected) > 0;
+    case '$gte':
+      return comparable(actual, expected) && compareValues(actual, expected) >= 0;
+    case '$lt':
+      return comparable(actual, expected) && compareValues(actual, expected) < 0;
+    case '$lte':
+      return comparable(actual, expected) && compareValues(actual, expected) <= 0;
+    case '$in':
+      return (expected as unknown[]).some((item) => equals(actual, item));
+    case '$nin':
+      return !(expected as unknown[]).some((item) => equals(actual, item));
+    case '$like':
+      return actual !== null && likePattern(expected as string).test(String(actual));
+  }
+}
+
+function aggregateValue(rows: Record<string, unknown>[], term: AggregateTerm): unknown {
+  if (term.column === null) return rows.length;
+  const values = rows.map((row) => valueOf(row, term.column!)).filter((value) => value !== null);
+
+  switch (term.fn) {
+    case 'count':
+      return values.length;
+    case 'sum':
+      return values.length === 0 ? null : values.reduce<number>((total, value) => total + Number(value), 0);
+    case 'avg':
+      return values.length === 0
+        ? null
+        : values.reduce<number>((total, value) => total + Number(value), 0) / values.length;
+    case 'min':
+      return values.length === 0 ? null : values.reduce((min, value) => (compareValues(value, min) < 0 ? value : min));
+    case 'max':
+      return values.length === 0 ? null : values.reduce((max, value) => (compareValues(value, max) > 0 ? value : max));
+  }
+}
+
+/**
+ * Run a query over rows held in memory
+ */
+export function runQuery(rows: Record<string, unknown>[], plan: QueryPlan): Record<string, unknown>[] {
+  let results = plan.where ? rows.filter((row) => matchesCondition(row, plan.where!)) : [...rows];
+
+  if (plan.grouped) {
+    const groups = new Map<string, Record<string, unknown>[]>();
+    for (const row of results) {
+      const key = JSON.stringify(plan.groupBy.map((name) => valueOf(row, name)));
+      const group = groups.get(key) ?? [];
+      group.push(row);
+      groups.set(key, group);
+    }
+    // Aggregates without group by give one row, even for no rows
+    if (plan.groupBy.length === 0 && groups.size === 0) groups.set('[]', []);
+
+    results = [...groups.values()].map((group) => {
+      const row: Record<string, unknown> = {};
+      for (const name of plan.groupBy) row[name] = valueOf(group[0]!, name);
+      for (const term of plan.aggregates) row[term.name] = aggregateValue(group, term);
+      return row;
+    });
+  }
+
+  if (plan.orderBy.length > 0) {
+    results.sort((a, b) => {
+      for (const term of plan.orderBy) {
+        const order = compareValues(valueOf(a, term.column), valueOf(b, term.column));
+        if (order !== 0) return term.descending ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  if (plan.offset) results = results.slice(plan.offset);
+  if (plan.limit) results = results.slice(0, plan.limit);
+
+  if (plan.select) {
+    const select = plan.select;
+    results = results.map((row) => Object.fromEntries(select.map((name) => [name, row[name]])));
+  }
+
+  return results;
+}
+
+// SQL
+
+/** How an adapter writes SQL */
+export interface SqlDialect {
+  /** Quote a table or column name */
+  identifier(name: string): string;
+  /** Placeholder for the parameter at a 1-based position */
+  placeholder(position: number): string;
+  /** Convert a value before binding it */
+  bind(value: unknown): unknown;
+  /** Case-insensitive LIKE operator */
+  like: string;
+}
+
+/**
+ * SQL for a condition, with its values appended to `params`
+ */
+export function conditionSql(condition: Condition, dialect: SqlDialect, params: unknown[]): string {
+  if (condition.type !== 'compare') {
+    if (condition.conditions.length === 0) return condition.type === 'and' ? 'TRUE' : 'FALSE';
+    const joiner = condition.type === 'and' ? ' AND ' : ' OR ';
+    return `(${condition.conditions.map((item) => conditionSql(item, dialect, params)).join(joiner)})`;
+  }
+
+  const name = dialect.identifier(condition.column);
+  const param = (value: unknown): string => {
+    params.push(dialect.bind(value));
+    return dialect.placeholder(params.length);
+  };
+  const value = condition.value;
+
+  switch (condition.operator) {
+    case '$eq':
+      return value === null ? `${name} IS NULL` : `${name} = ${param(value)}`;
+    case '$ne':
+      return value === null ? `${name} IS NOT NULL` : `(${name} IS NULL OR ${name} <> ${param(value)})`;
+    case '$gt':
+      return `${name} > ${param(value)}`;
+    case '$gte':
+      return `${name} >= ${param(value)}`;
+    case '$lt':
+      return `${name} < ${param(value)}`;
+    case '$lte':
+      return `${name} <= ${param(value)}`;
+    case '$like':
+      return `CAST(${name} AS TEXT) ${dialect.like} ${param(value)} ESCAPE '\\'`;
+    case '$in':
+    case '$nin': {
+      const items = value as unknown[];
+      const values = items.filter((item) => item !== null);
+      const hasNull = values.length < items.length;
+      if (condition.operator === '$in') {
+        const list = values.length > 0 ? `${name} IN (${values.map(param).join(', ')})` : 'FALSE';
+        return hasNull ? `(${list} OR ${name} IS NULL)` : list;
+      }
+      const list = values.length > 0 ? `${name} NOT IN (${values.map(param).join(', ')})` : 'TRUE';
+      return hasNull ? `(${name} IS NOT NULL AND ${list})` : `(${name} IS NULL OR ${list})`;
+    }
+  }
+}
+
+/**
+ * ` WHERE ...` for a where clause, or an empty string when it has no entries
+ */
+export function whereSql(where: Where | undefined, dialect: SqlDialect, params: unknown[]): string {
+  if (!where || Object.keys(where).length === 0) return '';
+  return ` WHERE ${conditionSql(parseWhere(where), dialect, params)}`;
+}
+
+/**
+ * SELECT statement for a query. Adapters add LIMIT and OFFSET.
+ */
+export function selectSql(table: string, plan: QueryPlan, dialect: SqlDialect, params: unknown[]): string {
+  const columns = plan.grouped
+    ? [
+        ...plan.select!.filter((name) => plan.groupBy.includes(name)).map(dialect.identifier),
+        ...plan.aggregates.map(
+          (term) =>
+            `${term.fn.toUpperCase()}(${term.column === null ? '*' : dialect.identifier(term.column)}) AS ${dialect.identifier(term.name)}`
+        ),
+      ]
+    : plan.select?.map(dialect.identifier) ?? ['*'];
+
+  let sql = `SELECT ${columns.join(', ')} FROM ${dialect.identifier(table)}`;
+  if (plan.where) sql += ` WHERE ${conditionSql(plan.where, dialect, params)}`;
+  if (plan.groupBy.length > 0) sql += ` GROUP BY ${plan.groupBy.map(dialect.identifier).join(', ')}`;
+  if (plan.orderBy.length > 0) {
+    sql += ` ORDER BY ${plan.orderBy
+      .map((term) => `${dialect.identifier(term.column)} ${term.descending ? 'DESC NULLS FIRST' : 'ASC NULLS LAST'}`)
+      .join(', ')}`;
+  }
+  return sql;
+}
@@ -0,0 +1,414 @@
+/**
+ * Redis storage adapter
+ *
+ * Keys expire natively, table rows are kept as JSON in one hash per table,
+ * and every key write is announced on a channel so other processes sharing
+ * the server can drop their cached copies.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { Redis, type ChainableCommander, type RedisOptions as ClientOptions } from 'ioredis';
+import type { StorageAdapter, StoredValue, QueryOptions, TableDefinition, Where } from '../types.js';
+import { matchesCondition, parseWhere, planQuery, runQuery } from '../query.js';
+
+export interface RedisOptions extends ClientOptions {
+  /** Connection URL, e.g. redis://localhost:6379 */
+  url?: string;
+  /** Prefix for every key the adapter writes (default: "furlow:") */
+  prefix?: string;
+}
+
+/** Keys requested per SCAN call */
+const SCAN_COUNT = 250;
+
+/** Keys deleted per DEL call when clearing */
+const DELETE_BATCH = 500;
+
+/** Times a watched write is tried before giving up */
+const MAX_WATCH_ATTEMPTS = 10;
+
+/** Result of one watched attempt, with the writes to make when it is kept */
+type WatchedAttempt<T> = [result: T, queue?: (transaction: ChainableCommander) => void];
+
+/**
+ * Escape the characters Redis MATCH patterns treat specially
+ */
+function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Read an invalidation message, or null when it is not one
+ */
+function parseInvalidation(message: string): { from: string; key: string | null } | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message);
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) return null;
+  const { from, key } = parsed as Record<string, unknown>;
+  if (typeof from !== 'string' || (typeof key !== 'string' && key !== null)) return null;
+  return { from, key };
+}
+
+/**
+ * Turn a key pattern, where `*` and `?` are the only wildcards, into a
+ * Redis MATCH pattern
+ */
+function toMatchPattern(pattern: string): string {
+  return pattern.replace(/[[\]\\]/g, '\\$&');
+}
+
+export class RedisAdapter implements StorageAdapter {
+  private client: Redis;
+  private subscriber: Redis | null = null;
+  /** Connection for watched writes, opened on first use */
+  private watcher: Redis | null = null;
+  /** Settles when the watched write in progress finishes */
+  private watching: Promise<unknown> = Promise.resolve();
+  private prefix: string;
+  /** Identifies this adapter's own invalidation messages */
+  private id = randomUUID();
+  private listeners: Set<(key: string | null) => void> = new Set();
+  private tables: Map<string, TableDefinition> = new Map();
+
+  constructor(options: RedisOptions = {}) {
+    const { url, prefix, ...clientOptions } = options;
+    this.client = url ? new Redis(url, clientOptions) : new Redis(clientOptions);
+    this.prefix = prefix ?? 'furlow:';
+  }
+
+  private kvKey(key: string): string {
+    return `${this.prefix}kv:${key}`;
+  }
+
+  private tableKey(table: string): string {
+    return `${this.prefix}table:${table}`;
+  }
+
+  private get channel(): string {
+    return `${this.prefix}invalidate`;
+  }
+
+  async get(key: string): Promise<StoredValue | null> {
+    const raw = await this.client.get(this.kvKey(key));
+    return raw === null ? null : (JSON.parse(raw) as StoredValue);
+  }
+
+  async set(key: string, value: StoredValue): Promise<void> {
+    const transaction = this.client.multi();
+    this.queueSet(transaction, this.kvKey(key), value);
+    await transaction.exec();
+    await this.announce(key);
+  }
+
+  /**
+   * Queue writing a value, with its expiry as a native TTL
+   */
+  private queueSet(transaction: ChainableCommander, storageKey: string, value: StoredValue): void {
+    if (value.expiresAt) {
+      const ttl = value.expiresAt - Date.now();
+      if (ttl > 0) {
+        transaction.set(storageKey, JSON.stringify(value), 'PX', ttl);
+      } else {
+        transaction.del(storageKey);
+      }
+    } else {
+      transaction.set(storageKey, JSON.stringify(value));
+    }
+  }
+
+  async setIfAbsent(key: string, value: StoredValue): Promise<boolean> {
+    const storageKey = this.kvKey(key);
+    const json = JSON.stringify(value);
+
+    // Expired keys are gone, so NX sees only live values
+    const stored = value.expiresAt
+      ? await this.client.set(storageKey, json, 'PX', Math.max(value.expiresAt - Date.now(), 1), 'NX')
+      : await this.client.set(storageKey, json, 'NX');
+    if (stored === null) return false;
+
+    await this.announce(key);
+    return true;
+  }
+
+  async modify(
+    key: string,
+    fn: (current: StoredValue | null) => StoredValue
+  ): Promise<StoredValue> {
+    const storageKey = this.kvKey(key);
+
+    const value = await this.watched(storageKey, async (): Promise<WatchedAttempt<StoredValue>> => {
+      const raw = await this.client.get(storageKey);
+      const next = fn(raw === null ? null : (JSON.parse(raw) as StoredValue));
+      return [next, (transaction) => this.queueSet(transaction, storageKey, next)];
+    });
+
+    await this.announce(key);
+    return value;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const deleted = await this.client.del(this.kvKey(key));
+    await this.announce(key);
+    return deleted > 0;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.client.exists(this.kvKey(key))) > 0;
+  }
+
+  async keys(pattern?: string): Promise<string[]> {
+    const prefix = this.kvKey('');
+    const found = await this.scan(escapeGlob(prefix) + (pattern ? toMatchPattern(pattern) : '*'));
+    return found.map((key) => key.slice(prefix.length));
+  }
+
+  /**
+   * Read, decide and write a key without losing other clients' writes made
+   * in between: the key is WATCHed while attempt reads it, and its writes
+   * run in a MULTI that Redis drops when the key changed, after which the
+   * attempt runs again. WATCH belongs to a connection, so watched writes
+   * take turns on a connection of their own.
+   */
+  private watched<T>(storageKey: string, attempt: () => Promise<WatchedAttempt<T>>): Promise<T> {
+    const run = this.watching.then(async () => {
+      this.watcher ??= this.client.duplicate();
+      const watcher = this.watcher;
+
+      for (let tries = 0; tries < MAX_WATCH_ATTEMPTS; tries++) {
+        await watcher.watch(storageKey);
+
+        let result: T;
+        let queue: ((transaction: ChainableCommander) => void) | undefined;
+        try {
+          [result, queue] = await attempt();
+        } catch (err) {
+          await watcher.unwatch();
+          throw err;
+        }
+
+        if (!queue) {
+          await watcher.unwatch();
+          return result;
+        }
+
+        const transaction = watcher.multi();
+        queue(transaction);
+        // EXEC replies null when a watched key changed
+        if ((await transaction.exec()) !== null) {
+          return result;
+        }
+      }
+
+      throw new Error(`Could not write ${storageKey}: other clients kept changing it`);
+    });
+
+    this.watching = run.catch(() => undefined);
+    return run;
+  }
+
+  async clear(): Promise<void> {
+    const found = await this.scan(`${escapeGlob(this.kvKey(''))}*`);
+    for (let i = 0; i < found.length; i += DELETE_BATCH) {
+      await this.client.del(...found.slice(i, i + DELETE_BATCH));
+    }
+    await this.announce(null);
+  }
+
+  /**
+   * Collect the keys matching a MATCH pattern. SCAN may return a key more
+   * than once, so the result is deduplicated.
+   */
+  private async scan(match: string): Promise<string[]> {
+    const found = new Set<string>();
+    let cursor = '0';
+
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', match, 'COUNT', SCAN_COUNT);
+      cursor = next;
+      for (const key of batch) found.add(key);
+    } while (cursor !== '0');
+
+    return [...found];
+  }
+
+  async createTable(name: string, definition: TableDefinition): Promise<void> {
+    await this.client.hsetnx(`${this.prefix}tables`, name, JSON.stringify(definition));
+    this.tables.set(name, definition);
+  }
+
+  /**
+   * Get a table's definition, which another process may have created
+   */
+  private async getTable(name: string): Promise<TableDefinition> {
+    let definition = this.tables.get(name);
+    if (!definition) {
+      const raw = await this.client.hget(`${this.prefix}tables`, name);
+      if (raw === null) {
+        throw new Error(`Table not found: ${name}`);
+      }
+      definition = JSON.parse(raw) as TableDefinition;
+      this.tables.set(name, definition);
+    }
+    return definition;
+  }
+
+  /**
+   * Hash field of a row: its primary key, or a generated id for tables
+   * without one
+   */
+  private async rowId(
+    table: string,
+    definition: TableDefinition,
+    row: Record<string, unknown>
+  ): Promise<string> {
+    const primary = Object.entries(definition.columns)
+      .filter(([, col]) => col.primary)
+      .map(([name]) => row[name] ?? null);
+
+    if (primary.length === 0) {
+      return `#${await this.client.incr(`${this.tableKey(table)}:seq`)}`;
+    }
+    return JSON.stringify(primary.length === 1 ? primary[0] : primary);
+  }
+
+  /**
+   * Read every row of a table with its hash field
+   */
+  private async rows(table: string): Promise<[string, Record<string, unknown>][]> {
+    await this.getTable(table);
+    const all = await this.client.hgetall(this.tableKey(table));
+    return Object.entries(all).map(([id, raw]) => [id, JSON.parse(raw) as Record<string, unknown>]);
+  }
+
+  async insert(table: string, data: Record<string, unknown>): Promise<void> {
+    const definition = await this.getTable(table);
+    const row = JSON.parse(JSON.stringify(data)) as Record<string, unknown>;
+    const id = await this.rowId(table, definition, row);
+
+    const added = await this.client.hsetnx(this.tableKey(table), id, JSON.stringify(row));
+    if (!added) {
+      throw new Error(`Duplicate primary key in ${table}: ${id}`);
+    }
+  }
+
+  async update(
+    table: string,
+    where: Where,
+    data: Record<string, unknown>
+  ): Promise<number> {
+    const definition = await this.getTable(table);
+    const condition = parseWhere(where);
+    const changes = JSON.parse(JSON.stringify(data)) as Record<string, unknown>;
+    const tableKey = this.tableKey(table);
+
+    return this.watched(tableKey, async (): Promise<WatchedAttempt<number>> => {
+      const removed: string[] = [];
+      const written: Record<string, string> = {};
+      let updated = 0;
+
+      for (const [id, row] of await this.rows(table)) {
+        if (!matchesCondition(row, condition)) continue;
+
+        const next = { ...row, ...changes };
+        // A changed primary key moves the row to a new field
+        const nextId = id.startsWith('#') ? id : await this.rowId(table, definition, next);
+        if (nextId !== id) removed.push(id);
+        written[nextId] = JSON.stringify(next);
+        updated++;
+      }
+
+      if (updated === 0) return [0];
+      return [
+        updated,
+        (transaction) => {
+          if (removed.length > 0) transaction.hdel(tableKey, ...removed);
+          transaction.hset(tableKey, written);
+        },
+      ];
+    });
+  }
+
+  async deleteRows(table: string, where: Where): Promise<number> {
+    const condition = parseWhere(where);
+    const tableKey = this.tableKey(table);
+
+    return this.watched(tableKey, async (): Promise<WatchedAttempt<number>> => {
+      const ids = (await this.rows(table))
+        .filter(([, row]) => matchesCondition(row, condition))
+        .map(([id]) => id);
+
+      if (ids.length === 0) return [0];
+      return [ids.length, (transaction) => transaction.hdel(tableKey, ...ids)];
+    });
+  }
+
+  async query(table: string, options: QueryOptions): Promise<Record<string, unknown>[]> {
+    const plan = planQuery(options);
+    const rows = (await this.rows(table)).map(([, row]) => row);
+    return runQuery(rows, plan);
+  }
+
+  /**
+   * Listen for keys written through other adapters on the same server and
+   * prefix. Messages are received on a second connection, opened on the
+   * first call.
+   */
+  onInvalidate(listener: (key: string | null) => void): () => void {
+    if (!this.subscriber) {
+      const subscriber = this.client.duplicate();
+      subscriber.on('message', (channel: string, message: string) => {
+        if (channel !== this.channel) return;
+        // Anything can publish on the channel; ignore what is not ours to read
+        const invalidation = parseInvalidation(message);
+        if (!invalidation || invalidation.from === this.id) return;
+        for (const notify of this.listeners) {
+          notify(invalidation.key);
+        }
+      });
+      subscriber.subscribe(this.channel).catch((err: Error) => {
+        console.warn(`Could not subscribe to cache invalidations: ${err.message}`);
+      });
+      this.subscriber = subscriber;
+    }
+
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Tell other processes that a key changed; null means every key
+   */
+  private async announce(key: string | null): Promise<void> {
+    await this.client.publish(this.channel, JSON.stringify({ from: this.id, key }));
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+    await this.subscriber?.quit();
+    // Let a watched write in progress finish before its connection closes
+    await this.watching;
+    await this.watcher?.quit();
+    await this.client.quit();
+  }
+
+  /**
+   * Get the underlying client
+   */
+  getClient(): Redis {
+    return this.client;
+  }
+}
+
+/**
+ * Create a Redis storage adapter
+ */
+export function createRedisAdapter(options?: RedisOptions): RedisAdapter {
+  return new RedisAdapter(options);
+}
@@ -3,7 +3,20 @@
  */
 
 import Database from 'better-sqlite3';
-import type { StorageAdapter, StoredValue, QueryOptions, TableDefinition, TableColumn } from '../types.js';
+import type {
+  StorageAdapter,
+  StoredValue,
+  QueryOptions,
+  TableDefinition,
+  TableColumn,
+  Where,
+  TableSchema,
+  MigrationPlan,
+  MigrationRecord,
+  MigrationStep,
+} from '../types.js';
+import { MIGRATIONS_TABLE, declaredIndexes, diffTables, missingIndexes, recordMigrations } from '../migrations.js';
+import { planQuery, selectSql, whereSql, type SqlDialect } from '../query.js';
 
 export interface SQLiteOptions {
   path?: string;
@@ -23,6 +36,129 @@ function escapeIdentifier(name: string): string {
   return `"${name}"`;
 }
 
+/**
+ * Convert a value for binding: objects are stored as JSON and booleans as 0 or 1
+ */
+function toSqlValue(value: unknown): unknown {
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return value;
+}
+
+const dialect: SqlDialect = {
+  identifier: escapeIdentifier,
+  placeholder: () => '?',
+  bind: toSqlValue,
+  // LIKE ignores case for ASCII in SQLite
+  like: 'LIKE',
+};
+
+/**
+ * SQLite type of a declared column
+ */
+function columnType(col: TableColumn): string {
+  switch (col.type) {
+    case 'string':
+      return 'TEXT';
+    case 'number':
+      return 'REAL';
+    case 'boolean':
+      return 'INTEGER';
+    case 'json':
+      return 'TEXT';
+    case 'timestamp':
+      return 'INTEGER';
+    default:
+      return 'TEXT';
+  }
+}
+
+/**
+ * Column definition for CREATE TABLE and ADD COLUMN
+ */
+function columnSql(colName: string, col: TableColumn): string {
+  let colDef = `${escapeIdentifier(colName)} ${columnType(col)}`;
+
+  if (col.primary) {
+    colDef += ' PRIMARY KEY';
+  }
+
+  if (!col.nullable) {
+    colDef += ' NOT NULL';
+  }
+
+  if (col.unique) {
+    colDef += ' UNIQUE';
+  }
+
+  if (col.default !== undefined) {
+    // Only allow safe primitive types as defaults to prevent SQL injection
+    const defaultType = typeof col.default;
+    if (defaultType === 'string') {
+      // Escape single quotes for SQLite string literals
+      const escaped = String(col.default).replace(/'/g, "''");
+      colDef += ` DEFAULT '${escaped}'`;
+    } else if (defaultType === 'number' && Number.isFinite(col.default)) {
+      colDef += ` DEFAULT ${col.default}`;
+    } else if (defaultType === 'boolean') {
+      colDef += ` DEFAULT ${col.default ? 1 : 0}`;
+    } else if (col.default === null) {
+      colDef += ` DEFAULT NULL`;
+    }
+    // Silently skip complex types (objects, functions) to prevent injection
+  }
+
+  return colDef;
+}
+
+/**
+ * CREATE TABLE and CREATE INDEX statements for a table definition
+ */
+function tableStatements(name: string, definition: TableDefinition): string[] {
+  const escapedTableName = escapeIdentifier(name);
+  const columns = Object.entries(definition.columns).map(([colName, col]) => columnSql(colName, col));
+  const indexes = Object.entries(declaredIndexes(name, definition)).map(([idxName, idx]) => indexSql(name, idxName, idx));
+
+  return [`CREATE TABLE IF NOT EXISTS ${escapedTableName} (${columns.join(', ')})`, ...indexes];
+}
+
+function indexSql(table: string, name: string, columns: string[]): string {
+  const escapedCols = columns.map(c => escapeIdentifier(c)).join(', ');
+  return `CREATE INDEX IF NOT EXISTS ${escapeIdentifier(name)} ON ${escapeIdentifier(table)}(${escapedCols})`;
+}
+
+/**
+ * Statements for one migration step
+ */
+function stepStatements(step: MigrationStep): string[] {
+  const table = escapeIdentifier(step.table);
+  switch (step.type) {
+    case 'create_table':
+      return tableStatements(step.table, step.definition);
+    case 'add_column': {
+      // SQLite cannot add UNIQUE columns, so uniqueness comes from an index
+      const statements = [`ALTER TABLE ${table} ADD COLUMN ${columnSql(step.column, { ...step.definition, unique: false })}`];
+      if (step.definition.unique) {
+        const name = escapeIdentifier(`uniq_${step.table}_${step.column}`);
+        statements.push(`CREATE UNIQUE INDEX ${name} ON ${table}(${escapeIdentifier(step.column)})`);
+      }
+      return statements;
+    }
+    case 'rename_column':
+      return [`ALTER TABLE ${table} RENAME COLUMN ${escapeIdentifier(step.from)} TO ${escapeIdentifier(step.to)}`];
+    case 'drop_column':
+      return [`ALTER TABLE ${table} DROP COLUMN ${escapeIdentifier(step.column)}`];
+    case 'create_index':
+      return [indexSql(step.table, step.name, step.columns)];
+    case 'drop_index':
+      return [`DROP INDEX IF EXISTS ${escapeIdentifier(step.name)}`];
+  }
+}
+
 export class SQLiteAdapter implements StorageAdapter {
   private db: Database.Database;
   private tables: Set<string> = new Set();
@@ -147,90 +283,106 @@ export class SQLiteAdapter implements StorageAdapter {
   async createTable(name: string, definition: TableDefinition): Promise<void> {
     if (this.tables.has(name)) return;
 
-    const columns: string[] = [];
-    const indexes: string[] = [];
-
-    for (const [colName, columnDef] of Object.entries(definition.columns)) {
-      const col = columnDef as TableColumn;
-      let sqlType: string;
-      switch (col.type) {
-        case 'string':
-          sqlType = 'TEXT';
-          break;
-        case 'number':
-          sqlType = 'REAL';
-          break;
-        case 'boolean':
-          sqlType = 'INTEGER';
-          break;
-        case 'json':
-          sqlType = 'TEXT';
-          break;
-        case 'timestamp':
-          sqlType = 'INTEGER';
-          break;
-        default:
-          sqlType = 'TEXT';
-      }
+    // Existing tables get missing indexes; other changes go through
+    // migrations (see planMigration)
+    const schema = await this.getTableSchema(name);
+    const statements = schema
+      ? Object.entries(missingIndexes(name, definition, schema)).map(([indexName, columns]) =>
+          indexSql(name, indexName, columns)
+        )
+      : tableStatements(name, definition);
+    for (const statement of statements) {
+      this.db.exec(statement);
+    }
 
-      const escapedColName = escapeIdentifier(colName);
-      let colDef = `${escapedColName} ${sqlType}`;
+    this.tables.add(name);
+  }
 
-      if (col.primary) {
-        colDef += ' PRIMARY KEY';
-      }
+  /**
+   * Read a table's columns and indexes, or null if it does not exist
+   */
+  async getTableSchema(name: string): Promise<TableSchema | null> {
+    const columns = this.db
+      .prepare('SELECT name, type, "notnull", pk FROM pragma_table_info(?)')
+      .all(name) as { name: string; type: string; notnull: number; pk: number }[];
+    if (columns.length === 0) return null;
+
+    const schema: TableSchema = { columns: {}, indexes: {} };
+    for (const column of columns) {
+      schema.columns[column.name] = {
+        sqlType: column.type.toUpperCase(),
+        nullable: column.notnull === 0,
+        primary: column.pk > 0,
+      };
+    }
 
-      if (!col.nullable) {
-        colDef += ' NOT NULL';
-      }
+    // Only indexes made with CREATE INDEX; constraints index themselves
+    const indexes = this.db
+      .prepare('SELECT name, "unique", origin FROM pragma_index_list(?)')
+      .all(name) as { name: string; unique: number; origin: string }[];
+    for (const index of indexes) {
+      if (index.unique || index.origin !== 'c') continue;
+      const indexColumns = this.db
+        .prepare('SELECT name FROM pragma_index_info(?) ORDER BY seqno')
+        .all(index.name) as { name: string }[];
+      schema.indexes[index.name] = indexColumns.map((c) => c.name);
+    }
 
-      if (col.unique) {
-        colDef += ' UNIQUE';
-      }
+    return schema;
+  }
 
-      if (col.default !== undefined) {
-        // Only allow safe primitive types as defaults to prevent SQL injection
-        const defaultType = typeof col.default;
-        if (defaultType === 'string') {
-          // Escape single quotes for SQLite string literals
-          const escaped = String(col.default).replace(/'/g, "''");
-          colDef += ` DEFAULT '${escaped}'`;
-        } else if (defaultType === 'number' && Number.isFinite(col.default)) {
-          colDef += ` DEFAULT ${col.default}`;
-        } else if (defaultType === 'boolean') {
-          colDef += ` DEFAULT ${col.default ? 1 : 0}`;
-        } else if (col.default === null) {
-          colDef += ` DEFAULT NULL`;
+  async planMigration(tables: Record<string, TableDefinition>): Promise<MigrationPlan> {
+    const live: Record<string, TableSchema | null> = {};
+    for (const name of Object.keys(tables)) {
+      live[name] = await this.getTableSchema(name);
+    }
+    return diffTables(tables, live, columnType);
+  }
+
+  async applyMigration(plan: MigrationPlan): Promise<MigrationRecord[]> {
+    const records = recordMigrations(plan, await this.getMigrations());
+    const record = this.db.prepare(
+      `INSERT INTO ${MIGRATIONS_TABLE} (table_name, version, steps, applied_at) VALUES (?, ?, ?, ?)`
+    );
+
+    // DDL is transactional in SQLite, so a failed step leaves no changes
+    this.db.transaction(() => {
+      for (const step of plan.steps) {
+        for (const statement of stepStatements(step)) {
+          this.db.exec(statement);
         }
-        // Silently skip complex types (objects, functions) to prevent injection
       }
-
-      columns.push(colDef);
-
-      if (col.index && !col.primary && !col.unique) {
-        const escapedTableName = escapeIdentifier(name);
-        indexes.push(`CREATE INDEX IF NOT EXISTS "idx_${name}_${colName}" ON ${escapedTableName}(${escapedColName})`);
+      for (const { table, version, steps, appliedAt } of records) {
+        record.run(table, version, JSON.stringify(steps), appliedAt);
       }
-    }
+    })();
 
-    // Add composite indexes
-    if (definition.indexes) {
-      for (const idx of definition.indexes) {
-        const idxName = `idx_${name}_${idx.join('_')}`;
-        const escapedTableName = escapeIdentifier(name);
-        const escapedCols = idx.map(c => escapeIdentifier(c)).join(', ');
-        indexes.push(`CREATE INDEX IF NOT EXISTS "${idxName}" ON ${escapedTableName}(${escapedCols})`);
-      }
+    for (const step of plan.steps) {
+      if (step.type === 'create_table') this.tables.add(step.table);
     }
+    return records;
+  }
 
-    const escapedTableName = escapeIdentifier(name);
-    this.db.exec(`CREATE TABLE IF NOT EXISTS ${escapedTableName} (${columns.join(', ')})`);
-
-    for (const idx of indexes) {
-      this.db.exec(idx);
-    }
+  async getMigrations(): Promise<MigrationRecord[]> {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        table_name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        steps TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      )
+    `);
 
-    this.tables.add(name);
+    const rows = this.db
+      .prepare(`SELECT table_name, version, steps, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY id`)
+      .all() as { table_name: string; version: number; steps: string; applied_at: number }[];
+    return rows.map((row) => ({
+      table: row.table_name,
+      version: row.version,
+      steps: JSON.parse(row.steps),
+      appliedAt: row.applied_at,
+    }));
   }
 
   async insert(table: string, data: Record<string, unknown>): Promise<void> {
@@ -238,16 +390,7 @@ export class SQLiteAdapter implements StorageAdapter {
     const columns = Object.keys(data);
     const escapedColumns = columns.map(c => escapeIdentifier(c)).join(', ');
     const placeholders = columns.map(() => '?').join(', ');
-    const values = columns.map((col) => {
-      const val = data[col];
-      if (typeof val === 'object' && val !== null) {
-        return JSON.stringify(val);
-      }
-      if (typeof val === 'boolean') {
-        return val ? 1 : 0;
-      }
-      return val;
-    });
+    const values = columns.map((col) => toSqlValue(data[col]));
 
     this.db
       .prepare(`INSERT INTO ${escapedTable} (${escapedColumns}) VALUES (${placeholders})`)
@@ -256,77 +399,68 @@ export class SQLiteAdapter implements StorageAdapter {
 
   async update(
     table: string,
-    where: Record<string, unknown>,
+    where: Where,
     data: Record<string, unknown>
   ): Promise<number> {
     const escapedTable = escapeIdentifier(table);
     const setClauses = Object.keys(data).map((col) => `${escapeIdentifier(col)} = ?`);
-    const whereClauses = Object.keys(where).map((col) => `${escapeIdentifier(col)} = ?`);
-
-    const values = [
-      ...Object.values(data).map((v) =>
-        typeof v === 'object' && v !== null ? JSON.stringify(v) :
-        typeof v === 'boolean' ? (v ? 1 : 0) : v
-      ),
-      ...Object.values(where),
-    ];
+    const params = Object.values(data).map(toSqlValue);
+    const whereClause = whereSql(where, dialect, params);
 
     const result = this.db
-      .prepare(`UPDATE ${escapedTable} SET ${setClauses.join(', ')} WHERE ${whereClauses.join(' AND ')}`)
-      .run(...values);
+      .prepare(`UPDATE ${escapedTable} SET ${setClauses.join(', ')}${whereClause}`)
+      .run(...params);
 
     return result.changes;
   }
 
-  async deleteRows(table: string, where: Record<string, unknown>): Promise<number> {
+  async deleteRows(table: string, where: Where): Promise<number> {
     const escapedTable = escapeIdentifier(table);
-    const whereClauses = Object.keys(where).map((col) => `${escapeIdentifier(col)} = ?`);
-    const values = Object.values(where);
+    const params: unknown[] = [];
+    const whereClause = whereSql(where, dialect, params);
 
     const result = this.db
-      .prepare(`DELETE FROM ${escapedTable} WHERE ${whereClauses.join(' AND ')}`)
-      .run(...values);
+      .prepare(`DELETE FROM ${escapedTable}${whereClause}`)
+      .run(...params);
 
     return result.changes;
   }
 
   async query(table: string, options: QueryOptions): Promise<Record<string, unknown>[]> {
-    const escapedTable = escapeIdentifier(table);
-    const columns = options.select
-      ? options.select.map(c => escapeIdentifier(c)).join(', ')
-      : '*';
-    let query = `SELECT ${columns} FROM ${escapedTable}`;
+    const plan = planQuery(options);
     const params: unknown[] = [];
+    let query = selectSql(table, plan, dialect, params);
 
-    if (options.where && Object.keys(options.where).length > 0) {
-      const whereClauses = Object.keys(options.where).map((col) => `${escapeIdentifier(col)} = ?`);
-      query += ` WHERE ${whereClauses.join(' AND ')}`;
-      params.push(...Object.values(options.where));
+    // SQLite only takes OFFSET after a LIMIT; -1 means no limit
+    if (plan.limit !== null || plan.offset !== null) {
+      query += ` LIMIT ${plan.limit ?? -1}`;
     }
-
-    if (options.orderBy) {
-      // Validate and escape orderBy to prevent SQL injection
-      const orderMatch = options.orderBy.match(/^([a-zA-Z_][a-zA-Z0-9_]*)(\s+(ASC|DESC))?$/i);
-      if (orderMatch) {
-        query += ` ORDER BY ${escapeIdentifier(orderMatch[1]!)}${orderMatch[2] ?? ''}`;
-      }
+    if (plan.offset !== null) {
+      query += ` OFFSET ${plan.offset}`;
     }
 
-    if (options.limit) {
-      // Cap limit to prevent resource exhaustion (max 10000 rows)
-      const MAX_LIMIT = 10000;
-      const limit = Math.min(MAX_LIMIT, Math.max(0, Math.floor(Number(options.limit))));
-      query += ` LIMIT ${limit}`;
-    }
+    return this.db.prepare(query).all(...params) as Record<string, unknown>[];
+  }
 
-    if (options.offset) {
-      // Cap offset to prevent extreme pagination (max 1 million)
-      const MAX_OFFSET = 1000000;
-      const offset = Math.min(MAX_OFFSET, Math.max(0, Math.floor(Number(options.offset))));
-      query += ` OFFSET ${offset}`;
+  /**
+   * Run fn in a transaction on the single connection. better-sqlite3's own
+   * transaction() is synchronous, so this issues BEGIN and COMMIT itself;
+   * callers keep other work off the adapter until it settles.
+   */
+  async transaction<T>(fn: (tx: StorageAdapter) => Promise<T>): Promise<T> {
+    if (this.db.inTransaction) return fn(this);
+
+    // IMMEDIATE takes the write lock up front, so another process writing
+    // the same file fails here rather than halfway through fn
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = await fn(this);
+      this.db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      if (this.db.inTransaction) this.db.exec('ROLLBACK');
+      throw error;
     }
-
-    return this.db.prepare(query).all(...params) as Record<string, unknown>[];
   }
 
   async close(): Promise<void> {
@@ -32,25 +32,97 @@ export interface StorageAdapter {
   /** Update rows */
   update(
     table: string,
-    where: Record<string, unknown>,
+    where: Where,
     data: Record<string, unknown>
   ): Promise<number>;
   /** Delete rows */
-  deleteRows(table: string, where: Record<string, unknown>): Promise<number>;
+  deleteRows(table: string, where: Where): Promise<number>;
   /** Query rows */
   query(
     table: string,
     options: QueryOptions
   ): Promise<Record<string, unknown>[]>;
 
+  // Schema migrations, for adapters whose tables outlive the process
+  /** Compare declared tables with the tables in the database */
+  planMigration?(tables: Record<string, TableDefinition>): Promise<MigrationPlan>;
+  /** Apply a plan in one transaction, recording a new version of each changed table */
+  applyMigration?(plan: MigrationPlan): Promise<MigrationRecord[]>;
+  /** Migrations applied so far, oldest first */
+  getMigrations?(): Promise<MigrationRecord[]>;
+
+  /**
+   * Run fn so that its writes through tx commit together when it resolves
+   * and roll back together when it throws. Calls made while a transaction
+   * is open join it.
+   */
+  transaction?<T>(fn: (tx: StorageAdapter) => Promise<T>): Promise<T>;
+  /**
+   * Whether work outside an open transaction can use the adapter beside
+   * it. Adapters that run transactions on their one connection leave this
+   * unset, and callers keep other work off them until the transaction
+   * settles.
+   */
+  readonly concurrentTransactions?: boolean;
+
+  // Atomic writes, for adapters several processes use at once
+  /**
+   * Store a value only when the key holds no live value, in one step.
+   * Resolves whether the value was stored.
+   */
+  setIfAbsent?(key: string, value: StoredValue): Promise<boolean>;
+  /**
+   * Replace a key's value with fn's result in one step. fn gets the value
+   * stored now, or null, and runs again when another write got there
+   * first. Resolves the value stored.
+   */
+  modify?(key: string, fn: (current: StoredValue | null) => StoredValue): Promise<StoredValue>;
+
+  // Shared caches, for adapters several processes use at once
+  /**
+   * Listen for keys written by other processes, so cached copies can be
+   * dropped. The key is null when every key was cleared. Returns a function
+   * that stops listening.
+   */
+  onInvalidate?(listener: (key: string | null) => void): () => void;
+
   /** Close the connection */
   close(): Promise<void>;
 }
 
+/**
+ * Row filter. Each column maps to a value the row must equal (`null`
+ * matches missing values) or to operators; every entry must match.
+ * `$and` and `$or` hold lists of nested filters.
+ *
+ * @example { guild_id: '1', $or: [{ points: { $gte: 100 } }, { vip: true }] }
+ */
+export type Where = Record<string, unknown>;
+
+/** Operators for one column in a {@link Where} */
+export interface WhereOperators {
+  $eq?: unknown;
+  /** Not equal; rows where the column is null match unless the value is null */
+  $ne?: unknown;
+  $gt?: unknown;
+  $gte?: unknown;
+  $lt?: unknown;
+  $lte?: unknown;
+  $in?: unknown[];
+  $nin?: unknown[];
+  /** Case-insensitive pattern: `%` matches any text, `_` one character, `\` escapes */
+  $like?: string;
+}
+
 export interface QueryOptions {
-  where?: Record<string, unknown>;
+  where?: Where;
   select?: string[];
-  orderBy?: string;
+  /** Columns to sort by, each with optional ASC or DESC, as a list or comma-separated */
+  orderBy?: string | string[];
+  /** Columns to group rows by; each group becomes one row */
+  groupBy?: string | string[];
+  /** Aggregate columns by name, e.g. `{ total: 'sum(xp)', members: 'count(*)' }` */
+  aggregate?: Record<string, string>;
   limit?: number;
   offset?: number;
 }
@@ -62,9 +134,47 @@ export interface TableColumn {
   default?: unknown;
   unique?: boolean;
   index?: boolean;
+  /** Previous name of the column; migrations rename it instead of adding a new one */
+  renamed_from?: string;
 }
 
 export interface TableDefinition {
   columns: Record<string, TableColumn>;
   indexes?: string[][];
 }
+
+/** A table as it exists in the database */
+export interface TableSchema {
+  columns: Record<string, {
+    /** Column type as reported by the database, upper case */
+    sqlType: string;
+    nullable: boolean;
+    primary: boolean;
+  }>;
+  /** Non-unique indexes by name */
+  indexes: Record<string, string[]>;
+}
+
+/** One change to a table's schema */
+export type MigrationStep =
+  | { type: 'create_table'; table: string; definition: TableDefinition }
+  | { type: 'add_column'; table: string; column: string; definition: TableColumn }
+  | { type: 'rename_column'; table: string; from: string; to: string }
+  | { type: 'drop_column'; table: string; column: string }
+  | { type: 'create_index'; table: string; name: string; columns: string[] }
+  | { type: 'drop_index'; table: string; name: string };
+
+export interface MigrationPlan {
+  steps: MigrationStep[];
+  /** Differences that are not migrated automatically, such as column type changes */
+  warnings: string[];
+}
+
+/** A migration applied to one table */
+export interface MigrationRecord {
+  table: string;
+  /** 1 for the first migration of the table, then counting up */
+  version: number;
+  steps: MigrationStep[];
+  appliedAt: number;
+}
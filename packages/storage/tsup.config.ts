@@ -6,11 +6,12 @@ export default defineConfig({
     'src/sqlite/index.ts',
     'src/postgres/index.ts',
     'src/memory/index.ts',
+    'src/redis/index.ts',
   ],
   format: ['esm'],
   dts: true,
   clean: true,
   sourcemap: true,
   splitting: false,
-  external: ['better-sqlite3', 'pg'],
+  external: ['better-sqlite3', 'pg', 'ioredis'],
 });
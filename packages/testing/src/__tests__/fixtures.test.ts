@@ -0,0 +1,41 @@
+/**
+ * Context fixture tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEvaluator } from '@furlow/core';
+import { createContextFixture, contextFixtureNames } from '../fixtures/index.js';
+
+describe('createContextFixture', () => {
+  it('should build a message event context', () => {
+    const context = createContextFixture('message');
+
+    expect(context.message?.content).toBe('!rank <@123456789012345678> weekly');
+    expect(context.message?.author.id).toBe(context.user?.id);
+    expect(context.channel?.mention).toBe('<#111222333444555666>');
+    expect(context.interaction).toBeUndefined();
+  });
+
+  it('should build member and interaction contexts', () => {
+    const member = createContextFixture('member');
+    const interaction = createContextFixture('interaction');
+
+    expect(member.member?.display_name).toBe('Tester');
+    expect(member.message).toBeUndefined();
+    expect(member.channel).toBeUndefined();
+    expect(interaction.interaction?.command_name).toBe('rank');
+    expect(interaction.args).toEqual({ period: 'weekly', public: true });
+  });
+
+  it('should apply overrides and work with the evaluator', async () => {
+    const evaluator = createEvaluator();
+
+    for (const name of contextFixtureNames) {
+      const context = createContextFixture(name, { extra: 42 });
+      expect(await evaluator.evaluate('user.username + ":" + extra', context)).toBe('testuser:42');
+    }
+    expect(
+      await evaluator.evaluateTemplate('${member.display_name} in ${guild.name}', createContextFixture('member'))
+    ).toBe('Tester in Test Server');
+  });
+});
@@ -150,6 +150,7 @@ export function createTrackedHandler(
     name: handler.name,
     schema: handler.schema,
     validate: handler.validate,
+    compensate: handler.compensate,
     async execute(config: Action, context: ActionContext): Promise<ActionResult> {
       const result = await handler.execute(config, context);
       tracker.recordExecution(handler.name, config, result, context);
@@ -12,12 +12,16 @@ import type { ActionContext, ActionResult, ActionHandler } from '@furlow/core';
 import {
   loadSpecFromString,
   createEvaluator,
+  evaluatorOptionsFromLimits,
+  registerUserFunctions,
+  registerLookupFunctions,
   createActionRegistry,
   createActionExecutor,
   createFlowEngine,
   createEventRouter,
   createStateManager,
 } from '@furlow/core';
+import { createLocaleManager } from '@furlow/core/locale';
 import { createMemoryAdapter } from '@furlow/storage';
 import {
   ActionTracker,
@@ -667,12 +671,27 @@ export async function createE2ERuntime(
   });
 
   // Create core components
-  const evaluator = createEvaluator();
+  const evaluator = createEvaluator(evaluatorOptionsFromLimits(spec.limits));
+  if (spec.functions) {
+    registerUserFunctions(evaluator, spec.functions, { maxDepth: spec.limits?.function_depth });
+  }
   const baseRegistry = createActionRegistry();
   const flowEngine = createFlowEngine();
   const eventRouter = createEventRouter();
   const storage = createMemoryAdapter();
   const stateManager = createStateManager(storage);
+  registerLookupFunctions(evaluator, {
+    stateManager,
+    pipes: spec.pipes,
+    timezone: spec.state?.timezone,
+  });
+
+  // Formatting functions follow the interaction or guild locale
+  const localeManager = createLocaleManager();
+  if (spec.locale) {
+    localeManager.configure(spec.locale);
+  }
+  evaluator.setLocaleResolver((context) => localeManager.resolve(context));
 
   // Create tracker
   const tracker = createActionTracker();
@@ -3,6 +3,15 @@
  */
 
 import type { FurlowSpec } from '@furlow/schema';
+import type { FullContext } from '@furlow/core';
+import {
+  createMockUser,
+  createMockMember,
+  createMockGuild,
+  createMockChannel,
+  createMockMessage,
+  createMockInteraction,
+} from '../mocks/index.js';
 
 /**
  * Minimal valid spec
@@ -169,3 +178,124 @@ export const fullSpec: FurlowSpec = {
     },
   ],
 };
+
+/**
+ * Sample expression contexts
+ */
+export type ContextFixtureName = 'message' | 'member' | 'interaction';
+
+export const contextFixtureNames: ContextFixtureName[] = ['message', 'member', 'interaction'];
+
+/**
+ * Create a sample expression context, shaped like the context the runtime
+ * builds: `message` for a message_create event, `member` for member_join
+ * and `interaction` for a slash command with options
+ */
+export function createContextFixture(
+  name: ContextFixtureName,
+  overrides: Record<string, unknown> = {}
+): FullContext {
+  const user = createMockUser();
+  const member = createMockMember({ nickname: 'Tester', roles: ['444555666777888999'] });
+  const guild = createMockGuild();
+  const channel = createMockChannel();
+
+  const userContext = {
+    id: user.id,
+    username: user.username,
+    discriminator: user.discriminator,
+    tag: user.tag,
+    avatar: user.avatar,
+    bot: user.bot,
+    created_at: new Date('2020-01-01T00:00:00Z'),
+    mention: `<@${user.id}>`,
+  };
+
+  const context: FullContext = {
+    now: new Date(),
+    random: Math.random(),
+    user: userContext,
+    member: {
+      ...userContext,
+      nickname: member.nickname,
+      display_name: member.nickname ?? member.username,
+      joined_at: member.joinedAt,
+      boosting_since: null,
+      is_boosting: false,
+      roles: ['Test Role'],
+      role_ids: member.roles,
+      highest_role: 'Test Role',
+      permissions: ['SendMessages', 'ViewChannel'],
+      is_owner: false,
+    },
+    guild: {
+      id: guild.id,
+      name: guild.name,
+      icon: null,
+      owner_id: guild.ownerId,
+      member_count: guild.memberCount,
+      created_at: new Date('2020-01-01T00:00:00Z'),
+      premium_tier: 0,
+      premium_subscription_count: 0,
+      boost_count: 0,
+    },
+    guildId: guild.id,
+    userId: user.id,
+    args: {},
+    options: {},
+    state: {},
+  };
+
+  if (name === 'message' || name === 'interaction') {
+    context.channel = {
+      id: channel.id,
+      name: channel.name,
+      type: channel.type,
+      mention: `<#${channel.id}>`,
+      topic: null,
+      nsfw: false,
+      parent_id: null,
+    };
+    context.channelId = channel.id;
+  }
+
+  if (name === 'message') {
+    const message = createMockMessage({ content: '!rank <@123456789012345678> weekly' });
+    context.message = {
+      id: message.id,
+      content: message.content,
+      clean_content: '!rank @testuser weekly',
+      created_at: message.createdAt,
+      edited_at: null,
+      pinned: false,
+      tts: false,
+      mention_everyone: false,
+      mentions: [user.id],
+      mention_roles: [],
+      attachments: 0,
+      embeds: 0,
+      url: `https://discord.com/channels/${guild.id}/${channel.id}/${message.id}`,
+      author: {
+        id: user.id,
+        username: user.username,
+        tag: user.tag,
+        bot: user.bot,
+        avatar: user.avatar,
+      },
+    };
+    context.messageId = message.id;
+  } else if (name === 'interaction') {
+    const interaction = createMockInteraction({ commandName: 'rank' });
+    const options = { period: 'weekly', public: true };
+    context.interaction = {
+      id: interaction.id,
+      type: String(interaction.type),
+      command_name: interaction.commandName,
+      options,
+    };
+    context.args = options;
+    context.options = options;
+  }
+
+  return Object.assign(context, overrides);
+}